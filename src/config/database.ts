@@ -38,10 +38,12 @@ const MONGO_URI =
 /**
  * Connects to the MongoDB database.
  *
- * This function does three important things:
+ * This function does two important things:
  * 1. Sets up event listeners to monitor the connection status
- * 2. Handles graceful shutdown when the app is terminated (SIGINT)
- * 3. Establishes the actual connection to MongoDB
+ * 2. Establishes the actual connection to MongoDB
+ *
+ * Closing the connection on shutdown is left to the server (see
+ * disconnectDB), which first lets background jobs finish.
  *
  * The function is async because connecting to a database is an I/O operation
  * that takes time - we need to wait for the connection before proceeding.
@@ -85,19 +87,6 @@ export async function connectDB(): Promise<void> {
 			console.log('⚠️  MongoDB disconnected');
 		});
 
-		/*
-		 * Handle a graceful shutdown.
-		 *
-		 * SIGINT is the signal sent when you press Ctrl+C in the terminal.
-		 * We want to close the database connection cleanly before exiting,
-		 * rather than just killing the process abruptly.
-		 */
-		process.on('SIGINT', async () => {
-			await mongoose.connection.close();
-			console.log('MongoDB connection closed due to app termination');
-			process.exit(0);
-		});
-
 		/*
 		 * Actually connect to MongoDB.
 		 *
@@ -116,3 +105,17 @@ export async function connectDB(): Promise<void> {
 	}
 }
 
+/**
+ * Closes the MongoDB connection.
+ *
+ * Called during a graceful shutdown, after the HTTP server and the job
+ * worker have stopped, so nothing is still using the connection.
+ *
+ * @async
+ * @function disconnectDB
+ * @returns {Promise<void>} Resolves when the connection is closed
+ */
+export async function disconnectDB(): Promise<void> {
+	await mongoose.connection.close();
+	console.log('MongoDB connection closed due to app termination');
+}
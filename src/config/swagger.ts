@@ -49,10 +49,16 @@ Obtain a token by registering and logging in via the /auth endpoints.
 		tags: [
 			{ name: 'Health', description: 'Health check endpoints' },
 			{ name: 'Auth', description: 'Authentication endpoints' },
+			{ name: 'Role Applications', description: 'Host and guide role applications' },
 			{ name: 'Homestays', description: 'Homestay management' },
 			{ name: 'Guides', description: 'Tour guide management' },
 			{ name: 'Products', description: 'Product catalog' },
 			{ name: 'Bookings', description: 'Booking management' },
+			{ name: 'Payments', description: 'Booking payments and provider webhooks' },
+			{ name: 'Refunds', description: 'Refund ledger (admin)' },
+			{ name: 'Jobs', description: 'Background jobs (admin)' },
+			{ name: 'Roles', description: 'Role permissions (admin)' },
+			{ name: 'Users', description: 'Account unlocks and lockout audit (admin)' },
 			{ name: 'Search', description: 'Unified search' }
 		],
 		components: {
@@ -64,6 +70,15 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					description: 'JWT token obtained from /auth/login'
 				}
 			},
+			parameters: {
+				IdempotencyKey: {
+					name: 'Idempotency-Key',
+					in: 'header',
+					required: false,
+					description: 'Unique key per request. Retries with the same key and body replay the first response (Idempotent-Replayed: true); the same key with a different body returns 422.',
+					schema: { type: 'string', maxLength: 255 }
+				}
+			},
 			schemas: {
 				// Common schemas
 				ApiResponse: {
@@ -110,6 +125,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 						name: { type: 'string', example: 'John Doe' },
 						role: { type: 'string', enum: ['admin', 'host', 'guide', 'customer'], example: 'customer' },
 						isActive: { type: 'boolean', example: true },
+						emailVerified: { type: 'boolean', example: false },
 						createdAt: { type: 'string', format: 'date-time' }
 					}
 				},
@@ -119,8 +135,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					properties: {
 						email: { type: 'string', format: 'email', example: 'newuser@example.com' },
 						password: { type: 'string', minLength: 8, example: 'SecurePass123!' },
-						name: { type: 'string', example: 'Jane Doe' },
-						role: { type: 'string', enum: ['host', 'guide', 'customer'], example: 'customer' }
+						name: { type: 'string', example: 'Jane Doe' }
 					}
 				},
 				LoginInput: {
@@ -139,7 +154,8 @@ Obtain a token by registering and logging in via the /auth endpoints.
 							type: 'object',
 							properties: {
 								user: { $ref: '#/components/schemas/User' },
-								token: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' }
+								token: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+								refreshToken: { type: 'string', example: 'q4Jx0...' }
 							}
 						}
 					}
@@ -153,6 +169,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 						name: { type: 'string', example: 'Tribal Heritage Homestay' },
 						description: { type: 'string' },
 						hostName: { type: 'string', example: 'Ravi Kumar' },
+						hostId: { type: 'string', description: 'Owning host account (set on create)' },
 						location: {
 							type: 'object',
 							properties: {
@@ -175,7 +192,8 @@ Obtain a token by registering and logging in via the /auth endpoints.
 						images: { type: 'array', items: { type: 'string', format: 'uri' } },
 						rating: { type: 'number', example: 4.5 },
 						isVerified: { type: 'boolean' },
-						isActive: { type: 'boolean' }
+						isActive: { type: 'boolean' },
+						cancellationPolicy: { $ref: '#/components/schemas/CancellationPolicy' }
 					}
 				},
 				CreateHomestay: {
@@ -205,7 +223,28 @@ Obtain a token by registering and logging in via the /auth endpoints.
 						pricePerNight: { type: 'number', minimum: 0 },
 						maxGuests: { type: 'integer', minimum: 1, maximum: 50 },
 						amenities: { type: 'array', items: { type: 'string' } },
-						images: { type: 'array', items: { type: 'string', format: 'uri' } }
+						images: { type: 'array', items: { type: 'string', format: 'uri' } },
+						cancellationPolicy: { $ref: '#/components/schemas/CancellationPolicy' }
+					}
+				},
+
+				// Cancellation policy (homestays and guides)
+				CancellationPolicy: {
+					type: 'object',
+					description: 'Guest refund rules. Defaults: flexible 1+ day 100%; moderate 5+ days 100%, 1+ day 50%; strict 14+ days 100%, 7+ days 50%.',
+					properties: {
+						type: { type: 'string', enum: ['flexible', 'moderate', 'strict', 'custom'], default: 'moderate' },
+						tiers: {
+							type: 'array',
+							description: 'Required for custom; overrides the default tiers of named policies',
+							items: {
+								type: 'object',
+								properties: {
+									daysBeforeCheckIn: { type: 'number', minimum: 0, example: 7 },
+									refundPercent: { type: 'number', minimum: 0, maximum: 100, example: 50 }
+								}
+							}
+						}
 					}
 				},
 
@@ -215,6 +254,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					properties: {
 						_id: { type: 'string' },
 						name: { type: 'string', example: 'Suresh Mahato' },
+						userId: { type: 'string', description: 'Owning guide account (set on create or claim)' },
 						bio: { type: 'string' },
 						languages: { type: 'array', items: { type: 'string' }, example: ['Hindi', 'English', 'Santhali'] },
 						specializations: { type: 'array', items: { type: 'string' }, example: ['Tribal Culture', 'Wildlife'] },
@@ -224,7 +264,8 @@ Obtain a token by registering and logging in via the /auth endpoints.
 						email: { type: 'string', format: 'email' },
 						rating: { type: 'number', example: 4.8 },
 						isVerified: { type: 'boolean' },
-						isAvailable: { type: 'boolean' }
+						isAvailable: { type: 'boolean' },
+						cancellationPolicy: { $ref: '#/components/schemas/CancellationPolicy' }
 					}
 				},
 
@@ -368,7 +409,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				post: {
 					tags: ['Auth'],
 					summary: 'Register new user',
-					description: 'Create a new user account',
+					description: 'Create a new customer account. Hosts and guides apply for their role afterwards via /role-applications.',
 					requestBody: {
 						required: true,
 						content: {
@@ -402,7 +443,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				post: {
 					tags: ['Auth'],
 					summary: 'User login',
-					description: 'Authenticate user and receive JWT token',
+					description: 'Authenticate user and receive an access token and a refresh token. Repeated failures are delayed and then lock the account (429 with Retry-After).',
 					requestBody: {
 						required: true,
 						content: {
@@ -427,7 +468,141 @@ Obtain a token by registering and logging in via the /auth endpoints.
 									schema: { $ref: '#/components/schemas/ApiError' }
 								}
 							}
+						},
+						'429': {
+							description: 'Too many failed attempts (delay, account lockout or IP block); see Retry-After',
+							content: {
+								'application/json': {
+									schema: { $ref: '#/components/schemas/ApiError' }
+								}
+							}
+						}
+					}
+				}
+			},
+			'/auth/refresh': {
+				post: {
+					tags: ['Auth'],
+					summary: 'Refresh tokens',
+					description: 'Exchanges a refresh token for a new pair. Each refresh token works once; a reused one revokes the whole session.',
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										refreshToken: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'New access token and refresh token' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { description: 'Invalid, expired, revoked or reused refresh token' },
+						'403': { description: 'Account is deactivated' }
+					}
+				}
+			},
+			'/auth/logout': {
+				post: {
+					tags: ['Auth'],
+					summary: 'Logout',
+					description: 'Ends the session the refresh token belongs to',
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										refreshToken: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Logged out' },
+						'400': { $ref: '#/components/responses/BadRequest' }
+					}
+				}
+			},
+			'/auth/forgot-password': {
+				post: {
+					tags: ['Auth'],
+					summary: 'Forgot password',
+					description: 'Emails a single-use password reset link if an active account uses the address',
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										email: { type: 'string', format: 'email' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Same response whether or not the account exists' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'429': { description: 'Too many requests' }
+					}
+				}
+			},
+			'/auth/reset-password': {
+				post: {
+					tags: ['Auth'],
+					summary: 'Reset password',
+					description: 'Sets a new password with the token from the reset email',
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										token: { type: 'string' },
+										password: { type: 'string', example: 'NewSecure456' }
+									}
+								}
+							}
 						}
+					},
+					responses: {
+						'200': { description: 'Password reset; all sessions ended' },
+						'400': { description: 'Invalid, used or expired token, or a weak password' },
+						'429': { description: 'Too many requests' }
+					}
+				}
+			},
+			'/auth/verify-email': {
+				get: {
+					tags: ['Auth'],
+					summary: 'Verify email',
+					description: 'Verifies the email address with the token from the verification email',
+					parameters: [
+						{ name: 'token', in: 'query', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Email verified; returns the user' },
+						'400': { description: 'Missing, invalid, used or expired token' },
+						'429': { description: 'Too many requests' }
+					}
+				}
+			},
+			'/auth/verify-email/resend': {
+				post: {
+					tags: ['Auth'],
+					summary: 'Resend verification email',
+					description: 'Sends a new verification link; the earlier one stops working',
+					security: [{ bearerAuth: [] }],
+					responses: {
+						'200': { description: 'Verification email sent' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'409': { description: 'Email is already verified' },
+						'429': { description: 'Sent recently; see Retry-After' }
 					}
 				}
 			},
@@ -435,7 +610,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				get: {
 					tags: ['Auth'],
 					summary: 'Get current user',
-					description: 'Get the currently authenticated user profile',
+					description: 'Get the currently authenticated user profile and the effective permissions of the role in the token',
 					security: [{ bearerAuth: [] }],
 					responses: {
 						'200': {
@@ -446,7 +621,17 @@ Obtain a token by registering and logging in via the /auth endpoints.
 										type: 'object',
 										properties: {
 											success: { type: 'boolean', example: true },
-											data: { $ref: '#/components/schemas/User' }
+											data: {
+												allOf: [
+													{ $ref: '#/components/schemas/User' },
+													{
+														type: 'object',
+														properties: {
+															permissions: { type: 'array', items: { type: 'string' }, example: ['homestay:read', 'booking:create'] }
+														}
+													}
+												]
+											}
 										}
 									}
 								}
@@ -456,6 +641,178 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					}
 				}
 			},
+			'/auth/sessions': {
+				get: {
+					tags: ['Auth'],
+					summary: 'List my sessions',
+					description: 'Logged-in sessions (devices) of the current user, most recently used first',
+					security: [{ bearerAuth: [] }],
+					responses: {
+						'200': { description: 'Live sessions with userAgent, ip, createdAt, lastUsedAt, expiresAt and current' },
+						'401': { $ref: '#/components/responses/Unauthorized' }
+					}
+				},
+				delete: {
+					tags: ['Auth'],
+					summary: 'Log out everywhere',
+					description: 'Ends every session of the current user, including this one',
+					security: [{ bearerAuth: [] }],
+					responses: {
+						'200': { description: 'All sessions ended; data.revoked is the number ended' },
+						'401': { $ref: '#/components/responses/Unauthorized' }
+					}
+				}
+			},
+			'/auth/sessions/{id}': {
+				delete: {
+					tags: ['Auth'],
+					summary: 'End a session',
+					description: 'Its refresh token stops working and its access tokens are rejected from the next request',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, description: 'Session ID', schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Session ended' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'404': { description: 'No such live session of the current user' }
+					}
+				}
+			},
+			'/role-applications': {
+				post: {
+					tags: ['Role Applications'],
+					summary: 'Apply for a role',
+					description: 'Apply for the host or guide role. One pending application per user.',
+					security: [{ bearerAuth: [] }],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										requestedRole: { type: 'string', enum: ['host', 'guide'] },
+										details: { type: 'object', required: ['phone', 'about'], properties: { phone: { type: 'string' }, about: { type: 'string', minLength: 20 }, district: { type: 'string' }, businessName: { type: 'string' }, documents: { type: 'array', items: { type: 'string', format: 'uri' } } } }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'201': { description: 'Application submitted' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'409': { description: 'A pending application already exists' }
+					}
+				},
+				get: {
+					tags: ['Role Applications'],
+					summary: 'List role applications',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'approved', 'rejected'], default: 'pending' } },
+						{ name: 'requestedRole', in: 'query', schema: { type: 'string', enum: ['host', 'guide'] } }
+					],
+					responses: {
+						'200': { description: 'Applications, oldest first' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/role-applications/mine': {
+				get: {
+					tags: ['Role Applications'],
+					summary: 'List my role applications',
+					security: [{ bearerAuth: [] }],
+					responses: {
+						'200': { description: 'Applications of the logged-in user, newest first' },
+						'401': { $ref: '#/components/responses/Unauthorized' }
+					}
+				}
+			},
+			'/role-applications/{id}': {
+				get: {
+					tags: ['Role Applications'],
+					summary: 'Get role application',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Application with the applicant' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/role-applications/{id}/approve': {
+				put: {
+					tags: ['Role Applications'],
+					summary: 'Approve role application',
+					description: 'Admin only. Changes the user role and records the change in roleChanges.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										note: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Approved; the user gets the role at their next login' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Application was already reviewed' }
+					}
+				}
+			},
+			'/role-applications/{id}/reject': {
+				put: {
+					tags: ['Role Applications'],
+					summary: 'Reject role application',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										reason: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Rejected' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Application was already reviewed' }
+					}
+				}
+			},
 			'/homestays': {
 				get: {
 					tags: ['Homestays'],
@@ -523,6 +880,22 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					}
 				}
 			},
+			'/homestays/mine': {
+				get: {
+					tags: ['Homestays'],
+					summary: 'List my homestays',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } }
+					],
+					responses: {
+						'200': { description: 'Homestays owned by the logged-in host, including inactive ones' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
 			'/homestays/{id}': {
 				get: {
 					tags: ['Homestays'],
@@ -551,6 +924,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				put: {
 					tags: ['Homestays'],
 					summary: 'Update homestay',
+					description: 'Hosts can only update their own homestays.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
 						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
@@ -573,6 +947,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				delete: {
 					tags: ['Homestays'],
 					summary: 'Delete homestay',
+					description: 'Hosts can only delete their own homestays.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
 						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
@@ -585,15 +960,200 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					}
 				}
 			},
-			'/guides': {
-				get: {
-					tags: ['Guides'],
-					summary: 'List all guides',
+			'/homestays/{id}/owner': {
+				put: {
+					tags: ['Homestays'],
+					summary: 'Assign homestay owner',
+					description: 'Admin only. Links a homestay without an owner (or with the wrong one) to a host account.',
+					security: [{ bearerAuth: [] }],
 					parameters: [
-						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
-						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
-						{ name: 'language', in: 'query', schema: { type: 'string' } },
-						{ name: 'specialization', in: 'query', schema: { type: 'string' } }
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										userId: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Homestay assigned to the host' },
+						'400': { description: 'User is not a host account' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/availability': {
+				get: {
+					tags: ['Homestays'],
+					summary: 'Get homestay availability calendar',
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'First day (default: today)' },
+						{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Day after the last day (default: from + 30 days)' }
+					],
+					responses: {
+						'200': { description: 'Per-day status (available/booked/blocked) and nightly price' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/blocks': {
+				get: {
+					tags: ['Homestays'],
+					summary: 'List blocked dates',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Availability blocks' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				},
+				post: {
+					tags: ['Homestays'],
+					summary: 'Block dates',
+					description: 'Blocked dates cannot be booked. endDate is exclusive.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										startDate: { type: 'string', format: 'date' },
+										endDate: { type: 'string', format: 'date' },
+										reason: { type: 'string', enum: ['personal', 'maintenance', 'other'] },
+										note: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'201': { description: 'Dates blocked' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Dates already booked or blocked' }
+					}
+				}
+			},
+			'/homestays/{id}/blocks/{blockId}': {
+				delete: {
+					tags: ['Homestays'],
+					summary: 'Remove a date block',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'blockId', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Block removed' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/calendar.ics': {
+				get: {
+					tags: ['Homestays'],
+					summary: 'iCal feed of bookings and blocked dates',
+					description: 'Secret feed URL for other platforms. Get it from /homestays/{id}/ical.',
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'token', in: 'query', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': {
+							description: 'iCalendar document',
+							content: { 'text/calendar': { schema: { type: 'string' } } }
+						},
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/ical': {
+				get: {
+					tags: ['Homestays'],
+					summary: 'Get iCal feed URL',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Feed URL (token created on first request)' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/ical/token': {
+				post: {
+					tags: ['Homestays'],
+					summary: 'Regenerate iCal feed URL',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'New feed URL; the old one stops working' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/homestays/{id}/ical/import': {
+				post: {
+					tags: ['Homestays'],
+					summary: 'Import an .ics file as blocked dates',
+					description: 'Replaces blocks from the previous import. Events that overlap bookings are skipped and reported.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						required: true,
+						content: {
+							'text/calendar': { schema: { type: 'string' } }
+						}
+					},
+					responses: {
+						'200': { description: 'Import summary (imported, removed, skipped)' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/guides': {
+				get: {
+					tags: ['Guides'],
+					summary: 'List all guides',
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+						{ name: 'language', in: 'query', schema: { type: 'string' } },
+						{ name: 'specialization', in: 'query', schema: { type: 'string' } }
 					],
 					responses: {
 						'200': {
@@ -642,6 +1202,7 @@ Obtain a token by registering and logging in via the /auth endpoints.
 				put: {
 					tags: ['Guides'],
 					summary: 'Update guide',
+					description: 'Guides can only update their own profile.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
 						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
@@ -668,6 +1229,71 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					}
 				}
 			},
+			'/guides/{id}/claim': {
+				post: {
+					tags: ['Guides'],
+					summary: 'Claim guide profile',
+					description: 'Guide role only. A guide account can own one profile.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Guide profile linked to the logged-in guide' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Profile already claimed, or the guide already has a profile' }
+					}
+				}
+			},
+			'/guides/{id}/owner': {
+				put: {
+					tags: ['Guides'],
+					summary: 'Assign guide owner',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										userId: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Guide profile assigned to the guide account' },
+						'400': { description: 'User is not a guide account' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'The guide already has a profile' }
+					}
+				}
+			},
+			'/guides/{id}/availability': {
+				get: {
+					tags: ['Guides'],
+					summary: 'Get guide availability calendar',
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'First day (default: today)' },
+						{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Day after the last day (default: from + 30 days)' }
+					],
+					responses: {
+						'200': { description: 'Per-day status (available/booked/blocked) and full-day price' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
 			'/products': {
 				get: {
 					tags: ['Products'],
@@ -753,13 +1379,15 @@ Obtain a token by registering and logging in via the /auth endpoints.
 			'/bookings': {
 				get: {
 					tags: ['Bookings'],
-					summary: 'List bookings',
-					description: 'Get user bookings (customers see own, hosts/guides see relevant)',
+					summary: 'List all bookings',
+					description: 'All bookings in the system (admin only). Customers use /bookings/mine; hosts and guides use /bookings/incoming.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
 						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
 						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
-						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] } }
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] } },
+						{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights on or after this date' },
+						{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights before this date' }
 					],
 					responses: {
 						'200': {
@@ -780,7 +1408,8 @@ Obtain a token by registering and logging in via the /auth endpoints.
 								}
 							}
 						},
-						'401': { $ref: '#/components/responses/Unauthorized' }
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
 					}
 				},
 				post: {
@@ -788,6 +1417,9 @@ Obtain a token by registering and logging in via the /auth endpoints.
 					summary: 'Create booking',
 					description: 'Create a new booking for homestay or guide',
 					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ $ref: '#/components/parameters/IdempotencyKey' }
+					],
 					requestBody: {
 						required: true,
 						content: {
@@ -812,47 +1444,709 @@ Obtain a token by registering and logging in via the /auth endpoints.
 							}
 						},
 						'400': { $ref: '#/components/responses/BadRequest' },
-						'401': { $ref: '#/components/responses/Unauthorized' }
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'409': {
+							description: 'Dates not available, submitted price does not match the server quote, or a request with the same Idempotency-Key is still running',
+							content: {
+								'application/json': {
+									schema: { $ref: '#/components/schemas/ApiError' }
+								}
+							}
+						},
+						'422': { description: 'Idempotency-Key already used for a different request' }
 					}
 				}
 			},
-			'/bookings/{id}': {
+			'/bookings/mine': {
 				get: {
 					tags: ['Bookings'],
-					summary: 'Get booking by ID',
+					summary: 'List my bookings',
+					description: 'Bookings made by the logged-in user. Bookings are linked to the account when created with a Bearer token.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
-						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] } },
+						{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights on or after this date' },
+						{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights before this date' }
 					],
 					responses: {
-						'200': { description: 'Booking details' },
-						'401': { $ref: '#/components/responses/Unauthorized' },
-						'404': { $ref: '#/components/responses/NotFound' }
+						'200': {
+							description: 'List of bookings',
+							content: {
+								'application/json': {
+									schema: {
+										type: 'object',
+										properties: {
+											success: { type: 'boolean' },
+											data: {
+												type: 'array',
+												items: { $ref: '#/components/schemas/Booking' }
+											},
+											pagination: { $ref: '#/components/schemas/PaginationMeta' }
+										}
+									}
+								}
+							}
+						},
+						'401': { $ref: '#/components/responses/Unauthorized' }
 					}
 				}
 			},
-			'/bookings/{id}/cancel': {
-				put: {
+			'/bookings/incoming': {
+				get: {
 					tags: ['Bookings'],
-					summary: 'Cancel booking',
+					summary: 'List incoming bookings',
+					description: 'Bookings on the homestays and guide profile owned by the logged-in host or guide.',
 					security: [{ bearerAuth: [] }],
 					parameters: [
-						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] } },
+						{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights on or after this date' },
+						{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Only bookings with nights before this date' }
+					],
+					responses: {
+						'200': {
+							description: 'List of bookings',
+							content: {
+								'application/json': {
+									schema: {
+										type: 'object',
+										properties: {
+											success: { type: 'boolean' },
+											data: {
+												type: 'array',
+												items: { $ref: '#/components/schemas/Booking' }
+											},
+											pagination: { $ref: '#/components/schemas/PaginationMeta' }
+										}
+									}
+								}
+							}
+						},
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/bookings/{id}': {
+				get: {
+					tags: ['Bookings'],
+					summary: 'Get booking by ID',
+					description: 'Only the user who made the booking, the owner of the booked listing and admins can read it.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Booking details' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/bookings/{id}/cancel': {
+				put: {
+					tags: ['Bookings'],
+					summary: 'Cancel booking',
+					description: 'Guest cancellations are refunded per the cancellation policy the booking was made under. Cancellations by the owner of the booked listing or an admin refund in full. Only the booker, the listing owner and admins can cancel. Paid bookings get a refund record for an admin to process.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										reason: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Booking cancelled, with cancelledBy, refundPercent, refundAmount and refundStatus' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Booking is already cancelled or completed' }
+					}
+				}
+			},
+			'/bookings/{id}/invoice': {
+				get: {
+					tags: ['Bookings'],
+					summary: 'Get booking GST invoice',
+					description: 'Issued and numbered (JY/25-26/000001) on the first request; later requests return the same invoice.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'format', in: 'query', schema: { type: 'string', enum: ['json', 'pdf'], default: 'json' } }
+					],
+					responses: {
+						'200': { description: 'Tax invoice with CGST/SGST per line, or the PDF when format=pdf', content: { 'application/json': {}, 'application/pdf': { schema: { type: 'string', format: 'binary' } } } },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Booking is not confirmed or paid' }
+					}
+				}
+			},
+			'/bookings/{id}/credit-note': {
+				get: {
+					tags: ['Bookings'],
+					summary: 'Get booking credit note',
+					description: 'Issued against the booking invoice when its refund succeeds.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+						{ name: 'format', in: 'query', schema: { type: 'string', enum: ['json', 'pdf'], default: 'json' } }
+					],
+					responses: {
+						'200': { description: 'Credit note for the refunded amount, or the PDF when format=pdf', content: { 'application/json': {}, 'application/pdf': { schema: { type: 'string', format: 'binary' } } } },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { description: 'Booking not found or no refund has succeeded yet' }
+					}
+				}
+			},
+			'/bookings/{id}/dates': {
+				put: {
+					tags: ['Bookings'],
+					summary: 'Change booking dates',
+					description: 'Keeps the booking number. Previous dates are recorded in dateChanges. Only the booker, the listing owner and admins can move a booking.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										checkIn: { type: 'string', format: 'date' },
+										checkOut: { type: 'string', format: 'date' },
+										tourDuration: { type: 'string', enum: ['halfDay', 'fullDay', 'multiDay'] },
+										reason: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Booking moved; nights and pricing recalculated' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Dates not available, booking is cancelled/completed, or booking is already paid or invoiced' }
+					}
+				}
+			},
+			'/bookings/{id}/confirm': {
+				put: {
+					tags: ['Bookings'],
+					summary: 'Confirm booking',
+					description: 'Confirm a pending booking (pending → confirmed). Only the owner of the booked listing or an admin. The change is recorded in statusHistory.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Booking confirmed' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Transition not allowed from the current status' }
+					}
+				}
+			},
+			'/bookings/{id}/reject': {
+				put: {
+					tags: ['Bookings'],
+					summary: 'Reject booking',
+					description: 'Reject a pending booking (pending → cancelled). Only the owner of the booked listing or an admin. The change is recorded in statusHistory.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										reason: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Booking rejected' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Transition not allowed from the current status' }
+					}
+				}
+			},
+			'/bookings/{id}/complete': {
+				put: {
+					tags: ['Bookings'],
+					summary: 'Complete booking',
+					description: 'Mark a confirmed booking as completed (confirmed → completed). Only the owner of the booked listing or an admin. The change is recorded in statusHistory.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Booking completed' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Transition not allowed from the current status' }
+					}
+				}
+			},
+			'/bookings/quote': {
+				post: {
+					tags: ['Bookings'],
+					summary: 'Get booking price quote',
+					description: 'Calculate the itemized price (nightly/daily rates, cleaning fee, service fee, GST by slab) for the given dates and guests without creating a booking. The same calculation is used when the booking is created.',
+					requestBody: {
+						required: true,
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									required: ['listingType', 'listingId', 'checkIn', 'checkOut', 'guests'],
+									properties: {
+										listingType: { type: 'string', enum: ['homestay', 'guide'] },
+										listingId: { type: 'string' },
+										checkIn: { type: 'string', format: 'date' },
+										checkOut: { type: 'string', format: 'date' },
+										guests: {
+											type: 'object',
+											properties: {
+												adults: { type: 'integer', minimum: 1 },
+												children: { type: 'integer', minimum: 0 }
+											}
+										},
+										tourDuration: { type: 'string', enum: ['halfDay', 'fullDay', 'multiDay'], description: 'Guide bookings only' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Itemized quote' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/bookings/lookup': {
+				post: {
+					tags: ['Bookings'],
+					summary: 'Find booking by number and email',
+					description: 'Lets a guest who booked without an account find their booking. A wrong email returns 404 like an unknown number. Limited to 10 requests per IP every 15 minutes (shared with /bookings/lookup/cancel).',
+					requestBody: {
+						required: true,
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									required: ['bookingNumber', 'email'],
+									properties: {
+										bookingNumber: { type: 'string', example: 'JY-2025-001234' },
+										email: { type: 'string', format: 'email' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Booking' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'429': { description: 'Too many lookups; retry after the Retry-After header' }
+					}
+				}
+			},
+			'/bookings/lookup/cancel': {
+				post: {
+					tags: ['Bookings'],
+					summary: 'Cancel booking by number and email',
+					description: 'Cancels a booking found by booking number and guest email, refunded under the booking\'s cancellation policy like any guest cancellation. Shares the rate limit of /bookings/lookup.',
+					requestBody: {
+						required: true,
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									required: ['bookingNumber', 'email'],
+									properties: {
+										bookingNumber: { type: 'string', example: 'JY-2025-001234' },
+										email: { type: 'string', format: 'email' },
+										reason: { type: 'string', maxLength: 500 }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Booking cancelled, with the refund outcome' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Booking can no longer be cancelled' },
+						'429': { description: 'Too many lookups; retry after the Retry-After header' }
+					}
+				}
+			},
+			'/payments/orders': {
+				post: {
+					tags: ['Payments'],
+					summary: 'Create payment order',
+					description: 'Creates an order at the configured provider for the booking total.',
+					parameters: [
+						{ $ref: '#/components/parameters/IdempotencyKey' }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										bookingId: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'201': { description: 'Order created, with orderId, amount, currency, provider and keyId (Razorpay)' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Booking is not payable (cancelled, completed or already paid)' },
+						'422': { description: 'Idempotency-Key already used for a different request' },
+						'502': { description: 'Payment provider unavailable' }
+					}
+				}
+			},
+			'/payments/orders/{orderId}': {
+				get: {
+					tags: ['Payments'],
+					summary: 'Get payment order',
+					parameters: [
+						{ name: 'orderId', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Payment order with status' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/payments/webhook': {
+				post: {
+					tags: ['Payments'],
+					summary: 'Payment provider webhook',
+					description: 'Razorpay-format event. X-Razorpay-Signature must be the HMAC-SHA256 of the raw body with the webhook secret. Redelivered events are applied once.',
+					parameters: [
+						{ name: 'X-Razorpay-Signature', in: 'header', required: true, schema: { type: 'string' } },
+						{ name: 'X-Razorpay-Event-Id', in: 'header', schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Event received; outcome is applied, recorded, duplicate or ignored' },
+						'400': { description: 'Invalid webhook signature' }
+					}
+				}
+			},
+			'/payments/mock/orders/{orderId}/pay': {
+				post: {
+					tags: ['Payments'],
+					summary: 'Pay a mock order',
+					description: 'Development only (PAYMENT_GATEWAY=mock, NODE_ENV not production).',
+					parameters: [
+						{ name: 'orderId', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										outcome: { type: 'string', enum: ['success', 'failure'], default: 'success' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Mock webhook processed, with the updated payment' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'404': { description: 'Order not found, or the mock gateway is not enabled' }
+					}
+				}
+			},
+			'/refunds': {
+				get: {
+					tags: ['Refunds'],
+					summary: 'List refunds',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10, maximum: 100 } },
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['requested', 'processing', 'succeeded', 'failed'] } }
+					],
+					responses: {
+						'200': { description: 'Paginated refunds, oldest first' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/refunds/{id}': {
+				get: {
+					tags: ['Refunds'],
+					summary: 'Get refund by ID',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Refund details' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/refunds/{id}/process': {
+				put: {
+					tags: ['Refunds'],
+					summary: 'Send refund to the payment provider',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Refund succeeded or is processing at the provider' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Refund is not requested or failed' },
+						'502': { description: 'Provider rejected the refund (refund marked failed)' }
+					}
+				}
+			},
+			'/refunds/{id}/complete': {
+				put: {
+					tags: ['Refunds'],
+					summary: 'Record a manual payout',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										referenceId: { type: 'string' },
+										note: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Refund succeeded; booking marked refunded' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Refund already succeeded' }
+					}
+				}
+			},
+			'/refunds/{id}/fail': {
+				put: {
+					tags: ['Refunds'],
+					summary: 'Mark refund failed',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										reason: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Refund failed; it can be processed again' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Refund is not requested or processing' }
+					}
+				}
+			},
+			'/jobs': {
+				get: {
+					tags: ['Jobs'],
+					summary: 'List background jobs',
+					description: 'Defaults to failed jobs, with their lastError and attempts.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10, maximum: 100 } },
+						{ name: 'status', in: 'query', schema: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'], default: 'failed' } },
+						{ name: 'name', in: 'query', schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Paginated jobs, most recently updated first' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/jobs/{id}': {
+				get: {
+					tags: ['Jobs'],
+					summary: 'Get job by ID',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Job details' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/jobs/{id}/retry': {
+				put: {
+					tags: ['Jobs'],
+					summary: 'Retry failed job',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Job queued to run again with a fresh set of attempts' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' },
+						'409': { description: 'Job is not failed' }
+					}
+				}
+			},
+			'/roles': {
+				get: {
+					tags: ['Roles'],
+					summary: 'List roles',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					responses: {
+						'200': { description: 'Roles with their permissions' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/roles/{name}': {
+				get: {
+					tags: ['Roles'],
+					summary: 'Get role',
+					description: 'Admin only.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'name', in: 'path', required: true, schema: { type: 'string', enum: ['admin', 'host', 'guide', 'customer'] } }
+					],
+					responses: {
+						'200': { description: 'Role with its permissions' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				},
+				put: {
+					tags: ['Roles'],
+					summary: 'Replace role permissions',
+					description: 'Admin only. Permissions look like resource:action; the admin role must keep *.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'name', in: 'path', required: true, schema: { type: 'string', enum: ['admin', 'host', 'guide', 'customer'] } }
+					],
+					requestBody: {
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										permissions: { type: 'array', items: { type: 'string' }, example: ['review:read', 'review:moderate'] },
+										description: { type: 'string' }
+									}
+								}
+							}
+						}
+					},
+					responses: {
+						'200': { description: 'Role updated; applies without a deploy or new token' },
+						'400': { $ref: '#/components/responses/BadRequest' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' },
+						'404': { $ref: '#/components/responses/NotFound' }
+					}
+				}
+			},
+			'/users/lockout-events': {
+				get: {
+					tags: ['Users'],
+					summary: 'List lockout events',
+					description: 'Admin only',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+						{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+						{ name: 'type', in: 'query', schema: { type: 'string', enum: ['account_locked', 'account_unlocked', 'ip_blocked'] } },
+						{ name: 'userId', in: 'query', schema: { type: 'string' } }
+					],
+					responses: {
+						'200': { description: 'Account locks, IP blocks and unlocks, newest first, with pagination' },
+						'401': { $ref: '#/components/responses/Unauthorized' },
+						'403': { $ref: '#/components/responses/Forbidden' }
+					}
+				}
+			},
+			'/users/{id}/unlock': {
+				post: {
+					tags: ['Users'],
+					summary: 'Unlock account',
+					description: 'Admin only. Clears the lock and failed login attempts of an account.',
+					security: [{ bearerAuth: [] }],
+					parameters: [
+						{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }
 					],
-					requestBody: {
-						content: {
-							'application/json': {
-								schema: {
-									type: 'object',
-									properties: {
-										reason: { type: 'string' }
-									}
-								}
-							}
-						}
-					},
 					responses: {
-						'200': { description: 'Booking cancelled' },
+						'200': { description: 'Account unlocked' },
 						'401': { $ref: '#/components/responses/Unauthorized' },
 						'403': { $ref: '#/components/responses/Forbidden' },
 						'404': { $ref: '#/components/responses/NotFound' }
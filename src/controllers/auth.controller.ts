@@ -4,13 +4,19 @@
  * This controller handles all authentication-related operations:
  * - User registration (creating new accounts)
  * - User login (verifying credentials and issuing tokens)
+ * - Token refresh and logout
+ * - Password reset by email (forgot password)
+ * - Email verification
+ * - Session management (listing and ending logged-in devices)
  * - Profile retrieval (getting current user's data)
  * - Profile updates (changing name or password)
  *
  * Authentication Flow:
- * 1. User registers with email/password -> Gets JWT token
- * 2. User logs in with email/password -> Gets JWT token
- * 3. User includes token in requests -> Access protected resources
+ * 1. User registers with email/password -> Gets access + refresh token
+ * 2. User logs in with email/password -> Gets access + refresh token
+ * 3. User includes access token in requests -> Access protected resources
+ * 4. Access token expires (15 min) -> Refresh token gets a new pair
+ * 5. User logs out -> Refresh token stops working
  *
  * What is a Controller?
  * Controllers are functions that handle HTTP requests. They:
@@ -22,10 +28,45 @@
  */
 
 import { Request, Response } from 'express';
-import { UserModel, toUserResponse, IUserDocument } from '../models/users/User.model';
-import { sendSuccess, sendError } from '../utils/response.utils';
-import { generateToken } from '../middleware/auth.middleware';
-import { RegisterDTO, LoginDTO } from '../validation';
+import { UserModel, toUserResponse, IUserDocument, UserRole } from '../models/users/User.model';
+import { toSessionResponse } from '../models/users/Session.model';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response.utils';
+import { getPermissionsForRole } from '../middleware/rbac.middleware';
+import {
+	startSession,
+	rotateRefreshToken,
+	endSession,
+	endUserSession,
+	endUserSessions,
+	listSessions
+} from '../services/auth/token.service';
+import {
+	requestPasswordReset,
+	resetPasswordWithToken
+} from '../services/auth/passwordReset.service';
+import {
+	reserveIpAttempt,
+	checkIpAllowed,
+	releaseIpAttempt,
+	reserveAccountAttempt,
+	reserveUnknownEmailAttempt,
+	recordLoginFailure,
+	recordUnknownEmailFailure,
+	resetLoginFailures,
+	LoginBlock
+} from '../services/auth/loginProtection.service';
+import {
+	sendVerificationEmail,
+	resendVerificationEmail as resendVerification,
+	verifyEmailWithToken
+} from '../services/auth/emailVerification.service';
+import {
+	RegisterDTO,
+	LoginDTO,
+	RefreshTokenDTO,
+	ForgotPasswordDTO,
+	ResetPasswordDTO
+} from '../validation';
 
 /**
  * Helper to get authenticated user from request.
@@ -59,16 +100,33 @@ async function getAuthenticatedUser(
 	return user;
 }
 
+/**
+ * Sends 429 with a Retry-After header for a refused login attempt.
+ */
+function sendLoginBlocked(res: Response, block: LoginBlock): void {
+	const messages: Record<LoginBlock['reason'], string> = {
+		ip_blocked: 'Too many failed login attempts from this address, please try again later',
+		account_locked: 'Account temporarily locked after too many failed login attempts',
+		slow_down: 'Too many failed login attempts, please wait before trying again'
+	};
+
+	res.set('Retry-After', String(block.retryAfterSeconds));
+	sendError(res, messages[block.reason], HttpStatus.TOO_MANY_REQUESTS);
+}
+
 /**
  * Register a new user account.
  *
  * This is a public endpoint - anyone can register.
+ * New accounts are always customers; hosts and guides apply for their
+ * role afterwards (see roleApplications.controller).
  *
  * Steps:
  * 1. Check if email already exists
  * 2. Create new user (password is hashed automatically by User model)
- * 3. Generate JWT token
- * 4. Return user data and token
+ * 3. Start a session (access token + refresh token)
+ * 4. Email a link to verify the address
+ * 5. Return user data and tokens
  *
  * @route POST /api/v1/auth/register
  *
@@ -80,16 +138,16 @@ async function getAuthenticatedUser(
  * {
  *   "email": "user@example.com",
  *   "password": "securePassword123",
- *   "name": "John Doe",
- *   "role": "customer"  // Optional, defaults to "customer"
+ *   "name": "John Doe"
  * }
  *
  * // Success response (201)
  * {
  *   "success": true,
  *   "data": {
- *     "user": { "id": "...", "email": "...", "name": "...", "role": "..." },
- *     "token": "eyJhbGciOiJIUzI1NiIs..."
+ *     "user": { "id": "...", "email": "...", "name": "...", "role": "customer" },
+ *     "token": "eyJhbGciOiJIUzI1NiIs...",
+ *     "refreshToken": "q4Jx0..."
  *   },
  *   "message": "Registration successful"
  * }
@@ -106,7 +164,7 @@ export async function register(req: Request, res: Response): Promise<void> {
 		 * By the time we get here, the validation middleware has already
 		 * verified the data is valid.
 		 */
-		const { email, password, name, role }: RegisterDTO = req.body;
+		const { email, password, name }: RegisterDTO = req.body;
 
 		/*
 		 * Check if email is already registered.
@@ -126,13 +184,14 @@ export async function register(req: Request, res: Response): Promise<void> {
 		 * Note: We pass the plain password here. The User model's pre-save hook
 		 * will automatically hash it using bcrypt before storing.
 		 *
-		 * The role defaults to 'customer' if not specified.
+		 * The role is always 'customer'. Even if a client sends a role,
+		 * the validation schema has already dropped it.
 		 */
 		const user = new UserModel({
 			email,
 			password,
 			name,
-			role: role || 'customer'
+			role: 'customer'
 		});
 
 		/*
@@ -146,12 +205,23 @@ export async function register(req: Request, res: Response): Promise<void> {
 		await user.save();
 
 		/*
-		 * Generate JWT token.
+		 * Start a session.
 		 *
-		 * The token contains the user's ID and role.
-		 * It will be used for authentication in subsequent requests.
+		 * The access token (JWT) contains the user's ID and role and is
+		 * used for authentication in subsequent requests. The refresh
+		 * token gets a new access token when it expires.
 		 */
-		const token = generateToken(user._id.toString(), user.role);
+		const tokens = await startSession(user, req);
+
+		/*
+		 * Email the verification link.
+		 *
+		 * Not awaited: a slow or failing mail server should not fail the
+		 * registration. The user can ask for a new email later.
+		 */
+		sendVerificationEmail(user).catch((error) => {
+			console.error('Verification email error:', error);
+		});
 
 		/*
 		 * Send success response.
@@ -163,7 +233,7 @@ export async function register(req: Request, res: Response): Promise<void> {
 			res,
 			{
 				user: toUserResponse(user),
-				token
+				...tokens
 			},
 			201, // 201 = Created
 			'Registration successful'
@@ -217,11 +287,13 @@ export async function register(req: Request, res: Response): Promise<void> {
  * This is a public endpoint - anyone can attempt to login.
  *
  * Steps:
- * 1. Find user by email (include password field)
- * 2. Verify account is active
- * 3. Compare password using bcrypt
- * 4. Update last login timestamp
- * 5. Generate and return JWT token
+ * 1. Refuse IP addresses with too many failed logins
+ * 2. Find user by email (include password field)
+ * 3. Verify account is active
+ * 4. Refuse locked accounts and attempts within the progressive delay
+ * 5. Compare password using bcrypt (a failure is counted)
+ * 6. Update last login timestamp and clear failed attempts
+ * 7. Start a session and return the tokens
  *
  * @route POST /api/v1/auth/login
  *
@@ -240,18 +312,39 @@ export async function register(req: Request, res: Response): Promise<void> {
  *   "success": true,
  *   "data": {
  *     "user": { ... },
- *     "token": "eyJhbGciOiJIUzI1NiIs..."
+ *     "token": "eyJhbGciOiJIUzI1NiIs...",
+ *     "refreshToken": "q4Jx0..."
  *   },
  *   "message": "Login successful"
  * }
  *
  * // Error: Invalid credentials (401)
  * { "success": false, "message": "Invalid credentials" }
+ *
+ * // Error: Too many failed attempts (429, with a Retry-After header)
+ * { "success": false, "message": "Account temporarily locked after too many failed login attempts" }
  */
 export async function login(req: Request, res: Response): Promise<void> {
 	try {
 		const { email, password }: LoginDTO = req.body;
 
+		/*
+		 * Brute-force protection.
+		 *
+		 * Guessing is refused before bcrypt runs, so blocked attempts
+		 * cost almost no CPU (see services/auth/loginProtection). The
+		 * attempt is counted up front so parallel requests cannot all
+		 * slip under the limits; it is taken back unless it fails.
+		 */
+		const ipAttempt = await reserveIpAttempt(req.ip);
+		const ipBlock = checkIpAllowed(ipAttempt);
+
+		if (ipBlock) {
+			await releaseIpAttempt(ipAttempt);
+			sendLoginBlocked(res, ipBlock);
+			return;
+		}
+
 		/*
 		 * Find user by email with password included.
 		 *
@@ -267,8 +360,24 @@ export async function login(req: Request, res: Response): Promise<void> {
 			/*
 			 * Security note: We say "Invalid credentials" instead of
 			 * "User not found" to avoid revealing which emails are registered.
+			 * For the same reason unknown emails are slowed down and locked
+			 * out exactly like accounts.
 			 */
-			sendError(res, 'Invalid credentials', 401);
+			const unknownBlock = await reserveUnknownEmailAttempt(email);
+
+			if (unknownBlock) {
+				await releaseIpAttempt(ipAttempt);
+				sendLoginBlocked(res, unknownBlock);
+				return;
+			}
+
+			const unknownLockout = await recordUnknownEmailFailure(email, ipAttempt);
+
+			if (unknownLockout) {
+				sendLoginBlocked(res, unknownLockout);
+			} else {
+				sendError(res, 'Invalid credentials', 401);
+			}
 			return;
 		}
 
@@ -278,10 +387,19 @@ export async function login(req: Request, res: Response): Promise<void> {
 		 * Deactivated accounts cannot log in.
 		 */
 		if (!user.isActive) {
+			await releaseIpAttempt(ipAttempt);
 			sendError(res, 'Account is deactivated', 403);
 			return;
 		}
 
+		const accountBlock = await reserveAccountAttempt(user);
+
+		if (accountBlock) {
+			await releaseIpAttempt(ipAttempt);
+			sendLoginBlocked(res, accountBlock);
+			return;
+		}
+
 		/*
 		 * Verify password using bcrypt comparison.
 		 *
@@ -291,7 +409,14 @@ export async function login(req: Request, res: Response): Promise<void> {
 		const isMatch = await user.comparePassword(password);
 
 		if (!isMatch) {
-			sendError(res, 'Invalid credentials', 401);
+			// The failure that reaches the limit locks the account at once
+			const lockout = await recordLoginFailure(user, ipAttempt);
+
+			if (lockout) {
+				sendLoginBlocked(res, lockout);
+			} else {
+				sendError(res, 'Invalid credentials', 401);
+			}
 			return;
 		}
 
@@ -304,16 +429,18 @@ export async function login(req: Request, res: Response): Promise<void> {
 		 * - Identifying inactive accounts
 		 */
 		user.lastLogin = new Date();
+		resetLoginFailures(user);
 		await user.save();
+		await releaseIpAttempt(ipAttempt);
 
-		// Generate JWT token
-		const token = generateToken(user._id.toString(), user.role);
+		// Start a new session (one per device)
+		const tokens = await startSession(user, req);
 
 		sendSuccess(
 			res,
 			{
 				user: toUserResponse(user),
-				token
+				...tokens
 			},
 			200,
 			'Login successful'
@@ -324,12 +451,239 @@ export async function login(req: Request, res: Response): Promise<void> {
 	}
 }
 
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ *
+ * This is a public endpoint - the refresh token is the credential.
+ * Each refresh token works once. Presenting one that was already used
+ * means someone copied it, so the whole session is revoked and both the
+ * thief and the user have to log in again.
+ *
+ * The new access token carries the user's current role, so role changes
+ * apply from the next refresh.
+ *
+ * @route POST /api/v1/auth/refresh
+ *
+ * @example
+ * // Request body
+ * { "refreshToken": "q4Jx0..." }
+ *
+ * // Success response (200)
+ * {
+ *   "success": true,
+ *   "data": { "token": "eyJhbGciOiJIUzI1NiIs...", "refreshToken": "Zr8Kp..." },
+ *   "message": "Token refreshed"
+ * }
+ *
+ * // Error: Used, expired or revoked token (401)
+ * { "success": false, "message": "Invalid refresh token" }
+ */
+export async function refreshToken(req: Request, res: Response): Promise<void> {
+	try {
+		const { refreshToken }: RefreshTokenDTO = req.body;
+
+		const result = await rotateRefreshToken(refreshToken, req);
+
+		if ('error' in result) {
+			/*
+			 * Deactivated accounts get 403 like at login. Reuse and invalid
+			 * tokens both get 401: the client has to log in again either way.
+			 */
+			if (result.error === 'inactive') {
+				sendError(res, 'Account is deactivated', 403);
+			} else {
+				sendError(res, 'Invalid refresh token', 401);
+			}
+			return;
+		}
+
+		sendSuccess(res, result.tokens, 200, 'Token refreshed');
+	} catch (error) {
+		console.error('Refresh token error:', error);
+		sendError(res, 'Failed to refresh token', 500);
+	}
+}
+
+/**
+ * Log out of the session a refresh token belongs to.
+ *
+ * This is a public endpoint - the refresh token is the credential, so a
+ * client whose access token already expired can still log out. The access
+ * token keeps working until it expires (at most JWT_EXPIRES_IN); clients
+ * should discard it.
+ *
+ * @route POST /api/v1/auth/logout
+ *
+ * @example
+ * // Request body
+ * { "refreshToken": "q4Jx0..." }
+ */
+export async function logout(req: Request, res: Response): Promise<void> {
+	try {
+		const { refreshToken }: RefreshTokenDTO = req.body;
+
+		await endSession(refreshToken);
+
+		sendSuccess(res, null, 200, 'Logged out successfully');
+	} catch (error) {
+		console.error('Logout error:', error);
+		sendError(res, 'Logout failed', 500);
+	}
+}
+
+/**
+ * Request a password reset email.
+ *
+ * This is a public endpoint. If an active account uses the address, a
+ * single-use reset link is emailed to it.
+ *
+ * The response is always the same, and is sent before the email goes
+ * out, so it does not reveal whether an account exists.
+ *
+ * @route POST /api/v1/auth/forgot-password
+ *
+ * @example
+ * // Request body
+ * { "email": "user@example.com" }
+ *
+ * // Response (200) - for known and unknown addresses alike
+ * {
+ *   "success": true,
+ *   "data": null,
+ *   "message": "If an account exists for this email, a reset link has been sent"
+ * }
+ */
+export async function forgotPassword(req: Request, res: Response): Promise<void> {
+	const { email }: ForgotPasswordDTO = req.body;
+
+	requestPasswordReset(email).catch((error) => {
+		console.error('Password reset email error:', error);
+	});
+
+	sendSuccess(res, null, 200, 'If an account exists for this email, a reset link has been sent');
+}
+
+/**
+ * Set a new password with the token from a reset email.
+ *
+ * This is a public endpoint - the token is the credential. It works once
+ * and expires after PASSWORD_RESET_TTL_MINUTES. Resetting the password
+ * ends every session, so the user logs in again with the new password.
+ *
+ * @route POST /api/v1/auth/reset-password
+ *
+ * @example
+ * // Request body
+ * { "token": "kU1p...", "password": "NewSecure456" }
+ *
+ * // Error: Unknown, used or expired token (400)
+ * { "success": false, "message": "Invalid or expired reset token" }
+ */
+export async function resetPassword(req: Request, res: Response): Promise<void> {
+	try {
+		const { token, password }: ResetPasswordDTO = req.body;
+
+		const reset = await resetPasswordWithToken(token, password);
+
+		if (!reset) {
+			sendError(res, 'Invalid or expired reset token', 400);
+			return;
+		}
+
+		sendSuccess(res, null, 200, 'Password has been reset, please log in');
+	} catch (error) {
+		console.error('Reset password error:', error);
+		sendError(res, 'Failed to reset password', 500);
+	}
+}
+
+/**
+ * Verify the user's email address with the token from the verification
+ * email.
+ *
+ * This is a public endpoint - the token is the credential, so the link
+ * works without logging in. A token works once and expires after
+ * EMAIL_VERIFICATION_TTL_HOURS.
+ *
+ * @route GET /api/v1/auth/verify-email?token=...
+ *
+ * @example
+ * // Success response (200)
+ * {
+ *   "success": true,
+ *   "data": { "id": "...", "email": "user@example.com", "emailVerified": true, ... },
+ *   "message": "Email verified"
+ * }
+ *
+ * // Error: Unknown, used or expired token (400)
+ * { "success": false, "message": "Invalid or expired verification token" }
+ */
+export async function verifyEmail(req: Request, res: Response): Promise<void> {
+	try {
+		const { token } = req.query as { token: string };
+
+		const user = await verifyEmailWithToken(token);
+
+		if (!user) {
+			sendError(res, 'Invalid or expired verification token', 400);
+			return;
+		}
+
+		sendSuccess(res, toUserResponse(user), 200, 'Email verified');
+	} catch (error) {
+		console.error('Verify email error:', error);
+		sendError(res, 'Failed to verify email', 500);
+	}
+}
+
+/**
+ * Send the current user a new verification email.
+ *
+ * This is a protected endpoint. The earlier link stops working. To stop
+ * inboxes being flooded, a user gets at most one email per
+ * EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS; sooner requests get 429
+ * with a Retry-After header.
+ *
+ * @route POST /api/v1/auth/verify-email/resend
+ *
+ * @example
+ * // Error: Already verified (409)
+ * { "success": false, "message": "Email is already verified" }
+ */
+export async function resendVerificationEmail(req: Request, res: Response): Promise<void> {
+	try {
+		const result = await resendVerification(req.user!.userId);
+
+		if ('error' in result) {
+			if (result.error === 'cooldown') {
+				res.set('Retry-After', String(result.retryAfterSeconds));
+				sendError(res, 'A verification email was sent recently, please try again later', 429);
+			} else if (result.error === 'verified') {
+				sendError(res, 'Email is already verified', 409);
+			} else {
+				sendError(res, 'User not found', 404);
+			}
+			return;
+		}
+
+		sendSuccess(res, null, 200, 'Verification email sent');
+	} catch (error) {
+		console.error('Resend verification email error:', error);
+		sendError(res, 'Failed to send verification email', 500);
+	}
+}
+
 /**
  * Get current authenticated user's profile.
  *
  * This is a protected endpoint - requires valid JWT token.
  * The authenticate middleware must run before this controller.
  *
+ * The response includes the caller's effective permissions, so the
+ * frontend can hide what the user cannot do. They belong to the role in
+ * the token, which is what every permission check uses; after a role
+ * change they update with the next login.
+ *
  * @route GET /api/v1/auth/me
  *
  * @param req - Express request object with user info attached by middleware
@@ -348,7 +702,8 @@ export async function login(req: Request, res: Response): Promise<void> {
  *     "name": "John Doe",
  *     "role": "customer",
  *     "isActive": true,
- *     "createdAt": "2024-01-15T10:30:00.000Z"
+ *     "createdAt": "2024-01-15T10:30:00.000Z",
+ *     "permissions": ["homestay:read", "booking:create", ...]
  *   }
  * }
  */
@@ -363,7 +718,9 @@ export async function getProfile(req: Request, res: Response): Promise<void> {
 			return;
 		}
 
-		sendSuccess(res, toUserResponse(user));
+		const permissions = await getPermissionsForRole(req.user!.role as UserRole);
+
+		sendSuccess(res, { ...toUserResponse(user), permissions });
 	} catch (error) {
 		console.error('Get profile error:', error);
 		sendError(res, 'Failed to get profile', 500);
@@ -376,6 +733,9 @@ export async function getProfile(req: Request, res: Response): Promise<void> {
  * This is a protected endpoint - requires valid JWT token.
  * Users can update their name and/or change their password.
  *
+ * Changing the password logs out every other session; the session
+ * making the change stays logged in.
+ *
  * @route PUT /api/v1/auth/me
  *
  * @param req - Express request object with update data in body
@@ -421,14 +781,33 @@ export async function updateProfile(
 		 * This prevents someone with a stolen token from changing the password.
 		 */
 		if (newPassword && currentPassword) {
+			// Guessing the current password counts like failed logins
+			const ipAttempt = await reserveIpAttempt(req.ip);
+			const block = checkIpAllowed(ipAttempt) || (await reserveAccountAttempt(user));
+
+			if (block) {
+				await releaseIpAttempt(ipAttempt);
+				sendLoginBlocked(res, block);
+				return;
+			}
+
 			// Verify current password first
 			const isMatch = await user.comparePassword(currentPassword);
 
 			if (!isMatch) {
-				sendError(res, 'Current password is incorrect', 400);
+				const lockout = await recordLoginFailure(user, ipAttempt);
+
+				if (lockout) {
+					sendLoginBlocked(res, lockout);
+				} else {
+					sendError(res, 'Current password is incorrect', 400);
+				}
 				return;
 			}
 
+			resetLoginFailures(user);
+			await releaseIpAttempt(ipAttempt);
+
 			/*
 			 * Set new password.
 			 *
@@ -440,9 +819,104 @@ export async function updateProfile(
 		// Save changes
 		await user.save();
 
+		// A new password ends all other sessions, e.g. on a stolen device
+		if (newPassword && currentPassword) {
+			await endUserSessions(user._id, 'password_change', req.user!.sessionId);
+		}
+
 		sendSuccess(res, toUserResponse(user), 200, 'Profile updated successfully');
 	} catch (error) {
 		console.error('Update profile error:', error);
 		sendError(res, 'Failed to update profile', 500);
 	}
 }
+
+/**
+ * List the current user's logged-in sessions (devices).
+ *
+ * Each login creates a session. `lastUsedAt` is the last login or token
+ * refresh, so an active device shows up within one access token lifetime.
+ * The session making the request has `current: true`.
+ *
+ * @route GET /api/v1/auth/sessions
+ *
+ * @example
+ * // Success response (200)
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "id": "665f1c...",
+ *       "userAgent": "Mozilla/5.0 (Android 14; Mobile) ...",
+ *       "ip": "203.0.113.7",
+ *       "createdAt": "2025-12-20T08:00:00.000Z",
+ *       "lastUsedAt": "2025-12-24T09:45:00.000Z",
+ *       "expiresAt": "2026-01-23T09:45:00.000Z",
+ *       "current": true
+ *     }
+ *   ]
+ * }
+ */
+export async function getSessions(req: Request, res: Response): Promise<void> {
+	try {
+		const sessions = await listSessions(req.user!.userId);
+
+		sendSuccess(
+			res,
+			sessions.map((session) => toSessionResponse(session, req.user!.sessionId))
+		);
+	} catch (error) {
+		console.error('Get sessions error:', error);
+		sendError(res, 'Failed to get sessions', 500);
+	}
+}
+
+/**
+ * End one of the current user's sessions, e.g. a lost phone.
+ *
+ * The session's refresh token stops working and its access tokens are
+ * rejected from the next request. Ending the current session logs the
+ * caller out.
+ *
+ * @route DELETE /api/v1/auth/sessions/:id
+ */
+export async function revokeSession(req: Request, res: Response): Promise<void> {
+	try {
+		const ended = await endUserSession(req.user!.userId, req.params.id);
+
+		if (!ended) {
+			sendError(res, 'Session not found', 404);
+			return;
+		}
+
+		sendSuccess(res, null, 200, 'Session ended');
+	} catch (error) {
+		console.error('Revoke session error:', error);
+		sendError(res, 'Failed to end session', 500);
+	}
+}
+
+/**
+ * Log out everywhere: end all of the current user's sessions, including
+ * this one.
+ *
+ * @route DELETE /api/v1/auth/sessions
+ *
+ * @example
+ * // Success response (200)
+ * {
+ *   "success": true,
+ *   "data": { "revoked": 3 },
+ *   "message": "Logged out of all sessions"
+ * }
+ */
+export async function revokeAllSessions(req: Request, res: Response): Promise<void> {
+	try {
+		const revoked = await endUserSessions(req.user!.userId, 'logout');
+
+		sendSuccess(res, { revoked }, 200, 'Logged out of all sessions');
+	} catch (error) {
+		console.error('Revoke all sessions error:', error);
+		sendError(res, 'Failed to log out of all sessions', 500);
+	}
+}
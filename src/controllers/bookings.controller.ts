@@ -10,101 +10,425 @@ import {
 	BookingModel,
 	CreateBookingInput,
 	CancelBookingInput,
-	IBookingDocument
+	BookingLookupInput,
+	GuestCancelBookingInput,
+	ChangeBookingDatesInput,
+	BookingQuoteInput,
+	GuestCount,
+	BookingAction,
+	BookingActor,
+	IBookingDocument,
+	ListingType,
+	TourDuration,
+	bookingTransitions
 } from '../models/bookings/Booking.model';
 import { getNextBookingNumber } from '../models/counters/Counter.model';
-import { HomestayModel } from '../models/homestays/Homestay.model';
-import { GuideModel } from '../models/guides/Guide.model';
+import { reserveNights, releaseNights, moveNights } from '../models/inventory/ListingNight.model';
+import { HomestayModel, IHomestayDocument } from '../models/homestays/Homestay.model';
+import { GuideModel, IGuideDocument } from '../models/guides/Guide.model';
 import {
 	sendSuccess,
 	sendError,
 	getPaginationMeta,
 	parsePaginationParams
 } from '../utils/response.utils';
+import { ValidationError } from '../types/api.types';
+import {
+	BookingQuote,
+	calculateHomestayQuote,
+	calculateGuideQuote,
+	isClientPricingAccepted
+} from '../utils/pricing.utils';
+import { DateConflict, hasDateConflict } from '../utils/availability.utils';
+import { calculateCancellationRefund, getCancelledBy } from '../utils/cancellation.utils';
+import { requestRefund } from '../services/payments/refund.service';
+import { isInvoiceable, issueInvoice } from '../services/invoices/invoice.service';
+import { getListingOwnerId } from '../services/bookings/booking.access';
+import { renderInvoicePdf } from '../services/invoices/invoice.pdf';
+import { InvoiceModel, IInvoiceDocument } from '../models/invoices/Invoice.model';
+import {
+	CancellationPolicy,
+	DEFAULT_CANCELLATION_POLICY
+} from '../models/policies/CancellationPolicy.model';
 
 /**
- * Gets the listing title based on type and ID.
+ * A homestay or guide loaded for booking, with its display title.
  */
-async function getListingTitle(listingType: string, listingId: string): Promise<string | undefined> {
-	try {
-		if (listingType === 'homestay') {
-			const homestay = await HomestayModel.findById(listingId).select('title');
-			return homestay?.title;
-		} else if (listingType === 'guide') {
-			const guide = await GuideModel.findById(listingId).select('name');
-			return guide?.name;
-		}
-		return undefined;
-	} catch {
-		return undefined;
+type BookableListing =
+	| { listingType: 'homestay'; title: string; listing: IHomestayDocument }
+	| { listingType: 'guide'; title: string; listing: IGuideDocument };
+
+/**
+ * Loads the homestay or guide being booked.
+ *
+ * @returns The listing, or null if no listing of that type has this ID
+ */
+async function findListing(listingType: ListingType, listingId: string): Promise<BookableListing | null> {
+	if (listingType === 'homestay') {
+		const homestay = await HomestayModel.findById(listingId);
+		return homestay ? { listingType, title: homestay.title, listing: homestay } : null;
 	}
+
+	const guide = await GuideModel.findById(listingId);
+	return guide ? { listingType, title: guide.name, listing: guide } : null;
 }
 
 /**
- * Checks if dates conflict with existing bookings.
+ * Calculates the server-side quote for a loaded listing.
  */
-async function hasDateConflict(
-	listingId: string,
+function quoteListing(
+	bookable: BookableListing,
 	checkIn: Date,
 	checkOut: Date,
-	excludeBookingId?: string
+	tourDuration?: TourDuration
+): BookingQuote {
+	if (bookable.listingType === 'homestay') {
+		return calculateHomestayQuote(bookable.listing.pricing, checkIn, checkOut);
+	}
+
+	return calculateGuideQuote(bookable.listing.pricing, checkIn, checkOut, tourDuration);
+}
+
+/**
+ * Checks that a listing can take this booking.
+ *
+ * - Homestays must be 'active' (not inactive or awaiting approval)
+ * - Guides must not be marked 'unavailable'
+ * - Homestays must have room for adults + children
+ *
+ * @returns Field-level errors (empty if the booking is allowed)
+ */
+function getListingBookingErrors(bookable: BookableListing, guests: GuestCount): ValidationError[] {
+	const errors: ValidationError[] = [];
+
+	if (bookable.listingType === 'homestay') {
+		const homestay = bookable.listing;
+
+		if (homestay.status !== 'active') {
+			errors.push({ field: 'listingId', message: 'This homestay is not accepting bookings' });
+		}
+
+		const totalGuests = guests.adults + (guests.children || 0);
+		if (totalGuests > homestay.capacity.guests) {
+			errors.push({
+				field: 'guests',
+				message: `This homestay allows at most ${homestay.capacity.guests} guests (requested ${totalGuests})`
+			});
+		}
+	} else if (bookable.listing.availability === 'unavailable') {
+		errors.push({ field: 'listingId', message: 'This guide is not accepting bookings' });
+	}
+
+	return errors;
+}
+
+/**
+ * Sends the 404 response for a listing ID that does not exist.
+ */
+function sendListingNotFound(res: Response, listingType: ListingType): void {
+	sendError(res, 'Listing not found', 404, [
+		{ field: 'listingId', message: `No ${listingType} exists with this ID` }
+	]);
+}
+
+/**
+ * Sends the 409 response for dates that are already taken.
+ *
+ * @param conflict - What holds the dates, if known
+ */
+function sendDatesUnavailable(
+	res: Response,
+	checkIn: string,
+	checkOut: string,
+	conflict?: DateConflict | null
+): void {
+	res.status(409).json({
+		success: false,
+		message: 'The selected dates are not available',
+		details: {
+			requestedCheckIn: checkIn,
+			requestedCheckOut: checkOut,
+			...(conflict?.type === 'booking' && {
+				conflictingBooking: { id: conflict.id, checkIn: conflict.checkIn, checkOut: conflict.checkOut }
+			}),
+			...(conflict?.type === 'block' && {
+				blockedDates: { checkIn: conflict.checkIn, checkOut: conflict.checkOut }
+			})
+		}
+	});
+}
+
+/**
+ * Builds the actor recorded in a booking's status history.
+ */
+function getActor(req: Request): BookingActor {
+	return req.user
+		? { userId: req.user.userId, role: req.user.role }
+		: { role: 'guest' };
+}
+
+/**
+ * Gets the cancellation policy a booking was made under.
+ *
+ * Bookings store a snapshot of the listing's policy; older bookings
+ * without one fall back to the listing's current policy.
+ */
+async function getBookingCancellationPolicy(booking: IBookingDocument): Promise<CancellationPolicy> {
+	if (booking.cancellationPolicy) {
+		return booking.cancellationPolicy;
+	}
+
+	const bookable = await findListing(booking.listingType, booking.listingId.toString());
+	return bookable?.listing.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+}
+
+/**
+ * Checks whether the actor owns the listing a booking is for.
+ */
+async function isListingOwner(booking: IBookingDocument, actor: BookingActor): Promise<boolean> {
+	if (!actor.userId) {
+		return false;
+	}
+
+	return (await getListingOwnerId(booking.listingType, booking.listingId)) === actor.userId;
+}
+
+/**
+ * Format asked for in ?format. The schema's 'json' default does not reach
+ * the controller: Express 5 parses req.query afresh on every read.
+ */
+function getInvoiceFormat(req: Request): 'json' | 'pdf' {
+	return req.query.format === 'pdf' ? 'pdf' : 'json';
+}
+
+/**
+ * Sends an invoice or credit note as JSON or as a PDF download.
+ */
+async function sendInvoiceDocument(
+	res: Response,
+	invoice: IInvoiceDocument,
+	format: 'json' | 'pdf'
+): Promise<void> {
+	if (format === 'json') {
+		sendSuccess(res, invoice);
+		return;
+	}
+
+	const filename = invoice.invoiceNumber.replace(/\//g, '-');
+
+	res
+		.status(200)
+		.type('application/pdf')
+		.set('Content-Disposition', `attachment; filename="${filename}.pdf"`)
+		.send(await renderInvoicePdf(invoice));
+}
+
+/**
+ * Moves a loaded booking through the state machine.
+ *
+ * Sends the error response itself (409 for illegal transitions) and
+ * returns null in that case.
+ *
+ * @param guard - Optional extra check; returns an error message to refuse the transition
+ */
+async function applyBookingTransition(
+	res: Response,
+	booking: IBookingDocument,
+	action: Exclude<BookingAction, 'create'>,
+	actor: BookingActor,
+	reason?: string,
+	guard?: (booking: IBookingDocument) => string | null
+): Promise<IBookingDocument | null> {
+	const guardError = guard ? guard(booking) : null;
+
+	if (guardError || !booking.applyTransition(action, actor, reason)) {
+		const allowedFrom = bookingTransitions[action].from.join(', ');
+		sendError(
+			res,
+			guardError || `Cannot ${action} a booking that is ${booking.status}`,
+			409,
+			[{ field: 'status', message: `'${action}' is only allowed from: ${allowedFrom}` }]
+		);
+		return null;
+	}
+
+	if (booking.status === 'cancelled') {
+		booking.cancellation = calculateCancellationRefund(
+			await getBookingCancellationPolicy(booking),
+			booking.checkIn,
+			booking.paymentStatus === 'completed' ? booking.pricing.total : 0,
+			getCancelledBy(actor.role, await isListingOwner(booking, actor))
+		);
+	}
+
+	await booking.save();
+
+	// Cancelled bookings no longer hold their nights, and paid ones are owed a refund
+	if (booking.status === 'cancelled') {
+		await releaseNights({ bookingId: booking._id });
+		await requestRefund(booking);
+	}
+
+	return booking;
+}
+
+/**
+ * Loads the booking in the URL and moves it through the state machine.
+ *
+ * Sends the error response itself (404, or 409 for illegal transitions)
+ * and returns null in that case.
+ *
+ * @param guard - Optional extra check; returns an error message to refuse the transition
+ */
+async function transitionBooking(
+	req: Request,
+	res: Response,
+	action: Exclude<BookingAction, 'create'>,
+	reason?: string,
+	guard?: (booking: IBookingDocument) => string | null
 ): Promise<IBookingDocument | null> {
-	const query: Record<string, unknown> = {
-		listingId,
-		status: { $ne: 'cancelled' },
-		$and: [
-			{ checkIn: { $lt: checkOut } },
-			{ checkOut: { $gt: checkIn } }
-		]
+	const booking = await BookingModel.findById(req.params.id);
+
+	if (!booking) {
+		sendError(res, 'Booking not found', 404);
+		return null;
+	}
+
+	return applyBookingTransition(res, booking, action, getActor(req), reason, guard);
+}
+
+/**
+ * Finds a booking by its number and the guest's email.
+ *
+ * Both must match; a wrong email looks the same as an unknown number,
+ * so the lookup cannot be used to find out which numbers exist.
+ */
+async function findGuestBooking(input: BookingLookupInput): Promise<IBookingDocument | null> {
+	return BookingModel.findOne({
+		bookingNumber: input.bookingNumber,
+		'guestDetails.email': input.email
+	});
+}
+
+/**
+ * Outcome of a cancellation as returned to the client.
+ */
+function getCancellationSummary(booking: IBookingDocument) {
+	return {
+		_id: booking._id,
+		status: booking.status,
+		cancellationReason: booking.cancellationReason,
+		cancelledAt: booking.cancelledAt,
+		cancelledBy: booking.cancellation?.cancelledBy,
+		cancellationPolicy: booking.cancellation?.policy,
+		refundPercent: booking.cancellation?.refundPercent,
+		refundAmount: booking.cancellation?.refundAmount,
+		refundStatus: booking.cancellation?.refundStatus
 	};
+}
 
-	if (excludeBookingId) {
-		query._id = { $ne: excludeBookingId };
+/**
+ * Sends one page of the bookings matching a filter, narrowed by the
+ * request's status and date range query params.
+ *
+ * A booking is in the date range if any part of its stay falls within
+ * it (checkIn before `to` and checkOut after `from`).
+ */
+async function sendBookingPage(
+	req: Request,
+	res: Response,
+	filter: Record<string, unknown>
+): Promise<void> {
+	const { page, limit } = parsePaginationParams(
+		req.query.page as string,
+		req.query.limit as string
+	);
+	const { status, from, to } = req.query as { status?: string; from?: string; to?: string };
+
+	if (status) {
+		filter.status = status;
+	}
+
+	if (from) {
+		filter.checkOut = { $gt: new Date(from) };
 	}
 
-	return BookingModel.findOne(query);
+	if (to) {
+		filter.checkIn = { $lt: new Date(to) };
+	}
+
+	// Execute query with pagination
+	const [bookings, totalResults] = await Promise.all([
+		BookingModel.find(filter)
+			.skip((page - 1) * limit)
+			.limit(limit)
+			.sort({ createdAt: -1 }),
+		BookingModel.countDocuments(filter)
+	]);
+
+	sendSuccess(res, {
+		bookings,
+		pagination: getPaginationMeta(page, limit, totalResults)
+	});
 }
 
 /**
  * GET /api/bookings
  *
- * Retrieves all bookings with pagination and optional filters.
+ * Retrieves all bookings with pagination and optional filters (admin only).
  *
  * Query params:
  * - page: Page number (default: 1)
  * - limit: Items per page (default: 10, max: 100)
  * - status: Filter by booking status
+ * - from, to: Only bookings with nights in this date range
  */
 export async function getAllBookings(req: Request, res: Response): Promise<void> {
 	try {
-		const { page, limit } = parsePaginationParams(
-			req.query.page as string,
-			req.query.limit as string
-		);
-		const status = req.query.status as string | undefined;
-
-		// Build query filter
-		const filter: Record<string, unknown> = {};
+		await sendBookingPage(req, res, {});
+	} catch (error) {
+		console.error('Error fetching bookings:', error);
+		sendError(res, 'Failed to fetch bookings', 500);
+	}
+}
 
-		if (status) {
-			filter.status = status;
-		}
+/**
+ * GET /api/bookings/mine
+ *
+ * Bookings made by the logged-in user. Accepts the same query params
+ * as getAllBookings.
+ */
+export async function getMyBookings(req: Request, res: Response): Promise<void> {
+	try {
+		await sendBookingPage(req, res, { userId: req.user!.userId });
+	} catch (error) {
+		console.error('Error fetching user bookings:', error);
+		sendError(res, 'Failed to fetch bookings', 500);
+	}
+}
 
-		// Execute query with pagination
-		const [bookings, totalResults] = await Promise.all([
-			BookingModel.find(filter)
-				.skip((page - 1) * limit)
-				.limit(limit)
-				.sort({ createdAt: -1 }),
-			BookingModel.countDocuments(filter)
+/**
+ * GET /api/bookings/incoming
+ *
+ * Bookings on the homestays and guide profile owned by the logged-in
+ * host or guide. Accepts the same query params as getAllBookings.
+ */
+export async function getIncomingBookings(req: Request, res: Response): Promise<void> {
+	try {
+		const userId = req.user!.userId;
+		const [homestays, guides] = await Promise.all([
+			HomestayModel.find({ hostId: userId }).select('_id'),
+			GuideModel.find({ userId }).select('_id')
 		]);
 
-		sendSuccess(res, {
-			bookings,
-			pagination: getPaginationMeta(page, limit, totalResults)
+		await sendBookingPage(req, res, {
+			$or: [
+				{ listingType: 'homestay', listingId: { $in: homestays.map((homestay) => homestay._id) } },
+				{ listingType: 'guide', listingId: { $in: guides.map((guide) => guide._id) } }
+			]
 		});
 	} catch (error) {
-		console.error('Error fetching bookings:', error);
+		console.error('Error fetching incoming bookings:', error);
 		sendError(res, 'Failed to fetch bookings', 500);
 	}
 }
@@ -131,11 +455,61 @@ export async function getBookingById(req: Request, res: Response): Promise<void>
 	}
 }
 
+/**
+ * POST /api/bookings/quote
+ *
+ * Returns the itemized price for a stay or tour without creating a booking.
+ * Uses the same calculation as createBooking, so the frontend can show
+ * exactly what the server will charge.
+ *
+ * Request body: BookingQuoteInput
+ */
+export async function getBookingQuote(req: Request, res: Response): Promise<void> {
+	try {
+		const input: BookingQuoteInput = req.body;
+		const checkInDate = new Date(input.checkIn);
+		const checkOutDate = new Date(input.checkOut);
+
+		const bookable = await findListing(input.listingType, input.listingId);
+		if (!bookable) {
+			sendListingNotFound(res, input.listingType);
+			return;
+		}
+
+		const listingErrors = getListingBookingErrors(bookable, input.guests);
+		if (listingErrors.length > 0) {
+			sendError(res, 'Validation failed', 400, listingErrors);
+			return;
+		}
+
+		const quote = quoteListing(bookable, checkInDate, checkOutDate, input.tourDuration);
+
+		sendSuccess(res, {
+			listingType: input.listingType,
+			listingId: input.listingId,
+			listingTitle: bookable.title,
+			checkIn: input.checkIn,
+			checkOut: input.checkOut,
+			guests: input.guests,
+			...quote
+		});
+	} catch (error) {
+		console.error('Error calculating quote:', error);
+		sendError(res, 'Failed to calculate quote', 500);
+	}
+}
+
 /**
  * POST /api/bookings
  *
  * Creates a new booking.
  *
+ * The listing must exist (404) and be bookable: an active homestay with
+ * room for all guests, or a guide who is not 'unavailable' (400).
+ *
+ * The price is always calculated on the server from the listing's pricing.
+ * If the client sends a pricing object, its total must match the quote.
+ *
  * Request body: CreateBookingInput
  */
 export async function createBooking(req: Request, res: Response): Promise<void> {
@@ -190,49 +564,88 @@ export async function createBooking(req: Request, res: Response): Promise<void>
 			return;
 		}
 
-		// Check for date conflicts
-		const conflictingBooking = await hasDateConflict(input.listingId, checkInDate, checkOutDate);
-		if (conflictingBooking) {
+		// Load the listing, check it can take the booking and price it on the server
+		const bookable = await findListing(input.listingType, input.listingId);
+		if (!bookable) {
+			sendListingNotFound(res, input.listingType);
+			return;
+		}
+
+		const listingErrors = getListingBookingErrors(bookable, input.guests);
+		if (listingErrors.length > 0) {
+			sendError(res, 'Validation failed', 400, listingErrors);
+			return;
+		}
+
+		const quote = quoteListing(bookable, checkInDate, checkOutDate, input.tourDuration);
+
+		if (!isClientPricingAccepted(input.pricing, quote)) {
 			res.status(409).json({
 				success: false,
-				message: 'The selected dates are not available',
+				message: 'The submitted price does not match the current price',
 				details: {
-					requestedCheckIn: input.checkIn,
-					requestedCheckOut: input.checkOut,
-					conflictingBooking: {
-						id: conflictingBooking._id,
-						checkIn: conflictingBooking.checkIn.toISOString().split('T')[0],
-						checkOut: conflictingBooking.checkOut.toISOString().split('T')[0]
-					}
+					submittedTotal: input.pricing?.total,
+					pricing: quote.pricing,
+					lineItems: quote.lineItems
 				}
 			});
 			return;
 		}
 
-		// Get listing title and booking number
-		const [listingTitle, bookingNumber] = await Promise.all([
-			getListingTitle(input.listingType, input.listingId),
-			getNextBookingNumber()
-		]);
+		// Check for date conflicts (other bookings and host blocks)
+		const conflict = await hasDateConflict(input.listingId, checkInDate, checkOutDate);
+		if (conflict) {
+			sendDatesUnavailable(res, input.checkIn, input.checkOut, conflict);
+			return;
+		}
 
-		// Create new booking document
+		// Create new booking document (booking number is assigned once the dates are held)
 		const newBooking = new BookingModel({
-			bookingNumber,
 			listingType: input.listingType,
 			listingId: input.listingId,
-			listingTitle,
+			listingTitle: bookable.title,
 			checkIn: checkInDate,
 			checkOut: checkOutDate,
+			nights: quote.nights,
 			guests: input.guests,
 			guestDetails: input.guestDetails,
+			userId: req.user?.userId,
 			specialRequests: input.specialRequests,
-			pricing: input.pricing,
+			tourDuration: quote.tourDuration,
+			pricing: quote.pricing,
+			cancellationPolicy: bookable.listing.cancellationPolicy || DEFAULT_CANCELLATION_POLICY,
 			status: 'pending',
-			paymentStatus: 'pending'
+			paymentStatus: 'pending',
+			statusHistory: [{
+				action: 'create',
+				to: 'pending',
+				changedBy: req.user?.userId,
+				changedByRole: getActor(req).role,
+				changedAt: new Date()
+			}]
 		});
 
+		/*
+		 * Reserve the nights atomically.
+		 *
+		 * The check above gives a friendly error in the common case, but two
+		 * requests can both pass it. The unique (listingId, date) index on the
+		 * night inventory lets exactly one of them through.
+		 */
+		const reserved = await reserveNights(input.listingId, { bookingId: newBooking._id }, checkInDate, checkOutDate);
+		if (!reserved) {
+			sendDatesUnavailable(res, input.checkIn, input.checkOut);
+			return;
+		}
+
 		// Save to database (pre-save hook calculates nights and total guests)
-		await newBooking.save();
+		try {
+			newBooking.bookingNumber = await getNextBookingNumber();
+			await newBooking.save();
+		} catch (error) {
+			await releaseNights({ bookingId: newBooking._id });
+			throw error;
+		}
 
 		sendSuccess(res, newBooking, 201, 'Booking created successfully');
 	} catch (error: unknown) {
@@ -252,52 +665,313 @@ export async function createBooking(req: Request, res: Response): Promise<void>
 	}
 }
 
+/**
+ * PUT /api/bookings/:id/dates
+ *
+ * Moves a pending or confirmed booking to new dates, keeping its booking
+ * number. Availability is re-checked (ignoring the booking's own nights),
+ * nights and pricing are recalculated, and the previous dates are kept
+ * in `dateChanges`.
+ *
+ * Paid or invoiced bookings keep their dates: the new price would not
+ * match what was charged or invoiced. The guest cancels and rebooks.
+ *
+ * Request body: ChangeBookingDatesInput
+ */
+export async function changeBookingDates(req: Request, res: Response): Promise<void> {
+	try {
+		const input: ChangeBookingDatesInput = req.body;
+		const checkInDate = new Date(input.checkIn);
+		const checkOutDate = new Date(input.checkOut);
+
+		const booking = await BookingModel.findById(req.params.id);
+
+		if (!booking) {
+			sendError(res, 'Booking not found', 404);
+			return;
+		}
+
+		if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+			sendError(res, `Cannot change the dates of a booking that is ${booking.status}`, 409, [
+				{ field: 'status', message: 'Dates can only be changed on pending or confirmed bookings' }
+			]);
+			return;
+		}
+
+		if (
+			booking.paymentStatus === 'completed' ||
+			booking.paymentStatus === 'refunded' ||
+			await InvoiceModel.exists({ bookingId: booking._id, type: 'invoice' })
+		) {
+			sendError(res, 'Cannot change the dates of a paid or invoiced booking', 409, [
+				{ field: 'paymentStatus', message: 'Cancel the booking and book the new dates instead' }
+			]);
+			return;
+		}
+
+		const bookable = await findListing(booking.listingType, booking.listingId.toString());
+		if (!bookable) {
+			sendListingNotFound(res, booking.listingType);
+			return;
+		}
+
+		const listingErrors = getListingBookingErrors(bookable, booking.guests);
+		if (listingErrors.length > 0) {
+			sendError(res, 'Validation failed', 400, listingErrors);
+			return;
+		}
+
+		const conflict = await hasDateConflict(
+			booking.listingId.toString(),
+			checkInDate,
+			checkOutDate,
+			booking._id.toString()
+		);
+		if (conflict) {
+			sendDatesUnavailable(res, input.checkIn, input.checkOut, conflict);
+			return;
+		}
+
+		const quote = quoteListing(bookable, checkInDate, checkOutDate, input.tourDuration || booking.tourDuration);
+		const previous = { checkIn: booking.checkIn, checkOut: booking.checkOut };
+		const next = { checkIn: checkInDate, checkOut: checkOutDate };
+
+		const moved = await moveNights(booking.listingId, booking._id, previous, next);
+		if (!moved) {
+			sendDatesUnavailable(res, input.checkIn, input.checkOut);
+			return;
+		}
+
+		booking.dateChanges.push({
+			previousCheckIn: booking.checkIn,
+			previousCheckOut: booking.checkOut,
+			previousTotal: booking.pricing.total,
+			checkIn: checkInDate,
+			checkOut: checkOutDate,
+			total: quote.pricing.total,
+			changedBy: req.user?.userId,
+			changedByRole: getActor(req).role,
+			reason: input.reason,
+			changedAt: new Date()
+		});
+		booking.checkIn = checkInDate;
+		booking.checkOut = checkOutDate;
+		booking.nights = quote.nights;
+		booking.tourDuration = quote.tourDuration;
+		booking.pricing = quote.pricing;
+
+		try {
+			await booking.save();
+		} catch (error) {
+			// Give the booking its old nights back
+			await moveNights(booking.listingId, booking._id, next, previous);
+			throw error;
+		}
+
+		sendSuccess(res, {
+			booking,
+			previousCheckIn: previous.checkIn,
+			previousCheckOut: previous.checkOut,
+			lineItems: quote.lineItems
+		}, 200, 'Booking dates changed successfully');
+	} catch (error) {
+		console.error('Error changing booking dates:', error);
+		sendError(res, 'Failed to change booking dates', 500);
+	}
+}
+
+/**
+ * PUT /api/bookings/:id/confirm
+ *
+ * Host/Guide accepts a pending booking.
+ */
+export async function confirmBooking(req: Request, res: Response): Promise<void> {
+	try {
+		const booking = await transitionBooking(req, res, 'confirm');
+		if (!booking) return;
+
+		sendSuccess(res, booking, 200, 'Booking confirmed successfully');
+	} catch (error) {
+		console.error('Error confirming booking:', error);
+		sendError(res, 'Failed to confirm booking', 500);
+	}
+}
+
+/**
+ * PUT /api/bookings/:id/reject
+ *
+ * Host/Guide declines a pending booking. The booking is cancelled
+ * and the rejection is recorded in its status history.
+ *
+ * Request body: CancelBookingInput (optional reason)
+ */
+export async function rejectBooking(req: Request, res: Response): Promise<void> {
+	try {
+		const input: CancelBookingInput = req.body;
+
+		const booking = await transitionBooking(req, res, 'reject', input.reason);
+		if (!booking) return;
+
+		sendSuccess(res, booking, 200, 'Booking rejected successfully');
+	} catch (error) {
+		console.error('Error rejecting booking:', error);
+		sendError(res, 'Failed to reject booking', 500);
+	}
+}
+
+/**
+ * PUT /api/bookings/:id/complete
+ *
+ * Marks a confirmed booking as completed. Not allowed before check-in.
+ */
+export async function completeBooking(req: Request, res: Response): Promise<void> {
+	try {
+		const booking = await transitionBooking(req, res, 'complete', undefined, (current) =>
+			current.checkIn > new Date() ? 'Cannot complete a booking before check-in' : null
+		);
+		if (!booking) return;
+
+		sendSuccess(res, booking, 200, 'Booking completed successfully');
+	} catch (error) {
+		console.error('Error completing booking:', error);
+		sendError(res, 'Failed to complete booking', 500);
+	}
+}
+
 /**
  * PUT /api/bookings/:id/cancel
  *
  * Cancels an existing booking.
  *
+ * Guests are refunded according to the cancellation policy the booking
+ * was made under; cancellations by the listing owner or an admin refund
+ * in full. A host or guide cancelling a stay they booked elsewhere is a
+ * guest.
+ * The outcome is stored on the booking as `cancellation`. If the booking
+ * was paid, a refund record is created for an admin to process.
+ *
  * Request body: CancelBookingInput
  */
 export async function cancelBooking(req: Request, res: Response): Promise<void> {
 	try {
-		const { id } = req.params;
 		const input: CancelBookingInput = req.body;
 
-		const booking = await BookingModel.findById(id);
+		const booking = await transitionBooking(req, res, 'cancel', input.reason);
+		if (!booking) return;
+
+		sendSuccess(res, getCancellationSummary(booking), 200, 'Booking cancelled successfully');
+	} catch (error) {
+		console.error('Error cancelling booking:', error);
+		sendError(res, 'Failed to cancel booking', 500);
+	}
+}
+
+/**
+ * POST /api/bookings/lookup
+ *
+ * Lets a guest who booked without an account find their booking using
+ * the booking number from their confirmation and their email.
+ *
+ * Request body: BookingLookupInput
+ */
+export async function lookupBooking(req: Request, res: Response): Promise<void> {
+	try {
+		const booking = await findGuestBooking(req.body as BookingLookupInput);
 
 		if (!booking) {
 			sendError(res, 'Booking not found', 404);
 			return;
 		}
 
-		if (booking.status === 'cancelled') {
-			sendError(res, 'This booking is already cancelled', 400);
+		sendSuccess(res, booking);
+	} catch (error) {
+		console.error('Error looking up booking:', error);
+		sendError(res, 'Failed to look up booking', 500);
+	}
+}
+
+/**
+ * POST /api/bookings/lookup/cancel
+ *
+ * Cancels a booking found by booking number and email, on the same terms
+ * as a guest cancelling through PUT /api/bookings/:id/cancel.
+ *
+ * Request body: GuestCancelBookingInput
+ */
+export async function cancelGuestBooking(req: Request, res: Response): Promise<void> {
+	try {
+		const input: GuestCancelBookingInput = req.body;
+		const found = await findGuestBooking(input);
+
+		if (!found) {
+			sendError(res, 'Booking not found', 404);
 			return;
 		}
 
-		if (booking.status === 'completed') {
-			sendError(res, 'Cannot cancel a completed booking', 400);
+		const booking = await applyBookingTransition(res, found, 'cancel', { role: 'guest' }, input.reason);
+		if (!booking) return;
+
+		sendSuccess(res, getCancellationSummary(booking), 200, 'Booking cancelled successfully');
+	} catch (error) {
+		console.error('Error cancelling booking:', error);
+		sendError(res, 'Failed to cancel booking', 500);
+	}
+}
+
+/**
+ * GET /api/bookings/:id/invoice
+ *
+ * GST tax invoice for a confirmed or paid booking. Issued (and numbered)
+ * on the first request; later requests return the same invoice.
+ *
+ * Query params:
+ * - format: 'json' (default) or 'pdf'
+ */
+export async function getBookingInvoice(req: Request, res: Response): Promise<void> {
+	try {
+		const booking = await BookingModel.findById(req.params.id);
+
+		if (!booking) {
+			sendError(res, 'Booking not found', 404);
 			return;
 		}
 
-		const now = new Date();
-		booking.status = 'cancelled';
-		booking.cancellationReason = input.reason;
-		booking.cancelledAt = now;
+		if (!isInvoiceable(booking)) {
+			sendError(res, 'An invoice is only available once the booking is confirmed or paid', 409, [
+				{ field: 'status', message: `Booking is ${booking.status} with payment ${booking.paymentStatus}` }
+			]);
+			return;
+		}
 
-		await booking.save();
+		const invoice = await issueInvoice(booking);
 
-		sendSuccess(res, {
-			_id: booking._id,
-			status: booking.status,
-			cancellationReason: booking.cancellationReason,
-			cancelledAt: booking.cancelledAt,
-			refundAmount: booking.pricing.total,
-			refundStatus: 'pending'
-		}, 200, 'Booking cancelled successfully');
+		await sendInvoiceDocument(res, invoice, getInvoiceFormat(req));
 	} catch (error) {
-		console.error('Error cancelling booking:', error);
-		sendError(res, 'Failed to cancel booking', 500);
+		console.error('Error generating invoice:', error);
+		sendError(res, 'Failed to generate invoice', 500);
+	}
+}
+
+/**
+ * GET /api/bookings/:id/credit-note
+ *
+ * Credit note issued when the booking's refund was paid out.
+ *
+ * Query params:
+ * - format: 'json' (default) or 'pdf'
+ */
+export async function getBookingCreditNote(req: Request, res: Response): Promise<void> {
+	try {
+		const creditNote = await InvoiceModel.findOne({ bookingId: req.params.id, type: 'credit_note' });
+
+		if (!creditNote) {
+			sendError(res, 'No credit note has been issued for this booking', 404);
+			return;
+		}
+
+		await sendInvoiceDocument(res, creditNote, getInvoiceFormat(req));
+	} catch (error) {
+		console.error('Error fetching credit note:', error);
+		sendError(res, 'Failed to fetch credit note', 500);
 	}
 }
@@ -11,12 +11,20 @@ import {
 	CreateGuideInput,
 	UpdateGuideInput
 } from '../models/guides/Guide.model';
+import { UserModel } from '../models/users/User.model';
 import {
 	sendSuccess,
 	sendError,
 	getPaginationMeta,
 	parsePaginationParams
 } from '../utils/response.utils';
+import { buildAvailabilityCalendar, resolveCalendarRange } from '../utils/availability.utils';
+import { MAX_CALENDAR_DAYS } from '../validation';
+
+/** A user account owns at most one guide profile (unique userId) */
+function isDuplicateKeyError(error: unknown): boolean {
+	return (error as { code?: number }).code === 11000;
+}
 
 /**
  * GET /api/guides
@@ -87,7 +95,8 @@ export async function getGuideById(req: Request, res: Response): Promise<void> {
 /**
  * POST /api/guides
  *
- * Creates a new guide profile.
+ * Creates a new guide profile. A guide creating a profile becomes its
+ * owner; profiles created by an admin are unowned until claimed.
  *
  * Request body: CreateGuideInput
  */
@@ -96,7 +105,10 @@ export async function createGuide(req: Request, res: Response): Promise<void> {
 		const input: CreateGuideInput = req.body;
 
 		// Create new guide document
-		const newGuide = new GuideModel(input);
+		const newGuide = new GuideModel({
+			...input,
+			userId: req.user!.role === 'guide' ? req.user!.userId : undefined
+		});
 
 		// Save to database
 		await newGuide.save();
@@ -105,6 +117,11 @@ export async function createGuide(req: Request, res: Response): Promise<void> {
 	} catch (error: unknown) {
 		console.error('Error creating guide:', error);
 
+		if (isDuplicateKeyError(error)) {
+			sendError(res, 'You already have a guide profile', 409);
+			return;
+		}
+
 		if (error instanceof Error && error.name === 'ValidationError') {
 			const mongooseError = error as unknown as { errors: Record<string, { message: string }> };
 			const validationErrors = Object.keys(mongooseError.errors).map(field => ({
@@ -182,3 +199,145 @@ export async function deleteGuide(req: Request, res: Response): Promise<void> {
 		sendError(res, 'Failed to delete guide', 500);
 	}
 }
+
+/**
+ * POST /api/guides/:id/claim
+ *
+ * Links an unowned guide profile to the logged-in guide.
+ * Each guide account can own one profile, and a profile has one owner.
+ */
+export async function claimGuideProfile(req: Request, res: Response): Promise<void> {
+	try {
+		const { id } = req.params;
+		const userId = req.user!.userId;
+
+		const claimedGuide = await GuideModel.findOneAndUpdate(
+			{ _id: id, userId: { $exists: false } },
+			{ $set: { userId } },
+			{ new: true }
+		);
+
+		if (claimedGuide) {
+			sendSuccess(res, claimedGuide, 200, 'Guide profile claimed successfully');
+			return;
+		}
+
+		const guide = await GuideModel.findById(id);
+
+		if (!guide) {
+			sendError(res, 'Guide not found', 404);
+			return;
+		}
+
+		if (guide.userId?.toString() === userId) {
+			sendSuccess(res, guide, 200, 'Guide profile already claimed by you');
+			return;
+		}
+
+		sendError(res, 'Guide profile is already claimed', 409);
+	} catch (error) {
+		if (isDuplicateKeyError(error)) {
+			sendError(res, 'You already have a guide profile', 409);
+			return;
+		}
+
+		console.error('Error claiming guide:', error);
+		sendError(res, 'Failed to claim guide profile', 500);
+	}
+}
+
+/**
+ * PUT /api/guides/:id/owner
+ *
+ * Assigns a guide profile to a guide account (admin only).
+ *
+ * Request body: { userId }
+ */
+export async function assignGuideOwner(req: Request, res: Response): Promise<void> {
+	try {
+		const { id } = req.params;
+		const { userId } = req.body as { userId: string };
+
+		const owner = await UserModel.findById(userId).select('role');
+
+		if (!owner || owner.role !== 'guide') {
+			sendError(res, 'Owner must be a guide account', 400, [
+				{ field: 'userId', message: owner ? `User is a ${owner.role}` : 'User not found' }
+			]);
+			return;
+		}
+
+		const guide = await GuideModel.findByIdAndUpdate(
+			id,
+			{ $set: { userId } },
+			{ new: true }
+		);
+
+		if (!guide) {
+			sendError(res, 'Guide not found', 404);
+			return;
+		}
+
+		sendSuccess(res, guide, 200, 'Guide owner assigned successfully');
+	} catch (error) {
+		if (isDuplicateKeyError(error)) {
+			sendError(res, 'This user already has a guide profile', 409);
+			return;
+		}
+
+		console.error('Error assigning guide owner:', error);
+		sendError(res, 'Failed to assign guide owner', 500);
+	}
+}
+
+/**
+ * GET /api/guides/:id/availability
+ *
+ * Retrieves the guide's day-by-day availability and full-day price.
+ * Days are 'booked' when a non-cancelled booking covers them, and every
+ * day is 'blocked' while the guide is marked unavailable.
+ *
+ * Query params:
+ * - from: First day, YYYY-MM-DD (default: today)
+ * - to: Day after the last day, YYYY-MM-DD (default: from + 30 days)
+ */
+export async function getGuideAvailability(req: Request, res: Response): Promise<void> {
+	try {
+		const { id } = req.params;
+		const range = resolveCalendarRange(
+			req.query.from as string | undefined,
+			req.query.to as string | undefined,
+			MAX_CALENDAR_DAYS
+		);
+
+		if (!range) {
+			sendError(res, 'Validation failed', 400, [
+				{ field: 'to', message: `to must be after from and within ${MAX_CALENDAR_DAYS} days` }
+			]);
+			return;
+		}
+
+		const guide = await GuideModel.findById(id);
+
+		if (!guide) {
+			sendError(res, 'Guide not found', 404);
+			return;
+		}
+
+		const days = await buildAvailabilityCalendar(
+			{ listingType: 'guide', listing: guide },
+			range.from,
+			range.to
+		);
+
+		sendSuccess(res, {
+			listingId: guide._id,
+			from: range.from.toISOString().split('T')[0],
+			to: range.to.toISOString().split('T')[0],
+			days
+		});
+	} catch (error) {
+		console.error('Error fetching guide availability:', error);
+		sendError(res, 'Failed to fetch availability', 500);
+	}
+}
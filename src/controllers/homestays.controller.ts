@@ -20,18 +20,35 @@
  * @module controllers/homestays.controller
  */
 
+import { randomBytes, timingSafeEqual } from 'crypto';
 import { Request, Response } from 'express';
 import {
 	HomestayModel,
+	IHomestayDocument,
 	CreateHomestayInput,
 	UpdateHomestayInput
 } from '../models/homestays/Homestay.model';
+import { BookingModel } from '../models/bookings/Booking.model';
+import { UserModel } from '../models/users/User.model';
 import {
 	sendSuccess,
 	sendError,
 	getPaginationMeta,
 	parsePaginationParams
 } from '../utils/response.utils';
+import {
+	AvailabilityBlockModel,
+	CreateBlockInput
+} from '../models/inventory/AvailabilityBlock.model';
+import { reserveNights, releaseNights } from '../models/inventory/ListingNight.model';
+import {
+	buildAvailabilityCalendar,
+	hasDateConflict,
+	resolveCalendarRange
+} from '../utils/availability.utils';
+import { buildICalendar, parseICalendar, CalendarEvent } from '../utils/ical.utils';
+import { startOfUTCDay, countNights, toDateString } from '../utils/date.utils';
+import { MAX_CALENDAR_DAYS } from '../validation';
 
 /**
  * Get all homestays with pagination and filters.
@@ -216,11 +233,52 @@ export async function getHomestayById(
 	}
 }
 
+/**
+ * Get the homestays of the logged-in host.
+ *
+ * Unlike the public list, this includes inactive and pending listings.
+ *
+ * @route GET /api/v1/homestays/mine
+ *
+ * @param req.query.page - Page number (default: 1)
+ * @param req.query.limit - Items per page (default: 10, max: 100)
+ */
+export async function getMyHomestays(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { page, limit } = parsePaginationParams(
+			req.query.page as string,
+			req.query.limit as string
+		);
+		const filter = { hostId: req.user!.userId };
+
+		const [homestays, totalResults] = await Promise.all([
+			HomestayModel.find(filter)
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.sort({ createdAt: -1 }),
+			HomestayModel.countDocuments(filter)
+		]);
+
+		sendSuccess(res, {
+			homestays,
+			pagination: getPaginationMeta(page, limit, totalResults)
+		});
+	} catch (error) {
+		console.error('Error fetching host homestays:', error);
+		sendError(res, 'Failed to fetch homestays', 500);
+	}
+}
+
 /**
  * Create a new homestay listing.
  *
  * This is a protected endpoint - requires authentication.
  * Only users with 'host' or 'admin' role can create homestays.
+ * A host becomes the owner (hostId) of the listing; listings created
+ * by an admin have no owner until one is assigned.
  *
  * @route POST /api/v1/homestays
  *
@@ -270,6 +328,7 @@ export async function createHomestay(
 		 */
 		const newHomestay = new HomestayModel({
 			...input,
+			hostId: req.user!.role === 'admin' ? undefined : req.user!.userId,
 			status: 'active'
 		});
 
@@ -439,3 +498,597 @@ export async function deleteHomestay(
 		sendError(res, 'Failed to delete homestay', 500);
 	}
 }
+
+/**
+ * Assign a homestay to a host account (admin only).
+ *
+ * Homestays created before listings had owners, or created by an admin,
+ * have no hostId and can only be managed by admins until a host is
+ * assigned here.
+ *
+ * @route PUT /api/v1/homestays/:id/owner
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.body.userId - User ID of the host
+ *
+ * @example
+ * PUT /api/v1/homestays/507f1f77bcf86cd799439011/owner
+ * { "userId": "64b7f1f77bcf86cd79943901" }
+ */
+export async function assignHomestayOwner(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const { userId } = req.body as { userId: string };
+
+		const host = await UserModel.findById(userId).select('role');
+
+		if (!host || host.role !== 'host') {
+			sendError(res, 'Owner must be a host account', 400, [
+				{ field: 'userId', message: host ? `User is a ${host.role}` : 'User not found' }
+			]);
+			return;
+		}
+
+		const homestay = await HomestayModel.findByIdAndUpdate(
+			id,
+			{ $set: { hostId: userId } },
+			{ new: true }
+		);
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		sendSuccess(res, homestay, 200, 'Homestay owner assigned successfully');
+	} catch (error) {
+		console.error('Error assigning homestay owner:', error);
+		sendError(res, 'Failed to assign homestay owner', 500);
+	}
+}
+
+/**
+ * Get the availability calendar of a homestay.
+ *
+ * This is a public endpoint - guests use it to pick dates.
+ * Each day is 'available', 'booked' (held by a non-cancelled booking)
+ * or 'blocked' (taken off the market by the host), together with the
+ * nightly price for that day (weekend price on Friday/Saturday nights).
+ *
+ * @route GET /api/v1/homestays/:id/availability
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.query.from - First day, YYYY-MM-DD (default: today)
+ * @param req.query.to - Day after the last day, YYYY-MM-DD (default: from + 30 days)
+ *
+ * @example
+ * GET /api/v1/homestays/507f1f77bcf86cd799439011/availability?from=2025-12-01&to=2025-12-03
+ *
+ * // Success response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "listingId": "507f1f77bcf86cd799439011",
+ *     "from": "2025-12-01",
+ *     "to": "2025-12-03",
+ *     "days": [
+ *       { "date": "2025-12-01", "status": "available", "price": 1500 },
+ *       { "date": "2025-12-02", "status": "booked", "price": 1500 }
+ *     ]
+ *   }
+ * }
+ */
+export async function getHomestayAvailability(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const range = resolveCalendarRange(
+			req.query.from as string | undefined,
+			req.query.to as string | undefined,
+			MAX_CALENDAR_DAYS
+		);
+
+		if (!range) {
+			sendError(res, 'Validation failed', 400, [
+				{ field: 'to', message: `to must be after from and within ${MAX_CALENDAR_DAYS} days` }
+			]);
+			return;
+		}
+
+		const homestay = await HomestayModel.findById(id);
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		const days = await buildAvailabilityCalendar(
+			{ listingType: 'homestay', listing: homestay },
+			range.from,
+			range.to
+		);
+
+		sendSuccess(res, {
+			listingId: homestay._id,
+			from: range.from.toISOString().split('T')[0],
+			to: range.to.toISOString().split('T')[0],
+			days
+		});
+	} catch (error) {
+		console.error('Error fetching homestay availability:', error);
+		sendError(res, 'Failed to fetch availability', 500);
+	}
+}
+
+/**
+ * Get the availability blocks of a homestay.
+ *
+ * This is a protected endpoint - hosts see why dates are blocked.
+ *
+ * @route GET /api/v1/homestays/:id/blocks
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ */
+export async function getHomestayBlocks(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const homestay = await HomestayModel.findById(id);
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		const blocks = await AvailabilityBlockModel.find({ listingId: id }).sort({ startDate: 1 });
+
+		sendSuccess(res, { blocks });
+	} catch (error) {
+		console.error('Error fetching homestay blocks:', error);
+		sendError(res, 'Failed to fetch blocks', 500);
+	}
+}
+
+/**
+ * Block dates on a homestay.
+ *
+ * This is a protected endpoint - requires a host or admin.
+ * Blocked nights show as 'blocked' in the calendar and cannot be booked.
+ * Dates already held by a booking or another block cannot be blocked.
+ *
+ * @route POST /api/v1/homestays/:id/blocks
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.body - CreateBlockInput (endDate is exclusive, like checkOut)
+ *
+ * @example
+ * // Request body
+ * {
+ *   "startDate": "2025-12-20",
+ *   "endDate": "2025-12-27",
+ *   "reason": "personal",
+ *   "note": "Family visiting"
+ * }
+ *
+ * // Error: Dates taken (409 Conflict)
+ * { "success": false, "message": "The selected dates are not available", ... }
+ */
+export async function createHomestayBlock(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const input: CreateBlockInput = req.body;
+		const startDate = new Date(input.startDate);
+		const endDate = new Date(input.endDate);
+
+		const homestay = await HomestayModel.findById(id);
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		/*
+		 * Friendly check first so the host sees what is in the way.
+		 * The night inventory below is what actually guarantees that a
+		 * booking made at the same moment cannot slip in.
+		 */
+		const conflict = await hasDateConflict(id, startDate, endDate);
+		if (conflict) {
+			sendError(res, 'The selected dates are not available', 409, [{
+				field: 'startDate',
+				message: `Overlaps a ${conflict.type} from ${conflict.checkIn} to ${conflict.checkOut}`
+			}]);
+			return;
+		}
+
+		const block = new AvailabilityBlockModel({
+			listingType: 'homestay',
+			listingId: id,
+			startDate,
+			endDate,
+			reason: input.reason,
+			note: input.note,
+			createdBy: req.user?.userId
+		});
+
+		const reserved = await reserveNights(id, { blockId: block._id }, startDate, endDate);
+		if (!reserved) {
+			sendError(res, 'The selected dates are not available', 409);
+			return;
+		}
+
+		try {
+			await block.save();
+		} catch (error) {
+			await releaseNights({ blockId: block._id });
+			throw error;
+		}
+
+		sendSuccess(res, block, 201, 'Dates blocked successfully');
+	} catch (error: unknown) {
+		console.error('Error creating homestay block:', error);
+
+		if (error instanceof Error && error.name === 'ValidationError') {
+			const mongooseError = error as unknown as {
+				errors: Record<string, { message: string }>;
+			};
+			const validationErrors = Object.keys(mongooseError.errors).map(
+				(field) => ({
+					field,
+					message: mongooseError.errors[field].message
+				})
+			);
+			sendError(res, 'Validation failed', 400, validationErrors);
+			return;
+		}
+
+		sendError(res, 'Failed to block dates', 500);
+	}
+}
+
+/**
+ * Remove an availability block, making its dates bookable again.
+ *
+ * This is a protected endpoint - requires a host or admin.
+ *
+ * @route DELETE /api/v1/homestays/:id/blocks/:blockId
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.params.blockId - MongoDB ObjectId of the block
+ */
+export async function deleteHomestayBlock(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id, blockId } = req.params;
+
+		const block = await AvailabilityBlockModel.findOneAndDelete({ _id: blockId, listingId: id });
+
+		if (!block) {
+			sendError(res, 'Block not found', 404);
+			return;
+		}
+
+		await releaseNights({ blockId: block._id });
+
+		sendSuccess(res, null, 200, 'Block removed successfully');
+	} catch (error) {
+		console.error('Error deleting homestay block:', error);
+		sendError(res, 'Failed to remove block', 500);
+	}
+}
+
+// ============================================================================
+// iCal Sync
+// ============================================================================
+
+/**
+ * Builds the public feed URL for a homestay's iCal token.
+ */
+function getFeedUrl(req: Request, homestayId: string, token: string): string {
+	return `${req.protocol}://${req.get('host')}${req.baseUrl}/${homestayId}/calendar.ics?token=${token}`;
+}
+
+/**
+ * Creates a new random feed token and stores it on the homestay.
+ */
+async function issueICalToken(homestay: IHomestayDocument): Promise<string> {
+	const token = randomBytes(24).toString('hex');
+	homestay.icalToken = token;
+	await homestay.save();
+	return token;
+}
+
+/**
+ * Compares feed tokens in constant time.
+ */
+function isValidICalToken(expected: string | undefined, provided: unknown): boolean {
+	if (!expected || typeof provided !== 'string' || provided.length !== expected.length) {
+		return false;
+	}
+
+	return timingSafeEqual(Buffer.from(expected), Buffer.from(provided));
+}
+
+/**
+ * Export a homestay's calendar as an iCal (.ics) feed.
+ *
+ * This endpoint is public but secret: the URL carries a random token,
+ * so hosts can paste it into Airbnb, Booking.com or Google Calendar.
+ * Upcoming pending/confirmed bookings and host blocks are exported as
+ * all-day events. Imported blocks are left out so platforms don't echo
+ * each other's events back.
+ *
+ * @route GET /api/v1/homestays/:id/calendar.ics?token=...
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.query.token - Feed token from GET /homestays/:id/ical
+ */
+export async function getHomestayICalFeed(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const homestay = await HomestayModel.findById(id).select('+icalToken');
+
+		/*
+		 * A wrong token looks exactly like a missing homestay so the
+		 * feed cannot be used to probe which IDs exist.
+		 */
+		if (!homestay || !isValidICalToken(homestay.icalToken, req.query.token)) {
+			sendError(res, 'Calendar not found', 404);
+			return;
+		}
+
+		const today = startOfUTCDay(new Date());
+
+		const [bookings, blocks] = await Promise.all([
+			BookingModel.find({
+				listingId: id,
+				status: { $in: ['pending', 'confirmed'] },
+				checkOut: { $gt: today }
+			}).sort({ checkIn: 1 }),
+			AvailabilityBlockModel.find({
+				listingId: id,
+				source: 'manual',
+				endDate: { $gt: today }
+			}).sort({ startDate: 1 })
+		]);
+
+		const host = req.get('host') || 'jharkhandyatra';
+		const events: CalendarEvent[] = [
+			...bookings.map((booking) => ({
+				uid: `booking-${booking._id}@${host}`,
+				start: booking.checkIn,
+				end: booking.checkOut,
+				summary: booking.status === 'pending' ? 'Booked (pending)' : 'Booked',
+				description: `Booking ${booking.bookingNumber}`
+			})),
+			...blocks.map((block) => ({
+				uid: `block-${block._id}@${host}`,
+				start: block.startDate,
+				end: block.endDate,
+				summary: 'Not available'
+			}))
+		];
+
+		res
+			.status(200)
+			.type('text/calendar; charset=utf-8')
+			.set('Content-Disposition', `inline; filename="homestay-${id}.ics"`)
+			.send(buildICalendar(homestay.title, events));
+	} catch (error) {
+		console.error('Error exporting homestay calendar:', error);
+		sendError(res, 'Failed to export calendar', 500);
+	}
+}
+
+/**
+ * Get the iCal feed URL of a homestay.
+ *
+ * This is a protected endpoint - requires a host or admin.
+ * A token is created the first time the URL is requested.
+ *
+ * @route GET /api/v1/homestays/:id/ical
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ *
+ * @example
+ * // Success response
+ * {
+ *   "success": true,
+ *   "data": { "feedUrl": "http://localhost:2201/api/v1/homestays/.../calendar.ics?token=..." }
+ * }
+ */
+export async function getHomestayICalLink(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const homestay = await HomestayModel.findById(id).select('+icalToken');
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		const token = homestay.icalToken || await issueICalToken(homestay);
+
+		sendSuccess(res, { feedUrl: getFeedUrl(req, id, token) });
+	} catch (error) {
+		console.error('Error fetching iCal link:', error);
+		sendError(res, 'Failed to fetch calendar link', 500);
+	}
+}
+
+/**
+ * Replace a homestay's iCal feed token.
+ *
+ * This is a protected endpoint - requires a host or admin.
+ * The old feed URL stops working immediately; use this if it leaked.
+ *
+ * @route POST /api/v1/homestays/:id/ical/token
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ */
+export async function rotateHomestayICalToken(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+		const homestay = await HomestayModel.findById(id).select('+icalToken');
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		const token = await issueICalToken(homestay);
+
+		sendSuccess(res, { feedUrl: getFeedUrl(req, id, token) }, 200, 'Calendar link regenerated');
+	} catch (error) {
+		console.error('Error rotating iCal token:', error);
+		sendError(res, 'Failed to regenerate calendar link', 500);
+	}
+}
+
+/**
+ * Import another platform's calendar (.ics) as blocked dates.
+ *
+ * This is a protected endpoint - requires a host or admin.
+ * Send the file as the raw request body with Content-Type text/calendar.
+ *
+ * Each import replaces the blocks created by the previous one, so
+ * re-uploading the latest export keeps the two calendars in sync.
+ * Past events are ignored. Events that overlap a booking here (or a
+ * manual block) are skipped and reported instead of imported - those
+ * are the double-bookings the host needs to resolve.
+ *
+ * @route POST /api/v1/homestays/:id/ical/import
+ *
+ * @param req.params.id - MongoDB ObjectId of the homestay
+ * @param req.body - iCalendar text
+ *
+ * @example
+ * // curl -X POST -H "Content-Type: text/calendar" --data-binary @airbnb.ics ...
+ *
+ * // Success response
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "imported": 3,
+ *     "removed": 2,
+ *     "skipped": [
+ *       { "uid": "abc@airbnb.com", "startDate": "2025-12-20", "endDate": "2025-12-22", "reason": "Overlaps a booking from 2025-12-21 to 2025-12-23" }
+ *     ]
+ *   }
+ * }
+ */
+export async function importHomestayICal(
+	req: Request,
+	res: Response
+): Promise<void> {
+	try {
+		const { id } = req.params;
+
+		if (typeof req.body !== 'string' || !req.body.includes('BEGIN:VCALENDAR')) {
+			sendError(res, 'Validation failed', 400, [
+				{ field: 'body', message: 'Send an iCalendar file with Content-Type text/calendar' }
+			]);
+			return;
+		}
+
+		const homestay = await HomestayModel.findById(id);
+
+		if (!homestay) {
+			sendError(res, 'Homestay not found', 404);
+			return;
+		}
+
+		const events = parseICalendar(req.body);
+		const today = startOfUTCDay(new Date());
+
+		// Drop the previous import; its nights become free again
+		const previous = await AvailabilityBlockModel.find({ listingId: id, source: 'ical' });
+		for (const block of previous) {
+			await releaseNights({ blockId: block._id });
+		}
+		await AvailabilityBlockModel.deleteMany({ listingId: id, source: 'ical' });
+
+		const skipped: { uid?: string; startDate: string; endDate: string; reason: string }[] = [];
+		let imported = 0;
+
+		for (const event of events) {
+			if (event.end <= today) {
+				continue;
+			}
+
+			// Only the part of the event from today onwards matters
+			const startDate = event.start < today ? today : event.start;
+			const endDate = event.end;
+			const skip = (reason: string) => skipped.push({
+				uid: event.uid,
+				startDate: toDateString(startDate),
+				endDate: toDateString(endDate),
+				reason
+			});
+
+			if (countNights(startDate, endDate) > MAX_CALENDAR_DAYS) {
+				skip(`Longer than ${MAX_CALENDAR_DAYS} days`);
+				continue;
+			}
+
+			const conflict = await hasDateConflict(id, startDate, endDate);
+			if (conflict) {
+				skip(`Overlaps a ${conflict.type} from ${conflict.checkIn} to ${conflict.checkOut}`);
+				continue;
+			}
+
+			const block = new AvailabilityBlockModel({
+				listingType: 'homestay',
+				listingId: id,
+				startDate,
+				endDate,
+				reason: 'other',
+				note: event.summary ? event.summary.slice(0, 500) : undefined,
+				source: 'ical',
+				externalUid: event.uid,
+				createdBy: req.user?.userId
+			});
+
+			const reserved = await reserveNights(id, { blockId: block._id }, startDate, endDate);
+			if (!reserved) {
+				skip('Dates were taken while importing');
+				continue;
+			}
+
+			try {
+				await block.save();
+			} catch (error) {
+				await releaseNights({ blockId: block._id });
+				throw error;
+			}
+
+			imported++;
+		}
+
+		sendSuccess(res, { imported, removed: previous.length, skipped }, 200, 'Calendar imported');
+	} catch (error) {
+		console.error('Error importing homestay calendar:', error);
+		sendError(res, 'Failed to import calendar', 500);
+	}
+}
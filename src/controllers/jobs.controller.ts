@@ -0,0 +1,112 @@
+/**
+ * Jobs Controller
+ *
+ * Admin endpoints for inspecting background jobs, mainly the ones that
+ * ran out of attempts, and queueing failed jobs to run again.
+ */
+
+import { Request, Response } from 'express';
+import { JobModel } from '../models/jobs/Job.model';
+import { retryJob } from '../services/jobs';
+import {
+	sendSuccess,
+	sendError,
+	getPaginationMeta,
+	parsePaginationParams
+} from '../utils/response.utils';
+
+/**
+ * GET /api/jobs
+ *
+ * Lists jobs, most recently updated first.
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 10, max: 100)
+ * - status: Filter by job status (default: failed)
+ * - name: Filter by job name
+ */
+export async function getAllJobs(req: Request, res: Response): Promise<void> {
+	try {
+		const { page, limit } = parsePaginationParams(
+			req.query.page as string,
+			req.query.limit as string
+		);
+		const { status, name } = req.query as { status?: string; name?: string };
+
+		// The schema's default does not reach here: Express 5 re-parses req.query
+		const filter: Record<string, unknown> = { status: status ?? 'failed' };
+
+		if (name) {
+			filter.name = name;
+		}
+
+		const [jobs, totalResults] = await Promise.all([
+			JobModel.find(filter)
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.sort({ updatedAt: -1 }),
+			JobModel.countDocuments(filter)
+		]);
+
+		sendSuccess(res, {
+			jobs,
+			pagination: getPaginationMeta(page, limit, totalResults)
+		});
+	} catch (error) {
+		console.error('Error fetching jobs:', error);
+		sendError(res, 'Failed to fetch jobs', 500);
+	}
+}
+
+/**
+ * GET /api/jobs/:id
+ *
+ * Retrieves a single job by ID.
+ */
+export async function getJobById(req: Request, res: Response): Promise<void> {
+	try {
+		const job = await JobModel.findById(req.params.id);
+
+		if (!job) {
+			sendError(res, 'Job not found', 404);
+			return;
+		}
+
+		sendSuccess(res, job);
+	} catch (error) {
+		console.error('Error fetching job:', error);
+		sendError(res, 'Failed to fetch job', 500);
+	}
+}
+
+/**
+ * PUT /api/jobs/:id/retry
+ *
+ * Queues a failed job to run again straight away, with a fresh set
+ * of attempts. Its last error is kept until the next run.
+ */
+export async function retryFailedJob(req: Request, res: Response): Promise<void> {
+	try {
+		const job = await retryJob(req.params.id as string);
+
+		if (!job) {
+			const existing = await JobModel.findById(req.params.id);
+
+			if (!existing) {
+				sendError(res, 'Job not found', 404);
+				return;
+			}
+
+			sendError(res, `Cannot retry a job that is ${existing.status}`, 409, [
+				{ field: 'status', message: 'Only failed jobs can be retried' }
+			]);
+			return;
+		}
+
+		sendSuccess(res, job, 200, 'Job queued for retry');
+	} catch (error) {
+		console.error('Error retrying job:', error);
+		sendError(res, 'Failed to retry job', 500);
+	}
+}
@@ -0,0 +1,353 @@
+/**
+ * Payments Controller
+ *
+ * Creates payment orders for bookings and applies provider webhooks.
+ * The provider is chosen by PAYMENT_GATEWAY (see services/payments);
+ * this controller only talks to the PaymentGateway interface.
+ */
+
+import { Request, Response } from 'express';
+import { BookingModel } from '../models/bookings/Booking.model';
+import {
+	PaymentModel,
+	IPaymentDocument,
+	CreatePaymentOrderInput,
+	paymentTransitions,
+	bookingPaymentStatus
+} from '../models/payments/Payment.model';
+import {
+	getPaymentGateway,
+	isMockGateway,
+	GatewayOrder,
+	PaymentWebhookEvent,
+	MockPaymentOutcome
+} from '../services/payments';
+import {
+	applyRefundEvent,
+	refundLatePayment,
+	refundDuplicatePayment
+} from '../services/payments/refund.service';
+import { sendSuccess, sendError } from '../utils/response.utils';
+
+/** Attempts at applying an event when another webhook changes the payment first */
+const MAX_EVENT_ATTEMPTS = 3;
+
+/**
+ * Result of applying a webhook event.
+ *
+ * - 'applied': The payment (and booking) status changed
+ * - 'recorded': Stored, but not allowed from the current status
+ * - 'duplicate': Already received before
+ * - 'ignored': No payment matches the event
+ */
+type EventOutcome = 'applied' | 'recorded' | 'duplicate' | 'ignored';
+
+/**
+ * Finds the payment a webhook event belongs to.
+ */
+async function findPaymentForEvent(event: PaymentWebhookEvent): Promise<IPaymentDocument | null> {
+	if (event.orderId) {
+		return PaymentModel.findOne({ orderId: event.orderId });
+	}
+
+	return event.paymentId ? PaymentModel.findOne({ paymentId: event.paymentId }) : null;
+}
+
+/**
+ * Applies a verified webhook event to its payment and booking.
+ *
+ * Idempotent: the event ID is stored on the payment in the same atomic
+ * update that changes its status, so a redelivered (or concurrently
+ * delivered) event is applied at most once. The update is conditional
+ * on the status it was computed from; if another event got there first
+ * the transition is re-evaluated.
+ *
+ * A paid (or refunded) booking is never moved back by another order: a
+ * late failure of an older order changes nothing, and a capture on a
+ * second order is refunded as a duplicate payment.
+ */
+async function applyPaymentEvent(event: PaymentWebhookEvent): Promise<EventOutcome> {
+	for (let attempt = 0; attempt < MAX_EVENT_ATTEMPTS; attempt++) {
+		const payment = await findPaymentForEvent(event);
+
+		if (!payment) {
+			return 'ignored';
+		}
+
+		if (payment.events.some((received) => received.eventId === event.eventId)) {
+			return 'duplicate';
+		}
+
+		const transition = paymentTransitions[event.type];
+		let next = transition && transition.from.includes(payment.status) ? transition.to : null;
+
+		// Never mark an order paid for a different amount than we asked for
+		if (next === 'completed' && event.amount !== undefined && event.amount !== payment.amount) {
+			console.warn(`Payment ${payment.orderId}: captured ${event.amount}, expected ${payment.amount}`);
+			next = null;
+		}
+
+		const updated = await PaymentModel.findOneAndUpdate(
+			{
+				_id: payment._id,
+				status: payment.status,
+				'events.eventId': { $ne: event.eventId }
+			},
+			{
+				$push: {
+					events: {
+						eventId: event.eventId,
+						type: event.type,
+						applied: next !== null,
+						receivedAt: new Date()
+					}
+				},
+				...(next && {
+					$set: {
+						status: next,
+						...(event.paymentId && event.type !== 'refund.processed' && { paymentId: event.paymentId }),
+						...(event.failureReason && { failureReason: event.failureReason })
+					}
+				})
+			},
+			{ new: true }
+		);
+
+		if (!updated) {
+			continue; // Status changed or event recorded concurrently - look again
+		}
+
+		if (!next) {
+			return 'recorded';
+		}
+
+		// A duplicate payment's refund says nothing about the booking
+		if (updated.duplicate) {
+			return 'applied';
+		}
+
+		const booking = await BookingModel.updateOne(
+			{
+				_id: updated.bookingId,
+				...(next !== 'refunded' && { paymentStatus: { $nin: ['completed', 'refunded'] } })
+			},
+			{ $set: { paymentStatus: bookingPaymentStatus[next] } }
+		);
+
+		if (next === 'completed') {
+			if (booking.matchedCount === 0) {
+				// Another order already paid the booking
+				await refundDuplicatePayment(updated);
+			} else {
+				// The booking may have expired or been cancelled while the guest was paying
+				await refundLatePayment(updated.bookingId);
+			}
+		}
+
+		return 'applied';
+	}
+
+	return 'duplicate';
+}
+
+/**
+ * Verifies, parses and applies a webhook body.
+ *
+ * @returns The outcome, or null if the signature is invalid
+ */
+async function handleWebhook(
+	rawBody: Buffer | string,
+	signature: string | undefined,
+	eventId: string | undefined
+): Promise<{ outcome: EventOutcome; event: PaymentWebhookEvent | null } | null> {
+	const gateway = getPaymentGateway();
+
+	if (!gateway.verifyWebhookSignature(rawBody, signature)) {
+		return null;
+	}
+
+	const event = gateway.parseWebhookEvent(JSON.parse(rawBody.toString()), eventId);
+
+	if (!event) {
+		return { outcome: 'ignored', event };
+	}
+
+	const outcome = await applyPaymentEvent(event);
+
+	// Refund events also settle the refund record (first delivery only)
+	if ((outcome === 'applied' || outcome === 'recorded') && event.type.startsWith('refund.')) {
+		await applyRefundEvent(event);
+	}
+
+	return { outcome, event };
+}
+
+/**
+ * POST /api/payments/orders
+ *
+ * Creates a payment order at the provider for a booking's total.
+ * The frontend opens the provider's checkout with the returned order.
+ *
+ * Request body: CreatePaymentOrderInput
+ */
+export async function createPaymentOrder(req: Request, res: Response): Promise<void> {
+	try {
+		const input: CreatePaymentOrderInput = req.body;
+		const booking = await BookingModel.findById(input.bookingId);
+
+		if (!booking) {
+			sendError(res, 'Booking not found', 404);
+			return;
+		}
+
+		if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+			sendError(res, `Cannot pay for a booking that is ${booking.status}`, 409, [
+				{ field: 'bookingId', message: 'Only pending or confirmed bookings can be paid' }
+			]);
+			return;
+		}
+
+		if (booking.paymentStatus === 'completed' || booking.paymentStatus === 'refunded') {
+			sendError(res, 'This booking has already been paid', 409, [
+				{ field: 'bookingId', message: `Payment status is ${booking.paymentStatus}` }
+			]);
+			return;
+		}
+
+		const gateway = getPaymentGateway();
+		let order: GatewayOrder;
+
+		try {
+			order = await gateway.createOrder({
+				amount: booking.pricing.total,
+				currency: 'INR',
+				receipt: booking.bookingNumber,
+				notes: { bookingId: booking._id.toString() }
+			});
+		} catch (error) {
+			console.error('Error creating order at payment provider:', error);
+			sendError(res, 'Payment provider is unavailable, please try again', 502);
+			return;
+		}
+
+		const payment = await PaymentModel.create({
+			bookingId: booking._id,
+			provider: gateway.name,
+			orderId: order.orderId,
+			amount: order.amount,
+			currency: order.currency,
+			status: 'created'
+		});
+
+		sendSuccess(res, {
+			paymentId: payment._id,
+			provider: payment.provider,
+			orderId: payment.orderId,
+			amount: payment.amount,
+			currency: payment.currency,
+			bookingNumber: booking.bookingNumber,
+			...(gateway.publicKey && { keyId: gateway.publicKey })
+		}, 201, 'Payment order created');
+	} catch (error) {
+		console.error('Error creating payment order:', error);
+		sendError(res, 'Failed to create payment order', 500);
+	}
+}
+
+/**
+ * GET /api/payments/orders/:orderId
+ *
+ * Returns the status of a payment order (for polling after checkout).
+ */
+export async function getPaymentOrder(req: Request, res: Response): Promise<void> {
+	try {
+		const payment = await PaymentModel.findOne({ orderId: req.params.orderId }).select('-events');
+
+		if (!payment) {
+			sendError(res, 'Payment order not found', 404);
+			return;
+		}
+
+		sendSuccess(res, payment);
+	} catch (error) {
+		console.error('Error fetching payment order:', error);
+		sendError(res, 'Failed to fetch payment order', 500);
+	}
+}
+
+/**
+ * POST /api/payments/webhook
+ *
+ * Receives provider webhooks. The signature header is checked against
+ * the raw body before anything is trusted. Redelivered events are
+ * acknowledged but not applied twice.
+ */
+export async function receivePaymentWebhook(req: Request, res: Response): Promise<void> {
+	try {
+		const gateway = getPaymentGateway();
+
+		if (!req.rawBody) {
+			sendError(res, 'Webhook body must be JSON', 400);
+			return;
+		}
+
+		const result = await handleWebhook(
+			req.rawBody,
+			req.get(gateway.signatureHeader),
+			req.get('x-razorpay-event-id')
+		);
+
+		if (!result) {
+			sendError(res, 'Invalid webhook signature', 400);
+			return;
+		}
+
+		sendSuccess(res, { outcome: result.outcome });
+	} catch (error) {
+		console.error('Error processing payment webhook:', error);
+		sendError(res, 'Failed to process webhook', 500);
+	}
+}
+
+/**
+ * POST /api/payments/mock/orders/:orderId/pay
+ *
+ * Development only: pays (or fails) a mock order. Builds the signed
+ * webhook the provider would send and runs it through the same
+ * verification and processing as a real webhook.
+ *
+ * Only available while PAYMENT_GATEWAY=mock outside production.
+ *
+ * Request body: { outcome: 'success' | 'failure' }
+ */
+export async function payMockOrder(req: Request, res: Response): Promise<void> {
+	try {
+		const gateway = getPaymentGateway();
+
+		if (!isMockGateway(gateway) || process.env.NODE_ENV === 'production') {
+			sendError(res, 'Not found', 404);
+			return;
+		}
+
+		const payment = await PaymentModel.findOne({ orderId: req.params.orderId, provider: 'mock' });
+
+		if (!payment) {
+			sendError(res, 'Payment order not found', 404);
+			return;
+		}
+
+		const outcome: MockPaymentOutcome = req.body.outcome;
+		const webhook = gateway.simulatePayment(payment.orderId, payment.amount, outcome);
+		const result = await handleWebhook(webhook.rawBody, webhook.signature, webhook.eventId);
+
+		const updated = await PaymentModel.findById(payment._id).select('-events');
+
+		sendSuccess(res, {
+			outcome: result?.outcome,
+			payment: updated
+		}, 200, outcome === 'success' ? 'Mock payment captured' : 'Mock payment failed');
+	} catch (error) {
+		console.error('Error simulating payment:', error);
+		sendError(res, 'Failed to simulate payment', 500);
+	}
+}
@@ -0,0 +1,211 @@
+/**
+ * Refunds Controller
+ *
+ * Admin endpoints for the refund ledger. Refunds are created when a paid
+ * booking is cancelled; admins send them to the payment provider, record
+ * manual payouts, or mark them failed.
+ */
+
+import { Request, Response } from 'express';
+import {
+	RefundModel,
+	IRefundDocument,
+	CompleteRefundInput,
+	FailRefundInput
+} from '../models/payments/Refund.model';
+import {
+	processRefund,
+	markRefundSucceeded,
+	markRefundFailed
+} from '../services/payments/refund.service';
+import {
+	sendSuccess,
+	sendError,
+	getPaginationMeta,
+	parsePaginationParams
+} from '../utils/response.utils';
+
+/**
+ * Loads a refund by the :id route parameter.
+ *
+ * Sends the 404 response itself and returns null if there is none.
+ */
+async function findRefund(req: Request, res: Response): Promise<IRefundDocument | null> {
+	const refund = await RefundModel.findById(req.params.id);
+
+	if (!refund) {
+		sendError(res, 'Refund not found', 404);
+	}
+
+	return refund;
+}
+
+/**
+ * Sends the 409 response for an action not allowed in the refund's status.
+ */
+function sendRefundConflict(res: Response, action: string, status: string, allowedFrom: string[]): void {
+	sendError(res, `Cannot ${action} a refund that is ${status}`, 409, [
+		{ field: 'status', message: `Only allowed from: ${allowedFrom.join(', ')}` }
+	]);
+}
+
+/**
+ * GET /api/refunds
+ *
+ * Lists refunds, oldest first, so the queue is worked in order.
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 10, max: 100)
+ * - status: Filter by refund status (e.g. requested)
+ */
+export async function getAllRefunds(req: Request, res: Response): Promise<void> {
+	try {
+		const { page, limit } = parsePaginationParams(
+			req.query.page as string,
+			req.query.limit as string
+		);
+		const status = req.query.status as string | undefined;
+
+		const filter: Record<string, unknown> = {};
+
+		if (status) {
+			filter.status = status;
+		}
+
+		const [refunds, totalResults] = await Promise.all([
+			RefundModel.find(filter)
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.sort({ createdAt: 1 }),
+			RefundModel.countDocuments(filter)
+		]);
+
+		sendSuccess(res, {
+			refunds,
+			pagination: getPaginationMeta(page, limit, totalResults)
+		});
+	} catch (error) {
+		console.error('Error fetching refunds:', error);
+		sendError(res, 'Failed to fetch refunds', 500);
+	}
+}
+
+/**
+ * GET /api/refunds/:id
+ *
+ * Retrieves a single refund by ID.
+ */
+export async function getRefundById(req: Request, res: Response): Promise<void> {
+	try {
+		const refund = await findRefund(req, res);
+		if (!refund) return;
+
+		sendSuccess(res, refund);
+	} catch (error) {
+		console.error('Error fetching refund:', error);
+		sendError(res, 'Failed to fetch refund', 500);
+	}
+}
+
+/**
+ * PUT /api/refunds/:id/process
+ *
+ * Sends a requested or failed refund to the payment provider. The refund
+ * ends up 'succeeded' if the provider pays out immediately, 'processing'
+ * until its webhook arrives, or 'failed' (502) if the provider refuses.
+ */
+export async function processPendingRefund(req: Request, res: Response): Promise<void> {
+	try {
+		const refund = await findRefund(req, res);
+		if (!refund) return;
+
+		const processed = await processRefund(refund._id, req.user?.userId);
+
+		if (!processed) {
+			sendRefundConflict(res, 'process', refund.status, ['requested', 'failed']);
+			return;
+		}
+
+		if (processed.status === 'failed') {
+			sendError(res, 'Payment provider rejected the refund', 502, [
+				{ field: 'refund', message: processed.failureReason || 'Unknown provider error' }
+			]);
+			return;
+		}
+
+		sendSuccess(
+			res,
+			processed,
+			200,
+			processed.status === 'succeeded' ? 'Refund completed' : 'Refund sent to payment provider'
+		);
+	} catch (error) {
+		console.error('Error processing refund:', error);
+		sendError(res, 'Failed to process refund', 500);
+	}
+}
+
+/**
+ * PUT /api/refunds/:id/complete
+ *
+ * Records a refund paid out outside the payment provider (e.g. bank
+ * transfer), or confirms one whose provider webhook never arrived.
+ *
+ * Request body: CompleteRefundInput
+ */
+export async function completeRefundManually(req: Request, res: Response): Promise<void> {
+	try {
+		const input: CompleteRefundInput = req.body;
+		const allowedFrom = ['requested', 'processing', 'failed'] as const;
+
+		const refund = await findRefund(req, res);
+		if (!refund) return;
+
+		const completed = await markRefundSucceeded(refund._id, [...allowedFrom], {
+			referenceId: input.referenceId,
+			note: input.note,
+			processedBy: req.user?.userId
+		});
+
+		if (!completed) {
+			sendRefundConflict(res, 'complete', refund.status, [...allowedFrom]);
+			return;
+		}
+
+		sendSuccess(res, completed, 200, 'Refund marked as succeeded');
+	} catch (error) {
+		console.error('Error completing refund:', error);
+		sendError(res, 'Failed to complete refund', 500);
+	}
+}
+
+/**
+ * PUT /api/refunds/:id/fail
+ *
+ * Marks a refund as failed (e.g. the provider rejected it outside the
+ * webhook flow). Failed refunds can be processed again.
+ *
+ * Request body: FailRefundInput
+ */
+export async function failRefund(req: Request, res: Response): Promise<void> {
+	try {
+		const input: FailRefundInput = req.body;
+		const allowedFrom = ['requested', 'processing'] as const;
+
+		const refund = await findRefund(req, res);
+		if (!refund) return;
+
+		const failed = await markRefundFailed(refund._id, [...allowedFrom], input.reason, req.user?.userId);
+
+		if (!failed) {
+			sendRefundConflict(res, 'fail', refund.status, [...allowedFrom]);
+			return;
+		}
+
+		sendSuccess(res, failed, 200, 'Refund marked as failed');
+	} catch (error) {
+		console.error('Error failing refund:', error);
+		sendError(res, 'Failed to update refund', 500);
+	}
+}
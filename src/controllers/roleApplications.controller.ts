@@ -0,0 +1,259 @@
+/**
+ * Role Applications Controller
+ *
+ * Customers apply for the host or guide role; admins approve or reject
+ * the applications. An approval changes the user's role and records the
+ * change. The JWT a user already holds keeps its old role until their
+ * next login.
+ */
+
+import { Request, Response } from 'express';
+import {
+	RoleApplicationModel,
+	IRoleApplicationDocument,
+	CreateRoleApplicationInput
+} from '../models/users/RoleApplication.model';
+import { RoleChangeModel } from '../models/users/RoleChange.model';
+import { UserModel } from '../models/users/User.model';
+import {
+	sendSuccess,
+	sendError,
+	getPaginationMeta,
+	parsePaginationParams
+} from '../utils/response.utils';
+import { ApproveRoleApplicationDTO, RejectRoleApplicationDTO } from '../validation';
+
+/** Applicant fields shown to admins */
+const APPLICANT_FIELDS = 'name email role';
+
+/**
+ * Moves a pending application to 'approved' or 'rejected'.
+ * Only one admin can review an application; sends 404/409 and returns
+ * null otherwise.
+ */
+async function reviewApplication(
+	req: Request,
+	res: Response,
+	status: 'approved' | 'rejected',
+	note?: string
+): Promise<IRoleApplicationDocument | null> {
+	const application = await RoleApplicationModel.findOneAndUpdate(
+		{ _id: req.params.id, status: 'pending' },
+		{
+			$set: {
+				status,
+				reviewedBy: req.user!.userId,
+				reviewedAt: new Date(),
+				reviewNote: note
+			}
+		},
+		{ new: true }
+	);
+
+	if (application) {
+		return application;
+	}
+
+	const existing = await RoleApplicationModel.findById(req.params.id).select('status');
+
+	if (!existing) {
+		sendError(res, 'Role application not found', 404);
+	} else {
+		sendError(res, `Role application is already ${existing.status}`, 409);
+	}
+
+	return null;
+}
+
+/**
+ * POST /api/role-applications
+ *
+ * Applies for the host or guide role. A user can have one pending
+ * application at a time.
+ *
+ * Request body: CreateRoleApplicationInput
+ */
+export async function applyForRole(req: Request, res: Response): Promise<void> {
+	try {
+		const input: CreateRoleApplicationInput = req.body;
+		const user = await UserModel.findById(req.user!.userId).select('role');
+
+		if (!user) {
+			sendError(res, 'User not found', 404);
+			return;
+		}
+
+		if (user.role === 'admin' || user.role === input.requestedRole) {
+			sendError(res, `You already have the ${user.role} role`, 400);
+			return;
+		}
+
+		const application = await RoleApplicationModel.create({
+			...input,
+			userId: user._id
+		});
+
+		sendSuccess(res, application, 201, 'Role application submitted');
+	} catch (error) {
+		if ((error as { code?: number }).code === 11000) {
+			sendError(res, 'You already have a pending role application', 409);
+			return;
+		}
+
+		console.error('Error creating role application:', error);
+		sendError(res, 'Failed to submit role application', 500);
+	}
+}
+
+/**
+ * GET /api/role-applications/mine
+ *
+ * Lists the logged-in user's applications, newest first.
+ */
+export async function getMyRoleApplications(req: Request, res: Response): Promise<void> {
+	try {
+		const applications = await RoleApplicationModel.find({ userId: req.user!.userId })
+			.sort({ createdAt: -1 });
+
+		sendSuccess(res, applications);
+	} catch (error) {
+		console.error('Error fetching role applications:', error);
+		sendError(res, 'Failed to fetch role applications', 500);
+	}
+}
+
+/**
+ * GET /api/role-applications
+ *
+ * Lists applications, oldest first so the review queue is worked in order.
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 10, max: 100)
+ * - status: Filter by status (default: pending)
+ * - requestedRole: Filter by role applied for
+ */
+export async function getAllRoleApplications(req: Request, res: Response): Promise<void> {
+	try {
+		const { page, limit } = parsePaginationParams(
+			req.query.page as string,
+			req.query.limit as string
+		);
+		const { status, requestedRole } = req.query as { status?: string; requestedRole?: string };
+
+		// The schema's default does not reach here: Express 5 re-parses req.query
+		const filter: Record<string, unknown> = { status: status ?? 'pending' };
+
+		if (requestedRole) {
+			filter.requestedRole = requestedRole;
+		}
+
+		const [applications, totalResults] = await Promise.all([
+			RoleApplicationModel.find(filter)
+				.populate('userId', APPLICANT_FIELDS)
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.sort({ createdAt: 1 }),
+			RoleApplicationModel.countDocuments(filter)
+		]);
+
+		sendSuccess(res, {
+			applications,
+			pagination: getPaginationMeta(page, limit, totalResults)
+		});
+	} catch (error) {
+		console.error('Error fetching role applications:', error);
+		sendError(res, 'Failed to fetch role applications', 500);
+	}
+}
+
+/**
+ * GET /api/role-applications/:id
+ *
+ * Retrieves a single application with the applicant.
+ */
+export async function getRoleApplicationById(req: Request, res: Response): Promise<void> {
+	try {
+		const application = await RoleApplicationModel.findById(req.params.id)
+			.populate('userId', APPLICANT_FIELDS);
+
+		if (!application) {
+			sendError(res, 'Role application not found', 404);
+			return;
+		}
+
+		sendSuccess(res, application);
+	} catch (error) {
+		console.error('Error fetching role application:', error);
+		sendError(res, 'Failed to fetch role application', 500);
+	}
+}
+
+/**
+ * PUT /api/role-applications/:id/approve
+ *
+ * Approves a pending application, gives the applicant the requested role
+ * and records the change.
+ *
+ * Request body: { note? }
+ */
+export async function approveRoleApplication(req: Request, res: Response): Promise<void> {
+	try {
+		const { note }: ApproveRoleApplicationDTO = req.body;
+
+		const application = await reviewApplication(req, res, 'approved', note);
+		if (!application) return;
+
+		const user = await UserModel.findById(application.userId).select('role');
+
+		if (!user) {
+			sendError(res, 'Applicant not found', 404);
+			return;
+		}
+
+		const fromRole = user.role;
+		user.role = application.requestedRole;
+		await user.save();
+
+		await RoleChangeModel.create({
+			userId: user._id,
+			fromRole,
+			toRole: application.requestedRole,
+			changedBy: req.user!.userId,
+			reason: note || `Approved ${application.requestedRole} application`,
+			applicationId: application._id
+		});
+
+		sendSuccess(
+			res,
+			application,
+			200,
+			`Role application approved; the user becomes a ${application.requestedRole} at their next login`
+		);
+	} catch (error) {
+		console.error('Error approving role application:', error);
+		sendError(res, 'Failed to approve role application', 500);
+	}
+}
+
+/**
+ * PUT /api/role-applications/:id/reject
+ *
+ * Rejects a pending application. The user keeps their role and can
+ * apply again.
+ *
+ * Request body: { reason }
+ */
+export async function rejectRoleApplication(req: Request, res: Response): Promise<void> {
+	try {
+		const { reason }: RejectRoleApplicationDTO = req.body;
+
+		const application = await reviewApplication(req, res, 'rejected', reason);
+		if (!application) return;
+
+		sendSuccess(res, application, 200, 'Role application rejected');
+	} catch (error) {
+		console.error('Error rejecting role application:', error);
+		sendError(res, 'Failed to reject role application', 500);
+	}
+}
@@ -0,0 +1,82 @@
+/**
+ * Roles Controller
+ *
+ * Admin endpoints for viewing and editing the permissions of each role.
+ * Changes apply to the next request on this instance and within
+ * PERMISSION_CACHE_TTL_MS on the others; no deploy or new token needed.
+ */
+
+import { Request, Response } from 'express';
+import { UserRole } from '../models/users/User.model';
+import { listRoles, updateRole } from '../services/roles/permission.store';
+import { sendSuccess, sendError } from '../utils/response.utils';
+import { UpdateRoleDTO } from '../validation';
+
+/**
+ * GET /api/roles
+ *
+ * Lists every role with its permissions.
+ */
+export async function getAllRoles(req: Request, res: Response): Promise<void> {
+	try {
+		sendSuccess(res, await listRoles());
+	} catch (error) {
+		console.error('Error fetching roles:', error);
+		sendError(res, 'Failed to fetch roles', 500);
+	}
+}
+
+/**
+ * GET /api/roles/:name
+ *
+ * Retrieves a single role.
+ */
+export async function getRoleByName(req: Request, res: Response): Promise<void> {
+	try {
+		const role = (await listRoles()).find((r) => r._id === req.params.name);
+
+		if (!role) {
+			sendError(res, 'Role not found', 404);
+			return;
+		}
+
+		sendSuccess(res, role);
+	} catch (error) {
+		console.error('Error fetching role:', error);
+		sendError(res, 'Failed to fetch role', 500);
+	}
+}
+
+/**
+ * PUT /api/roles/:name
+ *
+ * Replaces a role's permissions. The admin role must keep '*', so admins
+ * cannot lock themselves out.
+ *
+ * Request body: { permissions, description? }
+ */
+export async function updateRolePermissions(req: Request, res: Response): Promise<void> {
+	try {
+		const name = req.params.name as UserRole;
+		const changes: UpdateRoleDTO = req.body;
+
+		if (name === 'admin' && !changes.permissions.includes('*')) {
+			sendError(res, 'The admin role must keep all permissions', 400, [
+				{ field: 'permissions', message: "Must include '*'" }
+			]);
+			return;
+		}
+
+		const role = await updateRole(name, changes, req.user!.userId);
+
+		if (!role) {
+			sendError(res, 'Role not found', 404);
+			return;
+		}
+
+		sendSuccess(res, role, 200, 'Role permissions updated');
+	} catch (error) {
+		console.error('Error updating role:', error);
+		sendError(res, 'Failed to update role', 500);
+	}
+}
@@ -0,0 +1,86 @@
+/**
+ * Users Controller
+ *
+ * Admin endpoints for login lockouts: unlocking accounts locked after
+ * too many failed passwords, and the lockout audit log.
+ */
+
+import { Request, Response } from 'express';
+import { toUserResponse } from '../models/users/User.model';
+import { LockoutEventModel } from '../models/users/LockoutEvent.model';
+import { unlockAccount } from '../services/auth/loginProtection.service';
+import {
+	sendSuccess,
+	sendError,
+	getPaginationMeta,
+	parsePaginationParams
+} from '../utils/response.utils';
+
+/**
+ * GET /api/users/lockout-events
+ *
+ * Lists lockout events, newest first.
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 10, max: 100)
+ * - type: account_locked, account_unlocked or ip_blocked
+ * - userId: Only events of this user
+ */
+export async function getLockoutEvents(req: Request, res: Response): Promise<void> {
+	try {
+		const { page, limit } = parsePaginationParams(
+			req.query.page as string,
+			req.query.limit as string
+		);
+		const { type, userId } = req.query as { type?: string; userId?: string };
+
+		const filter: Record<string, unknown> = {};
+
+		if (type) {
+			filter.type = type;
+		}
+
+		if (userId) {
+			filter.userId = userId;
+		}
+
+		const [events, totalResults] = await Promise.all([
+			LockoutEventModel.find(filter)
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.sort({ createdAt: -1 }),
+			LockoutEventModel.countDocuments(filter)
+		]);
+
+		sendSuccess(res, {
+			events,
+			pagination: getPaginationMeta(page, limit, totalResults)
+		});
+	} catch (error) {
+		console.error('Error fetching lockout events:', error);
+		sendError(res, 'Failed to fetch lockout events', 500);
+	}
+}
+
+/**
+ * POST /api/users/:id/unlock
+ *
+ * Unlocks an account and clears its failed login attempts. Recorded as
+ * an 'account_unlocked' event.
+ */
+export async function unlockUser(req: Request, res: Response): Promise<void> {
+	try {
+		const user = await unlockAccount(req.params.id as string, req.user!.userId);
+
+		if (!user) {
+			sendError(res, 'User not found', 404);
+			return;
+		}
+
+		sendSuccess(res, toUserResponse(user), 200, 'Account unlocked');
+	} catch (error) {
+		console.error('Error unlocking user:', error);
+		sendError(res, 'Failed to unlock user', 500);
+	}
+}
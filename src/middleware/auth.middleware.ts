@@ -2,10 +2,17 @@
  * Authentication Middleware
  *
  * JWT-based authentication middleware for protecting routes.
+ *
+ * Access tokens issued at login carry a session ID. Once that session is
+ * revoked (logout, "log out everywhere", password change, refresh token
+ * reuse) or the user is deactivated, its tokens are rejected even before
+ * they expire. Tokens without a session are rejected.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { SessionModel } from '../models/users/Session.model';
+import { UserModel } from '../models/users/User.model';
 import { sendError } from '../utils/response.utils';
 
 /**
@@ -20,10 +27,35 @@ const JWT_SECRET =
 export interface JwtPayload {
 	userId: string;
 	role: string;
+	/** Session the token was issued for */
+	sessionId: string;
 	iat?: number;
 	exp?: number;
 }
 
+/**
+ * Checks that a token's session has not been revoked or expired and that
+ * its user is still active.
+ */
+async function isSessionActive(payload: JwtPayload): Promise<boolean> {
+	if (!payload.sessionId) {
+		return false;
+	}
+
+	const [session, user] = await Promise.all([
+		SessionModel.findById(payload.sessionId).select('userId revokedAt expiresAt').lean(),
+		UserModel.findById(payload.userId).select('isActive').lean()
+	]);
+
+	return (
+		!!session &&
+		!session.revokedAt &&
+		session.expiresAt > new Date() &&
+		session.userId.toString() === payload.userId &&
+		!!user?.isActive
+	);
+}
+
 /**
  * Verifies JWT token and attaches user info to request.
  *
@@ -32,11 +64,13 @@ export interface JwtPayload {
  * @example
  * router.get('/profile', authenticate, getProfile);
  */
-export function authenticate(
+export async function authenticate(
 	req: Request,
 	res: Response,
 	next: NextFunction
-): void {
+): Promise<void> {
+	let decoded: JwtPayload;
+
 	try {
 		const authHeader = req.headers.authorization;
 
@@ -52,12 +86,7 @@ export function authenticate(
 			return;
 		}
 
-		const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-
-		// Attach user info to request
-		req.user = decoded;
-
-		next();
+		decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
 	} catch (error) {
 		if (error instanceof jwt.TokenExpiredError) {
 			sendError(res, 'Token expired', 401);
@@ -70,6 +99,44 @@ export function authenticate(
 		}
 
 		sendError(res, 'Authentication failed', 401);
+		return;
+	}
+
+	try {
+		if (!(await isSessionActive(decoded))) {
+			sendError(res, 'Session has been revoked or the account deactivated', 401);
+			return;
+		}
+	} catch (error) {
+		console.error('Session check error:', error);
+		sendError(res, 'Authentication check failed', 500);
+		return;
+	}
+
+	// Attach user info to request
+	req.user = decoded;
+
+	next();
+}
+
+/**
+ * Reads the user from a Bearer token without rejecting the request.
+ *
+ * @returns The token's payload, or null if there is no valid token
+ */
+export function getTokenUser(req: Request): JwtPayload | null {
+	const authHeader = req.headers.authorization;
+
+	if (!authHeader || !authHeader.startsWith('Bearer ')) {
+		return null;
+	}
+
+	const token = authHeader.split(' ')[1];
+
+	try {
+		return token ? (jwt.verify(token, JWT_SECRET) as JwtPayload) : null;
+	} catch {
+		return null;
 	}
 }
 
@@ -77,45 +144,41 @@ export function authenticate(
  * Optional authentication - attaches user if token is present.
  *
  * Use this middleware for routes that work differently when authenticated.
+ * An invalid token, or one from a revoked session, is ignored and the
+ * request continues without a user.
  *
  * @example
  * router.get('/homestays', optionalAuth, getHomestays);
  */
-export function optionalAuth(
+export async function optionalAuth(
 	req: Request,
-	res: Response,
+	_res: Response,
 	next: NextFunction
-): void {
-	try {
-		const authHeader = req.headers.authorization;
+): Promise<void> {
+	const user = getTokenUser(req);
 
-		if (authHeader && authHeader.startsWith('Bearer ')) {
-			const token = authHeader.split(' ')[1];
-
-			if (token) {
-				const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-				req.user = decoded;
-			}
-		}
-
-		next();
-	} catch {
-		// Token invalid but continue without user
-		next();
+	if (user && (await isSessionActive(user).catch(() => false))) {
+		req.user = user;
 	}
+
+	next();
 }
 
 /**
- * Generates a JWT token for a user.
+ * Generates a short-lived JWT access token for a user.
+ *
+ * Clients get a new one from POST /auth/refresh (see
+ * services/auth/token.service).
  *
  * @param userId - User's database ID
  * @param role - User's role
+ * @param sessionId - Session the token belongs to
  * @returns Signed JWT token
  */
-export function generateToken(userId: string, role: string): string {
-	const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+export function generateToken(userId: string, role: string, sessionId: string): string {
+	const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
 
-	return jwt.sign({ userId, role }, JWT_SECRET, {
+	return jwt.sign({ userId, role, sessionId }, JWT_SECRET, {
 		expiresIn: expiresIn as jwt.SignOptions['expiresIn']
 	});
 }
@@ -0,0 +1,196 @@
+/**
+ * Idempotency Middleware
+ *
+ * Makes POST requests safe to retry. A client sends a unique
+ * `Idempotency-Key` header (e.g. a UUID) with the request and the same
+ * key with every retry of it:
+ *
+ * - First request: runs normally; the JSON response is stored
+ * - Retry with the same body: the stored response is replayed with an
+ *   `Idempotent-Replayed: true` header, without running the handler again
+ * - Same key with a different method, path or body: 422
+ * - Retry while the first request is still running: 409
+ *
+ * Keys belong to the user in the Bearer token (or to anonymous guests)
+ * and expire after IDEMPOTENCY_KEY_TTL_HOURS (default 24). Server errors
+ * (5xx) are not stored, so the request can be retried for real. A client
+ * that disconnects does not free the key: the handler keeps running and
+ * its response is stored for the retry. Keys of handlers that die are
+ * taken over after PROCESSING_TIMEOUT_MS.
+ * Requests without the header are not affected.
+ */
+
+import { createHash } from 'node:crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyKeyModel, IIdempotencyKeyDocument } from '../models/idempotency/IdempotencyKey.model';
+import { getTokenUser } from './auth.middleware';
+import { sendError } from '../utils/response.utils';
+
+/** How long a key is remembered */
+const TTL_HOURS = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+
+/** A 'processing' key older than this belongs to a request that died */
+const PROCESSING_TIMEOUT_MS = 60 * 1000;
+
+/** Longest key accepted */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Hashes what makes two requests "the same": method, path and body.
+ */
+function getFingerprint(req: Request): string {
+	return createHash('sha256')
+		.update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? {})}`)
+		.digest('hex');
+}
+
+/**
+ * Takes the key for this request: creates it, or takes over one that has
+ * expired or whose request never finished.
+ *
+ * @returns The key if this request should run, otherwise the existing one
+ */
+async function claimKey(
+	key: string,
+	scope: string,
+	fingerprint: string
+): Promise<{ claimed: boolean; record: IIdempotencyKeyDocument | null }> {
+	const now = new Date();
+	const fresh = {
+		fingerprint,
+		status: 'processing',
+		expiresAt: new Date(now.getTime() + TTL_HOURS * 60 * 60 * 1000)
+	};
+
+	try {
+		return { claimed: true, record: await IdempotencyKeyModel.create({ key, scope, ...fresh }) };
+	} catch (error) {
+		if ((error as { code?: number }).code !== 11000) {
+			throw error;
+		}
+	}
+
+	const takenOver = await IdempotencyKeyModel.findOneAndUpdate(
+		{
+			key,
+			scope,
+			$or: [
+				{ expiresAt: { $lte: now } },
+				{ status: 'processing', updatedAt: { $lte: new Date(now.getTime() - PROCESSING_TIMEOUT_MS) } }
+			]
+		},
+		{ $set: fresh, $unset: { responseStatus: 1, responseBody: 1 } },
+		{ new: true }
+	);
+
+	if (takenOver) {
+		return { claimed: true, record: takenOver };
+	}
+
+	return { claimed: false, record: await IdempotencyKeyModel.findOne({ key, scope }) };
+}
+
+/**
+ * Creates the idempotency middleware.
+ *
+ * Only POST requests are handled; mount it in front of a router to cover
+ * all of its POST routes.
+ *
+ * @example
+ * router.use('/bookings', idempotency(), bookingsRouter);
+ */
+export function idempotency() {
+	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		const key = req.get('Idempotency-Key');
+
+		if (req.method !== 'POST' || key === undefined) {
+			next();
+			return;
+		}
+
+		if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+			sendError(res, 'Invalid Idempotency-Key header', 400, [
+				{ field: 'Idempotency-Key', message: `Must be 1-${MAX_KEY_LENGTH} characters` }
+			]);
+			return;
+		}
+
+		try {
+			const scope = getTokenUser(req)?.userId || 'anonymous';
+			const fingerprint = getFingerprint(req);
+			const { claimed, record } = await claimKey(key, scope, fingerprint);
+
+			if (!claimed) {
+				if (!record) {
+					// Released by a failed first request just now; let the client try again
+					sendError(res, 'A request with this Idempotency-Key is still being processed', 409);
+					return;
+				}
+
+				if (record.fingerprint !== fingerprint) {
+					sendError(res, 'Idempotency-Key was already used for a different request', 422, [
+						{ field: 'Idempotency-Key', message: 'Use a new key for a new request' }
+					]);
+					return;
+				}
+
+				if (record.status === 'processing') {
+					sendError(res, 'A request with this Idempotency-Key is still being processed', 409);
+					return;
+				}
+
+				res.set('Idempotent-Replayed', 'true');
+				res.status(record.responseStatus || 200).json(record.responseBody);
+				return;
+			}
+
+			// Store the first JSON response before sending it, so a retry that
+			// arrives right after sees it; free the key if it failed. This runs
+			// even after the client has disconnected.
+			const recordId = record!._id;
+			const json = res.json.bind(res);
+			let stored = false;
+
+			res.json = (body: unknown) => {
+				if (stored) {
+					return json(body);
+				}
+
+				stored = true;
+				const save = res.statusCode >= 500
+					? IdempotencyKeyModel.deleteOne({ _id: recordId })
+					: IdempotencyKeyModel.updateOne(
+						{ _id: recordId },
+						{
+							$set: {
+								status: 'completed',
+								responseStatus: res.statusCode,
+								// Stored exactly as the client sees it
+								responseBody: JSON.parse(JSON.stringify(body ?? null))
+							}
+						}
+					);
+
+				save
+					.catch((error) => console.error(`Failed to store idempotent response for key ${key}:`, error))
+					.finally(() => json(body));
+
+				return res;
+			};
+
+			// A response sent without res.json (not a disconnect) has nothing to replay
+			res.on('finish', () => {
+				if (!stored) {
+					stored = true;
+					IdempotencyKeyModel.deleteOne({ _id: recordId })
+						.catch((error) => console.error(`Failed to release idempotency key ${key}:`, error));
+				}
+			});
+
+			next();
+		} catch (error) {
+			console.error('Error checking idempotency key:', error);
+			sendError(res, 'Failed to check Idempotency-Key', 500);
+		}
+	};
+}
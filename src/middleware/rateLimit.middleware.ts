@@ -0,0 +1,73 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Limits how often a client may call a route, counting requests in fixed
+ * windows (e.g. 10 per 15 minutes). Over the limit the request gets 429
+ * with a Retry-After header. Counters live in MongoDB, so the limit is
+ * shared by every API instance.
+ *
+ * Clients are told apart by IP address. Behind a reverse proxy, set
+ * TRUST_PROXY (see server.ts) so req.ip is the client's address.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { incrementRateLimit } from '../models/rateLimits/RateLimit.model';
+import { sendError } from '../utils/response.utils';
+
+/**
+ * Rate limiter settings.
+ */
+export interface RateLimitOptions {
+	/** Name of the limit (separates counters of different routes) */
+	name: string;
+
+	/** Window length in ms */
+	windowMs: number;
+
+	/** Requests allowed per client and window */
+	max: number;
+
+	/** Message sent with the 429 */
+	message?: string;
+}
+
+/**
+ * Creates a rate limiting middleware.
+ *
+ * If the counter cannot be read (database error) the request is let
+ * through rather than locking everyone out.
+ *
+ * @example
+ * router.post('/lookup', rateLimit({ name: 'bookingLookup', windowMs: 15 * 60 * 1000, max: 10 }), lookupBooking);
+ */
+export function rateLimit(options: RateLimitOptions) {
+	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+		const now = Date.now();
+		const windowStart = Math.floor(now / options.windowMs) * options.windowMs;
+		const windowEnd = windowStart + options.windowMs;
+
+		let count: number;
+		try {
+			count = await incrementRateLimit(
+				`${options.name}:${req.ip || 'unknown'}:${windowStart}`,
+				new Date(windowEnd)
+			);
+		} catch (error) {
+			console.error(`Rate limit '${options.name}' unavailable:`, error);
+			next();
+			return;
+		}
+
+		res.set('RateLimit-Limit', String(options.max));
+		res.set('RateLimit-Remaining', String(Math.max(options.max - count, 0)));
+		res.set('RateLimit-Reset', String(Math.ceil((windowEnd - now) / 1000)));
+
+		if (count > options.max) {
+			res.set('Retry-After', String(Math.ceil((windowEnd - now) / 1000)));
+			sendError(res, options.message || 'Too many requests, please try again later', 429);
+			return;
+		}
+
+		next();
+	};
+}
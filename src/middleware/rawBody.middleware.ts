@@ -0,0 +1,20 @@
+/**
+ * Raw Body Middleware
+ *
+ * Keeps the unparsed request body next to the parsed one. Payment
+ * providers sign the exact bytes they send, so webhook signatures must
+ * be checked against the raw body rather than re-serialized JSON.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request } from 'express';
+
+/**
+ * `verify` callback for express.json() that stores the raw body.
+ *
+ * @example
+ * app.use(express.json({ verify: captureRawBody }));
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+	(req as Request).rawBody = buf;
+}
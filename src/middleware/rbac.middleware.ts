@@ -7,61 +7,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { sendError } from '../utils/response.utils';
 import { UserRole } from '../models/users/User.model';
+import { getRolePermissions } from '../services/roles/permission.store';
 
 /**
- * Permission definitions by role.
- *
- * Each role has a list of permissions in the format: 'resource:action'
- * The '*' permission grants access to all resources and actions.
+ * Middleware made by the factories below. Lets the route protection test
+ * check that every mutating route is authorized, not just authenticated.
  */
-const rolePermissions: Record<UserRole, string[]> = {
-	admin: ['*'], // Full access to everything
-
-	host: [
-		'homestay:create',
-		'homestay:read',
-		'homestay:update',
-		'homestay:delete',
-		'booking:read',
-		'booking:update',
-		'profile:read',
-		'profile:update'
-	],
-
-	guide: [
-		'guide:read',
-		'guide:update',
-		'booking:read',
-		'profile:read',
-		'profile:update'
-	],
-
-	customer: [
-		'homestay:read',
-		'guide:read',
-		'product:read',
-		'booking:create',
-		'booking:read',
-		'booking:cancel',
-		'search:read',
-		'profile:read',
-		'profile:update'
-	]
-};
+const authorizationGuards = new WeakSet<Function>();
 
 /**
  * Checks if a role has a specific permission.
  *
+ * Permissions come from the `roles` collection through the permission
+ * store (see services/roles/permission.store), cached in memory.
+ *
  * @param role - User role to check
  * @param permission - Permission string (e.g., 'homestay:create')
  * @returns True if role has the permission
  */
-function hasPermission(role: UserRole, permission: string): boolean {
-	const permissions = rolePermissions[role];
-
-	if (!permissions) {
-		return false;
-	}
+async function hasPermission(role: UserRole, permission: string): Promise<boolean> {
+	const permissions = await getPermissionsForRole(role);
 
 	// Admin has all permissions
 	if (permissions.includes('*')) {
@@ -86,7 +51,7 @@ function hasPermission(role: UserRole, permission: string): boolean {
  * router.delete('/:id', authenticate, requirePermission('homestay:delete', 'admin:delete'), deleteHomestay);
  */
 export function requirePermission(...permissions: string[]) {
-	return (req: Request, res: Response, next: NextFunction): void => {
+	const guard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		if (!req.user) {
 			sendError(res, 'Authentication required', 401);
 			return;
@@ -94,23 +59,30 @@ export function requirePermission(...permissions: string[]) {
 
 		const userRole = req.user.role as UserRole;
 
-		// Check if user has all required permissions
-		const hasAllPermissions = permissions.every((p) =>
-			hasPermission(userRole, p)
-		);
+		try {
+			// Check if user has all required permissions
+			const granted = await Promise.all(permissions.map((p) => hasPermission(userRole, p)));
+
+			if (!granted.every(Boolean)) {
+				sendError(
+					res,
+					'Insufficient permissions',
+					403,
+					[{ field: 'role', message: `Role '${userRole}' lacks required permissions` }]
+				);
+				return;
+			}
 
-		if (!hasAllPermissions) {
-			sendError(
-				res,
-				'Insufficient permissions',
-				403,
-				[{ field: 'role', message: `Role '${userRole}' lacks required permissions` }]
-			);
-			return;
+			next();
+		} catch (error) {
+			console.error('Permission check error:', error);
+			sendError(res, 'Access check failed', 500);
 		}
-
-		next();
 	};
+
+	authorizationGuards.add(guard);
+
+	return guard;
 }
 
 /**
@@ -128,7 +100,7 @@ export function requirePermission(...permissions: string[]) {
  * router.post('/', authenticate, requireRole('admin', 'host'), createListing);
  */
 export function requireRole(...roles: UserRole[]) {
-	return (req: Request, res: Response, next: NextFunction): void => {
+	const guard = (req: Request, res: Response, next: NextFunction): void => {
 		if (!req.user) {
 			sendError(res, 'Authentication required', 401);
 			return;
@@ -148,6 +120,10 @@ export function requireRole(...roles: UserRole[]) {
 
 		next();
 	};
+
+	authorizationGuards.add(guard);
+
+	return guard;
 }
 
 /**
@@ -155,7 +131,10 @@ export function requireRole(...roles: UserRole[]) {
  *
  * This is a factory that creates middleware for ownership checks.
  *
- * @param getUserIdFromResource - Function to extract owner ID from request
+ * @param getUserIdFromResource - Function to extract owner ID from request;
+ *   resolves to undefined if the resource does not exist (404) and to null
+ *   if it exists but has no owner (403 for everyone except admins). A
+ *   resource with several owners resolves to a list; any of them passes.
  * @returns Express middleware function
  *
  * @example
@@ -169,9 +148,9 @@ export function requireRole(...roles: UserRole[]) {
  * );
  */
 export function requireOwnership(
-	getUserIdFromResource: (req: Request) => Promise<string | undefined>
+	getUserIdFromResource: (req: Request) => Promise<string | (string | null)[] | null | undefined>
 ) {
-	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+	const guard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		if (!req.user) {
 			sendError(res, 'Authentication required', 401);
 			return;
@@ -188,12 +167,14 @@ export function requireOwnership(
 		try {
 			const resourceOwnerId = await getUserIdFromResource(req);
 
-			if (!resourceOwnerId) {
+			if (resourceOwnerId === undefined) {
 				sendError(res, 'Resource not found', 404);
 				return;
 			}
 
-			if (resourceOwnerId !== req.user.userId) {
+			const ownerIds = Array.isArray(resourceOwnerId) ? resourceOwnerId : [resourceOwnerId];
+
+			if (!ownerIds.includes(req.user.userId)) {
 				sendError(res, 'Access denied - not resource owner', 403);
 				return;
 			}
@@ -204,6 +185,20 @@ export function requireOwnership(
 			sendError(res, 'Access check failed', 500);
 		}
 	};
+
+	authorizationGuards.add(guard);
+
+	return guard;
+}
+
+/**
+ * Checks if a handler is a permission, role or ownership check.
+ *
+ * @param handler - Route handler or middleware
+ * @returns True if it was made by requirePermission, requireRole or requireOwnership
+ */
+export function isAuthorizationGuard(handler: Function): boolean {
+	return authorizationGuards.has(handler);
 }
 
 /**
@@ -212,8 +207,8 @@ export function requireOwnership(
  * @param role - User role
  * @returns Array of permission strings
  */
-export function getPermissionsForRole(role: UserRole): string[] {
-	return rolePermissions[role] || [];
+export async function getPermissionsForRole(role: UserRole): Promise<string[]> {
+	return getRolePermissions(role);
 }
 
 /**
@@ -30,6 +30,11 @@
  */
 
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import {
+	CancellationPolicy,
+	CancellationPolicyType,
+	cancellationPolicySchema
+} from '../policies/CancellationPolicy.model';
 
 // ============================================================================
 // Type Definitions
@@ -53,9 +58,9 @@ export type ListingType = 'homestay' | 'guide';
  * - 'cancelled': Either party cancelled the booking
  * - 'completed': The stay/tour has been completed
  *
- * State transitions:
+ * State transitions (enforced by `bookingTransitions` below):
  *   pending → confirmed → completed
- *   pending → cancelled
+ *   pending → cancelled (guest/host cancels, or host rejects)
  *   confirmed → cancelled
  *   confirmed → completed
  */
@@ -72,6 +77,146 @@ export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
  */
 export type PaymentStatus = 'pending' | 'completed' | 'refunded' | 'failed';
 
+/**
+ * Actions that move a booking between statuses.
+ *
+ * - 'create': Booking was made (initial 'pending' status)
+ * - 'confirm': Host/Guide accepted a pending booking
+ * - 'reject': Host/Guide declined a pending booking (becomes 'cancelled')
+ * - 'complete': The stay/tour took place
+ * - 'cancel': Guest or host cancelled the booking
+ */
+export type BookingAction = 'create' | 'confirm' | 'reject' | 'complete' | 'cancel';
+
+/**
+ * Who performed a status change.
+ *
+ * Unauthenticated changes are recorded with role 'guest'.
+ */
+export interface BookingActor {
+	/** ID of the user who made the change (if logged in) */
+	userId?: string;
+
+	/** Role of the actor ('admin', 'host', 'guide', 'customer', 'guest' or 'system') */
+	role: string;
+}
+
+/**
+ * One entry in a booking's status history.
+ */
+export interface BookingStatusChange {
+	/** What was done */
+	action: BookingAction;
+
+	/** Status before the change (absent for 'create') */
+	from?: BookingStatus;
+
+	/** Status after the change */
+	to: BookingStatus;
+
+	/** User who made the change */
+	changedBy?: Types.ObjectId | string;
+
+	/** Role of the actor at the time of the change */
+	changedByRole: string;
+
+	/** Optional reason (rejections, cancellations) */
+	reason?: string;
+
+	/** When the change happened */
+	changedAt: Date;
+}
+
+/**
+ * One change of a booking's dates, keeping what they were before.
+ */
+export interface BookingDateChange {
+	/** Check-in before the change */
+	previousCheckIn: Date;
+
+	/** Check-out before the change */
+	previousCheckOut: Date;
+
+	/** Total before the change */
+	previousTotal: number;
+
+	/** New check-in */
+	checkIn: Date;
+
+	/** New check-out */
+	checkOut: Date;
+
+	/** New total */
+	total: number;
+
+	/** User who made the change */
+	changedBy?: Types.ObjectId | string;
+
+	/** Role of the actor at the time of the change */
+	changedByRole: string;
+
+	/** Optional reason */
+	reason?: string;
+
+	/** When the change happened */
+	changedAt: Date;
+}
+
+/**
+ * Which side cancelled a booking.
+ *
+ * - 'guest': The guest cancelled (refund follows the cancellation policy)
+ * - 'host': The host or guide cancelled or rejected (always a full refund)
+ * - 'admin': Platform staff cancelled (always a full refund)
+ * - 'system': Cancelled automatically (always a full refund)
+ */
+export type CancelledBy = 'guest' | 'host' | 'admin' | 'system';
+
+/**
+ * Refund state of a cancelled booking.
+ *
+ * Mirrors the booking's refund record (see models/payments/Refund.model).
+ *
+ * - 'none': Nothing to refund (unpaid, or cancelled too late)
+ * - 'requested': Refund owed, waiting for an admin to process it
+ * - 'processing': Sent to the payment provider
+ * - 'succeeded': Money returned to the guest
+ * - 'failed': The provider rejected the refund; it can be retried
+ */
+export type RefundStatus = 'none' | 'requested' | 'processing' | 'succeeded' | 'failed';
+
+/**
+ * Outcome of a cancellation, stored on the booking.
+ */
+export interface BookingCancellation {
+	/** Which side cancelled */
+	cancelledBy: CancelledBy;
+
+	/** Policy the refund was calculated with */
+	policy: CancellationPolicyType;
+
+	/** Whole days between cancellation and check-in (negative if after) */
+	daysBeforeCheckIn: number;
+
+	/** Percentage of the total refunded */
+	refundPercent: number;
+
+	/** Amount refunded in INR */
+	refundAmount: number;
+
+	/** Refund state */
+	refundStatus: RefundStatus;
+}
+
+/**
+ * Duration of a guide booking, used to pick the guide's rate.
+ *
+ * - 'halfDay': Single-day booking charged at the half-day rate
+ * - 'fullDay': Single-day booking charged at the full-day rate
+ * - 'multiDay': Bookings longer than one day, charged per day
+ */
+export type TourDuration = 'halfDay' | 'fullDay' | 'multiDay';
+
 /**
  * Guest count breakdown.
  *
@@ -109,6 +254,26 @@ export interface GuestDetails {
 	phone: string;
 }
 
+/**
+ * GST charged on one kind of supply in a booking.
+ */
+export interface BookingTaxLine {
+	/** What was supplied (e.g. 'Accommodation') */
+	description: string;
+
+	/** Services Accounting Code */
+	sacCode: string;
+
+	/** Value the tax is charged on, in INR */
+	taxableValue: number;
+
+	/** GST rate in percent */
+	gstRate: number;
+
+	/** GST amount in INR (to the paisa) */
+	tax: number;
+}
+
 /**
  * Booking pricing breakdown.
  *
@@ -125,9 +290,12 @@ export interface BookingPricing {
 	/** Platform service fee */
 	serviceFee?: number;
 
-	/** Applicable taxes */
+	/** GST, rounded to the rupee */
 	taxes?: number;
 
+	/** GST by supply and rate (see utils/gst.utils) */
+	taxLines?: BookingTaxLine[];
+
 	/** Final total amount */
 	total: number;
 }
@@ -163,10 +331,16 @@ export interface IBooking {
 	/** Contact information for the primary guest */
 	guestDetails: GuestDetails;
 
+	/** User account that made the booking (unset for guest checkouts) */
+	userId?: Types.ObjectId | string;
+
 	/** Any special requests from the guest */
 	specialRequests?: string;
 
-	/** Pricing breakdown */
+	/** Tour duration that was priced (guide bookings only) */
+	tourDuration?: TourDuration;
+
+	/** Pricing breakdown (always calculated by the server) */
 	pricing: BookingPricing;
 
 	/** Current booking status */
@@ -175,12 +349,27 @@ export interface IBooking {
 	/** Payment status */
 	paymentStatus: PaymentStatus;
 
+	/** When the host confirmed the booking; starts the payment timeout */
+	confirmedAt?: Date;
+
 	/** Reason for cancellation (if cancelled) */
 	cancellationReason?: string;
 
 	/** When the booking was cancelled */
 	cancelledAt?: Date;
 
+	/** Listing's cancellation policy when the booking was made */
+	cancellationPolicy?: CancellationPolicy;
+
+	/** Who cancelled and what is refunded (if cancelled) */
+	cancellation?: BookingCancellation;
+
+	/** Every status change, oldest first */
+	statusHistory: BookingStatusChange[];
+
+	/** Every date change, oldest first */
+	dateChanges: BookingDateChange[];
+
 	/** When this record was created */
 	createdAt: Date;
 
@@ -191,13 +380,18 @@ export interface IBooking {
 /**
  * Booking document type with Mongoose methods.
  */
-export interface IBookingDocument extends IBooking, Document {}
+export interface IBookingDocument extends IBooking, Document {
+	applyTransition(action: Exclude<BookingAction, 'create'>, actor: BookingActor, reason?: string): boolean;
+}
 
 /**
  * Input type for creating a new booking.
  *
  * Note that dates come as strings from the API and are
  * converted to Date objects by Mongoose.
+ *
+ * Pricing is optional: the server always calculates it from the listing.
+ * If the client sends the total it was quoted, it must match.
  */
 export type CreateBookingInput = {
 	listingType: ListingType;
@@ -207,9 +401,28 @@ export type CreateBookingInput = {
 	guests: GuestCount;
 	guestDetails: GuestDetails;
 	specialRequests?: string;
-	pricing: BookingPricing;
+	tourDuration?: TourDuration;
+	pricing?: BookingPricing;
 };
 
+/**
+ * Input type for requesting a price quote.
+ */
+export type BookingQuoteInput = Pick<
+	CreateBookingInput,
+	'listingType' | 'listingId' | 'checkIn' | 'checkOut' | 'guests' | 'tourDuration'
+>;
+
+/**
+ * Input type for moving a booking to new dates.
+ */
+export interface ChangeBookingDatesInput {
+	checkIn: string;
+	checkOut: string;
+	tourDuration?: TourDuration;
+	reason?: string;
+}
+
 /**
  * Input type for cancelling a booking.
  */
@@ -218,6 +431,22 @@ export interface CancelBookingInput {
 	reason?: string;
 }
 
+/**
+ * Input type for a guest finding their booking without an account.
+ */
+export interface BookingLookupInput {
+	/** Booking number from the confirmation (e.g. 'JY-2025-001234') */
+	bookingNumber: string;
+
+	/** Email address the booking was made with */
+	email: string;
+}
+
+/**
+ * Input type for a guest cancelling their booking without an account.
+ */
+export interface GuestCancelBookingInput extends BookingLookupInput, CancelBookingInput {}
+
 // ============================================================================
 // Mongoose Schemas
 // ============================================================================
@@ -274,6 +503,38 @@ const guestDetailsSchema = new Schema(
 	{ _id: false }
 );
 
+/**
+ * GST line subdocument schema.
+ */
+const taxLineSchema = new Schema(
+	{
+		description: {
+			type: String,
+			required: true
+		},
+		sacCode: {
+			type: String,
+			required: true
+		},
+		taxableValue: {
+			type: Number,
+			required: true,
+			min: 0
+		},
+		gstRate: {
+			type: Number,
+			required: true,
+			min: 0
+		},
+		tax: {
+			type: Number,
+			required: true,
+			min: 0
+		}
+	},
+	{ _id: false }
+);
+
 /**
  * Pricing subdocument schema.
  */
@@ -299,6 +560,10 @@ const pricingSchema = new Schema(
 			required: false,
 			min: 0
 		},
+		taxLines: {
+			type: [taxLineSchema],
+			default: undefined
+		},
 		total: {
 			type: Number,
 			required: [true, 'Total price is required'],
@@ -308,6 +573,140 @@ const pricingSchema = new Schema(
 	{ _id: false }
 );
 
+/**
+ * Date change subdocument schema.
+ */
+const dateChangeSchema = new Schema(
+	{
+		previousCheckIn: {
+			type: Date,
+			required: true
+		},
+		previousCheckOut: {
+			type: Date,
+			required: true
+		},
+		previousTotal: {
+			type: Number,
+			required: true
+		},
+		checkIn: {
+			type: Date,
+			required: true
+		},
+		checkOut: {
+			type: Date,
+			required: true
+		},
+		total: {
+			type: Number,
+			required: true
+		},
+		changedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
+		changedByRole: {
+			type: String,
+			required: true
+		},
+		reason: {
+			type: String,
+			required: false,
+			trim: true
+		},
+		changedAt: {
+			type: Date,
+			required: true,
+			default: Date.now
+		}
+	},
+	{ _id: false }
+);
+
+/**
+ * Cancellation outcome subdocument schema.
+ */
+const cancellationSchema = new Schema(
+	{
+		cancelledBy: {
+			type: String,
+			enum: ['guest', 'host', 'admin', 'system'],
+			required: true
+		},
+		policy: {
+			type: String,
+			enum: ['flexible', 'moderate', 'strict', 'custom'],
+			required: true
+		},
+		daysBeforeCheckIn: {
+			type: Number,
+			required: true
+		},
+		refundPercent: {
+			type: Number,
+			required: true,
+			min: 0,
+			max: 100
+		},
+		refundAmount: {
+			type: Number,
+			required: true,
+			min: 0
+		},
+		refundStatus: {
+			type: String,
+			enum: ['none', 'requested', 'processing', 'succeeded', 'failed'],
+			required: true
+		}
+	},
+	{ _id: false }
+);
+
+/**
+ * Status history entry subdocument schema.
+ */
+const statusChangeSchema = new Schema(
+	{
+		action: {
+			type: String,
+			enum: ['create', 'confirm', 'reject', 'complete', 'cancel'],
+			required: true
+		},
+		from: {
+			type: String,
+			enum: ['pending', 'confirmed', 'cancelled', 'completed'],
+			required: false
+		},
+		to: {
+			type: String,
+			enum: ['pending', 'confirmed', 'cancelled', 'completed'],
+			required: true
+		},
+		changedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
+		changedByRole: {
+			type: String,
+			required: true
+		},
+		reason: {
+			type: String,
+			required: false,
+			trim: true
+		},
+		changedAt: {
+			type: Date,
+			required: true,
+			default: Date.now
+		}
+	},
+	{ _id: false }
+);
+
 /**
  * Main Booking schema.
  *
@@ -369,11 +768,21 @@ const bookingSchema = new Schema<IBookingDocument>(
 			type: guestDetailsSchema,
 			required: [true, 'Guest contact details are required']
 		},
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
 		specialRequests: {
 			type: String,
 			required: false,
 			trim: true
 		},
+		tourDuration: {
+			type: String,
+			enum: ['halfDay', 'fullDay', 'multiDay'],
+			required: false
+		},
 		pricing: {
 			type: pricingSchema,
 			required: [true, 'Pricing information is required']
@@ -388,6 +797,10 @@ const bookingSchema = new Schema<IBookingDocument>(
 			enum: ['pending', 'completed', 'refunded', 'failed'],
 			default: 'pending'
 		},
+		confirmedAt: {
+			type: Date,
+			required: false
+		},
 		cancellationReason: {
 			type: String,
 			required: false
@@ -395,6 +808,22 @@ const bookingSchema = new Schema<IBookingDocument>(
 		cancelledAt: {
 			type: Date,
 			required: false
+		},
+		cancellationPolicy: {
+			type: cancellationPolicySchema,
+			required: false
+		},
+		cancellation: {
+			type: cancellationSchema,
+			required: false
+		},
+		statusHistory: {
+			type: [statusChangeSchema],
+			default: []
+		},
+		dateChanges: {
+			type: [dateChangeSchema],
+			default: []
 		}
 	},
 	{
@@ -421,6 +850,9 @@ bookingSchema.index({ status: 1 });
 /** Index for finding bookings by guest email */
 bookingSchema.index({ 'guestDetails.email': 1 });
 
+/** Index for a user's own bookings, newest first */
+bookingSchema.index({ userId: 1, createdAt: -1 });
+
 /** Index for sorting by creation date (newest first) */
 bookingSchema.index({ createdAt: -1 });
 
@@ -461,6 +893,88 @@ bookingSchema.pre('save', function () {
 	}
 });
 
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+/**
+ * Booking state machine.
+ *
+ * Maps each action to the statuses it is allowed from and the status
+ * it leads to. Any other combination is an illegal transition.
+ */
+export const bookingTransitions: Record<
+	Exclude<BookingAction, 'create'>,
+	{ from: BookingStatus[]; to: BookingStatus }
+> = {
+	confirm: { from: ['pending'], to: 'confirmed' },
+	reject: { from: ['pending'], to: 'cancelled' },
+	complete: { from: ['confirmed'], to: 'completed' },
+	cancel: { from: ['pending', 'confirmed'], to: 'cancelled' }
+};
+
+/**
+ * Gets the status an action leads to from the current status.
+ *
+ * @param current - Current booking status
+ * @param action - Requested action
+ * @returns The next status, or null if the transition is not allowed
+ */
+export function getNextStatus(
+	current: BookingStatus,
+	action: Exclude<BookingAction, 'create'>
+): BookingStatus | null {
+	const transition = bookingTransitions[action];
+	return transition.from.includes(current) ? transition.to : null;
+}
+
+/**
+ * Applies a status transition and records it in the status history.
+ *
+ * Does not save the document.
+ *
+ * @param action - Action to perform
+ * @param actor - Who is performing it
+ * @param reason - Optional reason (stored on cancellations and rejections)
+ * @returns False if the transition is not allowed from the current status
+ */
+bookingSchema.methods.applyTransition = function (
+	action: Exclude<BookingAction, 'create'>,
+	actor: BookingActor,
+	reason?: string
+): boolean {
+	const from = this.status as BookingStatus;
+	const to = getNextStatus(from, action);
+
+	if (!to) {
+		return false;
+	}
+
+	const now = new Date();
+	this.status = to;
+
+	if (to === 'confirmed') {
+		this.confirmedAt = now;
+	}
+
+	if (to === 'cancelled') {
+		this.cancellationReason = reason;
+		this.cancelledAt = now;
+	}
+
+	this.statusHistory.push({
+		action,
+		from,
+		to,
+		changedBy: actor.userId,
+		changedByRole: actor.role,
+		reason,
+		changedAt: now
+	});
+
+	return true;
+};
+
 // ============================================================================
 // Model Export
 // ============================================================================
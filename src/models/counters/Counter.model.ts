@@ -1,7 +1,8 @@
 /**
  * Counter Model
  *
- * Provides auto-incrementing sequence numbers for booking IDs.
+ * Provides auto-incrementing sequence numbers for booking IDs
+ * and invoice numbers.
  * Uses MongoDB's findOneAndUpdate with $inc for atomic increments.
  */
 
@@ -11,8 +12,9 @@ import mongoose, { Schema, Model, HydratedDocument } from 'mongoose';
  * Counter document interface.
  */
 export interface ICounter {
-	_id: string;  // Counter name (e.g., 'bookingNumber')
+	_id: string;  // Counter name (e.g., 'bookingNumber', 'invoice:2025-26')
 	seq: number;  // Current sequence value
+	released?: number[];  // Drawn but unused values, handed out again first
 }
 
 /**
@@ -26,7 +28,8 @@ export type ICounterDocument = HydratedDocument<ICounter>;
 
 const counterSchema = new Schema<ICounter>({
 	_id: { type: String, required: true },
-	seq: { type: Number, default: 1000 }
+	seq: { type: Number, default: 1000 },
+	released: { type: [Number], default: undefined }
 }, {
 	collection: 'counters',
 	_id: false // We're defining _id ourselves
@@ -61,3 +64,65 @@ export async function getNextBookingNumber(): Promise<string> {
 	const sequenceNumber = counter.seq.toString().padStart(6, '0');
 	return `JY-${year}-${sequenceNumber}`;
 }
+
+/**
+ * Counter ID of an invoice or credit note series.
+ */
+function invoiceCounterId(type: 'invoice' | 'credit_note', financialYear: string): string {
+	return `${type === 'invoice' ? 'invoice' : 'creditNote'}:${financialYear}`;
+}
+
+/**
+ * Gets the next invoice or credit note number for a financial year.
+ *
+ * Each type has its own counter per financial year, so numbering
+ * restarts at 1 every April as GST rules expect. Numbers given back with
+ * releaseInvoiceNumber are handed out again first, so the series has no
+ * gaps.
+ *
+ * @param type - 'invoice' or 'credit_note'
+ * @param financialYear - e.g. '2025-26'
+ * @returns Promise<string> Formatted number (e.g., "JY/25-26/000001", "CN/25-26/000001")
+ */
+export async function getNextInvoiceNumber(
+	type: 'invoice' | 'credit_note',
+	financialYear: string
+): Promise<string> {
+	const _id = invoiceCounterId(type, financialYear);
+
+	// Take the lowest released number, if any
+	const withReleased = await CounterModel.findOneAndUpdate(
+		{ _id, 'released.0': { $exists: true } },
+		{ $pop: { released: -1 } }
+	);
+
+	const seq = withReleased?.released?.[0] ?? (await CounterModel.findOneAndUpdate(
+		{ _id },
+		{ $inc: { seq: 1 } },
+		{ new: true, upsert: true }
+	)).seq;
+
+	// GST invoice numbers are limited to 16 characters
+	const prefix = type === 'invoice' ? 'JY' : 'CN';
+	const sequenceNumber = seq.toString().padStart(6, '0');
+	return `${prefix}/${financialYear.slice(2)}/${sequenceNumber}`;
+}
+
+/**
+ * Gives back a number from getNextInvoiceNumber that was not used (e.g.
+ * another request issued the same invoice first), so it is issued next.
+ *
+ * @param invoiceNumber - The unused number (e.g., "JY/25-26/000042")
+ */
+export async function releaseInvoiceNumber(
+	type: 'invoice' | 'credit_note',
+	financialYear: string,
+	invoiceNumber: string
+): Promise<void> {
+	const seq = parseInt(invoiceNumber.slice(invoiceNumber.lastIndexOf('/') + 1), 10);
+
+	await CounterModel.updateOne(
+		{ _id: invoiceCounterId(type, financialYear) },
+		{ $push: { released: { $each: [seq], $sort: 1 } } }
+	);
+}
@@ -28,7 +28,8 @@
  * });
  */
 
-import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { CancellationPolicy, cancellationPolicySchema } from '../policies/CancellationPolicy.model';
 
 // ============================================================================
 // Type Definitions
@@ -118,6 +119,12 @@ export interface IGuide {
 	/** Current availability status */
 	availability: GuideAvailability;
 
+	/** Refund rules for guest cancellations (default: moderate) */
+	cancellationPolicy?: CancellationPolicy;
+
+	/** User account of the guide this profile belongs to */
+	userId?: Types.ObjectId | string;
+
 	/** When this record was created */
 	createdAt: Date;
 
@@ -134,15 +141,16 @@ export interface IGuideDocument extends IGuide, Document {}
  * Input type for creating a new guide.
  *
  * We don't need to provide createdAt/updatedAt - Mongoose handles those.
+ * userId is taken from the logged-in guide.
  */
-export type CreateGuideInput = Omit<IGuide, 'createdAt' | 'updatedAt'>;
+export type CreateGuideInput = Omit<IGuide, 'userId' | 'createdAt' | 'updatedAt'>;
 
 /**
  * Input type for updating a guide.
  *
  * Partial makes all fields optional - update only what you need.
  */
-export type UpdateGuideInput = Partial<Omit<IGuide, 'createdAt' | 'updatedAt'>>;
+export type UpdateGuideInput = Partial<Omit<IGuide, 'userId' | 'createdAt' | 'updatedAt'>>;
 
 // ============================================================================
 // Mongoose Schemas
@@ -270,6 +278,15 @@ const guideSchema = new Schema<IGuideDocument>(
 				message: 'Availability must be available, busy, or unavailable'
 			},
 			default: 'available'
+		},
+		cancellationPolicy: {
+			type: cancellationPolicySchema,
+			default: () => ({ type: 'moderate' })
+		},
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
 		}
 	},
 	{
@@ -291,6 +308,9 @@ guideSchema.index({ availability: 1 });
 /** Index for filtering by district */
 guideSchema.index({ 'location.district': 1 });
 
+/** A user account owns at most one guide profile */
+guideSchema.index({ userId: 1 }, { unique: true, sparse: true });
+
 /**
  * Text index for searching guides by name or bio.
  *
@@ -29,7 +29,8 @@
  * });
  */
 
-import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { CancellationPolicy, cancellationPolicySchema } from '../policies/CancellationPolicy.model';
 
 // ============================================================================
 // Type Definitions
@@ -164,6 +165,15 @@ export interface IHomestay {
 	/** Current listing status */
 	status: HomestayStatus;
 
+	/** Refund rules for guest cancellations (default: moderate) */
+	cancellationPolicy?: CancellationPolicy;
+
+	/** Secret token for the iCal feed URL (never returned by default) */
+	icalToken?: string;
+
+	/** User account of the host who owns this homestay */
+	hostId?: Types.ObjectId | string;
+
 	/** When this record was created (auto-managed by Mongoose) */
 	createdAt: Date;
 
@@ -189,6 +199,7 @@ export interface IHomestayDocument extends IHomestay, Document {}
  *
  * When creating a homestay, we don't provide:
  * - status: Defaults to 'active'
+ * - hostId: Taken from the logged-in host
  * - createdAt/updatedAt: Managed automatically by Mongoose
  *
  * @example
@@ -199,7 +210,7 @@ export interface IHomestayDocument extends IHomestay, Document {}
  *   // Note: no status, createdAt, or updatedAt needed!
  * };
  */
-export type CreateHomestayInput = Omit<IHomestay, 'status' | 'createdAt' | 'updatedAt'>;
+export type CreateHomestayInput = Omit<IHomestay, 'status' | 'icalToken' | 'hostId' | 'createdAt' | 'updatedAt'>;
 
 /**
  * Input type for updating a homestay.
@@ -215,7 +226,7 @@ export type CreateHomestayInput = Omit<IHomestay, 'status' | 'createdAt' | 'upda
  *   pricing: { basePrice: 2000 }
  * };
  */
-export type UpdateHomestayInput = Partial<Omit<IHomestay, 'createdAt' | 'updatedAt'>>;
+export type UpdateHomestayInput = Partial<Omit<IHomestay, 'icalToken' | 'hostId' | 'createdAt' | 'updatedAt'>>;
 
 // ============================================================================
 // Mongoose Schemas
@@ -402,6 +413,20 @@ const homestaySchema = new Schema<IHomestayDocument>(
 			type: String,
 			enum: ['active', 'inactive', 'pending'],
 			default: 'active'
+		},
+		cancellationPolicy: {
+			type: cancellationPolicySchema,
+			default: () => ({ type: 'moderate' })
+		},
+		icalToken: {
+			type: String,
+			required: false,
+			select: false
+		},
+		hostId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
 		}
 	},
 	{
@@ -447,6 +472,9 @@ homestaySchema.index({ 'pricing.basePrice': 1 });
 /** Index for filtering by status (active listings only) */
 homestaySchema.index({ status: 1 });
 
+/** Index for finding a host's homestays */
+homestaySchema.index({ hostId: 1 });
+
 /**
  * Text search index for full-text search.
  *
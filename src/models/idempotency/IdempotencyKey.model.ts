@@ -0,0 +1,122 @@
+/**
+ * Idempotency Key Model
+ *
+ * Remembers the first response to a request sent with an `Idempotency-Key`
+ * header, so a client retrying over a bad connection gets the same answer
+ * instead of a second booking or payment order.
+ *
+ * Records expire after a TTL (see middleware/idempotency.middleware).
+ *
+ * @module models/idempotency/IdempotencyKey.model
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Key status.
+ *
+ * - 'processing': The first request is still running
+ * - 'completed': The response is stored and replayed for retries
+ */
+export type IdempotencyKeyStatus = 'processing' | 'completed';
+
+/**
+ * Idempotency key entity interface.
+ */
+export interface IIdempotencyKey {
+	/** Client-chosen key from the Idempotency-Key header */
+	key: string;
+
+	/** User ID the key belongs to ('anonymous' without a token) */
+	scope: string;
+
+	/** Hash of the method, path and body of the first request */
+	fingerprint: string;
+
+	/** Current status */
+	status: IdempotencyKeyStatus;
+
+	/** Stored HTTP status */
+	responseStatus?: number;
+
+	/** Stored JSON response body */
+	responseBody?: unknown;
+
+	/** When the key can be reused */
+	expiresAt: Date;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Idempotency key document type with Mongoose methods.
+ */
+export interface IIdempotencyKeyDocument extends IIdempotencyKey, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const idempotencyKeySchema = new Schema<IIdempotencyKeyDocument>(
+	{
+		key: {
+			type: String,
+			required: true
+		},
+		scope: {
+			type: String,
+			required: true
+		},
+		fingerprint: {
+			type: String,
+			required: true
+		},
+		status: {
+			type: String,
+			enum: ['processing', 'completed'],
+			default: 'processing'
+		},
+		responseStatus: {
+			type: Number,
+			required: false
+		},
+		responseBody: {
+			type: Schema.Types.Mixed,
+			required: false
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'idempotencyKeys'
+	}
+);
+
+/** One record per key and user */
+idempotencyKeySchema.index({ key: 1, scope: 1 }, { unique: true });
+
+/** Expired keys are removed by MongoDB */
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Idempotency key Mongoose model.
+ */
+export const IdempotencyKeyModel: Model<IIdempotencyKeyDocument> = mongoose.model<IIdempotencyKeyDocument>(
+	'IdempotencyKey',
+	idempotencyKeySchema
+);
@@ -0,0 +1,161 @@
+/**
+ * Availability Block Model
+ *
+ * Date ranges a host has taken off the market - personal use, maintenance,
+ * or anything else. Blocked nights cannot be booked, and like bookings
+ * they hold their nights in the listing night inventory.
+ *
+ * @module models/inventory/AvailabilityBlock.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { ListingType } from '../bookings/Booking.model';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Why the dates are blocked.
+ *
+ * - 'personal': Host is using the property
+ * - 'maintenance': Repairs, renovation, cleaning
+ * - 'other': Anything else (see note)
+ */
+export type BlockReason = 'personal' | 'maintenance' | 'other';
+
+/**
+ * Where the block came from.
+ *
+ * - 'manual': Created by the host through the API
+ * - 'ical': Imported from another platform's calendar (.ics)
+ */
+export type BlockSource = 'manual' | 'ical';
+
+/**
+ * Availability block entity interface.
+ */
+export interface IAvailabilityBlock {
+	/** Whether this blocks a homestay or a guide */
+	listingType: ListingType;
+
+	/** ID of the blocked homestay or guide */
+	listingId: Types.ObjectId | string;
+
+	/** First blocked night */
+	startDate: Date;
+
+	/** Day after the last blocked night (exclusive, like checkOut) */
+	endDate: Date;
+
+	/** Why the dates are blocked */
+	reason: BlockReason;
+
+	/** Optional free-text note for the host */
+	note?: string;
+
+	/** Where the block came from */
+	source: BlockSource;
+
+	/** UID of the imported calendar event (iCal blocks only) */
+	externalUid?: string;
+
+	/** User who created the block */
+	createdBy?: Types.ObjectId | string;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Availability block document type with Mongoose methods.
+ */
+export interface IAvailabilityBlockDocument extends IAvailabilityBlock, Document {}
+
+/**
+ * Input type for creating a block.
+ */
+export interface CreateBlockInput {
+	startDate: string; // YYYY-MM-DD
+	endDate: string;   // YYYY-MM-DD (exclusive)
+	reason: BlockReason;
+	note?: string;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const availabilityBlockSchema = new Schema<IAvailabilityBlockDocument>(
+	{
+		listingType: {
+			type: String,
+			enum: ['homestay', 'guide'],
+			required: [true, 'Listing type is required']
+		},
+		listingId: {
+			type: Schema.Types.ObjectId,
+			required: [true, 'Listing ID is required'],
+			refPath: 'listingType'
+		},
+		startDate: {
+			type: Date,
+			required: [true, 'Start date is required']
+		},
+		endDate: {
+			type: Date,
+			required: [true, 'End date is required']
+		},
+		reason: {
+			type: String,
+			enum: {
+				values: ['personal', 'maintenance', 'other'],
+				message: 'Reason must be personal, maintenance, or other'
+			},
+			default: 'other'
+		},
+		note: {
+			type: String,
+			required: false,
+			trim: true,
+			maxlength: 500
+		},
+		source: {
+			type: String,
+			enum: ['manual', 'ical'],
+			default: 'manual'
+		},
+		externalUid: {
+			type: String,
+			required: false
+		},
+		createdBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'availabilityBlocks'
+	}
+);
+
+/** Index for finding blocks overlapping a date range */
+availabilityBlockSchema.index({ listingId: 1, startDate: 1, endDate: 1 });
+
+/** Index for replacing a listing's imported blocks on re-import */
+availabilityBlockSchema.index({ listingId: 1, source: 1 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Availability block Mongoose model.
+ */
+export const AvailabilityBlockModel: Model<IAvailabilityBlockDocument> =
+	mongoose.model<IAvailabilityBlockDocument>('AvailabilityBlock', availabilityBlockSchema);
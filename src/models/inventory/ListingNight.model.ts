@@ -0,0 +1,176 @@
+/**
+ * Listing Night Model
+ *
+ * Per-night inventory for homestays and guides. Each booked or blocked
+ * night is one document, and a unique index on (listingId, date) guarantees
+ * that two bookings (or a booking and a host block) can never hold the same
+ * night - even when requests arrive at the same moment and both pass the
+ * availability check.
+ */
+
+import mongoose, { Schema, Model, Types, HydratedDocument } from 'mongoose';
+import { getNightDates } from '../../utils/date.utils';
+
+/**
+ * Listing night document interface.
+ */
+export interface IListingNight {
+	listingId: Types.ObjectId;   // Homestay or guide ID
+	date: Date;                  // Night (midnight UTC)
+	bookingId?: Types.ObjectId;  // Booking holding this night
+	blockId?: Types.ObjectId;    // Or: availability block holding it
+	createdAt: Date;
+}
+
+/**
+ * What holds a night: a booking or an availability block.
+ */
+export type NightHolder =
+	| { bookingId: Types.ObjectId | string }
+	| { blockId: Types.ObjectId | string };
+
+/**
+ * Listing night document type.
+ */
+export type IListingNightDocument = HydratedDocument<IListingNight>;
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const listingNightSchema = new Schema<IListingNight>({
+	listingId: { type: Schema.Types.ObjectId, required: true },
+	date: { type: Date, required: true },
+	bookingId: { type: Schema.Types.ObjectId, ref: 'Booking', required: false },
+	blockId: { type: Schema.Types.ObjectId, ref: 'AvailabilityBlock', required: false }
+}, {
+	collection: 'listingNights',
+	timestamps: { createdAt: true, updatedAt: false }
+});
+
+/** One document per listing per night - this is what prevents double-booking */
+listingNightSchema.index({ listingId: 1, date: 1 }, { unique: true });
+
+/** Indexes for releasing all nights of a booking or block */
+listingNightSchema.index({ bookingId: 1 }, { sparse: true });
+listingNightSchema.index({ blockId: 1 }, { sparse: true });
+
+/**
+ * Listing night Mongoose model.
+ */
+export const ListingNightModel: Model<IListingNight> = mongoose.model<IListingNight>(
+	'ListingNight',
+	listingNightSchema
+);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Checks whether an error is a MongoDB duplicate key error.
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+	return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Atomically reserves every night of a stay for a booking or block.
+ *
+ * Inserts one document per night. If any night is already taken the
+ * unique index rejects it, the nights inserted so far are rolled back
+ * and false is returned.
+ *
+ * @param listingId - Homestay or guide ID
+ * @param holder - Booking or block that will hold the nights
+ * @param checkIn - First night
+ * @param checkOut - Check-out date (not reserved)
+ * @returns True if all nights were reserved
+ */
+export async function reserveNights(
+	listingId: Types.ObjectId | string,
+	holder: NightHolder,
+	checkIn: Date,
+	checkOut: Date
+): Promise<boolean> {
+	const nights = getNightDates(checkIn, checkOut).map((date) => ({
+		listingId,
+		date,
+		...holder
+	}));
+
+	try {
+		await ListingNightModel.insertMany(nights, { ordered: true });
+		return true;
+	} catch (error) {
+		await releaseNights(holder);
+
+		if (isDuplicateKeyError(error)) {
+			return false;
+		}
+
+		throw error;
+	}
+}
+
+/**
+ * Frees all nights held by a booking or block
+ * (after cancellation, removal, or a failed save).
+ *
+ * @param holder - Booking or block whose nights should be released
+ */
+export async function releaseNights(holder: NightHolder): Promise<void> {
+	await ListingNightModel.deleteMany(holder);
+}
+
+/**
+ * Moves a booking's nights to new dates.
+ *
+ * Nights the old and new stay share are kept. New nights are reserved
+ * first and only then are the old ones freed, so the booking never loses
+ * its dates if the new ones turn out to be taken.
+ *
+ * @param listingId - Homestay or guide ID
+ * @param bookingId - Booking whose nights move
+ * @param from - Current check-in and check-out
+ * @param to - New check-in and check-out
+ * @returns False if any new night is already held (nothing is changed)
+ */
+export async function moveNights(
+	listingId: Types.ObjectId | string,
+	bookingId: Types.ObjectId | string,
+	from: { checkIn: Date; checkOut: Date },
+	to: { checkIn: Date; checkOut: Date }
+): Promise<boolean> {
+	const currentNights = getNightDates(from.checkIn, from.checkOut);
+	const targetNights = getNightDates(to.checkIn, to.checkOut);
+
+	const current = new Set(currentNights.map((date) => date.getTime()));
+	const target = new Set(targetNights.map((date) => date.getTime()));
+
+	const added = targetNights.filter((date) => !current.has(date.getTime()));
+	const removed = currentNights.filter((date) => !target.has(date.getTime()));
+
+	if (added.length > 0) {
+		try {
+			await ListingNightModel.insertMany(
+				added.map((date) => ({ listingId, date, bookingId })),
+				{ ordered: true }
+			);
+		} catch (error) {
+			await ListingNightModel.deleteMany({ bookingId, date: { $in: added } });
+
+			if (isDuplicateKeyError(error)) {
+				return false;
+			}
+
+			throw error;
+		}
+	}
+
+	if (removed.length > 0) {
+		await ListingNightModel.deleteMany({ bookingId, date: { $in: removed } });
+	}
+
+	return true;
+}
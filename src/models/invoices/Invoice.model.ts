@@ -0,0 +1,282 @@
+/**
+ * Invoice Model
+ *
+ * GST tax invoices for bookings and the credit notes issued against
+ * them when a refund is paid out. An invoice is a snapshot: once issued
+ * it never changes, even if the booking or listing does.
+ *
+ * Numbers are sequential per financial year (April - March):
+ *   Tax invoice:  JY/25-26/000001
+ *   Credit note:  CN/25-26/000001
+ *
+ * @module models/invoices/Invoice.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { ListingType } from '../bookings/Booking.model';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Kind of document.
+ *
+ * - 'invoice': Tax invoice for a booking
+ * - 'credit_note': Reduces a tax invoice by the amount refunded
+ */
+export type InvoiceType = 'invoice' | 'credit_note';
+
+/**
+ * Supplier or recipient printed on the invoice.
+ */
+export interface InvoiceParty {
+	name: string;
+	gstin?: string;
+	address?: string;
+	state?: string;
+	stateCode?: string;
+	email?: string;
+	phone?: string;
+}
+
+/**
+ * One taxed supply on the invoice.
+ */
+export interface InvoiceLine {
+	/** What was supplied */
+	description: string;
+
+	/** Services Accounting Code */
+	sacCode: string;
+
+	/** Value before tax in INR */
+	taxableValue: number;
+
+	/** GST rate in percent */
+	gstRate: number;
+
+	/** Central GST in INR */
+	cgst: number;
+
+	/** State GST in INR */
+	sgst: number;
+
+	/** Taxable value plus GST in INR */
+	total: number;
+}
+
+/**
+ * Invoice totals.
+ */
+export interface InvoiceTotals {
+	taxableValue: number;
+	cgst: number;
+	sgst: number;
+	totalTax: number;
+
+	/** Adjustment to the nearest rupee */
+	roundOff: number;
+
+	/** Amount payable (or credited) in INR */
+	total: number;
+}
+
+/**
+ * The booked stay or tour, for reference.
+ */
+export interface InvoiceStay {
+	listingType: ListingType;
+	listingTitle: string;
+	checkIn: Date;
+	checkOut: Date;
+	nights: number;
+}
+
+/**
+ * Invoice entity interface.
+ */
+export interface IInvoice {
+	/** Sequential number, unique per type and financial year */
+	invoiceNumber: string;
+
+	/** Tax invoice or credit note */
+	type: InvoiceType;
+
+	/** Financial year the number belongs to (e.g. '2025-26') */
+	financialYear: string;
+
+	/** Booking invoiced */
+	bookingId: Types.ObjectId | string;
+
+	/** Booking number */
+	bookingNumber: string;
+
+	/** Refund a credit note was issued for */
+	refundId?: Types.ObjectId | string;
+
+	/** Invoice a credit note reduces */
+	originalInvoiceNumber?: string;
+
+	/** Date of issue */
+	issuedAt: Date;
+
+	/** Supplier */
+	seller: InvoiceParty;
+
+	/** Recipient (the guest) */
+	buyer: InvoiceParty;
+
+	/** State where the service is supplied */
+	placeOfSupply: string;
+
+	/** What was booked */
+	stay: InvoiceStay;
+
+	/** Taxed supplies */
+	lines: InvoiceLine[];
+
+	/** Totals */
+	totals: InvoiceTotals;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Invoice document type with Mongoose methods.
+ */
+export interface IInvoiceDocument extends IInvoice, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+/**
+ * Party subdocument schema.
+ */
+const partySchema = new Schema(
+	{
+		name: { type: String, required: true },
+		gstin: { type: String, required: false },
+		address: { type: String, required: false },
+		state: { type: String, required: false },
+		stateCode: { type: String, required: false },
+		email: { type: String, required: false },
+		phone: { type: String, required: false }
+	},
+	{ _id: false }
+);
+
+/**
+ * Invoice line subdocument schema.
+ */
+const invoiceLineSchema = new Schema(
+	{
+		description: { type: String, required: true },
+		sacCode: { type: String, required: true },
+		taxableValue: { type: Number, required: true },
+		gstRate: { type: Number, required: true },
+		cgst: { type: Number, required: true },
+		sgst: { type: Number, required: true },
+		total: { type: Number, required: true }
+	},
+	{ _id: false }
+);
+
+const invoiceSchema = new Schema<IInvoiceDocument>(
+	{
+		invoiceNumber: {
+			type: String,
+			required: true
+		},
+		type: {
+			type: String,
+			enum: ['invoice', 'credit_note'],
+			required: true
+		},
+		financialYear: {
+			type: String,
+			required: true
+		},
+		bookingId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Booking',
+			required: [true, 'Booking ID is required']
+		},
+		bookingNumber: {
+			type: String,
+			required: true
+		},
+		refundId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Refund',
+			required: false
+		},
+		originalInvoiceNumber: {
+			type: String,
+			required: false
+		},
+		issuedAt: {
+			type: Date,
+			required: true,
+			default: Date.now
+		},
+		seller: {
+			type: partySchema,
+			required: true
+		},
+		buyer: {
+			type: partySchema,
+			required: true
+		},
+		placeOfSupply: {
+			type: String,
+			required: true
+		},
+		stay: {
+			listingType: { type: String, enum: ['homestay', 'guide'], required: true },
+			listingTitle: { type: String, required: true },
+			checkIn: { type: Date, required: true },
+			checkOut: { type: Date, required: true },
+			nights: { type: Number, required: true }
+		},
+		lines: {
+			type: [invoiceLineSchema],
+			default: []
+		},
+		totals: {
+			taxableValue: { type: Number, required: true },
+			cgst: { type: Number, required: true },
+			sgst: { type: Number, required: true },
+			totalTax: { type: Number, required: true },
+			roundOff: { type: Number, required: true },
+			total: { type: Number, required: true }
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'invoices'
+	}
+);
+
+/** Invoice numbers are never reused */
+invoiceSchema.index({ invoiceNumber: 1 }, { unique: true });
+
+/** One invoice and at most one credit note per booking */
+invoiceSchema.index({ bookingId: 1, type: 1 }, { unique: true });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Invoice Mongoose model.
+ */
+export const InvoiceModel: Model<IInvoiceDocument> = mongoose.model<IInvoiceDocument>(
+	'Invoice',
+	invoiceSchema
+);
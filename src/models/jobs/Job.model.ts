@@ -0,0 +1,171 @@
+/**
+ * Job Model
+ *
+ * Background work stored in MongoDB so it survives restarts and can be
+ * shared by several API instances. A worker takes a job by leasing it:
+ * the lease is renewed while the job runs, and a job whose lease runs out
+ * (its worker crashed) is picked up again by another instance.
+ *
+ * Job lifecycle:
+ *   queued → running → completed
+ *   queued → running → queued ...   (retry with backoff)
+ *   queued → running → failed       (out of attempts; an admin can retry)
+ *
+ * @module models/jobs/Job.model
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Job status.
+ *
+ * - 'queued': Waiting for runAt
+ * - 'running': Leased by a worker
+ * - 'completed': Finished successfully
+ * - 'failed': Ran out of attempts
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Job entity interface.
+ */
+export interface IJob {
+	/** Registered handler to run */
+	name: string;
+
+	/** Input for the handler */
+	payload: Record<string, unknown>;
+
+	/** Current status */
+	status: JobStatus;
+
+	/** Earliest time the job may run */
+	runAt: Date;
+
+	/** Runs started so far */
+	attempts: number;
+
+	/** Runs allowed before the job fails */
+	maxAttempts: number;
+
+	/** Prevents queueing the same job twice (e.g. one per recurring slot) */
+	uniqueKey?: string;
+
+	/** Worker holding the lease */
+	lockedBy?: string;
+
+	/** When the lease runs out */
+	lockedUntil?: Date;
+
+	/** Error of the last failed run */
+	lastError?: string;
+
+	/** When the job finished */
+	completedAt?: Date;
+
+	/** When the job ran out of attempts */
+	failedAt?: Date;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Job document type with Mongoose methods.
+ */
+export interface IJobDocument extends IJob, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const jobSchema = new Schema<IJobDocument>(
+	{
+		name: {
+			type: String,
+			required: [true, 'Job name is required']
+		},
+		payload: {
+			type: Schema.Types.Mixed,
+			default: {}
+		},
+		status: {
+			type: String,
+			enum: ['queued', 'running', 'completed', 'failed'],
+			default: 'queued'
+		},
+		runAt: {
+			type: Date,
+			required: true,
+			default: Date.now
+		},
+		attempts: {
+			type: Number,
+			default: 0
+		},
+		maxAttempts: {
+			type: Number,
+			default: 3,
+			min: [1, 'A job needs at least one attempt']
+		},
+		uniqueKey: {
+			type: String,
+			required: false
+		},
+		lockedBy: {
+			type: String,
+			required: false
+		},
+		lockedUntil: {
+			type: Date,
+			required: false
+		},
+		lastError: {
+			type: String,
+			required: false
+		},
+		completedAt: {
+			type: Date,
+			required: false
+		},
+		failedAt: {
+			type: Date,
+			required: false
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'jobs'
+	}
+);
+
+/** Index for workers looking for due jobs */
+jobSchema.index({ status: 1, runAt: 1 });
+
+/** Index for finding expired leases */
+jobSchema.index({ status: 1, lockedUntil: 1 });
+
+/** A unique key is queued once */
+jobSchema.index({ uniqueKey: 1 }, { unique: true, sparse: true });
+
+/** Completed jobs are removed after a week; failed ones stay for inspection */
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Job Mongoose model.
+ */
+export const JobModel: Model<IJobDocument> = mongoose.model<IJobDocument>(
+	'Job',
+	jobSchema
+);
@@ -0,0 +1,240 @@
+/**
+ * Payment Model
+ *
+ * One payment order for a booking at a payment provider. Webhooks move
+ * the payment (and the booking's paymentStatus) forward; every webhook
+ * event ID is recorded so redelivered webhooks are applied only once.
+ *
+ * Payment lifecycle:
+ *   created → completed → refunded
+ *   created → failed → completed   (guest retried and paid)
+ *
+ * A booking can have several orders while it is unpaid. Only the first
+ * capture pays the booking; a capture on another order after that is
+ * flagged `duplicate`, refunded in full and leaves the booking alone.
+ *
+ * @module models/payments/Payment.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { PaymentStatus } from '../bookings/Booking.model';
+import { PaymentEventType, PaymentProvider } from '../../services/payments/payment.gateway';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Payment order status.
+ *
+ * - 'created': Order created, guest has not paid yet
+ * - 'completed': Money received
+ * - 'failed': Payment attempt failed
+ * - 'refunded': Money returned to the guest
+ */
+export type PaymentRecordStatus = 'created' | 'completed' | 'failed' | 'refunded';
+
+/**
+ * A webhook event applied to (or ignored by) a payment.
+ */
+export interface PaymentEventRecord {
+	/** Provider's event ID */
+	eventId: string;
+
+	/** Event type */
+	type: PaymentEventType;
+
+	/** Whether the event changed the payment status */
+	applied: boolean;
+
+	/** When the webhook was received */
+	receivedAt: Date;
+}
+
+/**
+ * Payment entity interface.
+ */
+export interface IPayment {
+	/** Booking being paid for */
+	bookingId: Types.ObjectId | string;
+
+	/** Payment provider */
+	provider: PaymentProvider;
+
+	/** Provider's order ID */
+	orderId: string;
+
+	/** Provider's payment ID (once the guest has paid or tried to) */
+	paymentId?: string;
+
+	/** Amount in INR */
+	amount: number;
+
+	/** Currency code */
+	currency: string;
+
+	/** Current status */
+	status: PaymentRecordStatus;
+
+	/** Why the last attempt failed */
+	failureReason?: string;
+
+	/** Captured after another order had already paid the booking */
+	duplicate?: boolean;
+
+	/** Webhook events received, oldest first */
+	events: PaymentEventRecord[];
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Payment document type with Mongoose methods.
+ */
+export interface IPaymentDocument extends IPayment, Document {}
+
+/**
+ * Input type for creating a payment order.
+ */
+export interface CreatePaymentOrderInput {
+	bookingId: string;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+/**
+ * Webhook event subdocument schema.
+ */
+const paymentEventSchema = new Schema(
+	{
+		eventId: {
+			type: String,
+			required: true
+		},
+		type: {
+			type: String,
+			enum: ['payment.captured', 'payment.failed', 'refund.processed', 'refund.failed'],
+			required: true
+		},
+		applied: {
+			type: Boolean,
+			required: true
+		},
+		receivedAt: {
+			type: Date,
+			required: true,
+			default: Date.now
+		}
+	},
+	{ _id: false }
+);
+
+const paymentSchema = new Schema<IPaymentDocument>(
+	{
+		bookingId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Booking',
+			required: [true, 'Booking ID is required']
+		},
+		provider: {
+			type: String,
+			enum: ['razorpay', 'mock'],
+			required: true
+		},
+		orderId: {
+			type: String,
+			required: true
+		},
+		paymentId: {
+			type: String,
+			required: false
+		},
+		amount: {
+			type: Number,
+			required: true,
+			min: [0, 'Amount cannot be negative']
+		},
+		currency: {
+			type: String,
+			default: 'INR'
+		},
+		status: {
+			type: String,
+			enum: ['created', 'completed', 'failed', 'refunded'],
+			default: 'created'
+		},
+		failureReason: {
+			type: String,
+			required: false
+		},
+		duplicate: {
+			type: Boolean,
+			required: false
+		},
+		events: {
+			type: [paymentEventSchema],
+			default: []
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'payments'
+	}
+);
+
+/** One payment per provider order */
+paymentSchema.index({ orderId: 1 }, { unique: true });
+
+/** Index for finding a payment from refund webhooks */
+paymentSchema.index({ paymentId: 1 }, { sparse: true });
+
+/** Index for listing a booking's payments */
+paymentSchema.index({ bookingId: 1, createdAt: -1 });
+
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+/**
+ * Which payment statuses each webhook event may move from, and to.
+ *
+ * Events arriving in any other status (e.g. a late 'payment.failed'
+ * after the payment completed) are recorded but change nothing, as are
+ * events with no entry here ('refund.failed' only affects the refund).
+ */
+export const paymentTransitions: Partial<Record<
+	PaymentEventType,
+	{ from: PaymentRecordStatus[]; to: PaymentRecordStatus }
+>> = {
+	'payment.captured': { from: ['created', 'failed'], to: 'completed' },
+	'payment.failed': { from: ['created'], to: 'failed' },
+	'refund.processed': { from: ['completed'], to: 'refunded' }
+};
+
+/**
+ * Booking paymentStatus matching each payment status.
+ */
+export const bookingPaymentStatus: Record<PaymentRecordStatus, PaymentStatus> = {
+	created: 'pending',
+	completed: 'completed',
+	failed: 'failed',
+	refunded: 'refunded'
+};
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Payment Mongoose model.
+ */
+export const PaymentModel: Model<IPaymentDocument> = mongoose.model<IPaymentDocument>(
+	'Payment',
+	paymentSchema
+);
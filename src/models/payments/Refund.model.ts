@@ -0,0 +1,234 @@
+/**
+ * Refund Model
+ *
+ * The refund owed to a guest after a paid booking is cancelled. Created
+ * automatically on cancellation and actioned by an admin, who either
+ * sends it to the payment provider or records a manual payout.
+ *
+ * Refund lifecycle:
+ *   requested → processing → succeeded
+ *   requested → processing → failed → processing ...   (retry)
+ *   requested / failed → succeeded                   (manual payout)
+ *
+ * The booking's paymentStatus becomes 'refunded' only on 'succeeded'.
+ *
+ * A payment captured after the booking was already paid by another order
+ * gets a 'duplicate_payment' refund for its full amount. It returns the
+ * extra money only: the booking, its cancellation and its invoice are not
+ * touched.
+ *
+ * @module models/payments/Refund.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { RefundStatus } from '../bookings/Booking.model';
+import { PaymentProvider } from '../../services/payments/payment.gateway';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Refund record status (the booking shows 'none' when there is no record).
+ */
+export type RefundRecordStatus = Exclude<RefundStatus, 'none'>;
+
+/**
+ * Why money is refunded.
+ *
+ * - 'cancellation': The paid booking was cancelled
+ * - 'duplicate_payment': The booking was paid twice; the extra payment is returned
+ */
+export type RefundType = 'cancellation' | 'duplicate_payment';
+
+/**
+ * Refund entity interface.
+ */
+export interface IRefund {
+	/** Cancelled (or twice paid) booking */
+	bookingId: Types.ObjectId | string;
+
+	/** Why the money is refunded */
+	type: RefundType;
+
+	/** Booking number (for support and provider dashboards) */
+	bookingNumber: string;
+
+	/** Payment being refunded */
+	paymentId: Types.ObjectId | string;
+
+	/** Provider that took the payment */
+	provider: PaymentProvider;
+
+	/** Provider's payment ID */
+	providerPaymentId: string;
+
+	/** Provider's refund ID, or the bank reference of a manual payout */
+	referenceId?: string;
+
+	/** Amount to refund in INR */
+	amount: number;
+
+	/** Currency code */
+	currency: string;
+
+	/** Current status */
+	status: RefundRecordStatus;
+
+	/** Why the booking was cancelled */
+	reason?: string;
+
+	/** Why the last attempt failed */
+	failureReason?: string;
+
+	/** Admin note (e.g. how a manual payout was made) */
+	note?: string;
+
+	/** Number of times the refund was sent to the provider */
+	attempts: number;
+
+	/** Admin who last actioned the refund */
+	processedBy?: Types.ObjectId | string;
+
+	/** When the money was returned */
+	succeededAt?: Date;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Refund document type with Mongoose methods.
+ */
+export interface IRefundDocument extends IRefund, Document {}
+
+/**
+ * Input type for recording a manual payout.
+ */
+export interface CompleteRefundInput {
+	referenceId: string;
+	note?: string;
+}
+
+/**
+ * Input type for marking a refund as failed.
+ */
+export interface FailRefundInput {
+	reason: string;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const refundSchema = new Schema<IRefundDocument>(
+	{
+		bookingId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Booking',
+			required: [true, 'Booking ID is required']
+		},
+		type: {
+			type: String,
+			enum: ['cancellation', 'duplicate_payment'],
+			default: 'cancellation'
+		},
+		bookingNumber: {
+			type: String,
+			required: true
+		},
+		paymentId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Payment',
+			required: [true, 'Payment ID is required']
+		},
+		provider: {
+			type: String,
+			enum: ['razorpay', 'mock'],
+			required: true
+		},
+		providerPaymentId: {
+			type: String,
+			required: true
+		},
+		referenceId: {
+			type: String,
+			required: false,
+			trim: true
+		},
+		amount: {
+			type: Number,
+			required: true,
+			min: [1, 'Refund amount must be positive']
+		},
+		currency: {
+			type: String,
+			default: 'INR'
+		},
+		status: {
+			type: String,
+			enum: ['requested', 'processing', 'succeeded', 'failed'],
+			default: 'requested'
+		},
+		reason: {
+			type: String,
+			required: false
+		},
+		failureReason: {
+			type: String,
+			required: false
+		},
+		note: {
+			type: String,
+			required: false,
+			maxlength: [500, 'Note cannot exceed 500 characters']
+		},
+		attempts: {
+			type: Number,
+			default: 0
+		},
+		processedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
+		succeededAt: {
+			type: Date,
+			required: false
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'refunds'
+	}
+);
+
+/** One cancellation refund per booking */
+refundSchema.index(
+	{ bookingId: 1, type: 1 },
+	{ unique: true, partialFilterExpression: { type: 'cancellation' } }
+);
+
+/** A payment is refunded at most once */
+refundSchema.index({ paymentId: 1 }, { unique: true });
+
+/** Index for matching refund webhooks */
+refundSchema.index({ referenceId: 1 }, { sparse: true });
+
+/** Index for the admin queue */
+refundSchema.index({ status: 1, createdAt: 1 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Refund Mongoose model.
+ */
+export const RefundModel: Model<IRefundDocument> = mongoose.model<IRefundDocument>(
+	'Refund',
+	refundSchema
+);
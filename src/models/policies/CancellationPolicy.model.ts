@@ -0,0 +1,134 @@
+/**
+ * Cancellation Policy
+ *
+ * Refund rules a host or guide attaches to their listing. This is an
+ * embedded subdocument (stored on homestays, guides and, as a snapshot,
+ * on bookings) - it has no collection of its own.
+ *
+ * A policy is a list of tiers. The refund is the percentage of the
+ * first tier whose threshold the cancellation still meets:
+ *
+ *   moderate: 5+ days before check-in → 100%, 1+ day → 50%, later → 0%
+ *
+ * @module models/policies/CancellationPolicy.model
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Named cancellation policies.
+ *
+ * - 'flexible': Full refund up to 1 day before check-in
+ * - 'moderate': Full refund up to 5 days before, 50% up to 1 day before
+ * - 'strict': Full refund up to 14 days before, 50% up to 7 days before
+ * - 'custom': The listing's own tiers
+ */
+export type CancellationPolicyType = 'flexible' | 'moderate' | 'strict' | 'custom';
+
+/**
+ * One refund threshold.
+ */
+export interface RefundTier {
+	/** Minimum days between cancellation and check-in */
+	daysBeforeCheckIn: number;
+
+	/** Percentage of the booking total refunded (0-100) */
+	refundPercent: number;
+}
+
+/**
+ * Cancellation policy attached to a listing.
+ */
+export interface CancellationPolicy {
+	/** Named policy */
+	type: CancellationPolicyType;
+
+	/**
+	 * Custom thresholds. Required for 'custom'; for the named policies
+	 * they replace the default tiers when given.
+	 */
+	tiers?: RefundTier[];
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+/**
+ * Default tiers of the named policies.
+ */
+export const cancellationPolicyPresets: Record<Exclude<CancellationPolicyType, 'custom'>, RefundTier[]> = {
+	flexible: [
+		{ daysBeforeCheckIn: 1, refundPercent: 100 }
+	],
+	moderate: [
+		{ daysBeforeCheckIn: 5, refundPercent: 100 },
+		{ daysBeforeCheckIn: 1, refundPercent: 50 }
+	],
+	strict: [
+		{ daysBeforeCheckIn: 14, refundPercent: 100 },
+		{ daysBeforeCheckIn: 7, refundPercent: 50 }
+	]
+};
+
+/**
+ * Policy used by listings that have not chosen one.
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = { type: 'moderate' };
+
+/**
+ * Gets the tiers a policy applies, highest threshold first.
+ */
+export function getRefundTiers(policy: CancellationPolicy): RefundTier[] {
+	const tiers = policy.tiers && policy.tiers.length > 0
+		? policy.tiers
+		: policy.type === 'custom' ? [] : cancellationPolicyPresets[policy.type];
+
+	return [...tiers].sort((a, b) => b.daysBeforeCheckIn - a.daysBeforeCheckIn);
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const refundTierSchema = new Schema(
+	{
+		daysBeforeCheckIn: {
+			type: Number,
+			required: true,
+			min: [0, 'Days before check-in cannot be negative']
+		},
+		refundPercent: {
+			type: Number,
+			required: true,
+			min: [0, 'Refund percent cannot be negative'],
+			max: [100, 'Refund percent cannot exceed 100']
+		}
+	},
+	{ _id: false }
+);
+
+/**
+ * Embedded cancellation policy schema.
+ */
+export const cancellationPolicySchema = new Schema(
+	{
+		type: {
+			type: String,
+			enum: {
+				values: ['flexible', 'moderate', 'strict', 'custom'],
+				message: 'Policy must be flexible, moderate, strict, or custom'
+			},
+			default: 'moderate'
+		},
+		tiers: {
+			type: [refundTierSchema],
+			default: undefined
+		}
+	},
+	{ _id: false }
+);
@@ -0,0 +1,100 @@
+/**
+ * Rate Limit Model
+ *
+ * Request counters for rate limiting, one document per client and time
+ * window. Kept in MongoDB so the limit holds across all API instances;
+ * counters delete themselves once their window is over.
+ *
+ * @module models/rateLimits/RateLimit.model
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rate limit counter.
+ */
+export interface IRateLimit {
+	/** Limiter name, client key and window start (e.g. 'bookingLookup:1.2.3.4:1735689600000') */
+	_id: string;
+
+	/** Requests counted in the window */
+	count: number;
+
+	/** When the window ends */
+	expiresAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const rateLimitSchema = new Schema<IRateLimit>(
+	{
+		_id: {
+			type: String,
+			required: true
+		},
+		count: {
+			type: Number,
+			default: 0
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		}
+	},
+	{
+		versionKey: false,
+		collection: 'rateLimits',
+		_id: false // We're defining _id ourselves
+	}
+);
+
+/** Counters are removed when their window ends */
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Rate limit Mongoose model.
+ */
+export const RateLimitModel: Model<IRateLimit> = mongoose.model<IRateLimit>(
+	'RateLimit',
+	rateLimitSchema
+);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Counts a request in the current window.
+ *
+ * @param id - Counter ID for the client and window
+ * @param expiresAt - End of the window
+ * @returns Requests counted in the window so far, including this one
+ */
+export async function incrementRateLimit(id: string, expiresAt: Date): Promise<number> {
+	const counter = await RateLimitModel.findOneAndUpdate(
+		{ _id: id },
+		{ $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+		{ upsert: true, new: true }
+	);
+
+	return counter.count;
+}
+
+/**
+ * Takes back a request counted by incrementRateLimit.
+ *
+ * @param id - Counter ID for the client and window
+ */
+export async function decrementRateLimit(id: string): Promise<void> {
+	await RateLimitModel.updateOne({ _id: id, count: { $gt: 0 } }, { $inc: { count: -1 } });
+}
@@ -0,0 +1,81 @@
+/**
+ * Role Model
+ *
+ * The permissions of each user role, one document per role. Admins edit
+ * them through the /roles endpoints; missing roles are seeded from the
+ * defaults in services/roles/permission.store on first use.
+ *
+ * @module models/roles/Role.model
+ */
+
+import mongoose, { Schema, Model, Types } from 'mongoose';
+import { UserRole } from '../users/User.model';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Role entity interface.
+ */
+export interface IRole {
+	/** Role name (e.g. 'host') */
+	_id: UserRole;
+
+	/** What the role is for */
+	description: string;
+
+	/** Permissions in 'resource:action' form; '*' grants everything */
+	permissions: string[];
+
+	/** Admin who last changed the role (unset for seeded roles) */
+	updatedBy?: Types.ObjectId;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const roleSchema = new Schema<IRole>(
+	{
+		_id: {
+			type: String,
+			enum: ['admin', 'host', 'guide', 'customer'],
+			required: true
+		},
+		description: {
+			type: String,
+			required: true,
+			trim: true
+		},
+		permissions: {
+			type: [String],
+			default: []
+		},
+		updatedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'roles',
+		_id: false // We're defining _id ourselves
+	}
+);
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Role Mongoose model.
+ */
+export const RoleModel: Model<IRole> = mongoose.model<IRole>('Role', roleSchema);
@@ -0,0 +1,112 @@
+/**
+ * Account Token Model
+ *
+ * Single-use tokens sent to a user's email address, to reset a forgotten
+ * password or verify the address. Only a SHA-256 hash of each token is stored; the
+ * token itself is only in the email.
+ *
+ * Records are removed by MongoDB once they expire.
+ *
+ * @module models/users/AccountToken.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What a token allows.
+ *
+ * - 'password_reset': Setting a new password without the old one
+ * - 'email_verification': Confirming the user owns their email address
+ */
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Account token entity interface.
+ */
+export interface IAccountToken {
+	/** User the token was sent to */
+	userId: Types.ObjectId;
+
+	/** What the token allows */
+	purpose: AccountTokenPurpose;
+
+	/** SHA-256 hash of the token */
+	tokenHash: string;
+
+	/** When the token was used */
+	usedAt?: Date;
+
+	/** When the token stops working */
+	expiresAt: Date;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Account token document type with Mongoose methods.
+ */
+export interface IAccountTokenDocument extends IAccountToken, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const accountTokenSchema = new Schema<IAccountTokenDocument>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		purpose: {
+			type: String,
+			enum: ['password_reset', 'email_verification'],
+			required: true
+		},
+		tokenHash: {
+			type: String,
+			required: true
+		},
+		usedAt: {
+			type: Date,
+			required: false
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'accountTokens'
+	}
+);
+
+/** Lookup by the presented token */
+accountTokenSchema.index({ tokenHash: 1 }, { unique: true });
+
+/** Replace a user's earlier tokens when a new one is sent */
+accountTokenSchema.index({ userId: 1, purpose: 1 });
+
+/** Expired tokens are removed by MongoDB */
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Account token Mongoose model.
+ */
+export const AccountTokenModel: Model<IAccountTokenDocument> = mongoose.model<IAccountTokenDocument>(
+	'AccountToken',
+	accountTokenSchema
+);
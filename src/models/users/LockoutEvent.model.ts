@@ -0,0 +1,113 @@
+/**
+ * Lockout Event Model
+ *
+ * Append-only audit log of login lockouts: accounts locked after too
+ * many failed passwords, IP addresses blocked for too many failed logins,
+ * and admins unlocking accounts. Records are never updated or deleted.
+ *
+ * @module models/users/LockoutEvent.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What happened.
+ *
+ * - 'account_locked': An account reached the failed attempt limit
+ * - 'account_unlocked': An admin unlocked an account
+ * - 'ip_blocked': An IP address reached its failed login limit
+ */
+export type LockoutEventType = 'account_locked' | 'account_unlocked' | 'ip_blocked';
+
+/**
+ * Lockout event entity interface.
+ */
+export interface ILockoutEvent {
+	/** What happened */
+	type: LockoutEventType;
+
+	/** Account concerned (not set for IP blocks) */
+	userId?: Types.ObjectId;
+
+	/** IP address of the last failed attempt */
+	ip?: string;
+
+	/** Failed attempts that led to the lock */
+	failedAttempts?: number;
+
+	/** When the lock or block ends */
+	lockedUntil?: Date;
+
+	/** Admin who unlocked the account */
+	unlockedBy?: Types.ObjectId;
+
+	/** When it happened */
+	createdAt: Date;
+}
+
+/**
+ * Lockout event document type with Mongoose methods.
+ */
+export interface ILockoutEventDocument extends ILockoutEvent, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const lockoutEventSchema = new Schema<ILockoutEventDocument>(
+	{
+		type: {
+			type: String,
+			enum: ['account_locked', 'account_unlocked', 'ip_blocked'],
+			required: true
+		},
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
+		ip: {
+			type: String,
+			required: false
+		},
+		failedAttempts: {
+			type: Number,
+			required: false
+		},
+		lockedUntil: {
+			type: Date,
+			required: false
+		},
+		unlockedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		}
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: 'lockoutEvents'
+	}
+);
+
+/** A user's lockout history */
+lockoutEventSchema.index({ userId: 1, createdAt: -1 });
+
+/** Admin audit view, newest first */
+lockoutEventSchema.index({ createdAt: -1 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Lockout event Mongoose model.
+ */
+export const LockoutEventModel: Model<ILockoutEventDocument> = mongoose.model<ILockoutEventDocument>(
+	'LockoutEvent',
+	lockoutEventSchema
+);
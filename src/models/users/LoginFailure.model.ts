@@ -0,0 +1,85 @@
+/**
+ * Login Failure Model
+ *
+ * Failed login counters for emails that have no account. They get the
+ * same progressive delay and lockout as accounts (whose counters are on
+ * the user), so the responses do not tell which emails are registered.
+ * Counters delete themselves once they no longer matter.
+ *
+ * @module models/users/LoginFailure.model
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Failed login counter for an unregistered email.
+ */
+export interface ILoginFailure {
+	/** SHA-256 hash of the email (the address itself is not stored) */
+	_id: string;
+
+	/** Failed attempts since the last lock */
+	failedLoginAttempts: number;
+
+	/** When the last attempt failed */
+	lastFailedLoginAt?: Date;
+
+	/** Attempts are refused until then */
+	lockedUntil?: Date;
+
+	/** When the counter is removed */
+	expiresAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const loginFailureSchema = new Schema<ILoginFailure>(
+	{
+		_id: {
+			type: String,
+			required: true
+		},
+		failedLoginAttempts: {
+			type: Number,
+			default: 0
+		},
+		lastFailedLoginAt: {
+			type: Date,
+			required: false
+		},
+		lockedUntil: {
+			type: Date,
+			required: false
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		}
+	},
+	{
+		versionKey: false,
+		collection: 'loginFailures',
+		_id: false // We're defining _id ourselves
+	}
+);
+
+/** Counters are removed once they expire */
+loginFailureSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Login failure Mongoose model.
+ */
+export const LoginFailureModel: Model<ILoginFailure> = mongoose.model<ILoginFailure>(
+	'LoginFailure',
+	loginFailureSchema
+);
@@ -0,0 +1,106 @@
+/**
+ * Refresh Token Model
+ *
+ * Long-lived tokens that get a user new access tokens without logging in
+ * again. Only a SHA-256 hash of each token is stored.
+ *
+ * Every login starts a session (see Session.model); the session's refresh
+ * tokens form a family. Each refresh replaces the token with a new one in
+ * the same session and marks the old token used. A used token presented
+ * again means it was copied, so the whole session is revoked (see
+ * services/auth/token.service).
+ *
+ * Records are removed by MongoDB once they expire.
+ *
+ * @module models/users/RefreshToken.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Refresh token entity interface.
+ */
+export interface IRefreshToken {
+	/** Token owner */
+	userId: Types.ObjectId;
+
+	/** SHA-256 hash of the token */
+	tokenHash: string;
+
+	/** Session the token belongs to; shared by all its rotations */
+	sessionId: Types.ObjectId;
+
+	/** When the token was exchanged for a new one */
+	usedAt?: Date;
+
+	/** When the token stops working */
+	expiresAt: Date;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Refresh token document type with Mongoose methods.
+ */
+export interface IRefreshTokenDocument extends IRefreshToken, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		tokenHash: {
+			type: String,
+			required: true
+		},
+		sessionId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Session',
+			required: true
+		},
+		usedAt: {
+			type: Date,
+			required: false
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'refreshTokens'
+	}
+);
+
+/** Lookup by the presented token */
+refreshTokenSchema.index({ tokenHash: 1 }, { unique: true });
+
+/** Expired tokens are removed by MongoDB */
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Refresh token Mongoose model.
+ */
+export const RefreshTokenModel: Model<IRefreshTokenDocument> = mongoose.model<IRefreshTokenDocument>(
+	'RefreshToken',
+	refreshTokenSchema
+);
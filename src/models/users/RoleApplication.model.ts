@@ -0,0 +1,192 @@
+/**
+ * Role Application Model
+ *
+ * A user's request to become a host or guide. Everyone registers as a
+ * customer; an admin reviews the application and, on approval, the user's
+ * role changes (see RoleChange.model for the record of every change).
+ *
+ * @module models/users/RoleApplication.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Roles a user can apply for.
+ */
+export type ApplicableRole = 'host' | 'guide';
+
+/**
+ * Application status.
+ *
+ * - 'pending': Waiting for an admin
+ * - 'approved': The user's role was changed
+ * - 'rejected': Turned down; the user can apply again
+ */
+export type RoleApplicationStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Supporting details the applicant provides.
+ */
+export interface IRoleApplicationDetails {
+	/** Contact phone number */
+	phone: string;
+
+	/** Why the user wants the role and what they offer */
+	about: string;
+
+	/** District the user operates in */
+	district?: string;
+
+	/** Business or homestay name (hosts) */
+	businessName?: string;
+
+	/** Links to licences, certificates or photos */
+	documents: string[];
+}
+
+/**
+ * Role application entity interface.
+ */
+export interface IRoleApplication {
+	/** Applicant */
+	userId: Types.ObjectId;
+
+	/** Role applied for */
+	requestedRole: ApplicableRole;
+
+	/** Supporting details */
+	details: IRoleApplicationDetails;
+
+	/** Current status */
+	status: RoleApplicationStatus;
+
+	/** Admin who approved or rejected the application */
+	reviewedBy?: Types.ObjectId;
+
+	/** When the application was approved or rejected */
+	reviewedAt?: Date;
+
+	/** Admin's note to the applicant (required when rejecting) */
+	reviewNote?: string;
+
+	/** When this record was created */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Role application document type with Mongoose methods.
+ */
+export interface IRoleApplicationDocument extends IRoleApplication, Document {}
+
+/**
+ * Input for applying for a role.
+ */
+export interface CreateRoleApplicationInput {
+	requestedRole: ApplicableRole;
+	details: Omit<IRoleApplicationDetails, 'documents'> & { documents?: string[] };
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const detailsSchema = new Schema<IRoleApplicationDetails>(
+	{
+		phone: {
+			type: String,
+			required: true,
+			trim: true
+		},
+		about: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: 2000
+		},
+		district: {
+			type: String,
+			required: false,
+			trim: true
+		},
+		businessName: {
+			type: String,
+			required: false,
+			trim: true
+		},
+		documents: {
+			type: [String],
+			default: []
+		}
+	},
+	{ _id: false }
+);
+
+const roleApplicationSchema = new Schema<IRoleApplicationDocument>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		requestedRole: {
+			type: String,
+			enum: ['host', 'guide'],
+			required: true
+		},
+		details: {
+			type: detailsSchema,
+			required: true
+		},
+		status: {
+			type: String,
+			enum: ['pending', 'approved', 'rejected'],
+			default: 'pending'
+		},
+		reviewedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: false
+		},
+		reviewedAt: {
+			type: Date,
+			required: false
+		},
+		reviewNote: {
+			type: String,
+			required: false,
+			trim: true
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'roleApplications'
+	}
+);
+
+/** A user has at most one pending application */
+roleApplicationSchema.index(
+	{ userId: 1 },
+	{ unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+/** Admin review queue */
+roleApplicationSchema.index({ status: 1, createdAt: 1 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Role application Mongoose model.
+ */
+export const RoleApplicationModel: Model<IRoleApplicationDocument> = mongoose.model<IRoleApplicationDocument>(
+	'RoleApplication',
+	roleApplicationSchema
+);
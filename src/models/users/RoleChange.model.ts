@@ -0,0 +1,107 @@
+/**
+ * Role Change Model
+ *
+ * Append-only record of every change to a user's role: who changed it,
+ * from what to what, and why. Records are never updated or deleted.
+ *
+ * A user's JWT carries the role it was issued with; the new role applies
+ * from the next token (login).
+ *
+ * @module models/users/RoleChange.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { UserRole } from './User.model';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Role change entity interface.
+ */
+export interface IRoleChange {
+	/** User whose role changed */
+	userId: Types.ObjectId;
+
+	/** Role before the change */
+	fromRole: UserRole;
+
+	/** Role after the change */
+	toRole: UserRole;
+
+	/** Admin who made the change */
+	changedBy: Types.ObjectId;
+
+	/** Why the role changed */
+	reason: string;
+
+	/** Role application that led to the change, if any */
+	applicationId?: Types.ObjectId;
+
+	/** When the role changed */
+	createdAt: Date;
+}
+
+/**
+ * Role change document type with Mongoose methods.
+ */
+export interface IRoleChangeDocument extends IRoleChange, Document {}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const roleChangeSchema = new Schema<IRoleChangeDocument>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		fromRole: {
+			type: String,
+			enum: ['admin', 'host', 'guide', 'customer'],
+			required: true
+		},
+		toRole: {
+			type: String,
+			enum: ['admin', 'host', 'guide', 'customer'],
+			required: true
+		},
+		changedBy: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		reason: {
+			type: String,
+			required: true,
+			trim: true
+		},
+		applicationId: {
+			type: Schema.Types.ObjectId,
+			ref: 'RoleApplication',
+			required: false
+		}
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: 'roleChanges'
+	}
+);
+
+/** A user's role history */
+roleChangeSchema.index({ userId: 1, createdAt: -1 });
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Role change Mongoose model.
+ */
+export const RoleChangeModel: Model<IRoleChangeDocument> = mongoose.model<IRoleChangeDocument>(
+	'RoleChange',
+	roleChangeSchema
+);
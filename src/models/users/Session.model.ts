@@ -0,0 +1,166 @@
+/**
+ * Session Model
+ *
+ * One document per login (device). Access tokens carry the session ID,
+ * and `authenticate` rejects them once the session is revoked. The
+ * session's refresh tokens are in the refreshTokens collection.
+ *
+ * Sessions are removed by MongoDB once they expire.
+ *
+ * @module models/users/Session.model
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Why a session was revoked.
+ *
+ * - 'logout': The user logged out of the session (or of every session)
+ * - 'reuse': A used refresh token was presented again
+ * - 'password_change': The user changed their password on another session
+ * - 'inactive': The account was deactivated
+ */
+export type SessionRevokeReason = 'logout' | 'reuse' | 'password_change' | 'inactive';
+
+/**
+ * Session entity interface.
+ */
+export interface ISession {
+	/** User who logged in */
+	userId: Types.ObjectId;
+
+	/** Client User-Agent at login */
+	userAgent?: string;
+
+	/** Client IP at the last login or refresh */
+	ip?: string;
+
+	/** Last login or refresh */
+	lastUsedAt: Date;
+
+	/** When the session ends unless it is used (pushed back on each refresh) */
+	expiresAt: Date;
+
+	/** When the session was revoked */
+	revokedAt?: Date;
+
+	/** Why it was revoked */
+	revokedReason?: SessionRevokeReason;
+
+	/** When the user logged in */
+	createdAt: Date;
+
+	/** When this record was last updated */
+	updatedAt: Date;
+}
+
+/**
+ * Session document type with Mongoose methods.
+ */
+export interface ISessionDocument extends ISession, Document {}
+
+/**
+ * Session data returned by the API.
+ */
+export interface SessionResponse {
+	id: string;
+	userAgent?: string;
+	ip?: string;
+	createdAt: Date;
+	lastUsedAt: Date;
+	expiresAt: Date;
+	/** Whether this is the session making the request */
+	current: boolean;
+}
+
+// ============================================================================
+// Mongoose Schema
+// ============================================================================
+
+const sessionSchema = new Schema<ISessionDocument>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true
+		},
+		userAgent: {
+			type: String,
+			required: false
+		},
+		ip: {
+			type: String,
+			required: false
+		},
+		lastUsedAt: {
+			type: Date,
+			required: true
+		},
+		expiresAt: {
+			type: Date,
+			required: true
+		},
+		revokedAt: {
+			type: Date,
+			required: false
+		},
+		revokedReason: {
+			type: String,
+			enum: ['logout', 'reuse', 'password_change', 'inactive'],
+			required: false
+		}
+	},
+	{
+		timestamps: true,
+		collection: 'sessions'
+	}
+);
+
+/** A user's sessions, most recently used first */
+sessionSchema.index({ userId: 1, lastUsedAt: -1 });
+
+/** Expired sessions are removed by MongoDB */
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Converts a session document to the API response format.
+ *
+ * @param session - Session document
+ * @param currentSessionId - Session of the access token making the request
+ */
+export function toSessionResponse(
+	session: Pick<ISessionDocument, '_id' | 'userAgent' | 'ip' | 'createdAt' | 'lastUsedAt' | 'expiresAt'>,
+	currentSessionId?: string
+): SessionResponse {
+	const id = String(session._id);
+
+	return {
+		id,
+		userAgent: session.userAgent,
+		ip: session.ip,
+		createdAt: session.createdAt,
+		lastUsedAt: session.lastUsedAt,
+		expiresAt: session.expiresAt,
+		current: id === currentSessionId
+	};
+}
+
+// ============================================================================
+// Model Export
+// ============================================================================
+
+/**
+ * Session Mongoose model.
+ */
+export const SessionModel: Model<ISessionDocument> = mongoose.model<ISessionDocument>(
+	'Session',
+	sessionSchema
+);
@@ -22,6 +22,16 @@ export interface IUser {
 	name: string;
 	role: UserRole;
 	isActive: boolean;
+	/** Whether the user opened the link emailed at signup */
+	emailVerified: boolean;
+	emailVerifiedAt?: Date;
+	/** Last verification email, for the resend cooldown */
+	verificationEmailSentAt?: Date;
+	/** Failed passwords since the last login (reset after a lockout) */
+	failedLoginAttempts: number;
+	lastFailedLoginAt?: Date;
+	/** Logins are refused until then */
+	lockedUntil?: Date;
 	lastLogin?: Date;
 	createdAt: Date;
 	updatedAt: Date;
@@ -75,6 +85,30 @@ const userSchema = new Schema<IUserDocument>(
 			type: Boolean,
 			default: true
 		},
+		emailVerified: {
+			type: Boolean,
+			default: false
+		},
+		emailVerifiedAt: {
+			type: Date,
+			required: false
+		},
+		verificationEmailSentAt: {
+			type: Date,
+			required: false
+		},
+		failedLoginAttempts: {
+			type: Number,
+			default: 0
+		},
+		lastFailedLoginAt: {
+			type: Date,
+			required: false
+		},
+		lockedUntil: {
+			type: Date,
+			required: false
+		},
 		lastLogin: {
 			type: Date,
 			required: false
@@ -155,6 +189,7 @@ export interface UserResponse {
 	name: string;
 	role: UserRole;
 	isActive: boolean;
+	emailVerified: boolean;
 	createdAt: Date;
 }
 
@@ -171,6 +206,7 @@ export function toUserResponse(user: IUserDocument): UserResponse {
 		name: user.name,
 		role: user.role,
 		isActive: user.isActive,
+		emailVerified: user.emailVerified,
 		createdAt: user.createdAt
 	};
 }
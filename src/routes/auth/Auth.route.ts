@@ -6,49 +6,150 @@
  * Routes:
  * - POST /auth/register - Register new user
  * - POST /auth/login    - Login and get token
+ * - POST /auth/refresh  - Exchange a refresh token for new tokens
+ * - POST /auth/logout   - End the session of a refresh token
+ * - POST /auth/forgot-password - Email a password reset link
+ * - POST /auth/reset-password  - Set a new password with the emailed token
+ * - GET  /auth/verify-email       - Verify the email address with the emailed token
+ * - POST /auth/verify-email/resend - Send a new verification email
  * - GET  /auth/me       - Get current user profile
  * - PUT  /auth/me       - Update current user profile
+ * - GET    /auth/sessions     - List logged-in sessions
+ * - DELETE /auth/sessions     - Log out everywhere
+ * - DELETE /auth/sessions/:id - End one session
  */
 
 import { Router } from 'express';
 import {
 	register,
 	login,
+	refreshToken,
+	logout,
+	forgotPassword,
+	resetPassword,
+	verifyEmail,
+	resendVerificationEmail,
 	getProfile,
-	updateProfile
+	updateProfile,
+	getSessions,
+	revokeSession,
+	revokeAllSessions
 } from '../../controllers/auth.controller';
 import { validate } from '../../middleware/validation.middleware';
 import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/rbac.middleware';
+import { rateLimit } from '../../middleware/rateLimit.middleware';
 import {
 	registerSchema,
 	loginSchema,
-	updateProfileSchema
+	refreshTokenSchema,
+	forgotPasswordSchema,
+	resetPasswordSchema,
+	verifyEmailQuerySchema,
+	updateProfileSchema,
+	idParamSchema
 } from '../../validation';
 
 const router = Router();
 
+/** Reset emails per IP, so the endpoint cannot be used to flood inboxes */
+const forgotPasswordLimit = rateLimit({
+	name: 'forgotPassword',
+	windowMs: 15 * 60 * 1000,
+	max: 5,
+	message: 'Too many password reset requests, please try again later'
+});
+
+/** Reset attempts per IP, so tokens cannot be guessed */
+const resetPasswordLimit = rateLimit({
+	name: 'resetPassword',
+	windowMs: 15 * 60 * 1000,
+	max: 10,
+	message: 'Too many password reset attempts, please try again later'
+});
+
+/** Verification attempts per IP, so tokens cannot be guessed */
+const verifyEmailLimit = rateLimit({
+	name: 'verifyEmail',
+	windowMs: 15 * 60 * 1000,
+	max: 10,
+	message: 'Too many verification attempts, please try again later'
+});
+
 /**
  * @route   POST /api/v1/auth/register
- * @desc    Register a new user account
- * @body    { email, password, name, role? }
+ * @desc    Register a new customer account
+ * @body    { email, password, name }
  * @access  Public
  */
 router.post('/register', validate(registerSchema), register);
 
 /**
  * @route   POST /api/v1/auth/login
- * @desc    Authenticate user and get JWT token
+ * @desc    Authenticate user and get access and refresh tokens
  * @body    { email, password }
  * @access  Public
  */
 router.post('/login', validate(loginSchema), login);
 
+/**
+ * @route   POST /api/v1/auth/refresh
+ * @desc    Exchange a refresh token for a new access and refresh token
+ * @body    { refreshToken }
+ * @access  Public (refresh token required)
+ */
+router.post('/refresh', validate(refreshTokenSchema), refreshToken);
+
+/**
+ * @route   POST /api/v1/auth/logout
+ * @desc    End the session a refresh token belongs to
+ * @body    { refreshToken }
+ * @access  Public (refresh token required)
+ */
+router.post('/logout', validate(refreshTokenSchema), logout);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Email a password reset link (same response whether or not the account exists)
+ * @body    { email }
+ * @access  Public (rate limited)
+ */
+router.post('/forgot-password', forgotPasswordLimit, validate(forgotPasswordSchema), forgotPassword);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Set a new password with the token from a reset email
+ * @body    { token, password }
+ * @access  Public (reset token required, rate limited)
+ */
+router.post('/reset-password', resetPasswordLimit, validate(resetPasswordSchema), resetPassword);
+
+/**
+ * @route   GET /api/v1/auth/verify-email
+ * @desc    Verify the email address with the token from the verification email
+ * @query   token
+ * @access  Public (verification token required, rate limited)
+ */
+router.get('/verify-email', verifyEmailLimit, validate(verifyEmailQuerySchema, 'query'), verifyEmail);
+
+/**
+ * @route   POST /api/v1/auth/verify-email/resend
+ * @desc    Send a new verification email (at most one per cooldown)
+ * @access  Private (requires authentication)
+ */
+router.post(
+	'/verify-email/resend',
+	authenticate,
+	requirePermission('profile:update'),
+	resendVerificationEmail
+);
+
 /**
  * @route   GET /api/v1/auth/me
  * @desc    Get current authenticated user's profile
  * @access  Private (requires authentication)
  */
-router.get('/me', authenticate, getProfile);
+router.get('/me', authenticate, requirePermission('profile:read'), getProfile);
 
 /**
  * @route   PUT /api/v1/auth/me
@@ -56,6 +157,40 @@ router.get('/me', authenticate, getProfile);
  * @body    { name?, currentPassword?, newPassword? }
  * @access  Private (requires authentication)
  */
-router.put('/me', authenticate, validate(updateProfileSchema), updateProfile);
+router.put(
+	'/me',
+	authenticate,
+	requirePermission('profile:update'),
+	validate(updateProfileSchema),
+	updateProfile
+);
+
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List the current user's logged-in sessions (devices)
+ * @access  Private (requires authentication)
+ */
+router.get('/sessions', authenticate, requirePermission('profile:read'), getSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions
+ * @desc    Log out everywhere (end all sessions, including this one)
+ * @access  Private (requires authentication)
+ */
+router.delete('/sessions', authenticate, requirePermission('profile:update'), revokeAllSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @desc    End one of the current user's sessions
+ * @param   id - Session ID
+ * @access  Private (requires authentication)
+ */
+router.delete(
+	'/sessions/:id',
+	authenticate,
+	requirePermission('profile:update'),
+	validate(idParamSchema, 'params'),
+	revokeSession
+);
 
 export default router;
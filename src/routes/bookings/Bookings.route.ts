@@ -4,63 +4,299 @@
  * Defines all routes for booking operations.
  *
  * Routes:
- * - GET    /bookings            - Get all bookings (paginated, filterable)
+ * - GET    /bookings            - Get all bookings (admin; paginated, filterable)
+ * - GET    /bookings/mine       - Bookings made by the logged-in user
+ * - GET    /bookings/incoming   - Bookings on the logged-in host's/guide's listings
  * - GET    /bookings/:id        - Get single booking by ID
+ * - GET    /bookings/:id/invoice      - GST invoice (JSON or PDF)
+ * - GET    /bookings/:id/credit-note  - Credit note for the refund (JSON or PDF)
  * - POST   /bookings            - Create new booking
- * - PUT    /bookings/:id/cancel - Cancel a booking
+ * - POST   /bookings/quote      - Get a price quote without booking
+ * - POST   /bookings/lookup     - Guest finds a booking by number and email
+ * - POST   /bookings/lookup/cancel - Guest cancels a booking by number and email
+ * - PUT    /bookings/:id/dates    - Move a booking to new dates
+ * - PUT    /bookings/:id/confirm  - Host/Guide confirms a pending booking
+ * - PUT    /bookings/:id/reject   - Host/Guide rejects a pending booking
+ * - PUT    /bookings/:id/complete - Mark a confirmed booking as completed
+ * - PUT    /bookings/:id/cancel   - Cancel a booking
+ *
+ * Status changes go through the booking state machine; illegal
+ * transitions (e.g. completed → confirmed) return 409.
+ *
+ * A booking can be seen, moved and cancelled by the user who made it and
+ * by the owner of the booked listing; only the listing owner confirms,
+ * rejects and completes it. Admins can do everything.
  */
 
 import { Router } from 'express';
 import {
 	getAllBookings,
+	getMyBookings,
+	getIncomingBookings,
 	getBookingById,
 	createBooking,
-	cancelBooking
+	getBookingQuote,
+	changeBookingDates,
+	confirmBooking,
+	rejectBooking,
+	completeBooking,
+	cancelBooking,
+	getBookingInvoice,
+	getBookingCreditNote,
+	lookupBooking,
+	cancelGuestBooking
 } from '../../controllers/bookings.controller';
 import { validate } from '../../middleware/validation.middleware';
+import { authenticate, optionalAuth } from '../../middleware/auth.middleware';
+import { requireRole, requirePermission, requireOwnership } from '../../middleware/rbac.middleware';
+import { rateLimit } from '../../middleware/rateLimit.middleware';
+import { requireVerifiedEmail } from '../../middleware/emailVerification.middleware';
+import { getBookingParties } from '../../services/bookings/booking.access';
 import {
 	createBookingSchema,
+	bookingQuoteSchema,
+	changeBookingDatesSchema,
 	cancelBookingSchema,
 	bookingQuerySchema,
+	invoiceQuerySchema,
+	bookingLookupSchema,
+	guestCancelBookingSchema,
 	idParamSchema
 } from '../../validation';
 
 const router = Router();
 
+/** Guest lookups per IP, shared by lookup and cancel so numbers cannot be guessed */
+const bookingLookupLimit = rateLimit({
+	name: 'bookingLookup',
+	windowMs: 15 * 60 * 1000,
+	max: 10,
+	message: 'Too many booking lookups, please try again later'
+});
+
+/**
+ * Lets only the booker and the listing owner (or an admin) past.
+ */
+const requireBookingParty = requireOwnership(async (req) => {
+	const parties = await getBookingParties(req.params.id);
+	return parties && [parties.bookerId, parties.listingOwnerId];
+});
+
+/**
+ * Lets only the owner of the booked listing (or an admin) past; bookings
+ * on listings without an owner are managed by admins.
+ */
+const requireBookingListingOwner = requireOwnership(async (req) => {
+	const parties = await getBookingParties(req.params.id);
+	return parties && parties.listingOwnerId;
+});
+
 /**
  * @route   GET /api/v1/bookings
  * @desc    Get all bookings with optional filters
- * @query   page, limit, status
- * @access  Public (will be protected after auth implementation)
+ * @query   page, limit, status, from, to
+ * @access  Private (admin)
  */
-router.get('/', validate(bookingQuerySchema, 'query'), getAllBookings);
+router.get(
+	'/',
+	authenticate,
+	requireRole('admin'),
+	validate(bookingQuerySchema, 'query'),
+	getAllBookings
+);
+
+/**
+ * @route   GET /api/v1/bookings/mine
+ * @desc    Get bookings made by the logged-in user
+ * @query   page, limit, status, from, to
+ * @access  Private
+ */
+router.get(
+	'/mine',
+	authenticate,
+	requirePermission('booking:read'),
+	validate(bookingQuerySchema, 'query'),
+	getMyBookings
+);
+
+/**
+ * @route   GET /api/v1/bookings/incoming
+ * @desc    Get bookings on the homestays or guide profile the user owns
+ * @query   page, limit, status, from, to
+ * @access  Private (host, guide)
+ */
+router.get(
+	'/incoming',
+	authenticate,
+	requirePermission('booking:manage'),
+	validate(bookingQuerySchema, 'query'),
+	getIncomingBookings
+);
 
 /**
  * @route   GET /api/v1/bookings/:id
  * @desc    Get a single booking by ID
  * @param   id - Booking ID
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (booker, listing owner, admin)
  */
-router.get('/:id', validate(idParamSchema, 'params'), getBookingById);
+router.get(
+	'/:id',
+	authenticate,
+	requirePermission('booking:read'),
+	validate(idParamSchema, 'params'),
+	requireBookingParty,
+	getBookingById
+);
+
+/**
+ * @route   GET /api/v1/bookings/:id/invoice
+ * @desc    Get the GST tax invoice of a confirmed or paid booking
+ * @param   id - Booking ID
+ * @query   format - json (default) or pdf
+ * @access  Private (booker, listing owner, admin)
+ */
+router.get(
+	'/:id/invoice',
+	authenticate,
+	requirePermission('booking:read'),
+	validate(idParamSchema, 'params'),
+	requireBookingParty,
+	validate(invoiceQuerySchema, 'query'),
+	getBookingInvoice
+);
+
+/**
+ * @route   GET /api/v1/bookings/:id/credit-note
+ * @desc    Get the credit note issued for a booking's refund
+ * @param   id - Booking ID
+ * @query   format - json (default) or pdf
+ * @access  Private (booker, listing owner, admin)
+ */
+router.get(
+	'/:id/credit-note',
+	authenticate,
+	requirePermission('booking:read'),
+	validate(idParamSchema, 'params'),
+	requireBookingParty,
+	validate(invoiceQuerySchema, 'query'),
+	getBookingCreditNote
+);
 
 /**
  * @route   POST /api/v1/bookings
- * @desc    Create a new booking
+ * @desc    Create a new booking (linked to the user if a token is sent)
  * @body    CreateBookingInput
+ * @access  Public (logged-in users need a verified email if REQUIRE_VERIFIED_EMAIL includes booking)
+ */
+router.post(
+	'/',
+	optionalAuth,
+	requireVerifiedEmail('booking'),
+	validate(createBookingSchema),
+	createBooking
+);
+
+/**
+ * @route   POST /api/v1/bookings/quote
+ * @desc    Calculate the itemized price for dates and guests without booking
+ * @body    BookingQuoteInput
  * @access  Public
  */
-router.post('/', validate(createBookingSchema), createBooking);
+router.post('/quote', validate(bookingQuoteSchema), getBookingQuote);
+
+/**
+ * @route   POST /api/v1/bookings/lookup
+ * @desc    Find a booking by booking number and guest email (no account needed)
+ * @body    BookingLookupInput
+ * @access  Public (rate limited)
+ */
+router.post('/lookup', bookingLookupLimit, validate(bookingLookupSchema), lookupBooking);
+
+/**
+ * @route   POST /api/v1/bookings/lookup/cancel
+ * @desc    Cancel a booking found by booking number and guest email
+ * @body    GuestCancelBookingInput
+ * @access  Public (rate limited)
+ */
+router.post('/lookup/cancel', bookingLookupLimit, validate(guestCancelBookingSchema), cancelGuestBooking);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/dates
+ * @desc    Move a pending or confirmed booking to new dates
+ * @param   id - Booking ID
+ * @body    ChangeBookingDatesInput
+ * @access  Private (booker, listing owner, admin)
+ */
+router.put(
+	'/:id/dates',
+	authenticate,
+	requirePermission('booking:update'),
+	validate(idParamSchema, 'params'),
+	requireBookingParty,
+	validate(changeBookingDatesSchema),
+	changeBookingDates
+);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/confirm
+ * @desc    Confirm a pending booking
+ * @param   id - Booking ID
+ * @access  Private (listing owner, admin)
+ */
+router.put(
+	'/:id/confirm',
+	authenticate,
+	requirePermission('booking:manage'),
+	validate(idParamSchema, 'params'),
+	requireBookingListingOwner,
+	confirmBooking
+);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/reject
+ * @desc    Reject a pending booking
+ * @param   id - Booking ID
+ * @body    CancelBookingInput (optional reason)
+ * @access  Private (listing owner, admin)
+ */
+router.put(
+	'/:id/reject',
+	authenticate,
+	requirePermission('booking:manage'),
+	validate(idParamSchema, 'params'),
+	requireBookingListingOwner,
+	validate(cancelBookingSchema),
+	rejectBooking
+);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/complete
+ * @desc    Mark a confirmed booking as completed
+ * @param   id - Booking ID
+ * @access  Private (listing owner, admin)
+ */
+router.put(
+	'/:id/complete',
+	authenticate,
+	requirePermission('booking:manage'),
+	validate(idParamSchema, 'params'),
+	requireBookingListingOwner,
+	completeBooking
+);
 
 /**
  * @route   PUT /api/v1/bookings/:id/cancel
  * @desc    Cancel an existing booking
  * @param   id - Booking ID
  * @body    CancelBookingInput (optional reason)
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (booker, listing owner, admin; guests without an account use /bookings/lookup/cancel)
  */
 router.put(
 	'/:id/cancel',
+	authenticate,
+	requirePermission('booking:cancel'),
 	validate(idParamSchema, 'params'),
+	requireBookingParty,
 	validate(cancelBookingSchema),
 	cancelBooking
 );
@@ -6,9 +6,12 @@
  * Routes:
  * - GET    /guides       - Get all guides (paginated, filterable)
  * - GET    /guides/:id   - Get single guide by ID
- * - POST   /guides       - Create new guide profile
- * - PUT    /guides/:id   - Update existing guide
- * - DELETE /guides/:id   - Delete guide profile
+ * - POST   /guides       - Create new guide profile (guide/admin)
+ * - PUT    /guides/:id   - Update existing guide (owning guide/admin)
+ * - DELETE /guides/:id   - Delete guide profile (admin)
+ * - POST   /guides/:id/claim - Claim an unowned guide profile (guide)
+ * - PUT    /guides/:id/owner - Assign the profile to a guide account (admin)
+ * - GET    /guides/:id/availability - Day-by-day availability calendar
  */
 
 import { Router } from 'express';
@@ -17,18 +20,35 @@ import {
 	getGuideById,
 	createGuide,
 	updateGuide,
-	deleteGuide
+	deleteGuide,
+	claimGuideProfile,
+	assignGuideOwner,
+	getGuideAvailability
 } from '../../controllers/guides.controller';
 import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission, requireRole, requireOwnership } from '../../middleware/rbac.middleware';
+import { requireVerifiedEmail } from '../../middleware/emailVerification.middleware';
+import { GuideModel } from '../../models/guides/Guide.model';
 import {
 	createGuideSchema,
 	updateGuideSchema,
 	guideQuerySchema,
-	idParamSchema
+	idParamSchema,
+	availabilityQuerySchema,
+	assignOwnerSchema
 } from '../../validation';
 
 const router = Router();
 
+/**
+ * Lets only the guide who owns the profile (or an admin) past.
+ */
+const requireGuideOwner = requireOwnership(async (req) => {
+	const guide = await GuideModel.findById(req.params.id).select('userId');
+	return guide ? guide.userId?.toString() ?? null : undefined;
+});
+
 /**
  * @route   GET /api/v1/guides
  * @desc    Get all guides with optional filters
@@ -49,20 +69,30 @@ router.get('/:id', validate(idParamSchema, 'params'), getGuideById);
  * @route   POST /api/v1/guides
  * @desc    Create a new guide profile
  * @body    CreateGuideInput
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (guide, admin; verified email if REQUIRE_VERIFIED_EMAIL includes listing)
  */
-router.post('/', validate(createGuideSchema), createGuide);
+router.post(
+	'/',
+	authenticate,
+	requirePermission('guide:create'),
+	requireVerifiedEmail('listing'),
+	validate(createGuideSchema),
+	createGuide
+);
 
 /**
  * @route   PUT /api/v1/guides/:id
  * @desc    Update an existing guide profile
  * @param   id - Guide ID
  * @body    UpdateGuideInput (partial)
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (owning guide, admin)
  */
 router.put(
 	'/:id',
+	authenticate,
+	requirePermission('guide:update'),
 	validate(idParamSchema, 'params'),
+	requireGuideOwner,
 	validate(updateGuideSchema),
 	updateGuide
 );
@@ -71,8 +101,58 @@ router.put(
  * @route   DELETE /api/v1/guides/:id
  * @desc    Delete a guide profile
  * @param   id - Guide ID
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (admin)
  */
-router.delete('/:id', validate(idParamSchema, 'params'), deleteGuide);
+router.delete(
+	'/:id',
+	authenticate,
+	requirePermission('guide:delete'),
+	validate(idParamSchema, 'params'),
+	deleteGuide
+);
+
+/**
+ * @route   POST /api/v1/guides/:id/claim
+ * @desc    Link an unowned guide profile to the logged-in guide (one per account)
+ * @param   id - Guide ID
+ * @access  Private (guide)
+ */
+router.post(
+	'/:id/claim',
+	authenticate,
+	requireRole('guide'),
+	validate(idParamSchema, 'params'),
+	claimGuideProfile
+);
+
+/**
+ * @route   PUT /api/v1/guides/:id/owner
+ * @desc    Assign the guide profile to a guide account
+ * @param   id - Guide ID
+ * @body    { userId }
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/owner',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(assignOwnerSchema),
+	assignGuideOwner
+);
+
+/**
+ * @route   GET /api/v1/guides/:id/availability
+ * @desc    Get per-day status (available/booked/blocked) and full-day price
+ * @param   id - Guide ID
+ * @query   from, to (YYYY-MM-DD, to is exclusive; default next 30 days)
+ * @access  Public
+ */
+router.get(
+	'/:id/availability',
+	validate(idParamSchema, 'params'),
+	validate(availabilityQuerySchema, 'query'),
+	getGuideAvailability
+);
 
 export default router;
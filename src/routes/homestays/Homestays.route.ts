@@ -5,30 +5,71 @@
  *
  * Routes:
  * - GET    /homestays       - Get all homestays (paginated, filterable)
+ * - GET    /homestays/mine  - Get the logged-in host's homestays (host/admin)
  * - GET    /homestays/:id   - Get single homestay by ID
- * - POST   /homestays       - Create new homestay
- * - PUT    /homestays/:id   - Update existing homestay
- * - DELETE /homestays/:id   - Delete homestay
+ * - POST   /homestays       - Create new homestay (host/admin)
+ * - PUT    /homestays/:id   - Update existing homestay (host/admin)
+ * - DELETE /homestays/:id   - Delete homestay (host/admin)
+ * - PUT    /homestays/:id/owner             - Assign the homestay to a host (admin)
+ * - GET    /homestays/:id/availability      - Day-by-day availability calendar
+ * - GET    /homestays/:id/blocks            - List host date blocks
+ * - POST   /homestays/:id/blocks            - Block dates (host/admin)
+ * - DELETE /homestays/:id/blocks/:blockId   - Remove a date block (host/admin)
+ * - GET    /homestays/:id/calendar.ics      - iCal feed (secret token in query)
+ * - GET    /homestays/:id/ical              - Get iCal feed URL (host/admin)
+ * - POST   /homestays/:id/ical/token        - Regenerate iCal feed URL (host/admin)
+ * - POST   /homestays/:id/ical/import       - Import .ics events as blocks (host/admin)
+ *
+ * Routes marked host/admin below /:id are limited to the host who owns
+ * the homestay; admins can manage every homestay.
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
 	getAllHomestays,
+	getMyHomestays,
 	getHomestayById,
 	createHomestay,
 	updateHomestay,
-	deleteHomestay
+	deleteHomestay,
+	assignHomestayOwner,
+	getHomestayAvailability,
+	getHomestayBlocks,
+	createHomestayBlock,
+	deleteHomestayBlock,
+	getHomestayICalFeed,
+	getHomestayICalLink,
+	rotateHomestayICalToken,
+	importHomestayICal
 } from '../../controllers/homestays.controller';
 import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission, requireRole, requireOwnership } from '../../middleware/rbac.middleware';
+import { requireVerifiedEmail } from '../../middleware/emailVerification.middleware';
+import { HomestayModel } from '../../models/homestays/Homestay.model';
 import {
 	createHomestaySchema,
 	updateHomestaySchema,
 	homestayQuerySchema,
-	idParamSchema
+	paginationQuerySchema,
+	idParamSchema,
+	availabilityQuerySchema,
+	createBlockSchema,
+	blockParamSchema,
+	assignOwnerSchema
 } from '../../validation';
 
 const router = Router();
 
+/**
+ * Lets only the owning host (or an admin) past; homestays without a host
+ * are managed by admins.
+ */
+const requireHomestayOwner = requireOwnership(async (req) => {
+	const homestay = await HomestayModel.findById(req.params.id).select('hostId');
+	return homestay ? homestay.hostId?.toString() ?? null : undefined;
+});
+
 /**
  * @route   GET /api/v1/homestays
  * @desc    Get all homestays with optional filters
@@ -37,6 +78,20 @@ const router = Router();
  */
 router.get('/', validate(homestayQuerySchema, 'query'), getAllHomestays);
 
+/**
+ * @route   GET /api/v1/homestays/mine
+ * @desc    Get the logged-in host's homestays, including inactive ones
+ * @query   page, limit
+ * @access  Private (host, admin)
+ */
+router.get(
+	'/mine',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(paginationQuerySchema, 'query'),
+	getMyHomestays
+);
+
 /**
  * @route   GET /api/v1/homestays/:id
  * @desc    Get a single homestay by ID
@@ -49,20 +104,30 @@ router.get('/:id', validate(idParamSchema, 'params'), getHomestayById);
  * @route   POST /api/v1/homestays
  * @desc    Create a new homestay listing
  * @body    CreateHomestayInput
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (host, admin; verified email if REQUIRE_VERIFIED_EMAIL includes listing)
  */
-router.post('/', validate(createHomestaySchema), createHomestay);
+router.post(
+	'/',
+	authenticate,
+	requirePermission('homestay:create'),
+	requireVerifiedEmail('listing'),
+	validate(createHomestaySchema),
+	createHomestay
+);
 
 /**
  * @route   PUT /api/v1/homestays/:id
  * @desc    Update an existing homestay
  * @param   id - Homestay ID
  * @body    UpdateHomestayInput (partial)
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (owning host, admin)
  */
 router.put(
 	'/:id',
+	authenticate,
+	requirePermission('homestay:update'),
 	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
 	validate(updateHomestaySchema),
 	updateHomestay
 );
@@ -71,8 +136,149 @@ router.put(
  * @route   DELETE /api/v1/homestays/:id
  * @desc    Delete a homestay listing
  * @param   id - Homestay ID
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (owning host, admin)
+ */
+router.delete(
+	'/:id',
+	authenticate,
+	requirePermission('homestay:delete'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	deleteHomestay
+);
+
+/**
+ * @route   PUT /api/v1/homestays/:id/owner
+ * @desc    Assign the homestay to a host account
+ * @param   id - Homestay ID
+ * @body    { userId }
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/owner',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(assignOwnerSchema),
+	assignHomestayOwner
+);
+
+/**
+ * @route   GET /api/v1/homestays/:id/availability
+ * @desc    Get per-day status (available/booked/blocked) and nightly price
+ * @param   id - Homestay ID
+ * @query   from, to (YYYY-MM-DD, to is exclusive; default next 30 days)
+ * @access  Public
  */
-router.delete('/:id', validate(idParamSchema, 'params'), deleteHomestay);
+router.get(
+	'/:id/availability',
+	validate(idParamSchema, 'params'),
+	validate(availabilityQuerySchema, 'query'),
+	getHomestayAvailability
+);
+
+/**
+ * @route   GET /api/v1/homestays/:id/blocks
+ * @desc    List the dates a host has blocked
+ * @param   id - Homestay ID
+ * @access  Private (owning host, admin)
+ */
+router.get(
+	'/:id/blocks',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	getHomestayBlocks
+);
+
+/**
+ * @route   POST /api/v1/homestays/:id/blocks
+ * @desc    Block dates so they cannot be booked
+ * @param   id - Homestay ID
+ * @body    CreateBlockInput
+ * @access  Private (owning host, admin)
+ */
+router.post(
+	'/:id/blocks',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	validate(createBlockSchema),
+	createHomestayBlock
+);
+
+/**
+ * @route   DELETE /api/v1/homestays/:id/blocks/:blockId
+ * @desc    Remove a date block
+ * @param   id - Homestay ID
+ * @param   blockId - Block ID
+ * @access  Private (owning host, admin)
+ */
+router.delete(
+	'/:id/blocks/:blockId',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(blockParamSchema, 'params'),
+	requireHomestayOwner,
+	deleteHomestayBlock
+);
+
+/**
+ * @route   GET /api/v1/homestays/:id/calendar.ics
+ * @desc    iCal feed of bookings and blocked dates for other platforms
+ * @param   id - Homestay ID
+ * @query   token - Secret feed token
+ * @access  Public (token required)
+ */
+router.get('/:id/calendar.ics', validate(idParamSchema, 'params'), getHomestayICalFeed);
+
+/**
+ * @route   GET /api/v1/homestays/:id/ical
+ * @desc    Get the secret iCal feed URL (created on first request)
+ * @param   id - Homestay ID
+ * @access  Private (owning host, admin)
+ */
+router.get(
+	'/:id/ical',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	getHomestayICalLink
+);
+
+/**
+ * @route   POST /api/v1/homestays/:id/ical/token
+ * @desc    Regenerate the iCal feed URL (old URL stops working)
+ * @param   id - Homestay ID
+ * @access  Private (owning host, admin)
+ */
+router.post(
+	'/:id/ical/token',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	rotateHomestayICalToken
+);
+
+/**
+ * @route   POST /api/v1/homestays/:id/ical/import
+ * @desc    Import an .ics file; its events become blocked dates
+ * @param   id - Homestay ID
+ * @body    iCalendar text (Content-Type: text/calendar)
+ * @access  Private (owning host, admin)
+ */
+router.post(
+	'/:id/ical/import',
+	authenticate,
+	requirePermission('homestay:update'),
+	validate(idParamSchema, 'params'),
+	requireHomestayOwner,
+	express.text({ type: 'text/calendar', limit: '1mb' }),
+	importHomestayICal
+);
 
 export default router;
@@ -9,21 +9,34 @@
  * Available endpoints:
  * - /api/v1/health     - Health check
  * - /api/v1/auth       - Authentication (register, login, profile)
+ * - /api/v1/role-applications - Host/guide role applications and admin review
  * - /api/v1/homestays  - Homestay CRUD
  * - /api/v1/guides     - Guide CRUD
  * - /api/v1/products   - Product CRUD
  * - /api/v1/bookings   - Booking management
+ * - /api/v1/payments   - Payment orders and provider webhooks
+ * - /api/v1/refunds    - Refund ledger (admin)
+ * - /api/v1/jobs       - Background jobs (admin)
+ * - /api/v1/roles      - Role permissions (admin)
+ * - /api/v1/users      - Account unlocks and lockout audit (admin)
  * - /api/v1/search     - Search and autocomplete
  */
 
 import { Router } from 'express';
 import { getHealth } from '../controllers/health.controller';
+import { idempotency } from '../middleware/idempotency.middleware';
 
 import authRouter from './auth/Auth.route';
+import roleApplicationsRouter from './roleApplications/RoleApplications.route';
 import homestaysRouter from './homestays/Homestays.route';
 import guidesRouter from './guides/Guides.route';
 import productsRouter from './products/Products.route';
 import bookingsRouter from './bookings/Bookings.route';
+import paymentsRouter from './payments/Payments.route';
+import refundsRouter from './refunds/Refunds.route';
+import jobsRouter from './jobs/Jobs.route';
+import rolesRouter from './roles/Roles.route';
+import usersRouter from './users/Users.route';
 import searchRouter from './search/Search.route';
 
 const router = Router();
@@ -33,12 +46,19 @@ router.get('/health', getHealth);
 
 // Authentication routes
 router.use('/auth', authRouter);
+router.use('/role-applications', roleApplicationsRouter);
 
 // Entity routers
 router.use('/homestays', homestaysRouter);
 router.use('/guides', guidesRouter);
 router.use('/products', productsRouter);
-router.use('/bookings', bookingsRouter);
+// POSTs with an Idempotency-Key header are safe to retry on these routers
+router.use('/bookings', idempotency(), bookingsRouter);
+router.use('/payments', idempotency(), paymentsRouter);
+router.use('/refunds', refundsRouter);
+router.use('/jobs', jobsRouter);
+router.use('/roles', rolesRouter);
+router.use('/users', usersRouter);
 router.use('/search', searchRouter);
 
 export default router;
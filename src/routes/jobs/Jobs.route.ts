@@ -0,0 +1,67 @@
+/**
+ * Jobs Routes
+ *
+ * Admin-only routes for background jobs.
+ *
+ * Routes:
+ * - GET    /jobs             - List jobs (failed by default, paginated)
+ * - GET    /jobs/:id         - Get single job by ID
+ * - PUT    /jobs/:id/retry   - Queue a failed job again
+ */
+
+import { Router } from 'express';
+import {
+	getAllJobs,
+	getJobById,
+	retryFailedJob
+} from '../../controllers/jobs.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireRole } from '../../middleware/rbac.middleware';
+import { jobQuerySchema, idParamSchema } from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/jobs
+ * @desc    List background jobs, most recently updated first
+ * @query   page, limit, status (default: failed), name
+ * @access  Private (admin)
+ */
+router.get(
+	'/',
+	authenticate,
+	requireRole('admin'),
+	validate(jobQuerySchema, 'query'),
+	getAllJobs
+);
+
+/**
+ * @route   GET /api/v1/jobs/:id
+ * @desc    Get a single job by ID
+ * @param   id - Job ID
+ * @access  Private (admin)
+ */
+router.get(
+	'/:id',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	getJobById
+);
+
+/**
+ * @route   PUT /api/v1/jobs/:id/retry
+ * @desc    Queue a failed job to run again
+ * @param   id - Job ID
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/retry',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	retryFailedJob
+);
+
+export default router;
@@ -0,0 +1,70 @@
+/**
+ * Payments Routes
+ *
+ * Defines all routes for booking payments.
+ *
+ * Routes:
+ * - POST   /payments/orders                    - Create a payment order for a booking
+ * - GET    /payments/orders/:orderId           - Get a payment order's status
+ * - POST   /payments/webhook                   - Payment provider webhook
+ * - POST   /payments/mock/orders/:orderId/pay  - Pay a mock order (development only)
+ *
+ * The webhook is authenticated by its signature, not a JWT, and relies on
+ * the raw request body captured by the JSON parser (see rawBody.middleware).
+ */
+
+import { Router } from 'express';
+import {
+	createPaymentOrder,
+	getPaymentOrder,
+	receivePaymentWebhook,
+	payMockOrder
+} from '../../controllers/payments.controller';
+import { validate } from '../../middleware/validation.middleware';
+import {
+	createPaymentOrderSchema,
+	orderIdParamSchema,
+	mockPaymentSchema
+} from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/payments/orders
+ * @desc    Create a payment order for a booking's total
+ * @body    { bookingId }
+ * @access  Public (guests pay without an account)
+ */
+router.post('/orders', validate(createPaymentOrderSchema), createPaymentOrder);
+
+/**
+ * @route   GET /api/v1/payments/orders/:orderId
+ * @desc    Get a payment order's status
+ * @param   orderId - Provider order ID
+ * @access  Public (guests pay without an account)
+ */
+router.get('/orders/:orderId', validate(orderIdParamSchema, 'params'), getPaymentOrder);
+
+/**
+ * @route   POST /api/v1/payments/webhook
+ * @desc    Receive payment provider webhooks
+ * @header  X-Razorpay-Signature - HMAC-SHA256 of the raw body
+ * @access  Public (signature-verified)
+ */
+router.post('/webhook', receivePaymentWebhook);
+
+/**
+ * @route   POST /api/v1/payments/mock/orders/:orderId/pay
+ * @desc    Simulate paying a mock order (PAYMENT_GATEWAY=mock, non-production only)
+ * @param   orderId - Mock order ID
+ * @body    { outcome?: 'success' | 'failure' }
+ * @access  Public (development only)
+ */
+router.post(
+	'/mock/orders/:orderId/pay',
+	validate(orderIdParamSchema, 'params'),
+	validate(mockPaymentSchema),
+	payMockOrder
+);
+
+export default router;
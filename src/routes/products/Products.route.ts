@@ -6,9 +6,9 @@
  * Routes:
  * - GET    /products       - Get all products (paginated, filterable)
  * - GET    /products/:id   - Get single product by ID
- * - POST   /products       - Create new product
- * - PUT    /products/:id   - Update existing product
- * - DELETE /products/:id   - Delete product
+ * - POST   /products       - Create new product (admin)
+ * - PUT    /products/:id   - Update existing product (admin)
+ * - DELETE /products/:id   - Delete product (admin)
  */
 
 import { Router } from 'express';
@@ -20,6 +20,8 @@ import {
 	deleteProduct
 } from '../../controllers/products.controller';
 import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/rbac.middleware';
 import {
 	createProductSchema,
 	updateProductSchema,
@@ -49,19 +51,27 @@ router.get('/:id', validate(idParamSchema, 'params'), getProductById);
  * @route   POST /api/v1/products
  * @desc    Create a new product listing
  * @body    CreateProductInput
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (admin)
  */
-router.post('/', validate(createProductSchema), createProduct);
+router.post(
+	'/',
+	authenticate,
+	requirePermission('product:create'),
+	validate(createProductSchema),
+	createProduct
+);
 
 /**
  * @route   PUT /api/v1/products/:id
  * @desc    Update an existing product
  * @param   id - Product ID
  * @body    UpdateProductInput (partial)
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (admin)
  */
 router.put(
 	'/:id',
+	authenticate,
+	requirePermission('product:update'),
 	validate(idParamSchema, 'params'),
 	validate(updateProductSchema),
 	updateProduct
@@ -71,8 +81,14 @@ router.put(
  * @route   DELETE /api/v1/products/:id
  * @desc    Delete a product listing
  * @param   id - Product ID
- * @access  Public (will be protected after auth implementation)
+ * @access  Private (admin)
  */
-router.delete('/:id', validate(idParamSchema, 'params'), deleteProduct);
+router.delete(
+	'/:id',
+	authenticate,
+	requirePermission('product:delete'),
+	validate(idParamSchema, 'params'),
+	deleteProduct
+);
 
 export default router;
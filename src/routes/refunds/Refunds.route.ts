@@ -0,0 +1,108 @@
+/**
+ * Refunds Routes
+ *
+ * Admin-only routes for the refund ledger.
+ *
+ * Routes:
+ * - GET    /refunds               - List refunds (paginated, filterable by status)
+ * - GET    /refunds/:id           - Get single refund by ID
+ * - PUT    /refunds/:id/process   - Send a refund to the payment provider
+ * - PUT    /refunds/:id/complete  - Record a manual payout
+ * - PUT    /refunds/:id/fail      - Mark a refund as failed
+ */
+
+import { Router } from 'express';
+import {
+	getAllRefunds,
+	getRefundById,
+	processPendingRefund,
+	completeRefundManually,
+	failRefund
+} from '../../controllers/refunds.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireRole } from '../../middleware/rbac.middleware';
+import {
+	refundQuerySchema,
+	completeRefundSchema,
+	failRefundSchema,
+	idParamSchema
+} from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/refunds
+ * @desc    List refunds, oldest first
+ * @query   page, limit, status
+ * @access  Private (admin)
+ */
+router.get(
+	'/',
+	authenticate,
+	requireRole('admin'),
+	validate(refundQuerySchema, 'query'),
+	getAllRefunds
+);
+
+/**
+ * @route   GET /api/v1/refunds/:id
+ * @desc    Get a single refund by ID
+ * @param   id - Refund ID
+ * @access  Private (admin)
+ */
+router.get(
+	'/:id',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	getRefundById
+);
+
+/**
+ * @route   PUT /api/v1/refunds/:id/process
+ * @desc    Send a requested or failed refund to the payment provider
+ * @param   id - Refund ID
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/process',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	processPendingRefund
+);
+
+/**
+ * @route   PUT /api/v1/refunds/:id/complete
+ * @desc    Record a refund paid out manually
+ * @param   id - Refund ID
+ * @body    CompleteRefundInput
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/complete',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(completeRefundSchema),
+	completeRefundManually
+);
+
+/**
+ * @route   PUT /api/v1/refunds/:id/fail
+ * @desc    Mark a refund as failed
+ * @param   id - Refund ID
+ * @body    FailRefundInput
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/fail',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(failRefundSchema),
+	failRefund
+);
+
+export default router;
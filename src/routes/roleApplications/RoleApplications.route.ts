@@ -0,0 +1,118 @@
+/**
+ * Role Applications Routes
+ *
+ * Users apply for the host or guide role; admins review the applications.
+ *
+ * Routes:
+ * - POST   /role-applications              - Apply for the host or guide role
+ * - GET    /role-applications/mine         - List own applications
+ * - GET    /role-applications              - List applications (admin, pending by default)
+ * - GET    /role-applications/:id          - Get single application (admin)
+ * - PUT    /role-applications/:id/approve  - Approve and change the user's role (admin)
+ * - PUT    /role-applications/:id/reject   - Reject with a reason (admin)
+ */
+
+import { Router } from 'express';
+import {
+	applyForRole,
+	getMyRoleApplications,
+	getAllRoleApplications,
+	getRoleApplicationById,
+	approveRoleApplication,
+	rejectRoleApplication
+} from '../../controllers/roleApplications.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission, requireRole } from '../../middleware/rbac.middleware';
+import {
+	createRoleApplicationSchema,
+	approveRoleApplicationSchema,
+	rejectRoleApplicationSchema,
+	roleApplicationQuerySchema,
+	idParamSchema
+} from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/role-applications
+ * @desc    Apply for the host or guide role (one pending application at a time)
+ * @body    CreateRoleApplicationInput
+ * @access  Private (customer, host, guide)
+ */
+router.post(
+	'/',
+	authenticate,
+	requirePermission('profile:update'),
+	validate(createRoleApplicationSchema),
+	applyForRole
+);
+
+/**
+ * @route   GET /api/v1/role-applications/mine
+ * @desc    List the logged-in user's applications
+ * @access  Private (requires authentication)
+ */
+router.get('/mine', authenticate, requirePermission('profile:read'), getMyRoleApplications);
+
+/**
+ * @route   GET /api/v1/role-applications
+ * @desc    List applications, oldest first
+ * @query   page, limit, status (default: pending), requestedRole
+ * @access  Private (admin)
+ */
+router.get(
+	'/',
+	authenticate,
+	requireRole('admin'),
+	validate(roleApplicationQuerySchema, 'query'),
+	getAllRoleApplications
+);
+
+/**
+ * @route   GET /api/v1/role-applications/:id
+ * @desc    Get a single application with the applicant
+ * @param   id - Role application ID
+ * @access  Private (admin)
+ */
+router.get(
+	'/:id',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	getRoleApplicationById
+);
+
+/**
+ * @route   PUT /api/v1/role-applications/:id/approve
+ * @desc    Approve a pending application; the role applies from the user's next login
+ * @param   id - Role application ID
+ * @body    { note? }
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/approve',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(approveRoleApplicationSchema),
+	approveRoleApplication
+);
+
+/**
+ * @route   PUT /api/v1/role-applications/:id/reject
+ * @desc    Reject a pending application
+ * @param   id - Role application ID
+ * @body    { reason }
+ * @access  Private (admin)
+ */
+router.put(
+	'/:id/reject',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	validate(rejectRoleApplicationSchema),
+	rejectRoleApplication
+);
+
+export default router;
@@ -0,0 +1,62 @@
+/**
+ * Roles Routes
+ *
+ * Admin-only routes for role permissions.
+ *
+ * Routes:
+ * - GET    /roles         - List roles and their permissions
+ * - GET    /roles/:name   - Get a single role
+ * - PUT    /roles/:name   - Replace a role's permissions
+ */
+
+import { Router } from 'express';
+import {
+	getAllRoles,
+	getRoleByName,
+	updateRolePermissions
+} from '../../controllers/roles.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireRole } from '../../middleware/rbac.middleware';
+import { roleNameParamSchema, updateRoleSchema } from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/roles
+ * @desc    List roles and their permissions
+ * @access  Private (admin)
+ */
+router.get('/', authenticate, requireRole('admin'), getAllRoles);
+
+/**
+ * @route   GET /api/v1/roles/:name
+ * @desc    Get a single role
+ * @param   name - Role name (admin, host, guide, customer)
+ * @access  Private (admin)
+ */
+router.get(
+	'/:name',
+	authenticate,
+	requireRole('admin'),
+	validate(roleNameParamSchema, 'params'),
+	getRoleByName
+);
+
+/**
+ * @route   PUT /api/v1/roles/:name
+ * @desc    Replace a role's permissions (takes effect without a deploy or new token)
+ * @param   name - Role name (admin, host, guide, customer)
+ * @body    { permissions, description? }
+ * @access  Private (admin)
+ */
+router.put(
+	'/:name',
+	authenticate,
+	requireRole('admin'),
+	validate(roleNameParamSchema, 'params'),
+	validate(updateRoleSchema),
+	updateRolePermissions
+);
+
+export default router;
@@ -0,0 +1,48 @@
+/**
+ * Users Routes
+ *
+ * Admin-only routes for login lockouts.
+ *
+ * Routes:
+ * - GET    /users/lockout-events - Lockout audit log (paginated)
+ * - POST   /users/:id/unlock     - Unlock an account
+ */
+
+import { Router } from 'express';
+import { getLockoutEvents, unlockUser } from '../../controllers/users.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireRole } from '../../middleware/rbac.middleware';
+import { lockoutEventQuerySchema, idParamSchema } from '../../validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/users/lockout-events
+ * @desc    List account locks, IP blocks and unlocks, newest first
+ * @query   page, limit, type, userId
+ * @access  Private (admin)
+ */
+router.get(
+	'/lockout-events',
+	authenticate,
+	requireRole('admin'),
+	validate(lockoutEventQuerySchema, 'query'),
+	getLockoutEvents
+);
+
+/**
+ * @route   POST /api/v1/users/:id/unlock
+ * @desc    Unlock an account locked after failed logins
+ * @param   id - User ID
+ * @access  Private (admin)
+ */
+router.post(
+	'/:id/unlock',
+	authenticate,
+	requireRole('admin'),
+	validate(idParamSchema, 'params'),
+	unlockUser
+);
+
+export default router;
@@ -13,10 +13,16 @@
  */
 
 import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'node:http';
 import swaggerUi from 'swagger-ui-express';
-import { connectDB } from './config/database';
+import { connectDB, disconnectDB } from './config/database';
 import { swaggerSpec } from './config/swagger';
 import apiRouter from './routes';
+import { captureRawBody } from './middleware/rawBody.middleware';
+import { registerJobs, startJobQueue, stopJobQueue } from './services/jobs';
+import { seedRoles } from './services/roles/permission.store';
+import { getPaymentGateway } from './services/payments';
+import { backfillEmailVerified } from './services/auth/emailVerification.service';
 
 /**
  * Express application instance.
@@ -28,15 +34,48 @@ const app = express();
  */
 const PORT = process.env.PORT || 5000;
 
+/**
+ * Parses TRUST_PROXY into an Express 'trust proxy' value.
+ *
+ * - 'true' / 'false': Trust every proxy / none
+ * - A number: Trust that many proxy hops in front of the app
+ * - Anything else: Addresses or subnets to trust (e.g. 'loopback, 10.0.0.0/8')
+ *
+ * @returns The value, or undefined to keep Express's default (no proxy)
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	if (value === 'true' || value === 'false') {
+		return value === 'true';
+	}
+
+	return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 // ============================================================================
 // Middleware Configuration
 // ============================================================================
 
+/**
+ * Trust the reverse proxy's X-Forwarded-For header (TRUST_PROXY).
+ * Without it, req.ip behind a proxy is the proxy's address, and every
+ * client shares one rate limit and one failed-login counter.
+ */
+const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+
+if (trustProxy !== undefined) {
+	app.set('trust proxy', trustProxy);
+}
+
 /**
  * Parse JSON request bodies.
  * Required for POST/PUT requests with JSON payloads.
+ * The raw bytes are kept on req.rawBody for webhook signature checks.
  */
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 
 /**
  * Parse URL-encoded request bodies.
@@ -168,17 +207,48 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 // Server Startup
 // ============================================================================
 
+/**
+ * Stop cleanly: stop taking requests, let the running job finish,
+ * then close the database connection.
+ */
+async function shutdown(server: Server, signal: string): Promise<void> {
+	console.log(`${signal} received, shutting down`);
+
+	try {
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		await stopJobQueue();
+		await disconnectDB();
+		process.exit(0);
+	} catch (error) {
+		console.error('Error during shutdown:', error);
+		process.exit(1);
+	}
+}
+
 /**
  * Start the HTTP server after connecting to MongoDB.
  * First connects to the database, then starts listening on the configured port.
  */
 async function startServer(): Promise<void> {
 	try {
+		// Fail fast on a missing or unsafe payment configuration
+		getPaymentGateway();
+
 		// Connect to MongoDB
 		await connectDB();
 
+		// Create the default roles and permissions on a fresh database
+		await seedRoles();
+
+		// Accounts from before email verification count as verified
+		await backfillEmailVerified();
+
+		// Run background jobs (booking expiry, ...)
+		registerJobs();
+		startJobQueue();
+
 		// Start Express server
-		app.listen(PORT, () => {
+		const server = app.listen(PORT, () => {
 			console.log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║           JharkhandYatra API Server v2.0                  ║
@@ -201,6 +271,9 @@ async function startServer(): Promise<void> {
 ╚═══════════════════════════════════════════════════════════╝
 			`);
 		});
+
+		process.once('SIGINT', () => shutdown(server, 'SIGINT'));
+		process.once('SIGTERM', () => shutdown(server, 'SIGTERM'));
 	} catch (error) {
 		console.error('Failed to start server:', error);
 		process.exit(1);
@@ -0,0 +1,63 @@
+/**
+ * Account Token Service
+ *
+ * Creates and redeems the single-use tokens emailed to users (password
+ * reset, ...). A new token replaces the user's earlier unused ones for the
+ * same purpose, so only the latest email works.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { Types } from 'mongoose';
+import {
+	AccountTokenModel,
+	AccountTokenPurpose,
+	IAccountTokenDocument
+} from '../../models/users/AccountToken.model';
+import { hashToken } from './token.service';
+
+/**
+ * Creates a token for a user.
+ *
+ * @param ttlMs - How long the token works
+ * @returns The token, to be sent to the user (only its hash is stored)
+ */
+export async function createAccountToken(
+	userId: Types.ObjectId,
+	purpose: AccountTokenPurpose,
+	ttlMs: number
+): Promise<string> {
+	const token = randomBytes(32).toString('base64url');
+
+	await AccountTokenModel.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+	await AccountTokenModel.create({
+		userId,
+		purpose,
+		tokenHash: hashToken(token),
+		expiresAt: new Date(Date.now() + ttlMs)
+	});
+
+	return token;
+}
+
+/**
+ * Redeems a token. Only one request can use it, even if two race.
+ *
+ * @returns The used token, or null if it is unknown, used or expired
+ */
+export function useAccountToken(
+	token: string,
+	purpose: AccountTokenPurpose
+): Promise<IAccountTokenDocument | null> {
+	const now = new Date();
+
+	return AccountTokenModel.findOneAndUpdate(
+		{
+			tokenHash: hashToken(token),
+			purpose,
+			usedAt: { $exists: false },
+			expiresAt: { $gt: now }
+		},
+		{ $set: { usedAt: now } },
+		{ new: true }
+	);
+}
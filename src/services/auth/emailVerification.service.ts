@@ -0,0 +1,192 @@
+/**
+ * Email Verification Service
+ *
+ * New accounts get an email with a single-use link to
+ * APP_URL/verify-email?token=... (valid for EMAIL_VERIFICATION_TTL_HOURS,
+ * default 24). The frontend passes the token to GET /auth/verify-email.
+ *
+ * Users can ask for a new email once per
+ * EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS (default 60); a new email
+ * replaces the earlier link.
+ *
+ * REQUIRE_VERIFIED_EMAIL lists what unverified users may not do yet
+ * (comma separated: booking, listing). By default nothing is blocked.
+ */
+
+import { Types } from 'mongoose';
+import { IUserDocument, UserModel } from '../../models/users/User.model';
+import { sendMail } from '../mail';
+import { createAccountToken, useAccountToken } from './accountToken.service';
+
+/** How long a verification link works */
+const EMAIL_VERIFICATION_TTL_HOURS = parseFloat(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24');
+
+/** Minimum time between two verification emails to a user */
+const RESEND_COOLDOWN_SECONDS = parseInt(
+	process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60',
+	10
+);
+
+/** Frontend that serves the verification page */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Actions REQUIRE_VERIFIED_EMAIL can block.
+ *
+ * - 'booking': Creating bookings while logged in
+ * - 'listing': Creating homestays and guide profiles
+ */
+export type VerifiedEmailAction = 'booking' | 'listing';
+
+/**
+ * Outcome of a resend request.
+ */
+export type ResendVerificationResult =
+	| { sent: true }
+	| { error: 'not_found' | 'verified' }
+	| { error: 'cooldown'; retryAfterSeconds: number };
+
+/**
+ * Checks whether REQUIRE_VERIFIED_EMAIL blocks an action for unverified
+ * users. Read on every call, so the setting can change without a restart
+ * of this module (e.g. in tests).
+ */
+export function isVerifiedEmailRequired(action: VerifiedEmailAction): boolean {
+	return (process.env.REQUIRE_VERIFIED_EMAIL || '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.includes(action);
+}
+
+/**
+ * Creates a verification token and emails the link.
+ */
+async function deliverVerificationEmail(user: IUserDocument): Promise<void> {
+	const token = await createAccountToken(
+		user._id,
+		'email_verification',
+		EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+	);
+	const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+	await sendMail({
+		to: user.email,
+		subject: 'Verify your JharkhandYatra email address',
+		text: [
+			`Hello ${user.name},`,
+			'',
+			'Please confirm this is your email address by opening this link',
+			`within ${EMAIL_VERIFICATION_TTL_HOURS} hours:`,
+			'',
+			link,
+			'',
+			'If you did not create a JharkhandYatra account, ignore this email.'
+		].join('\n')
+	});
+}
+
+/**
+ * Emails the verification link to a user who just registered.
+ */
+export async function sendVerificationEmail(user: IUserDocument): Promise<void> {
+	await UserModel.updateOne({ _id: user._id }, { $set: { verificationEmailSentAt: new Date() } });
+	await deliverVerificationEmail(user);
+}
+
+/**
+ * Sends a new verification email unless the user is verified or asked
+ * too recently. The cooldown is claimed atomically, so parallel requests
+ * send one email.
+ */
+export async function resendVerificationEmail(
+	userId: Types.ObjectId | string
+): Promise<ResendVerificationResult> {
+	const now = new Date();
+	const cutoff = new Date(now.getTime() - RESEND_COOLDOWN_SECONDS * 1000);
+
+	const user = await UserModel.findOneAndUpdate(
+		{
+			_id: userId,
+			emailVerified: { $ne: true },
+			$or: [
+				{ verificationEmailSentAt: { $exists: false } },
+				{ verificationEmailSentAt: { $lte: cutoff } }
+			]
+		},
+		{ $set: { verificationEmailSentAt: now } }
+	);
+
+	if (!user) {
+		const current = await UserModel.findById(userId);
+
+		if (!current) {
+			return { error: 'not_found' };
+		}
+
+		if (current.emailVerified) {
+			return { error: 'verified' };
+		}
+
+		const sentAt = current.verificationEmailSentAt?.getTime() ?? now.getTime();
+		return {
+			error: 'cooldown',
+			retryAfterSeconds: Math.max(
+				Math.ceil((sentAt + RESEND_COOLDOWN_SECONDS * 1000 - now.getTime()) / 1000),
+				1
+			)
+		};
+	}
+
+	try {
+		await deliverVerificationEmail(user);
+	} catch (error) {
+		// Let the user try again straight away
+		await UserModel.updateOne(
+			{ _id: user._id, verificationEmailSentAt: now },
+			user.verificationEmailSentAt
+				? { $set: { verificationEmailSentAt: user.verificationEmailSentAt } }
+				: { $unset: { verificationEmailSentAt: 1 } }
+		);
+		throw error;
+	}
+
+	return { sent: true };
+}
+
+/**
+ * Marks a user's email as verified with a token from a verification email.
+ *
+ * @returns The verified user, or null if the token is unknown, used or expired
+ */
+export async function verifyEmailWithToken(token: string): Promise<IUserDocument | null> {
+	const used = await useAccountToken(token, 'email_verification');
+
+	if (!used) {
+		return null;
+	}
+
+	return UserModel.findByIdAndUpdate(
+		used.userId,
+		{ $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+		{ new: true }
+	);
+}
+
+/**
+ * Marks accounts created before email verification existed as verified.
+ *
+ * Those users never got a verification email; without this they would
+ * count as unverified and be locked out of everything in
+ * REQUIRE_VERIFIED_EMAIL. Safe to run on every start: accounts created
+ * since always have the field.
+ *
+ * @returns Number of accounts marked verified
+ */
+export async function backfillEmailVerified(): Promise<number> {
+	const result = await UserModel.updateMany(
+		{ emailVerified: { $exists: false } },
+		{ $set: { emailVerified: true } }
+	);
+
+	return result.modifiedCount;
+}
@@ -0,0 +1,425 @@
+/**
+ * Login Protection Service
+ *
+ * Slows down and stops password guessing. Both checks run before the
+ * password is compared, so refused attempts cost no bcrypt work.
+ *
+ * Each attempt is counted as a failure before the password is compared
+ * (a reservation) and taken back if the password is right. The check and
+ * the count are one atomic update, so parallel requests cannot all pass
+ * the check and get more guesses than the limits allow.
+ *
+ * Per account (counters on the user):
+ * - The first LOGIN_FREE_ATTEMPTS (default 3) failed passwords are free
+ * - After that each attempt must wait longer: 1s, 2s, 4s, ... up to
+ *   LOGIN_MAX_DELAY_SECONDS (default 30)
+ * - LOGIN_MAX_FAILED_ATTEMPTS (default 10) failures lock the account for
+ *   LOGIN_LOCKOUT_MINUTES (default 15), or until an admin unlocks it
+ * - Failures older than the lockout period are forgotten; a successful
+ *   login resets the counter
+ * - Emails without an account get the same delays and lockout (counters in
+ *   the loginFailures collection), so responses do not reveal which emails
+ *   are registered
+ * - Password checks outside login (changing the password) count too
+ *
+ * Per IP address (counters in the rateLimits collection):
+ * - LOGIN_IP_MAX_FAILURES (default 50) failed logins, for any accounts,
+ *   block the address until the LOGIN_LOCKOUT_MINUTES window ends
+ *
+ * Locks, IP blocks and unlocks are recorded in the lockoutEvents
+ * collection.
+ */
+
+import { createHash } from 'node:crypto';
+import { Types } from 'mongoose';
+import { IUser, IUserDocument, UserModel } from '../../models/users/User.model';
+import { LockoutEventModel } from '../../models/users/LockoutEvent.model';
+import { LoginFailureModel } from '../../models/users/LoginFailure.model';
+import { decrementRateLimit, incrementRateLimit } from '../../models/rateLimits/RateLimit.model';
+
+const FREE_ATTEMPTS = parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3', 10);
+const MAX_DELAY_SECONDS = parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || '30', 10);
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '10', 10);
+const LOCKOUT_MS = parseFloat(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000;
+const IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || '50', 10);
+
+/**
+ * Why a login attempt is refused before the password is checked.
+ *
+ * - 'ip_blocked': Too many failed logins from the address
+ * - 'account_locked': Too many failed passwords for the account
+ * - 'slow_down': The account's progressive delay has not passed yet
+ */
+export type LoginBlockReason = 'ip_blocked' | 'account_locked' | 'slow_down';
+
+/**
+ * A refused attempt and when to try again.
+ */
+export interface LoginBlock {
+	reason: LoginBlockReason;
+	retryAfterSeconds: number;
+}
+
+/**
+ * A login attempt counted against an IP address.
+ */
+export interface IpAttempt {
+	ip: string | undefined;
+
+	/** Rate limit counter of the address's failed logins */
+	counterId: string;
+
+	/** Failed logins from the address in the window, counting this one */
+	count: number;
+
+	/** When the window ends */
+	windowEndsAt: Date;
+}
+
+/**
+ * Counter ID and window end of an IP address's failed logins.
+ */
+function ipWindow(ip: string | undefined, now: number): { id: string; endsAt: number } {
+	const start = Math.floor(now / LOCKOUT_MS) * LOCKOUT_MS;
+
+	return { id: `loginFailures:${ip || 'unknown'}:${start}`, endsAt: start + LOCKOUT_MS };
+}
+
+/**
+ * Wait required after a number of failed attempts, in ms.
+ */
+function delayAfter(failedAttempts: number): number {
+	if (failedAttempts < FREE_ATTEMPTS) {
+		return 0;
+	}
+
+	return Math.min(2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_SECONDS) * 1000;
+}
+
+function secondsUntil(time: number, now: number): number {
+	return Math.max(Math.ceil((time - now) / 1000), 1);
+}
+
+/**
+ * Counts a login attempt against an IP address.
+ * Take it back with releaseIpAttempt unless the login fails.
+ */
+export async function reserveIpAttempt(ip: string | undefined): Promise<IpAttempt> {
+	const window = ipWindow(ip, Date.now());
+	const windowEndsAt = new Date(window.endsAt);
+
+	return {
+		ip,
+		counterId: window.id,
+		count: await incrementRateLimit(window.id, windowEndsAt),
+		windowEndsAt
+	};
+}
+
+/**
+ * Checks whether a reserved attempt is within the IP address's limit.
+ *
+ * @returns The block, or null if the attempt may go ahead
+ */
+export function checkIpAllowed(attempt: IpAttempt): LoginBlock | null {
+	if (attempt.count <= IP_MAX_FAILURES) {
+		return null;
+	}
+
+	return {
+		reason: 'ip_blocked',
+		retryAfterSeconds: secondsUntil(attempt.windowEndsAt.getTime(), Date.now())
+	};
+}
+
+/**
+ * Takes back an IP attempt that did not fail (right password, or refused
+ * before the password was checked).
+ */
+export async function releaseIpAttempt(attempt: IpAttempt): Promise<void> {
+	await decrementRateLimit(attempt.counterId);
+}
+
+/**
+ * Failed attempt counters, kept on users and, for emails without an
+ * account, in the loginFailures collection.
+ */
+type LoginCounter = Pick<IUser, 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'>;
+
+/**
+ * Checks whether an account may try a password now.
+ *
+ * @returns The block, or null if the attempt may go ahead
+ */
+function checkAccountAllowed(user: LoginCounter): LoginBlock | null {
+	const now = Date.now();
+
+	if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+		return {
+			reason: 'account_locked',
+			retryAfterSeconds: secondsUntil(user.lockedUntil.getTime(), now)
+		};
+	}
+
+	const lastFailure = user.lastFailedLoginAt?.getTime();
+
+	if (lastFailure && now - lastFailure < LOCKOUT_MS) {
+		const allowedAt = lastFailure + delayAfter(user.failedLoginAttempts || 0);
+
+		if (allowedAt > now) {
+			return { reason: 'slow_down', retryAfterSeconds: secondsUntil(allowedAt, now) };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Filter for accounts whose progressive delay has passed at a time:
+ * one clause per delay step, up to the maximum delay.
+ */
+function delayPassedFilter(now: number) {
+	const passed: Record<string, unknown>[] = [
+		{ lastFailedLoginAt: null },
+		{ failedLoginAttempts: { $lt: FREE_ATTEMPTS } }
+	];
+
+	for (let attempts = FREE_ATTEMPTS; ; attempts++) {
+		const delay = delayAfter(attempts);
+		const lastFailedLoginAt = { $lte: new Date(now - delay) };
+
+		if (delay >= MAX_DELAY_SECONDS * 1000) {
+			passed.push({ failedLoginAttempts: { $gte: attempts }, lastFailedLoginAt });
+			return passed;
+		}
+
+		passed.push({ failedLoginAttempts: attempts, lastFailedLoginAt });
+	}
+}
+
+/**
+ * Filter for counters that may try a password at a time: not locked and
+ * past their delay.
+ */
+function attemptAllowedFilter(now: Date) {
+	return {
+		$and: [
+			{ $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+			{ $or: delayPassedFilter(now.getTime()) }
+		]
+	};
+}
+
+/**
+ * Counter ID of an email without an account.
+ */
+function unknownEmailId(email: string): string {
+	return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+/**
+ * Counts a password attempt against an account, if the account may try
+ * one now. The count is taken back by resetLoginFailures when the
+ * password is right.
+ *
+ * @returns The block, or null if the attempt may go ahead
+ */
+export async function reserveAccountAttempt(user: IUserDocument): Promise<LoginBlock | null> {
+	const now = new Date();
+
+	// Forget failures from before the lockout period
+	await UserModel.updateOne(
+		{ _id: user._id, lastFailedLoginAt: { $lt: new Date(now.getTime() - LOCKOUT_MS) } },
+		{ $set: { failedLoginAttempts: 0 } }
+	);
+
+	const reserved = await UserModel.findOneAndUpdate(
+		{ _id: user._id, ...attemptAllowedFilter(now) },
+		{ $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: now } },
+		{ new: true }
+	);
+
+	if (reserved) {
+		user.failedLoginAttempts = reserved.failedLoginAttempts;
+		user.lastFailedLoginAt = now;
+		return null;
+	}
+
+	// Refused: say why, from the account as it is now
+	const current = await UserModel.findById(user._id);
+
+	return (current && checkAccountAllowed(current)) || { reason: 'slow_down', retryAfterSeconds: 1 };
+}
+
+/**
+ * Counts a password attempt against an email that has no account, with
+ * the same limits as reserveAccountAttempt.
+ *
+ * @returns The block, or null if the attempt may go ahead
+ */
+export async function reserveUnknownEmailAttempt(email: string): Promise<LoginBlock | null> {
+	const now = new Date();
+	const id = unknownEmailId(email);
+
+	// Forget failures from before the lockout period
+	await LoginFailureModel.updateOne(
+		{ _id: id, lastFailedLoginAt: { $lt: new Date(now.getTime() - LOCKOUT_MS) } },
+		{ $set: { failedLoginAttempts: 0 } }
+	);
+
+	const filter = { _id: id, ...attemptAllowedFilter(now) };
+	const update = {
+		$inc: { failedLoginAttempts: 1 },
+		$set: { lastFailedLoginAt: now, expiresAt: new Date(now.getTime() + LOCKOUT_MS) }
+	};
+
+	try {
+		// Creates the counter on the first attempt; an existing counter that
+		// may not try yet fails the filter and the insert (duplicate _id)
+		await LoginFailureModel.findOneAndUpdate(filter, update, { upsert: true });
+		return null;
+	} catch (error) {
+		if ((error as { code?: number }).code !== 11000) {
+			throw error;
+		}
+	}
+
+	// A parallel request may have just created the counter: try it as it is
+	if (await LoginFailureModel.findOneAndUpdate(filter, update)) {
+		return null;
+	}
+
+	const current = await LoginFailureModel.findById(id);
+
+	return (current && checkAccountAllowed(current)) || { reason: 'slow_down', retryAfterSeconds: 1 };
+}
+
+/**
+ * Logs an IP block once a reserved attempt reaches the address's limit.
+ */
+async function recordIpFailure(attempt: IpAttempt): Promise<void> {
+	if (attempt.count === IP_MAX_FAILURES) {
+		await LockoutEventModel.create({
+			type: 'ip_blocked',
+			ip: attempt.ip,
+			failedAttempts: attempt.count,
+			lockedUntil: attempt.windowEndsAt
+		});
+	}
+}
+
+/**
+ * Handles a password tried for an email without an account. Locks the
+ * email like an account once it reaches the limit (not audited: there is
+ * no account).
+ *
+ * @param email - Email tried, with an attempt reserved by reserveUnknownEmailAttempt
+ * @param attempt - The IP address's reserved attempt
+ * @returns The block the failure caused (lockout), or null
+ */
+export async function recordUnknownEmailFailure(
+	email: string,
+	attempt: IpAttempt
+): Promise<LoginBlock | null> {
+	const now = new Date();
+
+	await recordIpFailure(attempt);
+
+	const lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+	const locked = await LoginFailureModel.updateOne(
+		{ _id: unknownEmailId(email), failedLoginAttempts: { $gte: MAX_FAILED_ATTEMPTS } },
+		{
+			$set: { lockedUntil, failedLoginAttempts: 0, expiresAt: lockedUntil },
+			$unset: { lastFailedLoginAt: 1 }
+		}
+	);
+
+	if (locked.modifiedCount === 0) {
+		return null;
+	}
+
+	return { reason: 'account_locked', retryAfterSeconds: secondsUntil(lockedUntil.getTime(), now.getTime()) };
+}
+
+/**
+ * Handles a wrong password. The attempt was already counted when it was
+ * reserved; this logs an IP block and locks the account once the limits
+ * are reached.
+ *
+ * @param user - Account with an attempt reserved by reserveAccountAttempt
+ * @param attempt - The IP address's reserved attempt
+ * @returns The block the failure caused (lockout), or null
+ */
+export async function recordLoginFailure(
+	user: IUserDocument,
+	attempt: IpAttempt
+): Promise<LoginBlock | null> {
+	const now = new Date();
+
+	await recordIpFailure(attempt);
+
+	if (user.failedLoginAttempts < MAX_FAILED_ATTEMPTS) {
+		return null;
+	}
+
+	// Lock once: the lock resets the counter, so later requests do not match
+	const lockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+	const locked = await UserModel.updateOne(
+		{ _id: user._id, failedLoginAttempts: { $gte: MAX_FAILED_ATTEMPTS } },
+		{ $set: { lockedUntil, failedLoginAttempts: 0 }, $unset: { lastFailedLoginAt: 1 } }
+	);
+
+	if (locked.modifiedCount > 0) {
+		await LockoutEventModel.create({
+			type: 'account_locked',
+			userId: user._id,
+			ip: attempt.ip,
+			failedAttempts: user.failedLoginAttempts,
+			lockedUntil
+		});
+	}
+
+	return { reason: 'account_locked', retryAfterSeconds: secondsUntil(lockedUntil.getTime(), now.getTime()) };
+}
+
+/**
+ * Clears the failed attempt counter after a successful login, including
+ * the attempt reserved for it.
+ * Sets the fields on the document; the caller saves it.
+ */
+export function resetLoginFailures(user: IUserDocument): void {
+	user.failedLoginAttempts = 0;
+	user.lastFailedLoginAt = undefined;
+	user.lockedUntil = undefined;
+}
+
+/**
+ * Unlocks an account and clears its failed attempts.
+ *
+ * @param userId - Account to unlock
+ * @param adminId - Admin unlocking it
+ * @returns The user, or null if there is no such user
+ */
+export async function unlockAccount(
+	userId: string,
+	adminId: string
+): Promise<IUserDocument | null> {
+	const user = await UserModel.findByIdAndUpdate(
+		userId,
+		{
+			$set: { failedLoginAttempts: 0 },
+			$unset: { lastFailedLoginAt: 1, lockedUntil: 1 }
+		},
+		{ new: true }
+	);
+
+	if (user) {
+		await LockoutEventModel.create({
+			type: 'account_unlocked',
+			userId: user._id,
+			unlockedBy: new Types.ObjectId(adminId)
+		});
+	}
+
+	return user;
+}
@@ -0,0 +1,86 @@
+/**
+ * Password Reset Service
+ *
+ * Forgotten passwords are reset through a link emailed to the user:
+ *
+ * 1. requestPasswordReset emails a single-use token (valid for
+ *    PASSWORD_RESET_TTL_MINUTES, default 30) as a link to
+ *    APP_URL/reset-password?token=...
+ * 2. resetPasswordWithToken redeems the token, sets the new password
+ *    and ends all of the user's sessions
+ */
+
+import { UserModel } from '../../models/users/User.model';
+import { sendMail } from '../mail';
+import { createAccountToken, useAccountToken } from './accountToken.service';
+import { endUserSessions } from './token.service';
+
+/** How long a reset link works */
+const PASSWORD_RESET_TTL_MINUTES = parseFloat(process.env.PASSWORD_RESET_TTL_MINUTES || '30');
+
+/** Frontend that serves the reset page */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Emails a reset link if an active account uses the address.
+ * Unknown addresses are silently ignored.
+ *
+ * @param email - Address the user entered (already lowercased)
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+	const user = await UserModel.findOne({ email, isActive: true });
+
+	if (!user) {
+		return;
+	}
+
+	const token = await createAccountToken(
+		user._id,
+		'password_reset',
+		PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+	);
+	const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+	await sendMail({
+		to: user.email,
+		subject: 'Reset your JharkhandYatra password',
+		text: [
+			`Hello ${user.name},`,
+			'',
+			'Someone (hopefully you) asked to reset the password of your JharkhandYatra account.',
+			`Open this link within ${PASSWORD_RESET_TTL_MINUTES} minutes to choose a new password:`,
+			'',
+			link,
+			'',
+			'If you did not ask for this, ignore this email; your password stays the same.'
+		].join('\n')
+	});
+}
+
+/**
+ * Sets a new password with a reset token. The token stops working, and
+ * every session of the user is ended.
+ *
+ * @returns False if the token is unknown, used or expired
+ */
+export async function resetPasswordWithToken(token: string, password: string): Promise<boolean> {
+	const used = await useAccountToken(token, 'password_reset');
+
+	if (!used) {
+		return false;
+	}
+
+	const user = await UserModel.findById(used.userId);
+
+	if (!user || !user.isActive) {
+		return false;
+	}
+
+	// Hashed by the User model's pre-save hook
+	user.password = password;
+	await user.save();
+
+	await endUserSessions(user._id, 'password_change');
+
+	return true;
+}
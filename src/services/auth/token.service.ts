@@ -0,0 +1,212 @@
+/**
+ * Token Service
+ *
+ * Issues short-lived access tokens (JWT, JWT_EXPIRES_IN, default 15
+ * minutes) together with rotating refresh tokens
+ * (REFRESH_TOKEN_TTL_DAYS, default 30 days).
+ *
+ * - Login starts a session (one per device) with its own refresh tokens
+ * - Refresh exchanges a refresh token for a new access and refresh token;
+ *   the old refresh token stops working and the session is kept alive
+ * - A refresh token used twice revokes its whole session, so a stolen copy
+ *   and the original both stop working
+ * - Revoking a session also stops its access tokens (see authenticate)
+ * - Deactivated users cannot refresh; they lose access when their access
+ *   token expires
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { Types } from 'mongoose';
+import { Request } from 'express';
+import { generateToken } from '../../middleware/auth.middleware';
+import { IUserDocument, UserModel } from '../../models/users/User.model';
+import { RefreshTokenModel, IRefreshTokenDocument } from '../../models/users/RefreshToken.model';
+import {
+	SessionModel,
+	ISessionDocument,
+	SessionRevokeReason
+} from '../../models/users/Session.model';
+
+/** How long a session lasts if it is not used */
+const REFRESH_TOKEN_TTL_DAYS = parseFloat(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+/**
+ * Access and refresh token pair sent to the client.
+ */
+export interface AuthTokens {
+	/** Access token for the Authorization header */
+	token: string;
+
+	/** Opaque refresh token for POST /auth/refresh */
+	refreshToken: string;
+}
+
+/**
+ * Outcome of a refresh.
+ *
+ * - 'invalid': Unknown or expired token, or a revoked session
+ * - 'reused': The token had already been used; its session is now revoked
+ * - 'inactive': The user is gone or deactivated; the session is now revoked
+ */
+export type RefreshResult =
+	| { tokens: AuthTokens; user: IUserDocument }
+	| { error: 'invalid' | 'reused' | 'inactive' };
+
+/**
+ * Hashes a token for storage. Tokens are random, so a fast hash is enough.
+ */
+export function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+function sessionExpiry(from: Date): Date {
+	return new Date(from.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Stores a new refresh token for a session and signs an access token for it.
+ */
+async function issueTokens(user: IUserDocument, session: ISessionDocument): Promise<AuthTokens> {
+	const refreshToken = randomBytes(48).toString('base64url');
+
+	await RefreshTokenModel.create({
+		userId: user._id,
+		tokenHash: hashToken(refreshToken),
+		sessionId: session._id,
+		expiresAt: session.expiresAt
+	});
+
+	return {
+		token: generateToken(user._id.toString(), user.role, String(session._id)),
+		refreshToken
+	};
+}
+
+/**
+ * Revokes every live session matching a filter.
+ */
+async function revokeSessions(
+	filter: Record<string, unknown>,
+	reason: SessionRevokeReason
+): Promise<number> {
+	const result = await SessionModel.updateMany(
+		{ ...filter, revokedAt: { $exists: false } },
+		{ $set: { revokedAt: new Date(), revokedReason: reason } }
+	);
+
+	return result.modifiedCount;
+}
+
+/**
+ * Starts a session for a user who just logged in or registered.
+ */
+export async function startSession(user: IUserDocument, req: Request): Promise<AuthTokens> {
+	const now = new Date();
+	const session = await SessionModel.create({
+		userId: user._id,
+		userAgent: req.get('User-Agent')?.slice(0, 500),
+		ip: req.ip,
+		lastUsedAt: now,
+		expiresAt: sessionExpiry(now)
+	});
+
+	return issueTokens(user, session);
+}
+
+/**
+ * Exchanges a refresh token for a new token pair and marks the session
+ * used. The new access token carries the user's current role.
+ */
+export async function rotateRefreshToken(refreshToken: string, req: Request): Promise<RefreshResult> {
+	const now = new Date();
+	const current = await RefreshTokenModel.findOne({ tokenHash: hashToken(refreshToken) });
+
+	if (!current || current.expiresAt <= now) {
+		return { error: 'invalid' };
+	}
+
+	const session = await SessionModel.findById(current.sessionId);
+
+	if (!session || session.revokedAt || session.expiresAt <= now) {
+		return { error: 'invalid' };
+	}
+
+	// Only one request can use a token; the loser is treated as reuse
+	const claimed: IRefreshTokenDocument | null = await RefreshTokenModel.findOneAndUpdate(
+		{ _id: current._id, usedAt: { $exists: false } },
+		{ $set: { usedAt: now } },
+		{ new: true }
+	);
+
+	if (!claimed) {
+		await revokeSessions({ _id: session._id }, 'reuse');
+		console.warn(`Refresh token reuse detected for user ${current.userId}; session ${session._id} revoked`);
+		return { error: 'reused' };
+	}
+
+	const user = await UserModel.findById(claimed.userId);
+
+	if (!user || !user.isActive) {
+		await revokeSessions({ _id: session._id }, 'inactive');
+		return { error: 'inactive' };
+	}
+
+	session.lastUsedAt = now;
+	session.ip = req.ip;
+	session.expiresAt = sessionExpiry(now);
+	await session.save();
+
+	return { tokens: await issueTokens(user, session), user };
+}
+
+/**
+ * Ends the session a refresh token belongs to.
+ * Unknown tokens are ignored, so logging out twice is harmless.
+ */
+export async function endSession(refreshToken: string): Promise<void> {
+	const current = await RefreshTokenModel.findOne({ tokenHash: hashToken(refreshToken) }).select('sessionId');
+
+	if (current) {
+		await revokeSessions({ _id: current.sessionId }, 'logout');
+	}
+}
+
+/**
+ * Lists a user's live sessions, most recently used first.
+ */
+export function listSessions(userId: Types.ObjectId | string): Promise<ISessionDocument[]> {
+	return SessionModel.find({
+		userId,
+		revokedAt: { $exists: false },
+		expiresAt: { $gt: new Date() }
+	}).sort({ lastUsedAt: -1 });
+}
+
+/**
+ * Ends one of a user's sessions.
+ *
+ * @returns False if the user has no such live session
+ */
+export async function endUserSession(
+	userId: Types.ObjectId | string,
+	sessionId: string
+): Promise<boolean> {
+	return (await revokeSessions({ _id: sessionId, userId }, 'logout')) > 0;
+}
+
+/**
+ * Ends a user's sessions, optionally keeping one (e.g. the one changing
+ * the password).
+ *
+ * @returns Number of sessions revoked
+ */
+export function endUserSessions(
+	userId: Types.ObjectId | string,
+	reason: SessionRevokeReason,
+	exceptSessionId?: string
+): Promise<number> {
+	return revokeSessions(
+		{ userId, ...(exceptSessionId && { _id: { $ne: exceptSessionId } }) },
+		reason
+	);
+}
@@ -0,0 +1,60 @@
+/**
+ * Booking Access
+ *
+ * Works out who a booking belongs to:
+ * - the booker: the user who made it (guests without an account have none)
+ * - the listing owner: the host of the homestay or the user of the guide
+ *   profile that was booked (listings without an owner are run by admins)
+ */
+
+import { Types } from 'mongoose';
+import { BookingModel, ListingType } from '../../models/bookings/Booking.model';
+import { HomestayModel } from '../../models/homestays/Homestay.model';
+import { GuideModel } from '../../models/guides/Guide.model';
+
+/**
+ * The users a booking belongs to.
+ */
+export interface BookingParties {
+	/** User who made the booking */
+	bookerId: string | null;
+
+	/** Host or guide who owns the booked listing */
+	listingOwnerId: string | null;
+}
+
+/**
+ * Gets the user who owns a homestay or guide profile.
+ *
+ * @returns The owner's ID, or null if the listing has no owner or is gone
+ */
+export async function getListingOwnerId(
+	listingType: ListingType,
+	listingId: Types.ObjectId | string
+): Promise<string | null> {
+	if (listingType === 'homestay') {
+		const homestay = await HomestayModel.findById(listingId).select('hostId');
+		return homestay?.hostId?.toString() ?? null;
+	}
+
+	const guide = await GuideModel.findById(listingId).select('userId');
+	return guide?.userId?.toString() ?? null;
+}
+
+/**
+ * Gets the booker and listing owner of a booking.
+ *
+ * @returns The parties, or undefined if there is no such booking
+ */
+export async function getBookingParties(bookingId: string): Promise<BookingParties | undefined> {
+	const booking = await BookingModel.findById(bookingId).select('userId listingType listingId');
+
+	if (!booking) {
+		return undefined;
+	}
+
+	return {
+		bookerId: booking.userId?.toString() ?? null,
+		listingOwnerId: await getListingOwnerId(booking.listingType, booking.listingId)
+	};
+}
@@ -0,0 +1,206 @@
+/**
+ * Booking Scheduler
+ *
+ * Background housekeeping for bookings, run every few minutes as a
+ * recurring job (see services/jobs):
+ * - Pending bookings the host never answered are cancelled once the hold
+ *   window has passed, so their nights stop blocking the calendar.
+ * - Confirmed bookings still unpaid after the payment timeout are
+ *   cancelled.
+ * - Confirmed bookings are completed once check-out has passed.
+ *
+ * The two timers run one after the other: the hold window counts from
+ * creation and gives the host time to confirm; the payment timeout counts
+ * from confirmation and gives the guest time to pay. An unconfirmed
+ * booking never expires for lack of payment, so the hold always applies.
+ *
+ * Changes are recorded in the status history with the 'system' role, and
+ * system cancellations refund anything paid in full.
+ *
+ * Configuration (a window of 0 turns that check off):
+ *   BOOKING_HOLD_HOURS                  default 48
+ *   BOOKING_PAYMENT_TIMEOUT_HOURS       default 24
+ *   BOOKING_SCHEDULER_INTERVAL_MINUTES  default 5
+ */
+
+import { QueryFilter } from 'mongoose';
+import {
+	BookingModel,
+	IBookingDocument,
+	BookingAction,
+	BookingActor
+} from '../../models/bookings/Booking.model';
+import { releaseNights } from '../../models/inventory/ListingNight.model';
+import { DEFAULT_CANCELLATION_POLICY } from '../../models/policies/CancellationPolicy.model';
+import { calculateCancellationRefund } from '../../utils/cancellation.utils';
+import { requestRefund } from '../payments/refund.service';
+import { defineJob, scheduleRecurringJob } from '../jobs/job.queue';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Pending bookings are held for the host this long */
+const HOLD_HOURS = parseFloat(process.env.BOOKING_HOLD_HOURS || '48');
+
+/** Confirmed, unpaid bookings are kept this long after confirmation */
+const PAYMENT_TIMEOUT_HOURS = parseFloat(process.env.BOOKING_PAYMENT_TIMEOUT_HOURS || '24');
+
+/** Job that runs the checks */
+const MAINTENANCE_JOB = 'bookings.maintenance';
+
+/** Time between runs */
+const INTERVAL_MINUTES = parseFloat(process.env.BOOKING_SCHEDULER_INTERVAL_MINUTES || '5');
+
+/** Bookings handled per check and run; the rest wait for the next run */
+const BATCH_SIZE = 100;
+
+/** Recorded as the actor of every change */
+const SYSTEM_ACTOR: BookingActor = { role: 'system' };
+
+/**
+ * Number of bookings changed by one run.
+ */
+export interface BookingMaintenanceResult {
+	/** Pending bookings cancelled after the hold window */
+	expired: number;
+
+	/** Confirmed bookings cancelled after the payment timeout */
+	unpaid: number;
+
+	/** Confirmed bookings completed after check-out */
+	completed: number;
+}
+
+/**
+ * Moves one booking to its next status on behalf of the system.
+ *
+ * The update only applies if the booking's status and payment status are
+ * still what was read, so a host confirming or a payment arriving at the
+ * same moment is never overwritten.
+ *
+ * @returns True if the booking was changed
+ */
+async function applySystemTransition(
+	booking: IBookingDocument,
+	action: Exclude<BookingAction, 'create'>,
+	reason?: string
+): Promise<boolean> {
+	const { status, paymentStatus } = booking;
+
+	if (!booking.applyTransition(action, SYSTEM_ACTOR, reason)) {
+		return false;
+	}
+
+	if (booking.status === 'cancelled') {
+		booking.cancellation = calculateCancellationRefund(
+			booking.cancellationPolicy || DEFAULT_CANCELLATION_POLICY,
+			booking.checkIn,
+			paymentStatus === 'completed' ? booking.pricing.total : 0,
+			'system'
+		);
+	}
+
+	// getChanges() is the update save() would send, made conditional here
+	const result = await BookingModel.updateOne(
+		{ _id: booking._id, status, paymentStatus },
+		booking.getChanges()
+	);
+
+	if (result.modifiedCount === 0) {
+		return false;
+	}
+
+	if (booking.status === 'cancelled') {
+		await releaseNights({ bookingId: booking._id });
+		await requestRefund(booking);
+	}
+
+	return true;
+}
+
+/**
+ * Applies a transition to every booking matching a filter (up to a batch).
+ *
+ * @returns Number of bookings changed
+ */
+async function transitionMatching(
+	filter: QueryFilter<IBookingDocument>,
+	action: Exclude<BookingAction, 'create'>,
+	reason?: string
+): Promise<number> {
+	const bookings = await BookingModel.find(filter).sort({ createdAt: 1 }).limit(BATCH_SIZE);
+	let changed = 0;
+
+	for (const booking of bookings) {
+		try {
+			if (await applySystemTransition(booking, action, reason)) {
+				changed++;
+			}
+		} catch (error) {
+			console.error(`Scheduler failed to ${action} booking ${booking.bookingNumber}:`, error);
+		}
+	}
+
+	return changed;
+}
+
+/**
+ * Runs every booking check once.
+ *
+ * @param now - Time to check against (defaults to now)
+ */
+export async function runBookingMaintenance(now: Date = new Date()): Promise<BookingMaintenanceResult> {
+	const result: BookingMaintenanceResult = { expired: 0, unpaid: 0, completed: 0 };
+
+	if (PAYMENT_TIMEOUT_HOURS > 0) {
+		const paymentDeadline = new Date(now.getTime() - PAYMENT_TIMEOUT_HOURS * HOUR_MS);
+
+		result.unpaid = await transitionMatching(
+			{
+				status: 'confirmed',
+				paymentStatus: { $in: ['pending', 'failed'] },
+				$or: [
+					{ confirmedAt: { $lte: paymentDeadline } },
+					// Confirmed before confirmedAt was recorded
+					{ confirmedAt: { $exists: false }, createdAt: { $lte: paymentDeadline } }
+				]
+			},
+			'cancel',
+			`Expired: not paid within ${PAYMENT_TIMEOUT_HOURS} hours`
+		);
+	}
+
+	if (HOLD_HOURS > 0) {
+		result.expired = await transitionMatching(
+			{
+				status: 'pending',
+				createdAt: { $lte: new Date(now.getTime() - HOLD_HOURS * HOUR_MS) }
+			},
+			'cancel',
+			`Expired: not confirmed within ${HOLD_HOURS} hours`
+		);
+	}
+
+	result.completed = await transitionMatching(
+		{ status: 'confirmed', checkOut: { $lte: now } },
+		'complete'
+	);
+
+	return result;
+}
+
+/**
+ * Registers the checks as a recurring job.
+ *
+ * A failed run is not retried; the next one comes round soon enough.
+ */
+export function registerBookingJobs(): void {
+	defineJob(MAINTENANCE_JOB, async () => {
+		const { expired, unpaid, completed } = await runBookingMaintenance();
+
+		if (expired || unpaid || completed) {
+			console.log(`⏱️  Bookings: ${expired} expired, ${unpaid} unpaid cancelled, ${completed} completed`);
+		}
+	}, { maxAttempts: 1 });
+
+	scheduleRecurringJob(MAINTENANCE_JOB, INTERVAL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,170 @@
+/**
+ * Invoice PDF
+ *
+ * Renders a stored invoice or credit note as an A4 PDF with PDFKit.
+ * Uses the built-in Helvetica font, which has no rupee sign, so
+ * amounts are printed with an "INR" heading instead.
+ */
+
+import PDFDocument from 'pdfkit';
+import { IInvoiceDocument, InvoiceParty } from '../../models/invoices/Invoice.model';
+import { toDateString } from '../../utils/date.utils';
+import { roundPaise } from '../../utils/gst.utils';
+
+/** Page margin in points */
+const MARGIN = 50;
+
+/**
+ * Table columns: label, x offset from the margin, width, alignment.
+ */
+const COLUMNS: { label: string; x: number; width: number; align: 'left' | 'right' }[] = [
+	{ label: 'Description', x: 0, width: 150, align: 'left' },
+	{ label: 'SAC', x: 150, width: 50, align: 'left' },
+	{ label: 'Taxable', x: 200, width: 70, align: 'right' },
+	{ label: 'GST %', x: 270, width: 40, align: 'right' },
+	{ label: 'CGST', x: 310, width: 60, align: 'right' },
+	{ label: 'SGST', x: 370, width: 60, align: 'right' },
+	{ label: 'Total', x: 430, width: 65, align: 'right' }
+];
+
+/**
+ * Formats an amount with two decimals and Indian digit grouping.
+ */
+function formatAmount(amount: number): string {
+	return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Writes a party block (name, GSTIN, address, contact).
+ */
+function writeParty(doc: PDFKit.PDFDocument, heading: string, party: InvoiceParty, x: number, y: number): void {
+	doc.font('Helvetica-Bold').fontSize(9).text(heading, x, y);
+	doc.font('Helvetica').fontSize(9);
+
+	const lines = [
+		party.name,
+		party.gstin && `GSTIN: ${party.gstin}`,
+		party.address,
+		party.state && `State: ${party.state}${party.stateCode ? ` (${party.stateCode})` : ''}`,
+		party.email,
+		party.phone
+	].filter(Boolean) as string[];
+
+	for (const line of lines) {
+		doc.text(line, x, doc.y, { width: 230 });
+	}
+}
+
+/**
+ * Writes one table row.
+ */
+function writeRow(doc: PDFKit.PDFDocument, cells: string[], y: number, bold = false): void {
+	doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+
+	COLUMNS.forEach((column, i) => {
+		doc.text(cells[i], MARGIN + column.x, y, { width: column.width, align: column.align });
+	});
+}
+
+/**
+ * Renders an invoice or credit note.
+ *
+ * @returns The PDF file contents
+ */
+export function renderInvoicePdf(invoice: IInvoiceDocument): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+		const chunks: Buffer[] = [];
+		const isCreditNote = invoice.type === 'credit_note';
+
+		doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+		doc.on('end', () => resolve(Buffer.concat(chunks)));
+		doc.on('error', reject);
+
+		// Title and document details
+		doc.font('Helvetica-Bold').fontSize(16).text(isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', { align: 'center' });
+		doc.moveDown(0.5);
+		doc.font('Helvetica').fontSize(9);
+		doc.text(`${isCreditNote ? 'Credit note' : 'Invoice'} number: ${invoice.invoiceNumber}`);
+		doc.text(`Date: ${toDateString(invoice.issuedAt)}`);
+		if (invoice.originalInvoiceNumber) {
+			doc.text(`Against invoice: ${invoice.originalInvoiceNumber}`);
+		}
+		doc.text(`Booking: ${invoice.bookingNumber}`);
+		doc.text(`Place of supply: ${invoice.placeOfSupply}`);
+
+		// Supplier and recipient side by side
+		const partiesY = doc.y + 15;
+		writeParty(doc, 'Supplier', invoice.seller, MARGIN, partiesY);
+		const sellerBottom = doc.y;
+		writeParty(doc, 'Billed to', invoice.buyer, MARGIN + 260, partiesY);
+
+		// What was booked
+		doc.y = Math.max(sellerBottom, doc.y) + 15;
+		const { stay } = invoice;
+		const unit = stay.listingType === 'homestay' ? 'night' : 'day';
+		doc.font('Helvetica').fontSize(9).text(
+			`${stay.listingTitle} - ${toDateString(stay.checkIn)} to ${toDateString(stay.checkOut)} ` +
+			`(${stay.nights} ${unit}${stay.nights === 1 ? '' : 's'})`,
+			MARGIN
+		);
+
+		// Lines
+		let y = doc.y + 15;
+		writeRow(doc, COLUMNS.map((column) => column.label), y, true);
+		y += 14;
+		doc.moveTo(MARGIN, y).lineTo(MARGIN + 495, y).stroke();
+		y += 6;
+
+		for (const line of invoice.lines) {
+			writeRow(doc, [
+				line.description,
+				line.sacCode,
+				formatAmount(line.taxableValue),
+				`${line.gstRate}%`,
+				formatAmount(line.cgst),
+				formatAmount(line.sgst),
+				formatAmount(line.total)
+			], y);
+			y += 16;
+		}
+
+		doc.moveTo(MARGIN, y).lineTo(MARGIN + 495, y).stroke();
+		y += 6;
+
+		const { totals } = invoice;
+		writeRow(doc, [
+			'Total',
+			'',
+			formatAmount(totals.taxableValue),
+			'',
+			formatAmount(totals.cgst),
+			formatAmount(totals.sgst),
+			formatAmount(roundPaise(totals.taxableValue + totals.totalTax))
+		], y, true);
+		y += 20;
+
+		// Totals summary
+		const summary: [string, string][] = [
+			['Total GST', formatAmount(totals.totalTax)],
+			['Round off', formatAmount(totals.roundOff)],
+			[isCreditNote ? 'Amount credited (INR)' : 'Amount payable (INR)', formatAmount(totals.total)]
+		];
+
+		for (const [label, value] of summary) {
+			doc.font(label.startsWith('Amount') ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+			doc.text(label, MARGIN + 270, y, { width: 160 });
+			doc.text(value, MARGIN + 430, y, { width: 65, align: 'right' });
+			y += 14;
+		}
+
+		doc.font('Helvetica').fontSize(8).text(
+			'All amounts in INR. This is a computer-generated document and does not require a signature.',
+			MARGIN,
+			y + 30,
+			{ width: 495, align: 'center' }
+		);
+
+		doc.end();
+	});
+}
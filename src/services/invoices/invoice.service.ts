@@ -0,0 +1,231 @@
+/**
+ * Invoice Service
+ *
+ * Issues GST tax invoices for bookings and credit notes for refunds.
+ * Both are issued once and then served from the stored snapshot.
+ *
+ * The supplier printed on invoices comes from the environment:
+ *   INVOICE_SELLER_NAME, INVOICE_SELLER_GSTIN, INVOICE_SELLER_ADDRESS
+ */
+
+import { Types } from 'mongoose';
+import { IBookingDocument, BookingModel, BookingTaxLine } from '../../models/bookings/Booking.model';
+import { IRefundDocument } from '../../models/payments/Refund.model';
+import {
+	InvoiceModel,
+	IInvoiceDocument,
+	InvoiceLine,
+	InvoiceParty,
+	InvoiceTotals,
+	InvoiceType
+} from '../../models/invoices/Invoice.model';
+import { getNextInvoiceNumber, releaseInvoiceNumber } from '../../models/counters/Counter.model';
+import { calculateTaxLines, roundPaise, splitIntraStateTax } from '../../utils/gst.utils';
+import { getFinancialYear } from '../../utils/date.utils';
+
+/** Where all our services are supplied */
+const PLACE_OF_SUPPLY = 'Jharkhand (20)';
+
+/**
+ * Gets the supplier details printed on invoices.
+ */
+function getSeller(): InvoiceParty {
+	return {
+		name: process.env.INVOICE_SELLER_NAME || 'JharkhandYatra',
+		gstin: process.env.INVOICE_SELLER_GSTIN || undefined,
+		address: process.env.INVOICE_SELLER_ADDRESS || undefined,
+		state: 'Jharkhand',
+		stateCode: '20'
+	};
+}
+
+/**
+ * Checks whether a booking can be invoiced (confirmed or paid).
+ */
+export function isInvoiceable(booking: IBookingDocument): boolean {
+	return booking.status === 'confirmed'
+		|| booking.status === 'completed'
+		|| booking.paymentStatus === 'completed'
+		|| booking.paymentStatus === 'refunded';
+}
+
+/**
+ * Gets a booking's GST lines.
+ *
+ * Bookings priced before GST lines were stored are re-taxed from their
+ * average nightly charge.
+ */
+function getBookingTaxLines(booking: IBookingDocument): BookingTaxLine[] {
+	if (booking.pricing.taxLines?.length) {
+		return booking.pricing.taxLines;
+	}
+
+	const days = Math.max(booking.nights || 1, 1);
+
+	return calculateTaxLines({
+		listingType: booking.listingType,
+		dailyCharges: Array(days).fill(booking.pricing.basePrice / days),
+		cleaningFee: booking.pricing.cleaningFee,
+		serviceFee: booking.pricing.serviceFee || 0
+	});
+}
+
+/**
+ * Turns GST lines into invoice lines, scaled by a factor (1 for invoices,
+ * the refunded share for credit notes).
+ */
+function buildLines(taxLines: BookingTaxLine[], factor: number): InvoiceLine[] {
+	return taxLines.map((line) => {
+		const taxableValue = roundPaise(line.taxableValue * factor);
+		const { cgst, sgst } = splitIntraStateTax(roundPaise(line.tax * factor));
+
+		return {
+			description: line.description,
+			sacCode: line.sacCode,
+			taxableValue,
+			gstRate: line.gstRate,
+			cgst,
+			sgst,
+			total: roundPaise(taxableValue + cgst + sgst)
+		};
+	});
+}
+
+/**
+ * Adds up invoice lines and rounds the total to the rupee.
+ *
+ * @param total - Exact total to round to (defaults to the sum rounded)
+ */
+function buildTotals(lines: InvoiceLine[], total?: number): InvoiceTotals {
+	const sum = (pick: (line: InvoiceLine) => number) => roundPaise(lines.reduce((acc, line) => acc + pick(line), 0));
+
+	const taxableValue = sum((line) => line.taxableValue);
+	const cgst = sum((line) => line.cgst);
+	const sgst = sum((line) => line.sgst);
+	const totalTax = roundPaise(cgst + sgst);
+	const exact = roundPaise(taxableValue + totalTax);
+	const rounded = total ?? Math.round(exact);
+
+	return {
+		taxableValue,
+		cgst,
+		sgst,
+		totalTax,
+		roundOff: roundPaise(rounded - exact),
+		total: rounded
+	};
+}
+
+/**
+ * Saves a new invoice or credit note under the next number.
+ *
+ * If another request issued the same document first, that one is
+ * returned instead and the number drawn here is given back for the next
+ * document, so the series has no gaps.
+ */
+async function createDocument(
+	type: InvoiceType,
+	booking: IBookingDocument,
+	fields: Pick<IInvoiceDocument, 'lines' | 'totals'> & {
+		refundId?: Types.ObjectId | string;
+		originalInvoiceNumber?: string;
+	}
+): Promise<IInvoiceDocument> {
+	const issuedAt = new Date();
+	const financialYear = getFinancialYear(issuedAt);
+	const invoiceNumber = await getNextInvoiceNumber(type, financialYear);
+
+	try {
+		return await InvoiceModel.create({
+			invoiceNumber,
+			type,
+			financialYear,
+			bookingId: booking._id,
+			bookingNumber: booking.bookingNumber,
+			issuedAt,
+			seller: getSeller(),
+			buyer: {
+				name: booking.guestDetails.name,
+				email: booking.guestDetails.email,
+				phone: booking.guestDetails.phone
+			},
+			placeOfSupply: PLACE_OF_SUPPLY,
+			stay: {
+				listingType: booking.listingType,
+				listingTitle: booking.listingTitle || booking.bookingNumber,
+				checkIn: booking.checkIn,
+				checkOut: booking.checkOut,
+				nights: booking.nights || 0
+			},
+			...fields
+		});
+	} catch (error) {
+		const existing = (error as { code?: number }).code === 11000
+			? await InvoiceModel.findOne({ bookingId: booking._id, type })
+			: null;
+
+		if (existing) {
+			await releaseInvoiceNumber(type, financialYear, invoiceNumber);
+			return existing;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Gets a booking's tax invoice, issuing it on first request.
+ *
+ * The caller must check isInvoiceable() first.
+ */
+export async function issueInvoice(booking: IBookingDocument): Promise<IInvoiceDocument> {
+	const existing = await InvoiceModel.findOne({ bookingId: booking._id, type: 'invoice' });
+
+	if (existing) {
+		return existing;
+	}
+
+	const lines = buildLines(getBookingTaxLines(booking), 1);
+
+	return createDocument('invoice', booking, { lines, totals: buildTotals(lines) });
+}
+
+/**
+ * Issues the credit note for a refund that has been paid out.
+ *
+ * Reverses the refunded share of every invoice line, so a 50% refund
+ * credits half of each supply and half of its GST. Issues the original
+ * invoice first if the booking never had one.
+ */
+export async function issueCreditNote(refund: IRefundDocument): Promise<IInvoiceDocument | null> {
+	const existing = await InvoiceModel.findOne({ bookingId: refund.bookingId, type: 'credit_note' });
+
+	if (existing) {
+		return existing;
+	}
+
+	const booking = await BookingModel.findById(refund.bookingId);
+
+	if (!booking) {
+		return null;
+	}
+
+	const invoice = await issueInvoice(booking);
+	const factor = invoice.totals.total > 0 ? Math.min(refund.amount / invoice.totals.total, 1) : 0;
+	const lines = buildLines(
+		invoice.lines.map((line) => ({
+			description: line.description,
+			sacCode: line.sacCode,
+			taxableValue: line.taxableValue,
+			gstRate: line.gstRate,
+			tax: roundPaise(line.cgst + line.sgst)
+		})),
+		factor
+	);
+
+	return createDocument('credit_note', booking, {
+		lines,
+		totals: buildTotals(lines, refund.amount),
+		refundId: refund._id,
+		originalInvoiceNumber: invoice.invoiceNumber
+	});
+}
@@ -0,0 +1,24 @@
+/**
+ * Background Jobs
+ *
+ * Registers every job type the API runs in the background. Each feature
+ * defines its own handlers; add its register function here.
+ */
+
+import { registerBookingJobs } from '../bookings/booking.scheduler';
+
+export { enqueueJob, retryJob, startJobQueue, stopJobQueue } from './job.queue';
+
+let registered = false;
+
+/**
+ * Registers all job handlers and recurring schedules (once).
+ */
+export function registerJobs(): void {
+	if (registered) {
+		return;
+	}
+
+	registered = true;
+	registerBookingJobs();
+}
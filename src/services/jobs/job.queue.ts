@@ -0,0 +1,309 @@
+/**
+ * Job Queue
+ *
+ * Durable background jobs on top of the jobs collection. Any number of API
+ * instances can run a worker; a job is only run by the instance holding its
+ * lease, which is renewed while the handler runs and taken over by another
+ * instance if it runs out (the worker crashed or lost the database).
+ *
+ * - One-off jobs: enqueueJob(name, payload, { runAt | delayMs })
+ * - Recurring jobs: scheduleRecurringJob(name, everyMs) queues one job per
+ *   interval; the unique key makes all instances agree on a single run.
+ * - Failed runs are retried with exponential backoff until maxAttempts, then
+ *   the job is marked 'failed' and kept for an admin to inspect or retry.
+ *
+ * Configuration:
+ *   JOB_POLL_INTERVAL_MS  default 2000
+ *   JOB_LEASE_MS          default 60000
+ */
+
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { JobModel, IJobDocument } from '../../models/jobs/Job.model';
+
+/** How long a worker waits before looking for due jobs again */
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+
+/** How long a lease lasts without being renewed */
+const LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '60000', 10);
+
+/** Longest wait between retries */
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/** Identifies this process in job leases */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Runs a job. Throwing (or rejecting) counts as a failed attempt.
+ */
+export type JobHandler = (payload: Record<string, unknown>, job: IJobDocument) => Promise<void>;
+
+/**
+ * Retry settings for a job type.
+ */
+export interface JobOptions {
+	/** Runs allowed before the job fails (default 3) */
+	maxAttempts?: number;
+
+	/** Wait before the first retry in ms, doubled on each retry (default 30000) */
+	backoffMs?: number;
+}
+
+/**
+ * When and how often to run a queued job.
+ */
+export interface EnqueueOptions {
+	/** Earliest time to run (default now) */
+	runAt?: Date;
+
+	/** Delay from now in ms (ignored if runAt is given) */
+	delayMs?: number;
+
+	/** Overrides the job type's maxAttempts */
+	maxAttempts?: number;
+
+	/** Queue the job only if no job with this key exists */
+	uniqueKey?: string;
+}
+
+const definitions = new Map<string, { handler: JobHandler; maxAttempts: number; backoffMs: number }>();
+const recurringJobs: { name: string; everyMs: number; lastSlot?: number }[] = [];
+
+let pollTimer: NodeJS.Timeout | null = null;
+let activeRun: Promise<void> | null = null;
+let stopping = true;
+
+/**
+ * Registers the handler for a job type.
+ */
+export function defineJob(name: string, handler: JobHandler, options: JobOptions = {}): void {
+	definitions.set(name, {
+		handler,
+		maxAttempts: options.maxAttempts ?? 3,
+		backoffMs: options.backoffMs ?? 30000
+	});
+}
+
+/**
+ * Runs a defined job type every `everyMs`, aligned to the clock
+ * (e.g. every 5 minutes runs at :00, :05, ...).
+ */
+export function scheduleRecurringJob(name: string, everyMs: number): void {
+	if (!definitions.has(name)) {
+		throw new Error(`Cannot schedule undefined job '${name}'`);
+	}
+
+	recurringJobs.push({ name, everyMs });
+}
+
+/**
+ * Queues a job.
+ *
+ * @returns The queued job, or the existing one if `uniqueKey` was taken
+ */
+export async function enqueueJob(
+	name: string,
+	payload: Record<string, unknown> = {},
+	options: EnqueueOptions = {}
+): Promise<IJobDocument> {
+	const definition = definitions.get(name);
+
+	if (!definition) {
+		throw new Error(`Cannot queue undefined job '${name}'`);
+	}
+
+	try {
+		return await JobModel.create({
+			name,
+			payload,
+			runAt: options.runAt || new Date(Date.now() + (options.delayMs || 0)),
+			maxAttempts: options.maxAttempts ?? definition.maxAttempts,
+			uniqueKey: options.uniqueKey
+		});
+	} catch (error) {
+		const existing = (error as { code?: number }).code === 11000
+			? await JobModel.findOne({ uniqueKey: options.uniqueKey })
+			: null;
+
+		if (existing) {
+			return existing;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Queues a failed job to run again with a fresh set of attempts.
+ *
+ * @returns The job, or null if it is not failed
+ */
+export async function retryJob(jobId: string): Promise<IJobDocument | null> {
+	return JobModel.findOneAndUpdate(
+		{ _id: jobId, status: 'failed' },
+		{
+			$set: { status: 'queued', runAt: new Date(), attempts: 0 },
+			$unset: { failedAt: 1 }
+		},
+		{ new: true }
+	);
+}
+
+/**
+ * Queues the current run of every recurring job (once per interval).
+ */
+async function enqueueRecurringJobs(): Promise<void> {
+	for (const recurring of recurringJobs) {
+		const slot = Math.floor(Date.now() / recurring.everyMs) * recurring.everyMs;
+
+		if (slot === recurring.lastSlot) {
+			continue;
+		}
+
+		const runAt = new Date(slot);
+		await enqueueJob(recurring.name, {}, { runAt, uniqueKey: `${recurring.name}@${runAt.toISOString()}` });
+		recurring.lastSlot = slot;
+	}
+}
+
+/**
+ * Leases the next due job: a queued one whose time has come, or a running
+ * one whose worker let its lease run out.
+ */
+async function claimNextJob(): Promise<IJobDocument | null> {
+	const now = new Date();
+
+	return JobModel.findOneAndUpdate(
+		{
+			name: { $in: [...definitions.keys()] },
+			$or: [
+				{ status: 'queued', runAt: { $lte: now } },
+				{ status: 'running', lockedUntil: { $lte: now } }
+			]
+		},
+		{
+			$set: {
+				status: 'running',
+				lockedBy: WORKER_ID,
+				lockedUntil: new Date(now.getTime() + LEASE_MS)
+			},
+			$inc: { attempts: 1 }
+		},
+		{ sort: { runAt: 1 }, new: true }
+	);
+}
+
+/**
+ * Records the outcome of a run, if this worker still holds the lease.
+ *
+ * @param error - Why the run failed (omit on success)
+ */
+async function finishJob(job: IJobDocument, error?: unknown): Promise<void> {
+	const definition = definitions.get(job.name);
+	const now = new Date();
+	let update: Record<string, unknown>;
+
+	if (error === undefined) {
+		update = { status: 'completed', completedAt: now };
+	} else {
+		const lastError = error instanceof Error ? error.message : String(error);
+
+		if (job.attempts < job.maxAttempts) {
+			const backoff = Math.min((definition?.backoffMs ?? 30000) * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+			update = { status: 'queued', runAt: new Date(now.getTime() + backoff), lastError };
+		} else {
+			update = { status: 'failed', failedAt: now, lastError };
+			console.error(`Job ${job.name} (${job._id}) failed after ${job.attempts} attempts: ${lastError}`);
+		}
+	}
+
+	await JobModel.updateOne(
+		{ _id: job._id, status: 'running', lockedBy: WORKER_ID },
+		{ $set: update, $unset: { lockedBy: 1, lockedUntil: 1 } }
+	);
+}
+
+/**
+ * Claims and runs one due job.
+ *
+ * @returns False if no job was due
+ */
+export async function runNextJob(): Promise<boolean> {
+	const job = await claimNextJob();
+
+	if (!job) {
+		return false;
+	}
+
+	// Taken over from a worker that died during its last attempt
+	if (job.attempts > job.maxAttempts) {
+		await finishJob(job, new Error('Lease expired on the last attempt'));
+		return true;
+	}
+
+	const heartbeat = setInterval(() => {
+		JobModel.updateOne(
+			{ _id: job._id, status: 'running', lockedBy: WORKER_ID },
+			{ $set: { lockedUntil: new Date(Date.now() + LEASE_MS) } }
+		).catch((error) => console.error(`Failed to renew lease of job ${job._id}:`, error));
+	}, LEASE_MS / 3);
+	heartbeat.unref();
+
+	try {
+		await definitions.get(job.name)!.handler(job.payload || {}, job);
+		await finishJob(job);
+	} catch (error) {
+		await finishJob(job, error);
+	} finally {
+		clearInterval(heartbeat);
+	}
+
+	return true;
+}
+
+/**
+ * One pass of the worker loop; schedules the next pass straight away if a
+ * job ran (there may be more), otherwise after the poll interval.
+ */
+async function poll(): Promise<void> {
+	pollTimer = null;
+	let ranJob = false;
+
+	try {
+		await enqueueRecurringJobs();
+		ranJob = await runNextJob();
+	} catch (error) {
+		console.error('Job worker error:', error);
+	}
+
+	if (!stopping) {
+		pollTimer = setTimeout(() => {
+			activeRun = poll();
+		}, ranJob ? 0 : POLL_INTERVAL_MS);
+	}
+}
+
+/**
+ * Starts this instance's worker. Does nothing if already started.
+ */
+export function startJobQueue(): void {
+	if (!stopping) {
+		return;
+	}
+
+	stopping = false;
+	activeRun = poll();
+}
+
+/**
+ * Stops the worker, waiting for a running job to finish.
+ */
+export async function stopJobQueue(): Promise<void> {
+	stopping = true;
+
+	if (pollTimer) {
+		clearTimeout(pollTimer);
+		pollTimer = null;
+	}
+
+	await activeRun;
+}
@@ -0,0 +1,47 @@
+/**
+ * Mail Service
+ *
+ * Picks the mail transport from the environment:
+ *
+ *   MAIL_TRANSPORT=console  (default) prints emails to the log
+ *   MAIL_TRANSPORT=file     writes emails to MAIL_OUTBOX_DIR
+ *                           (default ./outbox)
+ *
+ * A production provider is added by implementing MailTransport and
+ * selecting it here.
+ */
+
+import { MailMessage, MailTransport } from './mail.transport';
+import { createConsoleTransport, createFileTransport } from './outbox.transport';
+
+export * from './mail.transport';
+
+let transport: MailTransport | undefined;
+
+/**
+ * Gets the configured mail transport (created on first use).
+ */
+export function getMailTransport(): MailTransport {
+	if (transport) {
+		return transport;
+	}
+
+	const name = process.env.MAIL_TRANSPORT || 'console';
+
+	if (name === 'console') {
+		transport = createConsoleTransport();
+	} else if (name === 'file') {
+		transport = createFileTransport(process.env.MAIL_OUTBOX_DIR || 'outbox');
+	} else {
+		throw new Error(`Unknown MAIL_TRANSPORT '${name}' (expected console or file)`);
+	}
+
+	return transport;
+}
+
+/**
+ * Sends an email through the configured transport.
+ */
+export function sendMail(message: MailMessage): Promise<void> {
+	return getMailTransport().send(message);
+}
@@ -0,0 +1,38 @@
+/**
+ * Mail Transport Interface
+ *
+ * Everything the API needs to send an email. Each transport (the local
+ * console and file outboxes, an SMTP or API provider, ...) implements
+ * this interface, so features never talk to a provider directly.
+ */
+
+/**
+ * Supported transports.
+ */
+export type MailTransportName = 'console' | 'file';
+
+/**
+ * An email to send.
+ */
+export interface MailMessage {
+	/** Recipient address */
+	to: string;
+
+	/** Subject line */
+	subject: string;
+
+	/** Plain text body */
+	text: string;
+
+	/** Optional HTML body */
+	html?: string;
+}
+
+/**
+ * Sends emails. Rejects if the message could not be handed over.
+ */
+export interface MailTransport {
+	name: MailTransportName;
+
+	send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,52 @@
+/**
+ * Outbox Transports
+ *
+ * Development stand-ins for a real mail provider: the console transport
+ * prints each email to the log, the file transport writes it to a folder
+ * as JSON. Links in the emails (password resets, ...) can be copied from
+ * there without any mail setup.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { MailMessage, MailTransport } from './mail.transport';
+
+/**
+ * Creates a transport that prints emails to the console.
+ */
+export function createConsoleTransport(): MailTransport {
+	return {
+		name: 'console',
+
+		async send(message: MailMessage): Promise<void> {
+			console.log(
+				`\n--- Email to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n--- End of email ---\n`
+			);
+		}
+	};
+}
+
+/**
+ * Creates a transport that writes each email to `<dir>/<time>-<random>.json`.
+ * File names sort in sending order.
+ *
+ * @param dir - Outbox folder (created if missing)
+ */
+export function createFileTransport(dir: string): MailTransport {
+	return {
+		name: 'file',
+
+		async send(message: MailMessage): Promise<void> {
+			await mkdir(dir, { recursive: true });
+
+			const sentAt = new Date();
+			const fileName = `${sentAt.getTime()}-${randomBytes(4).toString('hex')}.json`;
+
+			await writeFile(
+				join(dir, fileName),
+				JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+			);
+		}
+	};
+}
@@ -0,0 +1,63 @@
+/**
+ * Payments Service
+ *
+ * Picks the payment provider from the environment:
+ *
+ *   PAYMENT_GATEWAY=mock      (default) local mock, no network needed
+ *   PAYMENT_GATEWAY=razorpay  needs RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET
+ *                             and RAZORPAY_WEBHOOK_SECRET
+ *
+ * In production PAYMENT_GATEWAY must be set and the mock is refused: its
+ * webhook secret has a public default, so anyone could mark bookings paid.
+ */
+
+import { PaymentGateway } from './payment.gateway';
+import { createRazorpayGateway } from './razorpay.gateway';
+import { createMockGateway, MockPaymentGateway } from './mock.gateway';
+
+export * from './payment.gateway';
+export { MockPaymentGateway, MockPaymentOutcome } from './mock.gateway';
+
+let gateway: PaymentGateway | undefined;
+
+/**
+ * Gets the configured payment gateway (created on first use).
+ */
+export function getPaymentGateway(): PaymentGateway {
+	if (gateway) {
+		return gateway;
+	}
+
+	const provider = process.env.PAYMENT_GATEWAY || 'mock';
+
+	if (process.env.NODE_ENV === 'production' && provider === 'mock') {
+		throw new Error('PAYMENT_GATEWAY must be set to a real provider (razorpay) in production');
+	}
+
+	if (provider === 'razorpay') {
+		const { RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } = process.env;
+
+		if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAY_WEBHOOK_SECRET) {
+			throw new Error('RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET are required');
+		}
+
+		gateway = createRazorpayGateway({
+			keyId: RAZORPAY_KEY_ID,
+			keySecret: RAZORPAY_KEY_SECRET,
+			webhookSecret: RAZORPAY_WEBHOOK_SECRET
+		});
+	} else if (provider === 'mock') {
+		gateway = createMockGateway(process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock-webhook-secret');
+	} else {
+		throw new Error(`Unknown PAYMENT_GATEWAY '${provider}' (expected razorpay or mock)`);
+	}
+
+	return gateway;
+}
+
+/**
+ * Checks whether the gateway is the local mock.
+ */
+export function isMockGateway(candidate: PaymentGateway): candidate is MockPaymentGateway {
+	return candidate.name === 'mock';
+}
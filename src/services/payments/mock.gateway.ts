@@ -0,0 +1,117 @@
+/**
+ * Mock Gateway
+ *
+ * A local stand-in for Razorpay so the pay-and-confirm flow works in
+ * development and tests without network access or real credentials.
+ * Orders are created in memory, and "paying" produces a webhook in the
+ * Razorpay format, signed with the mock webhook secret, which goes
+ * through exactly the same verification and processing as a real one.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+	PaymentGateway,
+	CreateOrderRequest,
+	GatewayOrder,
+	GatewayRefund,
+	isValidSignature,
+	parseRazorpayStyleEvent,
+	signPayload
+} from './payment.gateway';
+
+/**
+ * Outcome of a simulated payment.
+ */
+export type MockPaymentOutcome = 'success' | 'failure';
+
+/**
+ * A signed webhook as the mock provider would deliver it.
+ */
+export interface MockWebhook {
+	rawBody: string;
+	signature: string;
+	eventId: string;
+}
+
+/**
+ * Mock gateway with an extra method to simulate payments.
+ */
+export interface MockPaymentGateway extends PaymentGateway {
+	name: 'mock';
+
+	/**
+	 * Builds the signed webhook the provider would send after the guest
+	 * pays (or fails to pay) an order.
+	 *
+	 * @param amount - Amount in INR (rupees)
+	 */
+	simulatePayment(orderId: string, amount: number, outcome: MockPaymentOutcome): MockWebhook;
+}
+
+/**
+ * Random ID with a provider-style prefix.
+ */
+function mockId(prefix: string): string {
+	return `${prefix}_mock_${randomBytes(7).toString('hex')}`;
+}
+
+/**
+ * Creates the mock gateway.
+ *
+ * @param webhookSecret - Secret used to sign simulated webhooks
+ */
+export function createMockGateway(webhookSecret: string): MockPaymentGateway {
+	return {
+		name: 'mock',
+		signatureHeader: 'x-razorpay-signature',
+
+		async createOrder(request: CreateOrderRequest): Promise<GatewayOrder> {
+			return {
+				orderId: mockId('order'),
+				amount: request.amount,
+				currency: request.currency
+			};
+		},
+
+		// Mock refunds complete immediately
+		async createRefund(): Promise<GatewayRefund> {
+			return {
+				refundId: mockId('rfnd'),
+				status: 'processed'
+			};
+		},
+
+		verifyWebhookSignature(rawBody, signature) {
+			return isValidSignature(rawBody, signature, webhookSecret);
+		},
+
+		parseWebhookEvent: parseRazorpayStyleEvent,
+
+		simulatePayment(orderId, amount, outcome) {
+			const event = outcome === 'success' ? 'payment.captured' : 'payment.failed';
+			const rawBody = JSON.stringify({
+				entity: 'event',
+				event,
+				created_at: Math.floor(Date.now() / 1000),
+				payload: {
+					payment: {
+						entity: {
+							id: mockId('pay'),
+							order_id: orderId,
+							amount: Math.round(amount * 100),
+							currency: 'INR',
+							status: outcome === 'success' ? 'captured' : 'failed',
+							...(outcome === 'failure' && { error_description: 'Payment declined by mock gateway' })
+						}
+					}
+				}
+			});
+
+			return {
+				rawBody,
+				signature: signPayload(rawBody, webhookSecret),
+				eventId: mockId('evt')
+			};
+		}
+	};
+}
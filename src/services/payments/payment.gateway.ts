@@ -0,0 +1,246 @@
+/**
+ * Payment Gateway Interface
+ *
+ * Everything the booking flow needs from a payment provider. Each
+ * provider (Razorpay, the local mock, ...) implements this interface,
+ * so controllers never talk to a provider's API directly.
+ *
+ * Webhooks use the Razorpay event format: providers that differ should
+ * translate their payloads in parseWebhookEvent.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Supported providers.
+ */
+export type PaymentProvider = 'razorpay' | 'mock';
+
+/**
+ * Webhook events the booking flow reacts to.
+ *
+ * - 'payment.captured': Money received
+ * - 'payment.failed': Payment attempt failed
+ * - 'refund.processed': Money returned to the guest
+ * - 'refund.failed': The provider could not return the money
+ */
+export type PaymentEventType = 'payment.captured' | 'payment.failed' | 'refund.processed' | 'refund.failed';
+
+/**
+ * Order creation request.
+ */
+export interface CreateOrderRequest {
+	/** Amount in INR (rupees) */
+	amount: number;
+
+	/** Currency code */
+	currency: string;
+
+	/** Our reference shown in the provider dashboard (booking number) */
+	receipt: string;
+
+	/** Extra key/value data stored with the order */
+	notes?: Record<string, string>;
+}
+
+/**
+ * Order created at the provider.
+ */
+export interface GatewayOrder {
+	/** Provider's order ID */
+	orderId: string;
+
+	/** Amount in INR (rupees) */
+	amount: number;
+
+	/** Currency code */
+	currency: string;
+}
+
+/**
+ * Refund request.
+ */
+export interface CreateRefundRequest {
+	/** Provider's payment ID */
+	paymentId: string;
+
+	/** Amount in INR (rupees) */
+	amount: number;
+
+	/** Our reference (booking number) */
+	receipt: string;
+
+	/** Extra key/value data stored with the refund */
+	notes?: Record<string, string>;
+}
+
+/**
+ * Refund created at the provider.
+ *
+ * Providers may finish a refund immediately ('processed') or later,
+ * reporting the result by webhook ('processing').
+ */
+export interface GatewayRefund {
+	/** Provider's refund ID */
+	refundId: string;
+
+	/** Whether the money has already been returned */
+	status: 'processing' | 'processed';
+}
+
+/**
+ * A verified webhook, translated to the fields we use.
+ */
+export interface PaymentWebhookEvent {
+	/** Unique event ID (used to ignore redeliveries) */
+	eventId: string;
+
+	/** What happened */
+	type: PaymentEventType;
+
+	/** Provider's order ID */
+	orderId?: string;
+
+	/** Provider's payment ID */
+	paymentId?: string;
+
+	/** Provider's refund ID (refund events) */
+	refundId?: string;
+
+	/** Amount in INR (rupees) */
+	amount?: number;
+
+	/** Why a payment or refund failed */
+	failureReason?: string;
+}
+
+/**
+ * A payment provider.
+ */
+export interface PaymentGateway {
+	/** Provider name stored on payments */
+	name: PaymentProvider;
+
+	/** Public key the frontend checkout needs (if any) */
+	publicKey?: string;
+
+	/** Header carrying the webhook signature */
+	signatureHeader: string;
+
+	/** Creates an order the guest can pay */
+	createOrder(request: CreateOrderRequest): Promise<GatewayOrder>;
+
+	/** Returns money for a captured payment (throws if the provider refuses) */
+	createRefund(request: CreateRefundRequest): Promise<GatewayRefund>;
+
+	/** Checks a webhook's signature against the raw request body */
+	verifyWebhookSignature(rawBody: Buffer | string, signature: string | undefined): boolean;
+
+	/**
+	 * Reads a verified webhook body.
+	 *
+	 * @returns The event, or null for events the booking flow ignores
+	 */
+	parseWebhookEvent(body: unknown, eventId: string | undefined): PaymentWebhookEvent | null;
+}
+
+// ============================================================================
+// Razorpay-style helpers (shared by providers using the same format)
+// ============================================================================
+
+/**
+ * Computes a hex HMAC-SHA256 signature.
+ */
+export function signPayload(payload: Buffer | string, secret: string): string {
+	return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Checks a hex HMAC-SHA256 signature in constant time.
+ */
+export function isValidSignature(
+	payload: Buffer | string,
+	signature: string | undefined,
+	secret: string
+): boolean {
+	if (!signature || !secret) {
+		return false;
+	}
+
+	const expected = Buffer.from(signPayload(payload, secret));
+	const provided = Buffer.from(signature);
+
+	return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Razorpay webhook body (only the parts we read).
+ */
+interface RazorpayWebhookBody {
+	event?: string;
+	created_at?: number;
+	payload?: {
+		payment?: {
+			entity?: {
+				id?: string;
+				order_id?: string;
+				amount?: number;
+				error_description?: string;
+			};
+		};
+		refund?: {
+			entity?: {
+				id?: string;
+				payment_id?: string;
+				amount?: number;
+				error_description?: string;
+			};
+		};
+	};
+}
+
+/**
+ * Translates a Razorpay-format webhook body.
+ *
+ * Amounts arrive in paise and are converted to rupees. When the provider
+ * sends no event ID, one is derived from the event type and entity IDs,
+ * which is stable across redeliveries.
+ */
+export function parseRazorpayStyleEvent(
+	body: unknown,
+	eventId: string | undefined
+): PaymentWebhookEvent | null {
+	const webhook = body as RazorpayWebhookBody;
+	const payment = webhook?.payload?.payment?.entity;
+	const refund = webhook?.payload?.refund?.entity;
+
+	switch (webhook?.event) {
+		case 'payment.captured':
+		case 'payment.failed':
+			if (!payment?.order_id) return null;
+			return {
+				eventId: eventId || `${webhook.event}:${payment.id}`,
+				type: webhook.event,
+				orderId: payment.order_id,
+				paymentId: payment.id,
+				amount: payment.amount !== undefined ? payment.amount / 100 : undefined,
+				failureReason: payment.error_description
+			};
+
+		case 'refund.processed':
+		case 'refund.failed':
+			if (!refund?.payment_id) return null;
+			return {
+				eventId: eventId || `${webhook.event}:${refund.id}`,
+				type: webhook.event,
+				orderId: payment?.order_id,
+				paymentId: refund.payment_id,
+				refundId: refund.id,
+				amount: refund.amount !== undefined ? refund.amount / 100 : undefined,
+				failureReason: refund.error_description
+			};
+
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,109 @@
+/**
+ * Razorpay Gateway
+ *
+ * Creates orders through the Razorpay Orders API and verifies webhooks
+ * signed with the webhook secret configured in the Razorpay dashboard.
+ *
+ * @see https://razorpay.com/docs/api/orders/
+ * @see https://razorpay.com/docs/api/refunds/
+ * @see https://razorpay.com/docs/webhooks/validate-test/
+ */
+
+import {
+	PaymentGateway,
+	CreateOrderRequest,
+	CreateRefundRequest,
+	GatewayOrder,
+	GatewayRefund,
+	isValidSignature,
+	parseRazorpayStyleEvent
+} from './payment.gateway';
+
+/** Razorpay REST API base URL */
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+
+/**
+ * Razorpay credentials.
+ */
+export interface RazorpayConfig {
+	keyId: string;
+	keySecret: string;
+	webhookSecret: string;
+}
+
+/**
+ * Creates the Razorpay gateway.
+ */
+export function createRazorpayGateway(config: RazorpayConfig): PaymentGateway {
+	const authorization = 'Basic ' + Buffer.from(`${config.keyId}:${config.keySecret}`).toString('base64');
+
+	return {
+		name: 'razorpay',
+		publicKey: config.keyId,
+		signatureHeader: 'x-razorpay-signature',
+
+		async createOrder(request: CreateOrderRequest): Promise<GatewayOrder> {
+			const response = await fetch(`${RAZORPAY_API_URL}/orders`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					Authorization: authorization
+				},
+				body: JSON.stringify({
+					amount: Math.round(request.amount * 100), // paise
+					currency: request.currency,
+					receipt: request.receipt,
+					notes: request.notes
+				})
+			});
+
+			if (!response.ok) {
+				throw new Error(`Razorpay order creation failed with status ${response.status}`);
+			}
+
+			const order = await response.json() as { id: string; amount: number; currency: string };
+
+			return {
+				orderId: order.id,
+				amount: order.amount / 100,
+				currency: order.currency
+			};
+		},
+
+		async createRefund(request: CreateRefundRequest): Promise<GatewayRefund> {
+			const response = await fetch(`${RAZORPAY_API_URL}/payments/${encodeURIComponent(request.paymentId)}/refund`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					Authorization: authorization
+				},
+				body: JSON.stringify({
+					amount: Math.round(request.amount * 100), // paise
+					receipt: request.receipt,
+					notes: request.notes
+				})
+			});
+
+			if (!response.ok) {
+				throw new Error(`Razorpay refund failed with status ${response.status}`);
+			}
+
+			const refund = await response.json() as { id: string; status: 'pending' | 'processed' | 'failed' };
+
+			if (refund.status === 'failed') {
+				throw new Error(`Razorpay refund ${refund.id} failed`);
+			}
+
+			return {
+				refundId: refund.id,
+				status: refund.status === 'processed' ? 'processed' : 'processing'
+			};
+		},
+
+		verifyWebhookSignature(rawBody, signature) {
+			return isValidSignature(rawBody, signature, config.webhookSecret);
+		},
+
+		parseWebhookEvent: parseRazorpayStyleEvent
+	};
+}
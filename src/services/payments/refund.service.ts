@@ -0,0 +1,348 @@
+/**
+ * Refund Service
+ *
+ * Creates and moves refunds through their lifecycle. Every status change
+ * is a conditional update on the refund's current status, so an admin
+ * action and a provider webhook racing on the same refund cannot both
+ * apply. The booking's `cancellation.refundStatus` mirrors the refund,
+ * and its `paymentStatus` becomes 'refunded' only once the refund succeeds
+ * (which also issues the GST credit note).
+ *
+ * Refunds of duplicate payments (a booking paid on two orders) return the
+ * extra payment only and leave the booking as it is.
+ */
+
+import { Types } from 'mongoose';
+import { BookingModel, IBookingDocument } from '../../models/bookings/Booking.model';
+import { PaymentModel, IPaymentDocument } from '../../models/payments/Payment.model';
+import {
+	RefundModel,
+	IRefundDocument,
+	RefundRecordStatus
+} from '../../models/payments/Refund.model';
+import { issueCreditNote } from '../invoices/invoice.service';
+import { getPaymentGateway } from './index';
+import { PaymentWebhookEvent } from './payment.gateway';
+
+/**
+ * Copies the refund's status onto its booking.
+ */
+async function syncBookingRefundStatus(refund: IRefundDocument): Promise<void> {
+	if (refund.type === 'duplicate_payment') {
+		return;
+	}
+
+	await BookingModel.updateOne(
+		{ _id: refund.bookingId },
+		{ $set: { 'cancellation.refundStatus': refund.status } }
+	);
+}
+
+/**
+ * Creates the refund owed for a cancelled booking.
+ *
+ * Does nothing when no refund is owed or the booking has no completed
+ * payment. Safe to call twice: a booking has at most one refund.
+ *
+ * @returns The refund, or null if none is owed
+ */
+export async function requestRefund(booking: IBookingDocument): Promise<IRefundDocument | null> {
+	if (!booking.cancellation || booking.cancellation.refundAmount <= 0) {
+		return null;
+	}
+
+	const payment = await PaymentModel.findOne({
+		bookingId: booking._id,
+		status: 'completed',
+		duplicate: { $ne: true }
+	}).sort({ createdAt: -1 });
+
+	if (!payment?.paymentId) {
+		console.warn(`Booking ${booking.bookingNumber} is marked paid but has no completed payment`);
+		return null;
+	}
+
+	try {
+		return await RefundModel.create({
+			bookingId: booking._id,
+			type: 'cancellation',
+			bookingNumber: booking.bookingNumber,
+			paymentId: payment._id,
+			provider: payment.provider,
+			providerPaymentId: payment.paymentId,
+			amount: Math.min(booking.cancellation.refundAmount, payment.amount),
+			currency: payment.currency,
+			status: 'requested',
+			reason: booking.cancellationReason
+		});
+	} catch (error) {
+		if ((error as { code?: number }).code === 11000) {
+			return RefundModel.findOne({ bookingId: booking._id, type: { $ne: 'duplicate_payment' } });
+		}
+		throw error;
+	}
+}
+
+/**
+ * Refunds a payment captured after its booking had already been paid by
+ * another order (e.g. the guest paid in two tabs). The whole payment is
+ * returned; the booking keeps the payment that paid it.
+ *
+ * Safe to call twice: a payment has at most one refund.
+ *
+ * @returns The refund, or null if the payment cannot be refunded
+ */
+export async function refundDuplicatePayment(payment: IPaymentDocument): Promise<IRefundDocument | null> {
+	const booking = await BookingModel.findById(payment.bookingId).select('bookingNumber');
+
+	await PaymentModel.updateOne({ _id: payment._id }, { $set: { duplicate: true } });
+
+	if (!booking || !payment.paymentId || payment.amount <= 0) {
+		console.warn(`Duplicate payment ${payment.orderId} cannot be refunded automatically`);
+		return null;
+	}
+
+	console.warn(`Booking ${booking.bookingNumber} was paid twice; refunding order ${payment.orderId}`);
+
+	try {
+		return await RefundModel.create({
+			bookingId: payment.bookingId,
+			type: 'duplicate_payment',
+			bookingNumber: booking.bookingNumber,
+			paymentId: payment._id,
+			provider: payment.provider,
+			providerPaymentId: payment.paymentId,
+			amount: payment.amount,
+			currency: payment.currency,
+			status: 'requested',
+			reason: 'Duplicate payment'
+		});
+	} catch (error) {
+		if ((error as { code?: number }).code === 11000) {
+			return RefundModel.findOne({ paymentId: payment._id });
+		}
+		throw error;
+	}
+}
+
+/**
+ * Refunds a payment captured after its booking was cancelled, e.g. when
+ * the booking expired while the guest was still at checkout.
+ *
+ * The whole amount is owed since the guest has nothing to show for it.
+ * Does nothing if the booking is not cancelled or already has a refund.
+ *
+ * @returns The refund, or null if none is owed
+ */
+export async function refundLatePayment(bookingId: Types.ObjectId | string): Promise<IRefundDocument | null> {
+	const booking = await BookingModel.findOne({ _id: bookingId, status: 'cancelled' });
+
+	if (!booking?.cancellation || booking.cancellation.refundAmount > 0) {
+		return null;
+	}
+
+	const updated = await BookingModel.findOneAndUpdate(
+		{ _id: booking._id, 'cancellation.refundAmount': 0 },
+		{
+			$set: {
+				'cancellation.refundPercent': 100,
+				'cancellation.refundAmount': booking.pricing.total,
+				'cancellation.refundStatus': 'requested'
+			}
+		},
+		{ new: true }
+	);
+
+	return updated ? requestRefund(updated) : null;
+}
+
+/**
+ * Marks a refund as succeeded and the payment and booking as refunded,
+ * and issues the credit note against the booking's invoice. Duplicate
+ * payment refunds only mark their payment refunded.
+ *
+ * @param from - Statuses the refund may succeed from
+ * @param update - Reference ID, note and admin to record
+ * @returns The updated refund, or null if it was not in one of `from`
+ */
+export async function markRefundSucceeded(
+	refundId: Types.ObjectId | string,
+	from: RefundRecordStatus[],
+	update: { referenceId?: string; note?: string; processedBy?: string } = {}
+): Promise<IRefundDocument | null> {
+	const refund = await RefundModel.findOneAndUpdate(
+		{ _id: refundId, status: { $in: from } },
+		{
+			$set: {
+				status: 'succeeded',
+				succeededAt: new Date(),
+				...(update.referenceId && { referenceId: update.referenceId }),
+				...(update.note && { note: update.note }),
+				...(update.processedBy && { processedBy: update.processedBy })
+			},
+			$unset: { failureReason: 1 }
+		},
+		{ new: true }
+	);
+
+	if (!refund) {
+		return null;
+	}
+
+	await PaymentModel.updateOne(
+		{ _id: refund.paymentId, status: 'completed' },
+		{ $set: { status: 'refunded' } }
+	);
+
+	if (refund.type === 'duplicate_payment') {
+		return refund;
+	}
+
+	await BookingModel.updateOne(
+		{ _id: refund.bookingId },
+		{ $set: { paymentStatus: 'refunded', 'cancellation.refundStatus': 'succeeded' } }
+	);
+
+	// The money is back with the guest either way; a missing credit note can be issued later
+	try {
+		await issueCreditNote(refund);
+	} catch (error) {
+		console.error(`Failed to issue credit note for booking ${refund.bookingNumber}:`, error);
+	}
+
+	return refund;
+}
+
+/**
+ * Marks a refund as failed. Failed refunds can be processed again.
+ *
+ * @param from - Statuses the refund may fail from
+ * @returns The updated refund, or null if it was not in one of `from`
+ */
+export async function markRefundFailed(
+	refundId: Types.ObjectId | string,
+	from: RefundRecordStatus[],
+	reason: string,
+	processedBy?: string
+): Promise<IRefundDocument | null> {
+	const refund = await RefundModel.findOneAndUpdate(
+		{ _id: refundId, status: { $in: from } },
+		{
+			$set: {
+				status: 'failed',
+				failureReason: reason,
+				...(processedBy && { processedBy })
+			}
+		},
+		{ new: true }
+	);
+
+	if (refund) {
+		await syncBookingRefundStatus(refund);
+	}
+
+	return refund;
+}
+
+/**
+ * Sends a requested (or previously failed) refund to the payment provider.
+ *
+ * Providers that finish immediately mark the refund succeeded here;
+ * otherwise it stays 'processing' until the provider's webhook arrives.
+ * A provider error marks the refund failed with the error message.
+ *
+ * @returns The updated refund, or null if it was not requested or failed
+ */
+export async function processRefund(
+	refundId: Types.ObjectId | string,
+	processedBy?: string
+): Promise<IRefundDocument | null> {
+	const refund = await RefundModel.findOneAndUpdate(
+		{ _id: refundId, status: { $in: ['requested', 'failed'] } },
+		{
+			$set: { status: 'processing', ...(processedBy && { processedBy }) },
+			$unset: { failureReason: 1 },
+			$inc: { attempts: 1 }
+		},
+		{ new: true }
+	);
+
+	if (!refund) {
+		return null;
+	}
+
+	await syncBookingRefundStatus(refund);
+
+	const gateway = getPaymentGateway();
+
+	if (gateway.name !== refund.provider) {
+		return markRefundFailed(
+			refund._id,
+			['processing'],
+			`Payment was taken by ${refund.provider}, but the configured gateway is ${gateway.name}`
+		);
+	}
+
+	try {
+		const result = await gateway.createRefund({
+			paymentId: refund.providerPaymentId,
+			amount: refund.amount,
+			receipt: refund.bookingNumber,
+			notes: { bookingId: refund.bookingId.toString() }
+		});
+
+		if (result.status === 'processed') {
+			return markRefundSucceeded(refund._id, ['processing'], { referenceId: result.refundId });
+		}
+
+		return RefundModel.findOneAndUpdate(
+			{ _id: refund._id, status: 'processing' },
+			{ $set: { referenceId: result.refundId } },
+			{ new: true }
+		);
+	} catch (error) {
+		console.error(`Refund for booking ${refund.bookingNumber} failed:`, error);
+		return markRefundFailed(
+			refund._id,
+			['processing'],
+			error instanceof Error ? error.message : 'Payment provider error'
+		);
+	}
+}
+
+/**
+ * Applies a verified 'refund.processed' or 'refund.failed' webhook.
+ *
+ * Matches the refund by the provider's refund ID, falling back to a
+ * 'processing' refund for the same payment in case the webhook arrives
+ * before the refund ID was saved. Refunds made outside this system
+ * (e.g. from the provider dashboard) have no record and are skipped.
+ */
+export async function applyRefundEvent(event: PaymentWebhookEvent): Promise<void> {
+	if (!event.refundId && !event.paymentId) {
+		return;
+	}
+
+	const refund = await RefundModel.findOne({
+		$or: [
+			...(event.refundId ? [{ referenceId: event.refundId }] : []),
+			...(event.paymentId ? [{ providerPaymentId: event.paymentId, status: 'processing' }] : [])
+		]
+	});
+
+	if (!refund) {
+		return;
+	}
+
+	if (event.type === 'refund.processed') {
+		await markRefundSucceeded(refund._id, ['requested', 'processing', 'failed'], {
+			referenceId: event.refundId
+		});
+	} else if (event.type === 'refund.failed') {
+		await markRefundFailed(
+			refund._id,
+			['processing'],
+			event.failureReason || 'Refund failed at the payment provider'
+		);
+	}
+}
@@ -0,0 +1,212 @@
+/**
+ * Permission Store
+ *
+ * Reads role permissions from the `roles` collection and keeps them in
+ * memory, so permission checks don't hit the database on every request.
+ *
+ * - Roles missing from the database are seeded from DEFAULT_ROLES
+ * - An edit through this store clears the cache on this instance at once
+ * - Other instances pick the edit up when their cache expires
+ *   (PERMISSION_CACHE_TTL_MS, default 60 seconds)
+ * - If the database cannot be read, the last loaded permissions are kept
+ */
+
+import { Types } from 'mongoose';
+import { IRole, RoleModel } from '../../models/roles/Role.model';
+import { UserRole } from '../../models/users/User.model';
+
+/** How long loaded permissions are trusted */
+const CACHE_TTL_MS = parseInt(process.env.PERMISSION_CACHE_TTL_MS || '60000', 10);
+
+/**
+ * Roles and permissions seeded into an empty database.
+ *
+ * Permissions have the format 'resource:action'; '*' grants everything.
+ * 'booking:manage' covers confirming, rejecting and completing bookings
+ * on one's own listings; the booking routes check that the listing is the
+ * user's own.
+ */
+export const DEFAULT_ROLES: Record<UserRole, Pick<IRole, 'description' | 'permissions'>> = {
+	admin: {
+		description: 'Full system access',
+		permissions: ['*']
+	},
+
+	host: {
+		description: 'Homestay owners',
+		permissions: [
+			'homestay:create',
+			'homestay:read',
+			'homestay:update',
+			'homestay:delete',
+			'booking:read',
+			'booking:update',
+			'booking:cancel',
+			'booking:manage',
+			'profile:read',
+			'profile:update'
+		]
+	},
+
+	guide: {
+		description: 'Tour guides',
+		permissions: [
+			'guide:create',
+			'guide:read',
+			'guide:update',
+			'booking:read',
+			'booking:update',
+			'booking:cancel',
+			'booking:manage',
+			'profile:read',
+			'profile:update'
+		]
+	},
+
+	customer: {
+		description: 'Tourists and visitors',
+		permissions: [
+			'homestay:read',
+			'guide:read',
+			'product:read',
+			'booking:create',
+			'booking:read',
+			'booking:update',
+			'booking:cancel',
+			'search:read',
+			'profile:read',
+			'profile:update'
+		]
+	}
+};
+
+let cache: Map<string, string[]> | null = null;
+let loadedAt = 0;
+let loading: Promise<Map<string, string[]>> | null = null;
+let seeded = false;
+
+/** Bumped on every invalidation, so a read started before it is not cached */
+let generation = 0;
+
+/**
+ * Inserts the default roles that are not in the database yet.
+ * Roles an admin has edited are left alone.
+ */
+export async function seedRoles(): Promise<void> {
+	await RoleModel.bulkWrite(
+		(Object.keys(DEFAULT_ROLES) as UserRole[]).map((name) => ({
+			updateOne: {
+				filter: { _id: name },
+				update: { $setOnInsert: DEFAULT_ROLES[name] },
+				upsert: true
+			}
+		}))
+	);
+
+	seeded = true;
+}
+
+async function loadPermissions(): Promise<Map<string, string[]>> {
+	if (!seeded) {
+		await seedRoles();
+	}
+
+	const startedAt = generation;
+	const roles = await RoleModel.find().lean();
+	const permissions = new Map(roles.map((role) => [role._id as string, role.permissions]));
+
+	if (startedAt === generation) {
+		cache = permissions;
+		loadedAt = Date.now();
+	}
+
+	return permissions;
+}
+
+/**
+ * Gets the permissions of every role, from memory while the cache is fresh.
+ * Concurrent callers share one database read.
+ */
+async function getPermissionMap(): Promise<Map<string, string[]>> {
+	if (cache && Date.now() - loadedAt < CACHE_TTL_MS) {
+		return cache;
+	}
+
+	if (!loading) {
+		const load = loadPermissions().finally(() => {
+			if (loading === load) {
+				loading = null;
+			}
+		});
+		loading = load;
+	}
+
+	try {
+		return await loading;
+	} catch (error) {
+		if (!cache) {
+			throw error;
+		}
+
+		console.error('Failed to reload role permissions, using the cached ones:', error);
+		return cache;
+	}
+}
+
+/**
+ * Gets the permissions of a role.
+ *
+ * @param role - Role name
+ * @returns Permission strings (empty for an unknown role)
+ */
+export async function getRolePermissions(role: string): Promise<string[]> {
+	return (await getPermissionMap()).get(role) || [];
+}
+
+/**
+ * Clears the cached permissions; the next check reads the database.
+ */
+export function invalidatePermissionCache(): void {
+	generation++;
+	loadedAt = 0;
+	loading = null;
+}
+
+/**
+ * Lists all roles, seeding the defaults first if needed.
+ */
+export async function listRoles(): Promise<IRole[]> {
+	if (!seeded) {
+		await seedRoles();
+	}
+
+	return RoleModel.find().sort({ _id: 1 }).lean();
+}
+
+/**
+ * Replaces a role's permissions (and optionally its description).
+ *
+ * @param name - Role name
+ * @param changes - New permissions and description
+ * @param updatedBy - Admin making the change
+ * @returns The updated role, or null if it does not exist
+ */
+export async function updateRole(
+	name: UserRole,
+	changes: { permissions: string[]; description?: string },
+	updatedBy: string
+): Promise<IRole | null> {
+	if (!seeded) {
+		await seedRoles();
+	}
+
+	const role = await RoleModel.findByIdAndUpdate(
+		name,
+		{ $set: { ...changes, updatedBy: new Types.ObjectId(updatedBy) } },
+		{ new: true }
+	).lean();
+
+	invalidatePermissionCache();
+
+	return role;
+}
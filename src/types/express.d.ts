@@ -69,6 +69,14 @@ declare global {
 			 * }
 			 */
 			user?: JwtPayload;
+
+			/**
+			 * Unparsed JSON request body.
+			 *
+			 * Kept by the JSON body parser so webhook signatures can be
+			 * checked against the exact bytes the provider signed.
+			 */
+			rawBody?: Buffer;
 		}
 	}
 }
@@ -0,0 +1,194 @@
+/**
+ * Availability Utilities
+ *
+ * Works out which dates a homestay or guide can be booked for.
+ * A night is unavailable when a non-cancelled booking or a host
+ * availability block covers it.
+ */
+
+import { Types } from 'mongoose';
+import { BookingModel } from '../models/bookings/Booking.model';
+import { AvailabilityBlockModel } from '../models/inventory/AvailabilityBlock.model';
+import { IHomestayDocument } from '../models/homestays/Homestay.model';
+import { IGuideDocument } from '../models/guides/Guide.model';
+import { DAY_MS, countNights, getNightDates, startOfUTCDay, toDateString } from './date.utils';
+import { getNightlyRate } from './pricing.utils';
+
+/**
+ * Status of a single calendar day.
+ *
+ * - 'available': Can be booked
+ * - 'booked': Held by a booking
+ * - 'blocked': Blocked by the host (or the guide is unavailable)
+ */
+export type DayStatus = 'available' | 'booked' | 'blocked';
+
+/**
+ * One day of an availability calendar.
+ */
+export interface CalendarDay {
+	/** Night/tour day (YYYY-MM-DD) */
+	date: string;
+
+	/** Whether the day can be booked */
+	status: DayStatus;
+
+	/** Nightly (homestay) or full-day (guide) price in INR */
+	price: number;
+}
+
+/**
+ * A booking or block that overlaps requested dates.
+ */
+export interface DateConflict {
+	type: 'booking' | 'block';
+	id: Types.ObjectId;
+	checkIn: string;
+	checkOut: string;
+}
+
+/**
+ * A homestay or guide whose calendar is being built.
+ */
+export type CalendarListing =
+	| { listingType: 'homestay'; listing: IHomestayDocument }
+	| { listingType: 'guide'; listing: IGuideDocument };
+
+/** Days shown when the client does not pick a range */
+const DEFAULT_CALENDAR_DAYS = 30;
+
+/**
+ * Resolves the calendar range from optional query dates.
+ *
+ * `from` defaults to today and `to` to 30 days after `from`.
+ *
+ * @returns The range, or null if it is empty or longer than maxDays
+ */
+export function resolveCalendarRange(
+	from: string | undefined,
+	to: string | undefined,
+	maxDays: number
+): { from: Date; to: Date } | null {
+	const start = from ? new Date(from) : startOfUTCDay(new Date());
+	const end = to ? new Date(to) : new Date(start.getTime() + DEFAULT_CALENDAR_DAYS * DAY_MS);
+	const days = countNights(start, end);
+
+	return days > 0 && days <= maxDays ? { from: start, to: end } : null;
+}
+
+/**
+ * Builds the query for records overlapping [checkIn, checkOut).
+ */
+function overlapQuery(startField: string, endField: string, start: Date, end: Date) {
+	return {
+		$and: [
+			{ [startField]: { $lt: end } },
+			{ [endField]: { $gt: start } }
+		]
+	};
+}
+
+/**
+ * Checks if dates conflict with existing bookings or host blocks.
+ *
+ * @param excludeBookingId - Booking to ignore (when changing its own dates)
+ * @returns The first conflicting booking or block, or null if the dates are free
+ */
+export async function hasDateConflict(
+	listingId: string,
+	checkIn: Date,
+	checkOut: Date,
+	excludeBookingId?: string
+): Promise<DateConflict | null> {
+	const bookingQuery: Record<string, unknown> = {
+		listingId,
+		status: { $ne: 'cancelled' },
+		...overlapQuery('checkIn', 'checkOut', checkIn, checkOut)
+	};
+
+	if (excludeBookingId) {
+		bookingQuery._id = { $ne: excludeBookingId };
+	}
+
+	const booking = await BookingModel.findOne(bookingQuery);
+	if (booking) {
+		return {
+			type: 'booking',
+			id: booking._id as Types.ObjectId,
+			checkIn: toDateString(booking.checkIn),
+			checkOut: toDateString(booking.checkOut)
+		};
+	}
+
+	const block = await AvailabilityBlockModel.findOne({
+		listingId,
+		...overlapQuery('startDate', 'endDate', checkIn, checkOut)
+	});
+	if (block) {
+		return {
+			type: 'block',
+			id: block._id as Types.ObjectId,
+			checkIn: toDateString(block.startDate),
+			checkOut: toDateString(block.endDate)
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Builds a day-by-day calendar for [from, to).
+ *
+ * @param calendarListing - The homestay or guide
+ * @param from - First day
+ * @param to - Day after the last day
+ */
+export async function buildAvailabilityCalendar(
+	calendarListing: CalendarListing,
+	from: Date,
+	to: Date
+): Promise<CalendarDay[]> {
+	const listingId = calendarListing.listing._id;
+
+	const [bookings, blocks] = await Promise.all([
+		BookingModel.find({
+			listingId,
+			status: { $ne: 'cancelled' },
+			...overlapQuery('checkIn', 'checkOut', from, to)
+		}).select('checkIn checkOut'),
+		AvailabilityBlockModel.find({
+			listingId,
+			...overlapQuery('startDate', 'endDate', from, to)
+		}).select('startDate endDate')
+	]);
+
+	const booked = new Set<string>();
+	for (const booking of bookings) {
+		getNightDates(booking.checkIn, booking.checkOut).forEach((night) => booked.add(toDateString(night)));
+	}
+
+	const blocked = new Set<string>();
+	for (const block of blocks) {
+		getNightDates(block.startDate, block.endDate).forEach((night) => blocked.add(toDateString(night)));
+	}
+
+	const guideUnavailable = calendarListing.listingType === 'guide'
+		&& calendarListing.listing.availability === 'unavailable';
+
+	return getNightDates(from, to).map((day) => {
+		const date = toDateString(day);
+		let status: DayStatus = 'available';
+
+		if (booked.has(date)) {
+			status = 'booked';
+		} else if (blocked.has(date) || guideUnavailable) {
+			status = 'blocked';
+		}
+
+		const price = calendarListing.listingType === 'homestay'
+			? getNightlyRate(calendarListing.listing.pricing, day)
+			: calendarListing.listing.pricing.fullDay;
+
+		return { date, status, price };
+	});
+}
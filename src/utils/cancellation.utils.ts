@@ -0,0 +1,65 @@
+/**
+ * Cancellation Utilities
+ *
+ * Works out how much of a booking is refunded when it is cancelled.
+ * Guests are refunded according to the listing's cancellation policy;
+ * cancellations by the host, an admin or the system are always refunded
+ * in full because the guest did nothing wrong.
+ */
+
+import { BookingCancellation, CancelledBy } from '../models/bookings/Booking.model';
+import { CancellationPolicy, getRefundTiers } from '../models/policies/CancellationPolicy.model';
+import { DAY_MS } from './date.utils';
+
+/**
+ * Works out the side that cancelled.
+ *
+ * A host or guide only cancels as the host on their own listing; on
+ * anyone else's listing they booked as a traveler and are a guest.
+ *
+ * @param role - Role recorded in the status history
+ * @param ownsListing - Whether the actor owns the booked listing
+ */
+export function getCancelledBy(role: string, ownsListing: boolean): CancelledBy {
+	if (role === 'admin') return 'admin';
+	if (role === 'system') return 'system';
+	if ((role === 'host' || role === 'guide') && ownsListing) return 'host';
+	return 'guest';
+}
+
+/**
+ * Calculates the refund for a cancellation.
+ *
+ * @param policy - Cancellation policy the booking was made under
+ * @param checkIn - Booking check-in date
+ * @param amountPaid - Amount the guest has paid in INR (0 if unpaid)
+ * @param cancelledBy - Who cancelled
+ * @param now - Cancellation time (defaults to now)
+ */
+export function calculateCancellationRefund(
+	policy: CancellationPolicy,
+	checkIn: Date,
+	amountPaid: number,
+	cancelledBy: CancelledBy,
+	now: Date = new Date()
+): BookingCancellation {
+	const daysBeforeCheckIn = (checkIn.getTime() - now.getTime()) / DAY_MS;
+
+	let refundPercent = 100;
+
+	if (cancelledBy === 'guest') {
+		const tier = getRefundTiers(policy).find((t) => daysBeforeCheckIn >= t.daysBeforeCheckIn);
+		refundPercent = tier ? tier.refundPercent : 0;
+	}
+
+	const refundAmount = Math.round((amountPaid * refundPercent) / 100);
+
+	return {
+		cancelledBy,
+		policy: policy.type,
+		daysBeforeCheckIn: Math.floor(daysBeforeCheckIn),
+		refundPercent,
+		refundAmount,
+		refundStatus: refundAmount > 0 ? 'requested' : 'none'
+	};
+}
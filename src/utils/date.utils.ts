@@ -0,0 +1,66 @@
+/**
+ * Date Utilities
+ *
+ * Helpers for working with stay dates. Bookings are stored per night:
+ * a stay from the 10th to the 12th covers the nights of the 10th and 11th.
+ * All calculations use UTC so 'YYYY-MM-DD' strings map to exact days.
+ */
+
+/** Milliseconds in one day */
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Counts nights between two dates, matching the booking pre-save hook.
+ */
+export function countNights(checkIn: Date, checkOut: Date): number {
+	return Math.ceil((checkOut.getTime() - checkIn.getTime()) / DAY_MS);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (UTC).
+ */
+export function toDateString(date: Date): string {
+	return date.toISOString().split('T')[0];
+}
+
+/**
+ * Returns midnight UTC of the given date's day.
+ */
+export function startOfUTCDay(date: Date): Date {
+	return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Lists the nights covered by a stay (midnight UTC of each night).
+ *
+ * @example
+ * getNightDates(new Date('2025-12-10'), new Date('2025-12-12'))
+ * // [2025-12-10T00:00:00Z, 2025-12-11T00:00:00Z]
+ */
+export function getNightDates(checkIn: Date, checkOut: Date): Date[] {
+	const first = startOfUTCDay(checkIn);
+	const nights = countNights(checkIn, checkOut);
+	const dates: Date[] = [];
+
+	for (let i = 0; i < nights; i++) {
+		dates.push(new Date(first.getTime() + i * DAY_MS));
+	}
+
+	return dates;
+}
+
+/** India Standard Time offset from UTC (+05:30) */
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Gets the Indian financial year (April - March) a moment falls in.
+ *
+ * @example
+ * getFinancialYear(new Date('2026-03-31T20:00:00Z')) // '2026-27' (already 1 April in IST)
+ */
+export function getFinancialYear(date: Date): string {
+	const ist = new Date(date.getTime() + IST_OFFSET_MS);
+	const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+
+	return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
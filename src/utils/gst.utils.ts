@@ -0,0 +1,147 @@
+/**
+ * GST Utilities
+ *
+ * Works out the Goods and Services Tax on a booking. Each kind of supply
+ * has its own SAC (Services Accounting Code) and rate:
+ *
+ * - Homestay nights: slab by the tariff of each night
+ *     up to ₹1,000 per night     exempt
+ *     ₹1,001 - ₹7,500 per night  5%
+ *     above ₹7,500 per night     18%
+ * - Cleaning fee: part of the stay, taxed at its highest night's rate
+ * - Guide services: 18%
+ * - Platform service fee: 18%
+ *
+ * Rates follow the GST Council revision effective 22 September 2025.
+ * All supplies are treated as made within Jharkhand, so GST is split
+ * equally into CGST and SGST.
+ */
+
+import { BookingTaxLine, ListingType } from '../models/bookings/Booking.model';
+
+/**
+ * SAC codes printed on invoices.
+ */
+export const SAC_CODES = {
+	/** Room or unit accommodation services for visitors */
+	accommodation: '996311',
+
+	/** Tourist guide services */
+	tourGuide: '998556',
+
+	/** Reservation services (our platform fee) */
+	reservation: '998552'
+} as const;
+
+/**
+ * Accommodation GST slabs by tariff per night, lowest first.
+ */
+export const ACCOMMODATION_GST_SLABS: { maxTariff: number; rate: number }[] = [
+	{ maxTariff: 1000, rate: 0 },
+	{ maxTariff: 7500, rate: 5 },
+	{ maxTariff: Infinity, rate: 18 }
+];
+
+/** GST rate on guide services */
+export const GUIDE_SERVICES_GST_RATE = 18;
+
+/** GST rate on the platform service fee */
+export const SERVICE_FEE_GST_RATE = 18;
+
+/**
+ * Charges a booking's GST is calculated on.
+ */
+export interface TaxableCharges {
+	listingType: ListingType;
+
+	/** Charge for each night (homestay) or day (guide) in INR */
+	dailyCharges: number[];
+
+	/** Homestay cleaning fee in INR */
+	cleaningFee?: number;
+
+	/** Platform service fee in INR */
+	serviceFee: number;
+}
+
+/**
+ * Rounds an amount to paise.
+ */
+export function roundPaise(amount: number): number {
+	return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Gets the accommodation GST rate for a night's tariff.
+ */
+export function getAccommodationGstRate(tariffPerNight: number): number {
+	return ACCOMMODATION_GST_SLABS.find((slab) => tariffPerNight <= slab.maxTariff)?.rate ?? 18;
+}
+
+/**
+ * Builds one tax line.
+ */
+function taxLine(description: string, sacCode: string, taxableValue: number, gstRate: number): BookingTaxLine {
+	return {
+		description,
+		sacCode,
+		taxableValue: roundPaise(taxableValue),
+		gstRate,
+		tax: roundPaise((taxableValue * gstRate) / 100)
+	};
+}
+
+/**
+ * Calculates GST for a booking, one line per supply and rate.
+ *
+ * Homestay nights in different slabs (e.g. a weekend price above
+ * ₹7,500) produce separate accommodation lines.
+ */
+export function calculateTaxLines(charges: TaxableCharges): BookingTaxLine[] {
+	const lines: BookingTaxLine[] = [];
+
+	if (charges.listingType === 'homestay') {
+		const byRate = new Map<number, number>();
+
+		for (const tariff of charges.dailyCharges) {
+			const rate = getAccommodationGstRate(tariff);
+			byRate.set(rate, (byRate.get(rate) || 0) + tariff);
+		}
+
+		for (const [rate, value] of [...byRate.entries()].sort(([a], [b]) => a - b)) {
+			lines.push(taxLine('Accommodation', SAC_CODES.accommodation, value, rate));
+		}
+
+		if (charges.cleaningFee) {
+			const stayRate = Math.max(0, ...byRate.keys());
+			lines.push(taxLine('Cleaning fee', SAC_CODES.accommodation, charges.cleaningFee, stayRate));
+		}
+	} else {
+		const value = charges.dailyCharges.reduce((sum, charge) => sum + charge, 0);
+		lines.push(taxLine('Tourist guide services', SAC_CODES.tourGuide, value, GUIDE_SERVICES_GST_RATE));
+	}
+
+	if (charges.serviceFee > 0) {
+		lines.push(taxLine('Platform service fee', SAC_CODES.reservation, charges.serviceFee, SERVICE_FEE_GST_RATE));
+	}
+
+	return lines.filter((line) => line.taxableValue > 0);
+}
+
+/**
+ * Sums the GST of tax lines (in paise precision).
+ */
+export function getTotalTax(lines: BookingTaxLine[]): number {
+	return roundPaise(lines.reduce((sum, line) => sum + line.tax, 0));
+}
+
+/**
+ * Splits a GST amount into CGST and SGST halves.
+ *
+ * Any odd paisa goes to CGST so the halves always add up.
+ */
+export function splitIntraStateTax(tax: number): { cgst: number; sgst: number } {
+	const paise = Math.round(tax * 100);
+	const sgst = Math.floor(paise / 2);
+	return { cgst: (paise - sgst) / 100, sgst: sgst / 100 };
+}
@@ -0,0 +1,197 @@
+/**
+ * iCalendar Utilities
+ *
+ * Minimal RFC 5545 support for syncing homestay calendars with other
+ * platforms: writing all-day VEVENTs for a feed, and reading the
+ * VEVENTs out of an uploaded .ics file.
+ */
+
+import { DAY_MS, startOfUTCDay, toDateString } from './date.utils';
+
+/**
+ * An all-day event in a feed (end is exclusive, like checkOut).
+ */
+export interface CalendarEvent {
+	uid: string;
+	start: Date;
+	end: Date;
+	summary: string;
+	description?: string;
+}
+
+/**
+ * An event read from an imported .ics file.
+ */
+export interface ParsedCalendarEvent {
+	uid?: string;
+	start: Date;
+	end: Date;
+	summary?: string;
+}
+
+/** Product identifier written into exported calendars */
+const PRODID = '-//JharkhandYatra//Homestay Calendar//EN';
+
+/**
+ * Formats a date as an iCalendar DATE value (YYYYMMDD).
+ */
+function toICalDate(date: Date): string {
+	return toDateString(date).replace(/-/g, '');
+}
+
+/**
+ * Formats a timestamp as an iCalendar UTC DATE-TIME value.
+ */
+function toICalDateTime(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes TEXT values (RFC 5545 section 3.3.11).
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Reverses escapeText.
+ */
+function unescapeText(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+		char === 'n' || char === 'N' ? '\n' : char
+	);
+}
+
+/**
+ * Folds a content line at 75 octets (continuation lines start with a space).
+ */
+function foldLine(line: string): string {
+	const parts: string[] = [];
+	let rest = line;
+
+	while (Buffer.byteLength(rest) > 75) {
+		let cut = 75;
+		while (Buffer.byteLength(rest.slice(0, cut)) > 75) {
+			cut--;
+		}
+		parts.push(rest.slice(0, cut));
+		rest = ' ' + rest.slice(cut);
+	}
+
+	parts.push(rest);
+	return parts.join('\r\n');
+}
+
+/**
+ * Builds a VCALENDAR document of all-day events.
+ *
+ * @param name - Calendar name shown by the importing platform
+ * @param events - Events to include
+ */
+export function buildICalendar(name: string, events: CalendarEvent[]): string {
+	const stamp = toICalDateTime(new Date());
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(name)}`
+	];
+
+	for (const event of events) {
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:${event.uid}`,
+			`DTSTAMP:${stamp}`,
+			`DTSTART;VALUE=DATE:${toICalDate(event.start)}`,
+			`DTEND;VALUE=DATE:${toICalDate(event.end)}`,
+			`SUMMARY:${escapeText(event.summary)}`
+		);
+
+		if (event.description) {
+			lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+		}
+
+		lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+	}
+
+	lines.push('END:VCALENDAR');
+
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses a DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS[Z]) value.
+ *
+ * Times are dropped - a stay only cares about which days it covers.
+ */
+function parseICalDate(value: string): Date | null {
+	const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+	if (!match) {
+		return null;
+	}
+
+	const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads the VEVENTs out of an .ics file.
+ *
+ * Events without a usable DTSTART are ignored. A missing DTEND means a
+ * single day, and an end on or before the start is widened to one day.
+ */
+export function parseICalendar(ics: string): ParsedCalendarEvent[] {
+	// Unfold continuation lines, then split into content lines
+	const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+	const events: ParsedCalendarEvent[] = [];
+	let current: Record<string, string> | null = null;
+
+	for (const line of lines) {
+		if (line === 'BEGIN:VEVENT') {
+			current = {};
+			continue;
+		}
+
+		if (line === 'END:VEVENT') {
+			const start = current?.DTSTART ? parseICalDate(current.DTSTART) : null;
+
+			if (current && start) {
+				const parsedEnd = current.DTEND ? parseICalDate(current.DTEND) : null;
+				const end = parsedEnd && parsedEnd > start
+					? parsedEnd
+					: new Date(start.getTime() + DAY_MS);
+
+				events.push({
+					uid: current.UID,
+					start: startOfUTCDay(start),
+					end,
+					summary: current.SUMMARY ? unescapeText(current.SUMMARY) : undefined
+				});
+			}
+
+			current = null;
+			continue;
+		}
+
+		if (!current) {
+			continue;
+		}
+
+		const separator = line.indexOf(':');
+		if (separator === -1) {
+			continue;
+		}
+
+		// Property name without parameters (DTSTART;VALUE=DATE -> DTSTART)
+		const name = line.slice(0, separator).split(';')[0].toUpperCase();
+		current[name] = line.slice(separator + 1);
+	}
+
+	return events;
+}
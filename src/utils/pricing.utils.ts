@@ -0,0 +1,215 @@
+/**
+ * Pricing Utilities
+ *
+ * Calculates booking prices on the server from the listing's own pricing.
+ * Clients never decide what they pay - they can only ask for a quote and
+ * the same functions are used again when the booking is created.
+ */
+
+import { HomestayPricing } from '../models/homestays/Homestay.model';
+import { GuidePricing } from '../models/guides/Guide.model';
+import { BookingPricing, ListingType, TourDuration } from '../models/bookings/Booking.model';
+import { getNightDates, toDateString } from './date.utils';
+import { calculateTaxLines, getTotalTax } from './gst.utils';
+
+/**
+ * Platform service fee as a percentage of the stay/tour subtotal.
+ */
+const SERVICE_FEE_PERCENT = parseFloat(process.env.BOOKING_SERVICE_FEE_PERCENT || '10');
+
+/**
+ * One itemized line of a quote (a night, a tour day, or a fee).
+ */
+export interface QuoteLineItem {
+	/** Date the charge applies to (YYYY-MM-DD), omitted for one-time fees */
+	date?: string;
+
+	/** Human-readable description (e.g., 'Weekend night', 'Cleaning fee') */
+	description: string;
+
+	/** Amount in INR */
+	amount: number;
+}
+
+/**
+ * Complete server-side quote for a booking.
+ */
+export interface BookingQuote {
+	/** Number of nights (homestay) or days (guide) being charged */
+	nights: number;
+
+	/** Guide tour duration that was priced (guide bookings only) */
+	tourDuration?: TourDuration;
+
+	/** Totals stored on the booking */
+	pricing: BookingPricing;
+
+	/** Itemized breakdown shown to the guest */
+	lineItems: QuoteLineItem[];
+}
+
+/**
+ * Rounds an amount to the nearest rupee.
+ */
+function roundRupees(amount: number): number {
+	return Math.round(amount);
+}
+
+/**
+ * Checks whether the night starting on this date is a weekend night.
+ *
+ * Friday and Saturday nights are charged at the weekend price.
+ */
+export function isWeekendNight(date: Date): boolean {
+	const day = date.getUTCDay();
+	return day === 5 || day === 6;
+}
+
+/**
+ * Returns the homestay's price for the night starting on this date.
+ *
+ * Uses the weekend price on Friday and Saturday nights when one is set.
+ */
+export function getNightlyRate(pricing: HomestayPricing, date: Date): number {
+	return isWeekendNight(date) && pricing.weekendPrice !== undefined
+		? pricing.weekendPrice
+		: pricing.basePrice;
+}
+
+/**
+ * Adds service fee and GST on top of the listing charges.
+ *
+ * @param dailyCharges - Charge for each night or tour day
+ */
+function buildPricing(listingType: ListingType, dailyCharges: number[], cleaningFee?: number): BookingPricing {
+	const basePrice = dailyCharges.reduce((sum, charge) => sum + charge, 0);
+	const subtotal = basePrice + (cleaningFee || 0);
+	const serviceFee = roundRupees((subtotal * SERVICE_FEE_PERCENT) / 100);
+	const taxLines = calculateTaxLines({ listingType, dailyCharges, cleaningFee, serviceFee });
+	const taxes = roundRupees(getTotalTax(taxLines));
+
+	return {
+		basePrice,
+		...(cleaningFee !== undefined && { cleaningFee }),
+		serviceFee,
+		taxes,
+		taxLines,
+		total: subtotal + serviceFee + taxes
+	};
+}
+
+/**
+ * Prices a homestay stay night by night.
+ *
+ * @param pricing - The homestay's pricing
+ * @param checkIn - Check-in date
+ * @param checkOut - Check-out date
+ */
+export function calculateHomestayQuote(
+	pricing: HomestayPricing,
+	checkIn: Date,
+	checkOut: Date
+): BookingQuote {
+	const nightDates = getNightDates(checkIn, checkOut);
+	const lineItems: QuoteLineItem[] = [];
+	const nightlyRates: number[] = [];
+
+	for (const night of nightDates) {
+		const weekend = isWeekendNight(night) && pricing.weekendPrice !== undefined;
+		const rate = getNightlyRate(pricing, night);
+
+		nightlyRates.push(rate);
+		lineItems.push({
+			date: toDateString(night),
+			description: weekend ? 'Weekend night' : 'Night',
+			amount: rate
+		});
+	}
+
+	if (pricing.cleaningFee) {
+		lineItems.push({ description: 'Cleaning fee', amount: pricing.cleaningFee });
+	}
+
+	const result = buildPricing('homestay', nightlyRates, pricing.cleaningFee || undefined);
+
+	lineItems.push(
+		{ description: 'Service fee', amount: result.serviceFee || 0 },
+		{ description: 'GST', amount: result.taxes || 0 }
+	);
+
+	return { nights: nightDates.length, pricing: result, lineItems };
+}
+
+/**
+ * Prices a guide booking by tour duration.
+ *
+ * Single-day bookings are charged the half-day or full-day rate.
+ * Longer bookings use the multi-day rate per day, falling back to the
+ * full-day rate when the guide has not set one.
+ *
+ * @param pricing - The guide's pricing
+ * @param checkIn - First day of the tour
+ * @param checkOut - Day after the last day of the tour
+ * @param requestedDuration - Optional duration chosen by the guest
+ */
+export function calculateGuideQuote(
+	pricing: GuidePricing,
+	checkIn: Date,
+	checkOut: Date,
+	requestedDuration?: TourDuration
+): BookingQuote {
+	const tourDays = getNightDates(checkIn, checkOut);
+	const days = tourDays.length;
+	const tourDuration: TourDuration = days > 1
+		? 'multiDay'
+		: requestedDuration === 'halfDay' ? 'halfDay' : 'fullDay';
+
+	const lineItems: QuoteLineItem[] = [];
+	const dailyRates: number[] = [];
+
+	for (const day of tourDays) {
+		let rate: number;
+		let description: string;
+
+		if (tourDuration === 'halfDay') {
+			rate = pricing.halfDay;
+			description = 'Half-day tour';
+		} else if (tourDuration === 'multiDay' && pricing.multiDay !== undefined) {
+			rate = pricing.multiDay;
+			description = 'Multi-day tour (per day)';
+		} else {
+			rate = pricing.fullDay;
+			description = 'Full-day tour';
+		}
+
+		dailyRates.push(rate);
+		lineItems.push({ date: toDateString(day), description, amount: rate });
+	}
+
+	const result = buildPricing('guide', dailyRates);
+
+	lineItems.push(
+		{ description: 'Service fee', amount: result.serviceFee || 0 },
+		{ description: 'GST', amount: result.taxes || 0 }
+	);
+
+	return { nights: days, tourDuration, pricing: result, lineItems };
+}
+
+/**
+ * Checks whether a client-supplied total matches the server quote.
+ *
+ * @param clientPricing - Pricing sent by the client, if any
+ * @param quote - Server-calculated quote
+ * @returns True when the client sent no pricing or the totals match
+ */
+export function isClientPricingAccepted(
+	clientPricing: BookingPricing | undefined,
+	quote: BookingQuote
+): boolean {
+	if (!clientPricing) {
+		return true;
+	}
+
+	return roundRupees(clientPricing.total) === quote.pricing.total;
+}
@@ -10,8 +10,12 @@ export {
 	paginationQuerySchema,
 	coordinatesSchema,
 	idParamSchema,
+	cancellationPolicySchema,
+	assignOwnerSchema,
 	type PaginationQuery,
-	type Coordinates
+	type Coordinates,
+	type CancellationPolicyDTO,
+	type AssignOwnerDTO
 } from './schemas/common.schema';
 
 // Homestay schemas
@@ -47,13 +51,64 @@ export {
 // Booking schemas
 export {
 	createBookingSchema,
+	bookingQuoteSchema,
+	changeBookingDatesSchema,
 	cancelBookingSchema,
 	bookingQuerySchema,
+	invoiceQuerySchema,
+	bookingLookupSchema,
+	guestCancelBookingSchema,
 	type CreateBookingDTO,
+	type BookingQuoteDTO,
+	type ChangeBookingDatesDTO,
 	type CancelBookingDTO,
-	type BookingQuery
+	type BookingQuery,
+	type InvoiceQuery,
+	type BookingLookupDTO,
+	type GuestCancelBookingDTO
 } from './schemas/booking.schema';
 
+// Payment schemas
+export {
+	createPaymentOrderSchema,
+	orderIdParamSchema,
+	mockPaymentSchema,
+	type CreatePaymentOrderDTO,
+	type MockPaymentDTO
+} from './schemas/payment.schema';
+
+// Refund schemas
+export {
+	refundQuerySchema,
+	completeRefundSchema,
+	failRefundSchema,
+	type RefundQuery,
+	type CompleteRefundDTO,
+	type FailRefundDTO
+} from './schemas/refund.schema';
+
+// Job schemas
+export {
+	jobQuerySchema,
+	type JobQuery
+} from './schemas/job.schema';
+
+// User administration schemas
+export {
+	lockoutEventQuerySchema,
+	type LockoutEventQuery
+} from './schemas/user.schema';
+
+// Availability schemas
+export {
+	availabilityQuerySchema,
+	createBlockSchema,
+	blockParamSchema,
+	MAX_CALENDAR_DAYS,
+	type AvailabilityQuery,
+	type CreateBlockDTO
+} from './schemas/availability.schema';
+
 // Search schemas
 export {
 	searchQuerySchema,
@@ -62,12 +117,40 @@ export {
 	type AutocompleteQuery
 } from './schemas/search.schema';
 
+// Role application schemas
+export {
+	createRoleApplicationSchema,
+	approveRoleApplicationSchema,
+	rejectRoleApplicationSchema,
+	roleApplicationQuerySchema,
+	type CreateRoleApplicationDTO,
+	type ApproveRoleApplicationDTO,
+	type RejectRoleApplicationDTO,
+	type RoleApplicationQuery
+} from './schemas/roleApplication.schema';
+
+// Role schemas
+export {
+	roleNameParamSchema,
+	updateRoleSchema,
+	type RoleNameParam,
+	type UpdateRoleDTO
+} from './schemas/role.schema';
+
 // Auth schemas
 export {
 	registerSchema,
 	loginSchema,
+	refreshTokenSchema,
+	forgotPasswordSchema,
+	resetPasswordSchema,
+	verifyEmailQuerySchema,
 	updateProfileSchema,
 	type RegisterDTO,
 	type LoginDTO,
+	type RefreshTokenDTO,
+	type ForgotPasswordDTO,
+	type ResetPasswordDTO,
+	type VerifyEmailQueryDTO,
 	type UpdateProfileDTO
 } from './schemas/auth.schema';
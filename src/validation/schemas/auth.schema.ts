@@ -18,6 +18,9 @@ const passwordSchema = z
 
 /**
  * Schema for user registration.
+ *
+ * There is no role field: every account starts as a customer and applies
+ * for the host or guide role (see roleApplication.schema).
  */
 export const registerSchema = z.object({
 	email: z.string().email('Invalid email format').toLowerCase().trim(),
@@ -26,8 +29,7 @@ export const registerSchema = z.object({
 		.string()
 		.min(1, 'Name is required')
 		.max(100, 'Name must be less than 100 characters')
-		.trim(),
-	role: z.enum(['host', 'guide', 'customer']).default('customer')
+		.trim()
 });
 
 /**
@@ -38,6 +40,35 @@ export const loginSchema = z.object({
 	password: z.string().min(1, 'Password is required')
 });
 
+/**
+ * Schema for refreshing tokens and logging out.
+ */
+export const refreshTokenSchema = z.object({
+	refreshToken: z.string().trim().min(1, 'Refresh token is required').max(200)
+});
+
+/**
+ * Schema for requesting a password reset email.
+ */
+export const forgotPasswordSchema = z.object({
+	email: z.string().email('Invalid email format').toLowerCase().trim()
+});
+
+/**
+ * Schema for setting a new password with a reset token.
+ */
+export const resetPasswordSchema = z.object({
+	token: z.string().trim().min(1, 'Reset token is required').max(200),
+	password: passwordSchema
+});
+
+/**
+ * Schema for the token query of GET /auth/verify-email.
+ */
+export const verifyEmailQuerySchema = z.object({
+	token: z.string().trim().min(1, 'Verification token is required').max(200)
+});
+
 /**
  * Schema for updating user profile.
  */
@@ -66,4 +97,8 @@ export const updateProfileSchema = z.object({
 
 export type RegisterDTO = z.infer<typeof registerSchema>;
 export type LoginDTO = z.infer<typeof loginSchema>;
+export type RefreshTokenDTO = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordDTO = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordDTO = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailQueryDTO = z.infer<typeof verifyEmailQuerySchema>;
 export type UpdateProfileDTO = z.infer<typeof updateProfileSchema>;
@@ -0,0 +1,70 @@
+/**
+ * Availability Validation Schemas
+ *
+ * Zod schemas for availability calendars and host date blocks.
+ */
+
+import { z } from 'zod';
+import { mongoIdSchema } from './common.schema';
+
+/**
+ * Calendar date pattern (YYYY-MM-DD).
+ */
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Longest range a single calendar request may cover (in days).
+ */
+export const MAX_CALENDAR_DAYS = 366;
+
+/**
+ * Availability calendar query schema.
+ *
+ * Both dates are optional; the controller defaults to the next 30 days.
+ * `to` is exclusive, like a check-out date.
+ */
+export const availabilityQuerySchema = z
+	.object({
+		from: z.string().regex(dayPattern, 'from must be YYYY-MM-DD').optional(),
+		to: z.string().regex(dayPattern, 'to must be YYYY-MM-DD').optional()
+	})
+	.refine(
+		(data) => !data.from || !data.to || new Date(data.to) > new Date(data.from),
+		{ message: 'to must be after from', path: ['to'] }
+	)
+	.refine(
+		(data) => {
+			if (!data.from || !data.to) return true;
+			const days = (new Date(data.to).getTime() - new Date(data.from).getTime()) / (1000 * 60 * 60 * 24);
+			return days <= MAX_CALENDAR_DAYS;
+		},
+		{ message: `Range cannot exceed ${MAX_CALENDAR_DAYS} days`, path: ['to'] }
+	);
+
+/**
+ * Create availability block schema.
+ */
+export const createBlockSchema = z
+	.object({
+		startDate: z.string().regex(dayPattern, 'startDate must be YYYY-MM-DD'),
+		endDate: z.string().regex(dayPattern, 'endDate must be YYYY-MM-DD'),
+		reason: z.enum(['personal', 'maintenance', 'other'], {
+			message: 'Reason must be personal, maintenance, or other'
+		}).default('other'),
+		note: z.string().max(500).trim().optional()
+	})
+	.refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+		message: 'endDate must be after startDate',
+		path: ['endDate']
+	});
+
+/**
+ * Block route params schema (/:id/blocks/:blockId).
+ */
+export const blockParamSchema = z.object({
+	id: mongoIdSchema,
+	blockId: mongoIdSchema
+});
+
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+export type CreateBlockDTO = z.infer<typeof createBlockSchema>;
@@ -6,6 +6,13 @@
 
 import { z } from 'zod';
 import { mongoIdSchema, paginationQuerySchema } from './common.schema';
+import { countNights } from '../../utils/date.utils';
+
+/**
+ * Longest stay or tour that can be booked, in nights. Every night is
+ * stored (and priced) separately, so the length must be bounded.
+ */
+const MAX_STAY_NIGHTS = parseInt(process.env.BOOKING_MAX_NIGHTS || '30', 10);
 
 /**
  * Guest count schema.
@@ -40,45 +47,95 @@ const pricingSchema = z.object({
  */
 const datePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?)?$/;
 
+/**
+ * Tour duration schema (guide bookings only).
+ */
+const tourDurationSchema = z.enum(['halfDay', 'fullDay', 'multiDay']);
+
+/**
+ * Fields shared by booking creation and price quotes.
+ */
+const stayFields = {
+	listingType: z.enum(['homestay', 'guide'], {
+		message: 'Listing type must be homestay or guide'
+	}),
+	listingId: mongoIdSchema,
+	checkIn: z.string().regex(datePattern, 'Invalid check-in date format'),
+	checkOut: z.string().regex(datePattern, 'Invalid check-out date format'),
+	guests: guestCountSchema,
+	tourDuration: tourDurationSchema.optional()
+};
+
+/**
+ * Adds the check-in/check-out date rules to a schema.
+ */
+function withStayDateRules<T extends z.ZodType<{ checkIn: string; checkOut: string }>>(schema: T) {
+	return schema
+		.refine(
+			(data) => {
+				const checkIn = new Date(data.checkIn);
+				const checkOut = new Date(data.checkOut);
+				return checkOut > checkIn;
+			},
+			{
+				message: 'Check-out must be after check-in',
+				path: ['checkOut']
+			}
+		)
+		.refine(
+			(data) => countNights(new Date(data.checkIn), new Date(data.checkOut)) <= MAX_STAY_NIGHTS,
+			{
+				message: `A stay can be at most ${MAX_STAY_NIGHTS} nights`,
+				path: ['checkOut']
+			}
+		)
+		.refine(
+			(data) => {
+				const checkIn = new Date(data.checkIn);
+				const now = new Date();
+				now.setHours(0, 0, 0, 0);
+				return checkIn >= now;
+			},
+			{
+				message: 'Check-in date must be today or in the future',
+				path: ['checkIn']
+			}
+		);
+}
+
 /**
  * Schema for creating a new booking.
+ *
+ * Pricing is optional - the server calculates it. If sent, the total
+ * must match the server quote.
  */
-export const createBookingSchema = z
-	.object({
-		listingType: z.enum(['homestay', 'guide'], {
-			message: 'Listing type must be homestay or guide'
-		}),
-		listingId: mongoIdSchema,
-		checkIn: z.string().regex(datePattern, 'Invalid check-in date format'),
-		checkOut: z.string().regex(datePattern, 'Invalid check-out date format'),
-		guests: guestCountSchema,
+export const createBookingSchema = withStayDateRules(
+	z.object({
+		...stayFields,
 		guestDetails: guestDetailsSchema,
 		specialRequests: z.string().max(1000).optional(),
-		pricing: pricingSchema
+		pricing: pricingSchema.optional()
 	})
-	.refine(
-		(data) => {
-			const checkIn = new Date(data.checkIn);
-			const checkOut = new Date(data.checkOut);
-			return checkOut > checkIn;
-		},
-		{
-			message: 'Check-out must be after check-in',
-			path: ['checkOut']
-		}
-	)
-	.refine(
-		(data) => {
-			const checkIn = new Date(data.checkIn);
-			const now = new Date();
-			now.setHours(0, 0, 0, 0);
-			return checkIn >= now;
-		},
-		{
-			message: 'Check-in date must be today or in the future',
-			path: ['checkIn']
-		}
-	);
+);
+
+/**
+ * Schema for requesting a price quote without creating a booking.
+ */
+export const bookingQuoteSchema = withStayDateRules(z.object(stayFields));
+
+/**
+ * Schema for moving a booking to new dates.
+ *
+ * Same date rules as creating a booking.
+ */
+export const changeBookingDatesSchema = withStayDateRules(
+	z.object({
+		checkIn: stayFields.checkIn,
+		checkOut: stayFields.checkOut,
+		tourDuration: stayFields.tourDuration,
+		reason: z.string().max(500).optional()
+	})
+);
 
 /**
  * Schema for canceling a booking.
@@ -88,12 +145,52 @@ export const cancelBookingSchema = z.object({
 });
 
 /**
- * Query parameters for listing bookings.
+ * Schema for a guest finding their booking without an account.
  */
-export const bookingQuerySchema = paginationQuerySchema.extend({
-	status: z.enum(['pending', 'confirmed', 'cancelled', 'completed']).optional()
+export const bookingLookupSchema = z.object({
+	bookingNumber: z
+		.string()
+		.trim()
+		.toUpperCase()
+		.regex(/^JY-\d{4}-\d{6,}$/, 'Booking number must look like JY-2025-001234'),
+	email: z.string().email('Invalid email format').toLowerCase()
 });
 
+/**
+ * Schema for a guest cancelling their booking without an account.
+ */
+export const guestCancelBookingSchema = bookingLookupSchema.extend({
+	reason: z.string().max(500).optional()
+});
+
+/**
+ * Query parameters for downloading an invoice or credit note.
+ */
+export const invoiceQuerySchema = z.object({
+	format: z.enum(['json', 'pdf']).default('json')
+});
+
+/**
+ * Query parameters for listing bookings.
+ *
+ * `from` and `to` select bookings with any night in that range.
+ */
+export const bookingQuerySchema = paginationQuerySchema
+	.extend({
+		status: z.enum(['pending', 'confirmed', 'cancelled', 'completed']).optional(),
+		from: z.string().regex(datePattern, 'Invalid from date format').optional(),
+		to: z.string().regex(datePattern, 'Invalid to date format').optional()
+	})
+	.refine(
+		(data) => !data.from || !data.to || new Date(data.to) > new Date(data.from),
+		{ message: 'to must be after from', path: ['to'] }
+	);
+
 export type CreateBookingDTO = z.infer<typeof createBookingSchema>;
+export type BookingQuoteDTO = z.infer<typeof bookingQuoteSchema>;
+export type ChangeBookingDatesDTO = z.infer<typeof changeBookingDatesSchema>;
 export type CancelBookingDTO = z.infer<typeof cancelBookingSchema>;
 export type BookingQuery = z.infer<typeof bookingQuerySchema>;
+export type InvoiceQuery = z.infer<typeof invoiceQuerySchema>;
+export type BookingLookupDTO = z.infer<typeof bookingLookupSchema>;
+export type GuestCancelBookingDTO = z.infer<typeof guestCancelBookingSchema>;
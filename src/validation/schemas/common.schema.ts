@@ -44,6 +44,35 @@ export const coordinatesSchema = z
 	})
 	.optional();
 
+/**
+ * Listing cancellation policy schema (homestays and guides).
+ *
+ * Custom policies must list their own tiers; named policies may
+ * override their default tiers.
+ */
+export const cancellationPolicySchema = z
+	.object({
+		type: z.enum(['flexible', 'moderate', 'strict', 'custom'], {
+			message: 'Policy must be flexible, moderate, strict, or custom'
+		}),
+		tiers: z
+			.array(
+				z.object({
+					daysBeforeCheckIn: z.number().min(0, 'Days before check-in cannot be negative'),
+					refundPercent: z
+						.number()
+						.min(0, 'Refund percent cannot be negative')
+						.max(100, 'Refund percent cannot exceed 100')
+				})
+			)
+			.max(10)
+			.optional()
+	})
+	.refine((data) => data.type !== 'custom' || (data.tiers && data.tiers.length > 0), {
+		message: 'Custom policies need at least one tier',
+		path: ['tiers']
+	});
+
 /**
  * ID parameter schema for route params.
  */
@@ -51,5 +80,14 @@ export const idParamSchema = z.object({
 	id: mongoIdSchema
 });
 
+/**
+ * Schema for an admin assigning a listing to a user account.
+ */
+export const assignOwnerSchema = z.object({
+	userId: mongoIdSchema
+});
+
 export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
 export type Coordinates = z.infer<typeof coordinatesSchema>;
+export type CancellationPolicyDTO = z.infer<typeof cancellationPolicySchema>;
+export type AssignOwnerDTO = z.infer<typeof assignOwnerSchema>;
@@ -5,7 +5,7 @@
  */
 
 import { z } from 'zod';
-import { paginationQuerySchema } from './common.schema';
+import { cancellationPolicySchema, paginationQuerySchema } from './common.schema';
 
 /**
  * Location schema for guide.
@@ -43,7 +43,8 @@ export const createGuideSchema = z.object({
 	location: locationSchema,
 	pricing: pricingSchema,
 	certifications: z.array(z.string()).optional(),
-	availability: z.enum(['available', 'busy', 'unavailable']).default('available')
+	availability: z.enum(['available', 'busy', 'unavailable']).default('available'),
+	cancellationPolicy: cancellationPolicySchema.optional()
 });
 
 /**
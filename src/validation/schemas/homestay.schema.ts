@@ -5,7 +5,7 @@
  */
 
 import { z } from 'zod';
-import { coordinatesSchema, paginationQuerySchema } from './common.schema';
+import { cancellationPolicySchema, coordinatesSchema, paginationQuerySchema } from './common.schema';
 
 /**
  * Location schema for homestay.
@@ -52,7 +52,8 @@ export const createHomestaySchema = z.object({
 	capacity: capacitySchema,
 	amenities: z.array(z.string()).default([]),
 	houseRules: z.array(z.string()).optional(),
-	images: z.array(z.string().url('Invalid image URL')).default([])
+	images: z.array(z.string().url('Invalid image URL')).default([]),
+	cancellationPolicy: cancellationPolicySchema.optional()
 });
 
 /**
@@ -0,0 +1,18 @@
+/**
+ * Job Validation Schemas
+ *
+ * Zod schemas for the admin background job endpoints.
+ */
+
+import { z } from 'zod';
+import { paginationQuerySchema } from './common.schema';
+
+/**
+ * Query parameters for listing jobs (failed jobs by default).
+ */
+export const jobQuerySchema = paginationQuerySchema.extend({
+	status: z.enum(['queued', 'running', 'completed', 'failed']).default('failed'),
+	name: z.string().trim().min(1).max(100).optional()
+});
+
+export type JobQuery = z.infer<typeof jobQuerySchema>;
@@ -0,0 +1,32 @@
+/**
+ * Payment Validation Schemas
+ *
+ * Zod schemas for validating payment operations.
+ */
+
+import { z } from 'zod';
+import { mongoIdSchema } from './common.schema';
+
+/**
+ * Schema for creating a payment order for a booking.
+ */
+export const createPaymentOrderSchema = z.object({
+	bookingId: mongoIdSchema
+});
+
+/**
+ * Provider order ID route parameter.
+ */
+export const orderIdParamSchema = z.object({
+	orderId: z.string().min(1).max(100)
+});
+
+/**
+ * Schema for simulating a payment with the mock gateway.
+ */
+export const mockPaymentSchema = z.object({
+	outcome: z.enum(['success', 'failure']).default('success')
+});
+
+export type CreatePaymentOrderDTO = z.infer<typeof createPaymentOrderSchema>;
+export type MockPaymentDTO = z.infer<typeof mockPaymentSchema>;
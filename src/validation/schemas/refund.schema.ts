@@ -0,0 +1,34 @@
+/**
+ * Refund Validation Schemas
+ *
+ * Zod schemas for the admin refund endpoints.
+ */
+
+import { z } from 'zod';
+import { paginationQuerySchema } from './common.schema';
+
+/**
+ * Query parameters for listing refunds.
+ */
+export const refundQuerySchema = paginationQuerySchema.extend({
+	status: z.enum(['requested', 'processing', 'succeeded', 'failed']).optional()
+});
+
+/**
+ * Schema for recording a refund paid out manually.
+ */
+export const completeRefundSchema = z.object({
+	referenceId: z.string().trim().min(1, 'Reference ID is required').max(100),
+	note: z.string().max(500).optional()
+});
+
+/**
+ * Schema for marking a refund as failed.
+ */
+export const failRefundSchema = z.object({
+	reason: z.string().trim().min(1, 'Reason is required').max(500)
+});
+
+export type RefundQuery = z.infer<typeof refundQuerySchema>;
+export type CompleteRefundDTO = z.infer<typeof completeRefundSchema>;
+export type FailRefundDTO = z.infer<typeof failRefundSchema>;
@@ -0,0 +1,37 @@
+/**
+ * Role Validation Schemas
+ *
+ * Zod schemas for the admin role and permission endpoints.
+ */
+
+import { z } from 'zod';
+
+/**
+ * A permission: 'resource:action' (e.g. 'review:moderate') or '*'.
+ */
+const permissionSchema = z
+	.string()
+	.trim()
+	.regex(/^(\*|[a-z][a-zA-Z]*:[a-z][a-zA-Z]*)$/, "Permissions look like 'resource:action' (or '*')");
+
+/**
+ * Route parameter naming a role.
+ */
+export const roleNameParamSchema = z.object({
+	name: z.enum(['admin', 'host', 'guide', 'customer'])
+});
+
+/**
+ * Schema for replacing a role's permissions.
+ * Duplicates are dropped.
+ */
+export const updateRoleSchema = z.object({
+	permissions: z
+		.array(permissionSchema)
+		.max(200)
+		.transform((permissions) => [...new Set(permissions)]),
+	description: z.string().trim().min(1).max(200).optional()
+});
+
+export type RoleNameParam = z.infer<typeof roleNameParamSchema>;
+export type UpdateRoleDTO = z.infer<typeof updateRoleSchema>;
@@ -0,0 +1,54 @@
+/**
+ * Role Application Validation Schemas
+ *
+ * Zod schemas for applying for the host or guide role and for the admin
+ * review endpoints.
+ */
+
+import { z } from 'zod';
+import { paginationQuerySchema } from './common.schema';
+
+/**
+ * Schema for applying for a role.
+ */
+export const createRoleApplicationSchema = z.object({
+	requestedRole: z.enum(['host', 'guide']),
+	details: z.object({
+		phone: z.string().min(10, 'Phone must be at least 10 digits').max(15),
+		about: z
+			.string()
+			.trim()
+			.min(20, 'Tell us a little more (at least 20 characters)')
+			.max(2000),
+		district: z.string().trim().max(100).optional(),
+		businessName: z.string().trim().max(100).optional(),
+		documents: z.array(z.string().url('Documents must be links')).max(10).optional()
+	})
+});
+
+/**
+ * Schema for approving an application.
+ */
+export const approveRoleApplicationSchema = z.object({
+	note: z.string().trim().max(500).optional()
+});
+
+/**
+ * Schema for rejecting an application.
+ */
+export const rejectRoleApplicationSchema = z.object({
+	reason: z.string().trim().min(1, 'Reason is required').max(500)
+});
+
+/**
+ * Query parameters for listing applications (pending by default).
+ */
+export const roleApplicationQuerySchema = paginationQuerySchema.extend({
+	status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+	requestedRole: z.enum(['host', 'guide']).optional()
+});
+
+export type CreateRoleApplicationDTO = z.infer<typeof createRoleApplicationSchema>;
+export type ApproveRoleApplicationDTO = z.infer<typeof approveRoleApplicationSchema>;
+export type RejectRoleApplicationDTO = z.infer<typeof rejectRoleApplicationSchema>;
+export type RoleApplicationQuery = z.infer<typeof roleApplicationQuerySchema>;
@@ -0,0 +1,18 @@
+/**
+ * User Administration Validation Schemas
+ *
+ * Zod schemas for the admin user endpoints.
+ */
+
+import { z } from 'zod';
+import { mongoIdSchema, paginationQuerySchema } from './common.schema';
+
+/**
+ * Query parameters for listing lockout events.
+ */
+export const lockoutEventQuerySchema = paginationQuerySchema.extend({
+	type: z.enum(['account_locked', 'account_unlocked', 'ip_blocked']).optional(),
+	userId: mongoIdSchema.optional()
+});
+
+export type LockoutEventQuery = z.infer<typeof lockoutEventQuerySchema>;
@@ -0,0 +1,199 @@
+/**
+ * Email Verification Test
+ *
+ * Registration emails a verification link, the resend endpoint has a
+ * cooldown, the token verifies the address once, and with
+ * REQUIRE_VERIFIED_EMAIL set unverified users cannot book or list.
+ * Accounts from before verification existed are backfilled as verified.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { UserModel } from '../../src/models/users/User.model';
+import { AccountTokenModel } from '../../src/models/users/AccountToken.model';
+import { RefreshTokenModel } from '../../src/models/users/RefreshToken.model';
+import { SessionModel } from '../../src/models/users/Session.model';
+import { RateLimitModel } from '../../src/models/rateLimits/RateLimit.model';
+import { backfillEmailVerified } from '../../src/services/auth/emailVerification.service';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts; emails go to a temporary outbox
+const OUTBOX = mkdtempSync(join(tmpdir(), 'jy-outbox-'));
+process.env.BCRYPT_SALT_ROUNDS = '4';
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_OUTBOX_DIR = OUTBOX;
+
+const EMAIL = 'verify-test@example.com';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await RateLimitModel.deleteMany({ _id: /^verifyEmail:/ });
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	rmSync(OUTBOX, { recursive: true, force: true });
+	delete process.env.REQUIRE_VERIFIED_EMAIL;
+	if (connected) {
+		await RateLimitModel.deleteMany({ _id: /^verifyEmail:/ });
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, body?: object, token?: string) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(token && { Authorization: `Bearer ${token}` })
+		},
+		body: body && JSON.stringify(body)
+	});
+}
+
+/**
+ * Waits for the outbox to hold `count` emails (they are sent after the
+ * response) and returns the verification token from the newest.
+ */
+async function waitForVerificationToken(count: number): Promise<string> {
+	for (let attempt = 0; attempt < 50; attempt++) {
+		const files = readdirSync(OUTBOX).sort();
+
+		if (files.length >= count) {
+			const email = JSON.parse(readFileSync(join(OUTBOX, files[files.length - 1]), 'utf8'));
+			assert.equal(email.to, EMAIL);
+			return decodeURIComponent(/token=([^\s]+)/.exec(email.text)![1]);
+		}
+
+		await sleep(100);
+	}
+
+	throw new Error(`Expected ${count} emails in the outbox`);
+}
+
+test('registration emails a verification link and unverified users can be blocked', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+
+	const registered = await send('POST', '/auth/register', {
+		email: EMAIL,
+		password: 'Verify123',
+		name: 'Verify Test'
+	});
+	assert.equal(registered.status, 201);
+	const { user, token: accessToken } = (await registered.json()).data;
+	assert.equal(user.emailVerified, false);
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user.id }),
+			AccountTokenModel.deleteMany({ userId: user.id }),
+			RefreshTokenModel.deleteMany({ userId: user.id }),
+			SessionModel.deleteMany({ userId: user.id })
+		]);
+	});
+
+	const firstToken = await waitForVerificationToken(1);
+
+	// Resending within the cooldown is refused
+	const tooSoon = await send('POST', '/auth/verify-email/resend', undefined, accessToken);
+	assert.equal(tooSoon.status, 429);
+	assert.ok(Number(tooSoon.headers.get('Retry-After')) > 0);
+
+	// After the cooldown a new link replaces the first
+	await UserModel.updateOne({ _id: user.id }, { $set: { verificationEmailSentAt: new Date(0) } });
+	assert.equal((await send('POST', '/auth/verify-email/resend', undefined, accessToken)).status, 200);
+	const token = await waitForVerificationToken(2);
+	assert.equal((await send('GET', `/auth/verify-email?token=${encodeURIComponent(firstToken)}`)).status, 400);
+
+	// Unverified users are blocked from listing when configured
+	process.env.REQUIRE_VERIFIED_EMAIL = 'booking,listing';
+	await UserModel.updateOne({ _id: user.id }, { $set: { role: 'guide' } });
+	const guideToken = await createTestToken('guide', user.id);
+	const blocked = await send('POST', '/guides', { name: 'Unverified Guide' }, guideToken);
+	assert.equal(blocked.status, 403);
+
+	// Verify once
+	const verified = await send('GET', `/auth/verify-email?token=${encodeURIComponent(token)}`);
+	assert.equal(verified.status, 200);
+	assert.equal((await verified.json()).data.emailVerified, true);
+	assert.equal((await send('GET', `/auth/verify-email?token=${encodeURIComponent(token)}`)).status, 400);
+	assert.equal((await send('POST', '/auth/verify-email/resend', undefined, accessToken)).status, 409);
+
+	// Verified users get past the check (and on to validation)
+	const allowed = await send('POST', '/guides', { name: 'Unverified Guide' }, guideToken);
+	assert.equal(allowed.status, 400);
+
+	assert.equal((await send('GET', '/auth/verify-email')).status, 400);
+});
+
+test('accounts from before email verification are backfilled as verified', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	// Stored the way older versions wrote users: no emailVerified field
+	const legacyId = new mongoose.Types.ObjectId();
+	await UserModel.collection.insertOne({
+		_id: legacyId,
+		email: `legacy-${legacyId}@example.com`,
+		password: 'not-a-password-hash',
+		name: 'Legacy User',
+		role: 'customer',
+		isActive: true
+	});
+	const unverified = await UserModel.create({
+		email: `unverified-${legacyId}@example.com`,
+		password: 'Unverified123',
+		name: 'Unverified User'
+	});
+
+	t.after(async () => {
+		await UserModel.deleteMany({ _id: { $in: [legacyId, unverified._id] } });
+	});
+
+	assert.ok(await backfillEmailVerified() >= 1);
+	assert.equal((await UserModel.findById(legacyId))?.emailVerified, true);
+	assert.equal((await UserModel.findById(unverified._id))?.emailVerified, false);
+});
@@ -0,0 +1,233 @@
+/**
+ * Login Lockout Test
+ *
+ * Failed passwords are free at first, then need a growing wait (429),
+ * then lock the account; the lock is audited, refuses even the right
+ * password, and an admin can lift it. Parallel guesses get one try
+ * between waits. Unknown emails get the same responses as accounts, and
+ * wrong current passwords on a password change count as failures.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import { createHash } from 'node:crypto';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { UserModel } from '../../src/models/users/User.model';
+import { LockoutEventModel } from '../../src/models/users/LockoutEvent.model';
+import { LoginFailureModel } from '../../src/models/users/LoginFailure.model';
+import { RefreshTokenModel } from '../../src/models/users/RefreshToken.model';
+import { SessionModel } from '../../src/models/users/Session.model';
+import { RateLimitModel } from '../../src/models/rateLimits/RateLimit.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const EMAIL = 'lockout-test@example.com';
+const PASSWORD = 'Lockout123';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await RateLimitModel.deleteMany({ _id: /^loginFailures:/ });
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await RateLimitModel.deleteMany({ _id: /^loginFailures:/ });
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+function login(password: string, email = EMAIL) {
+	return fetch(`${baseUrl}/auth/login`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ email, password })
+	});
+}
+
+function send(method: string, path: string, token: string) {
+	return fetch(`${baseUrl}${path}`, { method, headers: { Authorization: `Bearer ${token}` } });
+}
+
+test('failed logins are delayed, then lock the account until an admin unlocks it', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: PASSWORD, name: 'Lockout Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			LockoutEventModel.deleteMany({ userId: user._id }),
+			RefreshTokenModel.deleteMany({ userId: user._id }),
+			SessionModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	// The first failures are free
+	for (let attempt = 0; attempt < 3; attempt++) {
+		assert.equal((await login('Wrong12345')).status, 401);
+	}
+
+	// Then even the right password has to wait
+	const slowed = await login(PASSWORD);
+	assert.equal(slowed.status, 429);
+	assert.ok(Number(slowed.headers.get('Retry-After')) >= 1);
+
+	// Keep failing, skipping the waits, until the account locks
+	let locked: Response | undefined;
+	for (let attempt = 3; attempt < 10; attempt++) {
+		await UserModel.updateOne({ _id: user._id }, { $set: { lastFailedLoginAt: new Date(Date.now() - 60000) } });
+		locked = await login('Wrong12345');
+		assert.equal(locked.status, attempt < 9 ? 401 : 429);
+	}
+	assert.ok(Number(locked!.headers.get('Retry-After')) > 60);
+	assert.equal((await login(PASSWORD)).status, 429);
+
+	const events = await LockoutEventModel.find({ userId: user._id });
+	assert.deepEqual(events.map((event) => event.type), ['account_locked']);
+	assert.equal(events[0].failedAttempts, 10);
+
+	// Only admins unlock
+	const adminId = new mongoose.Types.ObjectId().toString();
+	const adminToken = await createTestToken('admin', adminId);
+	assert.equal((await send('POST', `/users/${user._id}/unlock`, await createTestToken('customer', user._id.toString()))).status, 403);
+	assert.equal((await send('POST', `/users/${user._id}/unlock`, adminToken)).status, 200);
+	assert.equal((await send('POST', `/users/${new mongoose.Types.ObjectId()}/unlock`, adminToken)).status, 404);
+
+	assert.equal((await login(PASSWORD)).status, 200);
+	const unlocked = await UserModel.findById(user._id);
+	assert.equal(unlocked!.failedLoginAttempts, 0);
+	assert.equal(unlocked!.lockedUntil, undefined);
+
+	const audit = await send('GET', `/users/lockout-events?userId=${user._id}`, adminToken);
+	assert.equal(audit.status, 200);
+	const { events: listed } = (await audit.json()).data;
+	assert.deepEqual(
+		listed.map((event: { type: string }) => event.type),
+		['account_unlocked', 'account_locked']
+	);
+	assert.equal(listed[0].unlockedBy, adminId);
+});
+
+test('parallel guesses cannot get past the delay', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: PASSWORD, name: 'Lockout Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			LockoutEventModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	// Past the free attempts, with the wait for the next one over
+	await UserModel.updateOne(
+		{ _id: user._id },
+		{ $set: { failedLoginAttempts: 3, lastFailedLoginAt: new Date(Date.now() - 60000) } }
+	);
+
+	const statuses = (await Promise.all(Array.from({ length: 5 }, () => login('Wrong12345'))))
+		.map((response) => response.status)
+		.sort();
+	assert.deepEqual(statuses, [401, 429, 429, 429, 429]);
+
+	const updated = await UserModel.findById(user._id);
+	assert.equal(updated!.failedLoginAttempts, 4);
+});
+
+test('unknown emails are slowed down like accounts', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const unknown = `no-account-${Date.now()}@example.com`;
+
+	t.after(async () => {
+		await LoginFailureModel.deleteOne({ _id: createHash('sha256').update(unknown).digest('hex') });
+	});
+
+	for (let attempt = 0; attempt < 3; attempt++) {
+		assert.equal((await login('Wrong12345', unknown)).status, 401);
+	}
+
+	const slowed = await login('Wrong12345', unknown);
+	assert.equal(slowed.status, 429);
+	assert.ok(Number(slowed.headers.get('Retry-After')) >= 1);
+});
+
+test('wrong current passwords on a password change count as failed logins', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: PASSWORD, name: 'Lockout Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			RefreshTokenModel.deleteMany({ userId: user._id }),
+			SessionModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	const { token } = (await (await login(PASSWORD)).json()).data;
+	const changePassword = (currentPassword: string) =>
+		fetch(`${baseUrl}/auth/me`, {
+			method: 'PUT',
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+			body: JSON.stringify({ currentPassword, newPassword: 'Changed123' })
+		});
+
+	for (let attempt = 0; attempt < 3; attempt++) {
+		assert.equal((await changePassword('Wrong12345')).status, 400);
+	}
+
+	// Even the right password has to wait now, as on login
+	assert.equal((await changePassword(PASSWORD)).status, 429);
+	assert.equal((await login(PASSWORD)).status, 429);
+});
@@ -0,0 +1,148 @@
+/**
+ * Password Reset Test
+ *
+ * Forgot-password answers the same for known and unknown addresses and
+ * emails a link to the file outbox; the token sets a new password once,
+ * ends the user's sessions, and only the latest link works.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { UserModel } from '../../src/models/users/User.model';
+import { AccountTokenModel } from '../../src/models/users/AccountToken.model';
+import { RefreshTokenModel } from '../../src/models/users/RefreshToken.model';
+import { SessionModel } from '../../src/models/users/Session.model';
+import { RateLimitModel } from '../../src/models/rateLimits/RateLimit.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts; emails go to a temporary outbox
+const OUTBOX = mkdtempSync(join(tmpdir(), 'jy-outbox-'));
+process.env.BCRYPT_SALT_ROUNDS = '4';
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_OUTBOX_DIR = OUTBOX;
+
+const EMAIL = 'reset-test@example.com';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await RateLimitModel.deleteMany({ _id: /^(forgotPassword|resetPassword):/ });
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	rmSync(OUTBOX, { recursive: true, force: true });
+	if (connected) {
+		await RateLimitModel.deleteMany({ _id: /^(forgotPassword|resetPassword):/ });
+		await mongoose.disconnect();
+	}
+});
+
+function post(path: string, body: object) {
+	return fetch(`${baseUrl}${path}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body)
+	});
+}
+
+/**
+ * Waits for the outbox to hold `count` emails (they are sent after the
+ * response) and returns the reset token from the newest.
+ */
+async function waitForResetToken(count: number): Promise<string> {
+	for (let attempt = 0; attempt < 50; attempt++) {
+		const files = readdirSync(OUTBOX).sort();
+
+		if (files.length >= count) {
+			const email = JSON.parse(readFileSync(join(OUTBOX, files[files.length - 1]), 'utf8'));
+			assert.equal(email.to, EMAIL);
+			return decodeURIComponent(/token=([^\s]+)/.exec(email.text)![1]);
+		}
+
+		await sleep(100);
+	}
+
+	throw new Error(`Expected ${count} emails in the outbox`);
+}
+
+test('a forgotten password is reset once with the emailed token', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: 'Original123', name: 'Reset Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			AccountTokenModel.deleteMany({ userId: user._id }),
+			RefreshTokenModel.deleteMany({ userId: user._id }),
+			SessionModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	const loggedIn = await post('/auth/login', { email: EMAIL, password: 'Original123' });
+	const session = (await loggedIn.json()).data;
+
+	// Known and unknown addresses get the same answer; only one email is sent
+	const unknown = await post('/auth/forgot-password', { email: 'nobody-reset-test@example.com' });
+	const known = await post('/auth/forgot-password', { email: EMAIL });
+	assert.equal(unknown.status, 200);
+	assert.equal(known.status, 200);
+	assert.deepEqual(await unknown.json(), await known.json());
+	const firstToken = await waitForResetToken(1);
+
+	// Asking again replaces the first link
+	await post('/auth/forgot-password', { email: EMAIL });
+	const token = await waitForResetToken(2);
+	assert.notEqual(token, firstToken);
+	assert.equal(readdirSync(OUTBOX).length, 2);
+	assert.equal((await post('/auth/reset-password', { token: firstToken, password: 'Replaced123' })).status, 400);
+
+	// Weak passwords are refused without using the token
+	assert.equal((await post('/auth/reset-password', { token, password: 'weak' })).status, 400);
+
+	assert.equal((await post('/auth/reset-password', { token, password: 'Replaced123' })).status, 200);
+	assert.equal((await post('/auth/reset-password', { token, password: 'Again12345' })).status, 400);
+
+	// The new password works, the old one and the old session do not
+	assert.equal((await post('/auth/login', { email: EMAIL, password: 'Original123' })).status, 401);
+	assert.equal((await post('/auth/login', { email: EMAIL, password: 'Replaced123' })).status, 200);
+	assert.equal((await post('/auth/refresh', { refreshToken: session.refreshToken })).status, 401);
+});
@@ -0,0 +1,153 @@
+/**
+ * Refresh Token Test
+ *
+ * Login issues an access and refresh token, refreshing rotates the refresh
+ * token, a reused refresh token revokes the whole session, logout ends a
+ * session, and a password change ends every other session. Access tokens
+ * without a session, or of a deactivated user, are refused.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import apiRouter from '../../src/routes';
+import { UserModel } from '../../src/models/users/User.model';
+import { RefreshTokenModel } from '../../src/models/users/RefreshToken.model';
+import { SessionModel } from '../../src/models/users/Session.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const EMAIL = 'refresh-test@example.com';
+const PASSWORD = 'Refresh123';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, body?: object, token?: string) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(token && { Authorization: `Bearer ${token}` })
+		},
+		body: body && JSON.stringify(body)
+	});
+}
+
+async function login(password = PASSWORD): Promise<{ token: string; refreshToken: string }> {
+	const res = await send('POST', '/auth/login', { email: EMAIL, password });
+	assert.equal(res.status, 200);
+	return (await res.json()).data;
+}
+
+function refresh(refreshToken: string) {
+	return send('POST', '/auth/refresh', { refreshToken });
+}
+
+test('refresh tokens rotate, detect reuse and are revoked on logout and password change', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: PASSWORD, name: 'Refresh Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			RefreshTokenModel.deleteMany({ userId: user._id }),
+			SessionModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	// Rotation: the new pair works, the access token is accepted
+	const first = await login();
+	assert.ok(first.refreshToken);
+	const rotated = await refresh(first.refreshToken);
+	assert.equal(rotated.status, 200);
+	const second = (await rotated.json()).data;
+	assert.notEqual(second.refreshToken, first.refreshToken);
+	assert.equal((await send('GET', '/auth/me', undefined, second.token)).status, 200);
+
+	// Reuse of the old token revokes the session, including the new token
+	assert.equal((await refresh(first.refreshToken)).status, 401);
+	assert.equal((await refresh(second.refreshToken)).status, 401);
+	const sessions = await SessionModel.find({ userId: user._id });
+	assert.equal(sessions.length, 1);
+	assert.equal(sessions[0].revokedReason, 'reuse');
+	assert.equal((await send('GET', '/auth/me', undefined, second.token)).status, 401);
+
+	// Logout ends the session; logging out twice is harmless
+	const loggedIn = await login();
+	assert.equal((await send('POST', '/auth/logout', { refreshToken: loggedIn.refreshToken })).status, 200);
+	assert.equal((await send('POST', '/auth/logout', { refreshToken: loggedIn.refreshToken })).status, 200);
+	assert.equal((await refresh(loggedIn.refreshToken)).status, 401);
+
+	// A password change keeps the current session and ends the others
+	const phone = await login();
+	const laptop = await login();
+	const changed = await send(
+		'PUT',
+		'/auth/me',
+		{ currentPassword: PASSWORD, newPassword: 'Changed123' },
+		laptop.token
+	);
+	assert.equal(changed.status, 200);
+	assert.equal((await refresh(phone.refreshToken)).status, 401);
+	assert.equal((await refresh(laptop.refreshToken)).status, 200);
+
+	// A token without a session is refused
+	const sessionless = jwt.sign(
+		{ userId: user._id.toString(), role: user.role },
+		process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+	);
+	assert.equal((await send('GET', '/auth/me', undefined, sessionless)).status, 401);
+
+	// Deactivated users lose access at once and cannot refresh
+	const current = await login('Changed123');
+	await UserModel.updateOne({ _id: user._id }, { $set: { isActive: false } });
+	assert.equal((await send('GET', '/auth/me', undefined, current.token)).status, 401);
+	assert.equal((await refresh(current.refreshToken)).status, 403);
+
+	assert.equal((await refresh('not-a-token')).status, 401);
+	assert.equal((await send('POST', '/auth/refresh', {})).status, 400);
+});
@@ -0,0 +1,132 @@
+/**
+ * Session Management Test
+ *
+ * Each login shows up as a session with its device details, the caller's
+ * own session is marked current, ending a session rejects its access
+ * token at once, and "log out everywhere" ends them all.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { UserModel } from '../../src/models/users/User.model';
+import { RefreshTokenModel } from '../../src/models/users/RefreshToken.model';
+import { SessionModel } from '../../src/models/users/Session.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const EMAIL = 'sessions-test@example.com';
+const PASSWORD = 'Sessions123';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, token: string) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: { Authorization: `Bearer ${token}` }
+	});
+}
+
+async function login(userAgent: string): Promise<{ token: string; refreshToken: string }> {
+	const res = await fetch(`${baseUrl}/auth/login`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'User-Agent': userAgent },
+		body: JSON.stringify({ email: EMAIL, password: PASSWORD })
+	});
+	assert.equal(res.status, 200);
+	return (await res.json()).data;
+}
+
+test('users list and end their sessions', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	await UserModel.deleteOne({ email: EMAIL });
+	const user = await UserModel.create({ email: EMAIL, password: PASSWORD, name: 'Sessions Test' });
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user._id }),
+			RefreshTokenModel.deleteMany({ userId: user._id }),
+			SessionModel.deleteMany({ userId: user._id })
+		]);
+	});
+
+	const phone = await login('Test Phone');
+	const laptop = await login('Test Laptop');
+	const tablet = await login('Test Tablet');
+
+	const listed = await send('GET', '/auth/sessions', laptop.token);
+	assert.equal(listed.status, 200);
+	const sessions: { id: string; userAgent: string; current: boolean }[] = (await listed.json()).data;
+	assert.equal(sessions.length, 3);
+	assert.deepEqual(
+		sessions.filter((session) => session.current).map((session) => session.userAgent),
+		['Test Laptop']
+	);
+
+	// Ending the phone's session rejects its access token immediately
+	const phoneSession = sessions.find((session) => session.userAgent === 'Test Phone')!;
+	assert.equal((await send('DELETE', `/auth/sessions/${phoneSession.id}`, laptop.token)).status, 200);
+	assert.equal((await send('GET', '/auth/me', phone.token)).status, 401);
+	assert.equal((await send('DELETE', `/auth/sessions/${phoneSession.id}`, laptop.token)).status, 404);
+
+	// Another user's session cannot be ended
+	const other = new mongoose.Types.ObjectId().toString();
+	assert.equal((await send('DELETE', `/auth/sessions/${other}`, laptop.token)).status, 404);
+
+	// Log out everywhere
+	const everywhere = await send('DELETE', '/auth/sessions', tablet.token);
+	assert.equal(everywhere.status, 200);
+	assert.equal((await everywhere.json()).data.revoked, 2);
+	assert.equal((await send('GET', '/auth/me', laptop.token)).status, 401);
+	assert.equal((await send('GET', '/auth/me', tablet.token)).status, 401);
+
+	const refreshed = await fetch(`${baseUrl}/auth/refresh`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ refreshToken: laptop.refreshToken })
+	});
+	assert.equal(refreshed.status, 401);
+});
@@ -0,0 +1,112 @@
+/**
+ * Booking Concurrency Test
+ *
+ * Fires parallel booking requests for the same homestay and dates and
+ * checks that exactly one succeeds while the rest get 409 Conflict.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+const PARALLEL_REQUESTS = 10;
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	// Make sure the unique night index exists before racing on it
+	await Promise.all([ListingNightModel.init(), BookingModel.init()]);
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+test('only one of many parallel bookings for the same dates succeeds', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const homestay = await HomestayModel.create({
+		title: 'Concurrency Test Cottage',
+		description: 'Created by the booking concurrency test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } })
+		]);
+	});
+
+	const checkIn = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+	const body = JSON.stringify({
+		listingType: 'homestay',
+		listingId: homestay._id.toString(),
+		checkIn: checkIn.toISOString().split('T')[0],
+		checkOut: checkOut.toISOString().split('T')[0],
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Race Tester', email: 'race@example.com', phone: '+91-9876543210' }
+	});
+
+	const responses = await Promise.all(
+		Array.from({ length: PARALLEL_REQUESTS }, () =>
+			fetch(`${baseUrl}/bookings`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body
+			})
+		)
+	);
+
+	const statuses = responses.map((response) => response.status);
+
+	assert.equal(statuses.filter((status) => status === 201).length, 1, `statuses: ${statuses}`);
+	assert.equal(statuses.filter((status) => status === 409).length, PARALLEL_REQUESTS - 1, `statuses: ${statuses}`);
+	assert.equal(await BookingModel.countDocuments({ listingId: homestay._id }), 1);
+	assert.equal(await ListingNightModel.countDocuments({ listingId: homestay._id }), 2);
+});
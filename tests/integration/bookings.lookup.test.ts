@@ -0,0 +1,143 @@
+/**
+ * Guest Booking Lookup Test
+ *
+ * A guest without an account finds and cancels their booking with the
+ * booking number and email. A wrong email gets the same 404 as an unknown
+ * number, and guessing is cut off with 429 after 10 lookups.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+import { RateLimitModel } from '../../src/models/rateLimits/RateLimit.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([ListingNightModel.init(), BookingModel.init(), RateLimitModel.init()]);
+
+	// Start with a fresh limit, whatever earlier runs counted
+	await RateLimitModel.deleteMany({ _id: /^bookingLookup:/ });
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await RateLimitModel.deleteMany({ _id: /^bookingLookup:/ });
+		await mongoose.disconnect();
+	}
+});
+
+test('a guest finds and cancels a booking by number and email, and guessing is rate limited', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const homestay = await HomestayModel.create({
+		title: 'Lookup Test Cottage',
+		description: 'Created by the booking lookup test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } })
+		]);
+	});
+
+	const checkIn = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+	const post = (path: string, body: object) =>
+		fetch(`${baseUrl}${path}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body)
+		});
+
+	const created = await post('/bookings', {
+		listingType: 'homestay',
+		listingId: homestay._id.toString(),
+		checkIn: checkIn.toISOString().split('T')[0],
+		checkOut: checkOut.toISOString().split('T')[0],
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Lookup Tester', email: 'lookup@example.com', phone: '+91-9876543210' }
+	});
+	assert.equal(created.status, 201);
+	const { _id, bookingNumber } = (await created.json()).data;
+
+	const wrongEmail = await post('/bookings/lookup', { bookingNumber, email: 'someone@example.com' });
+	assert.equal(wrongEmail.status, 404);
+
+	// Case and spacing as a guest might type them
+	const found = await post('/bookings/lookup', {
+		bookingNumber: ` ${bookingNumber.toLowerCase()} `,
+		email: 'Lookup@Example.com'
+	});
+	assert.equal(found.status, 200);
+	assert.equal((await found.json()).data._id, _id);
+	assert.equal(found.headers.get('ratelimit-remaining'), '8');
+
+	const cancelled = await post('/bookings/lookup/cancel', {
+		bookingNumber,
+		email: 'lookup@example.com',
+		reason: 'Plans changed'
+	});
+	assert.equal(cancelled.status, 200);
+	const cancellation = (await cancelled.json()).data;
+	assert.equal(cancellation.status, 'cancelled');
+	assert.equal(cancellation.cancelledBy, 'guest');
+
+	const booking = await BookingModel.findById(_id);
+	assert.equal(booking?.statusHistory.at(-1)?.changedByRole, 'guest');
+	assert.equal(await ListingNightModel.countDocuments({ bookingId: _id }), 0);
+
+	// 3 of 10 lookups used; the 11th is refused
+	for (let i = 0; i < 7; i++) {
+		const guess = await post('/bookings/lookup', { bookingNumber: 'JY-2025-999999', email: 'lookup@example.com' });
+		assert.equal(guess.status, 404);
+	}
+
+	const limited = await post('/bookings/lookup', { bookingNumber, email: 'lookup@example.com' });
+	assert.equal(limited.status, 429);
+	assert.ok(Number(limited.headers.get('retry-after')) > 0);
+});
@@ -0,0 +1,180 @@
+/**
+ * Booking Scheduler Test
+ *
+ * Runs the scheduler's checks once against bookings backdated past their
+ * deadlines: a booking the host never confirmed expires after the hold
+ * window, a confirmed one expires if unpaid after the payment timeout
+ * (counted from confirmation), cancelled bookings release their nights,
+ * and a confirmed stay whose check-out has passed is completed. A pending
+ * booking past the payment timeout but inside the hold is left alone.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+import { runBookingMaintenance } from '../../src/services/bookings/booking.scheduler';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([ListingNightModel.init(), BookingModel.init()]);
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+test('the scheduler expires unconfirmed, then unpaid bookings and completes finished stays', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const homestay = await HomestayModel.create({
+		title: 'Scheduler Test Cottage',
+		description: 'Created by the booking scheduler test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } })
+		]);
+	});
+
+	const book = async (daysAhead: number) => {
+		const checkIn = new Date(Date.now() + daysAhead * DAY_MS);
+		const checkOut = new Date(checkIn.getTime() + 2 * DAY_MS);
+
+		const response = await fetch(`${baseUrl}/bookings`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				listingType: 'homestay',
+				listingId: homestay._id.toString(),
+				checkIn: checkIn.toISOString().split('T')[0],
+				checkOut: checkOut.toISOString().split('T')[0],
+				guests: { adults: 2, children: 0 },
+				guestDetails: { name: 'Scheduler Tester', email: 'scheduler@example.com', phone: '+91-9876543210' }
+			})
+		});
+		assert.equal(response.status, 201);
+
+		return (await response.json()).data._id as string;
+	};
+
+	// Booked three days ago and never confirmed by the host
+	const staleId = await book(30);
+	await BookingModel.updateOne(
+		{ _id: staleId },
+		{ $set: { createdAt: new Date(Date.now() - 3 * DAY_MS) } },
+		{ timestamps: false }
+	);
+
+	// Confirmed two days ago and never paid
+	const unpaidId = await book(35);
+	await BookingModel.updateOne(
+		{ _id: unpaidId },
+		{
+			$set: {
+				status: 'confirmed',
+				confirmedAt: new Date(Date.now() - 2 * DAY_MS),
+				createdAt: new Date(Date.now() - 3 * DAY_MS)
+			}
+		},
+		{ timestamps: false }
+	);
+
+	// Past the payment timeout, but still inside the host's hold window
+	const heldId = await book(45);
+	await BookingModel.updateOne(
+		{ _id: heldId },
+		{ $set: { createdAt: new Date(Date.now() - 30 * 60 * 60 * 1000) } },
+		{ timestamps: false }
+	);
+
+	// A paid, confirmed stay that ended yesterday
+	const finishedId = await book(40);
+	await BookingModel.updateOne(
+		{ _id: finishedId },
+		{
+			$set: {
+				status: 'confirmed',
+				paymentStatus: 'completed',
+				checkIn: new Date(Date.now() - 3 * DAY_MS),
+				checkOut: new Date(Date.now() - DAY_MS)
+			}
+		}
+	);
+
+	// A fresh booking is left alone
+	const freshId = await book(50);
+
+	const result = await runBookingMaintenance();
+	assert.ok(result.expired >= 1);
+	assert.ok(result.unpaid >= 1);
+	assert.ok(result.completed >= 1);
+
+	const stale = await BookingModel.findById(staleId);
+	assert.equal(stale?.status, 'cancelled');
+	assert.match(stale?.cancellationReason || '', /^Expired: not confirmed/);
+	assert.equal(stale?.cancellation?.cancelledBy, 'system');
+	assert.equal(stale?.statusHistory.at(-1)?.changedByRole, 'system');
+	assert.equal(await ListingNightModel.countDocuments({ bookingId: staleId }), 0);
+
+	const unpaid = await BookingModel.findById(unpaidId);
+	assert.equal(unpaid?.status, 'cancelled');
+	assert.match(unpaid?.cancellationReason || '', /^Expired: not paid/);
+	assert.equal(await ListingNightModel.countDocuments({ bookingId: unpaidId }), 0);
+
+	assert.equal((await BookingModel.findById(heldId))?.status, 'pending');
+
+	const finished = await BookingModel.findById(finishedId);
+	assert.equal(finished?.status, 'completed');
+	assert.equal(finished?.statusHistory.at(-1)?.changedByRole, 'system');
+
+	assert.equal((await BookingModel.findById(freshId))?.status, 'pending');
+});
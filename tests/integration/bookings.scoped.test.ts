@@ -0,0 +1,241 @@
+/**
+ * Scoped Booking Views Test
+ *
+ * A booking made with a customer's token shows up in that customer's
+ * /bookings/mine and in the owning host's /bookings/incoming, but not for
+ * other users. The full list is refused to everyone except admins.
+ * A single booking can only be read, moved and cancelled by its booker
+ * and the listing owner, and only the listing owner confirms it. Only the
+ * listing owner cancels as the host.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+import { InvoiceModel } from '../../src/models/invoices/Invoice.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([ListingNightModel.init(), BookingModel.init()]);
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+test('customers see their own bookings and hosts see bookings on their listings', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const hostId = new mongoose.Types.ObjectId().toString();
+	const customerId = new mongoose.Types.ObjectId().toString();
+	const homestay = await HomestayModel.create({
+		title: 'Scoped Views Test Cottage',
+		description: 'Created by the scoped bookings test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 },
+		hostId
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } })
+		]);
+	});
+
+	const customerToken = await createTestToken('customer', customerId);
+	const hostToken = await createTestToken('host', hostId);
+	const otherToken = await createTestToken('host');
+
+	const get = (path: string, token: string) =>
+		fetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${token}` } });
+
+	const checkIn = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+	const checkInDay = checkIn.toISOString().split('T')[0];
+	const checkOutDay = checkOut.toISOString().split('T')[0];
+
+	const created = await fetch(`${baseUrl}/bookings`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${customerToken}` },
+		body: JSON.stringify({
+			listingType: 'homestay',
+			listingId: homestay._id.toString(),
+			checkIn: checkInDay,
+			checkOut: checkOutDay,
+			guests: { adults: 2, children: 0 },
+			guestDetails: { name: 'Scoped Tester', email: 'scoped@example.com', phone: '+91-9876543210' }
+		})
+	});
+	assert.equal(created.status, 201);
+	const booking = (await created.json()).data;
+	assert.equal(booking.userId, customerId);
+
+	const mine = await get('/bookings/mine', customerToken);
+	assert.equal(mine.status, 200);
+	assert.deepEqual((await mine.json()).data.bookings.map((b: { _id: string }) => b._id), [booking._id]);
+
+	const incoming = await get(`/bookings/incoming?status=pending&from=${checkInDay}&to=${checkOutDay}`, hostToken);
+	assert.equal(incoming.status, 200);
+	assert.deepEqual((await incoming.json()).data.bookings.map((b: { _id: string }) => b._id), [booking._id]);
+
+	// Outside the date range
+	const later = await get(`/bookings/incoming?from=${checkOutDay}`, hostToken);
+	assert.equal((await later.json()).data.bookings.length, 0);
+
+	const otherHost = await get('/bookings/incoming', otherToken);
+	assert.equal((await otherHost.json()).data.bookings.length, 0);
+
+	assert.equal((await get('/bookings/incoming', customerToken)).status, 403);
+	assert.equal((await get('/bookings', hostToken)).status, 403);
+	assert.equal((await fetch(`${baseUrl}/bookings`)).status, 401);
+});
+
+test('only the booker and the listing owner can act on a booking', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const hostId = new mongoose.Types.ObjectId().toString();
+	const customerId = new mongoose.Types.ObjectId().toString();
+	const homestay = await HomestayModel.create({
+		title: 'Booking Access Test Cottage',
+		description: 'Created by the scoped bookings test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 },
+		hostId
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } }),
+			InvoiceModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } })
+		]);
+	});
+
+	const customerToken = await createTestToken('customer', customerId);
+	const hostToken = await createTestToken('host', hostId);
+	const otherCustomerToken = await createTestToken('customer');
+	const otherHostToken = await createTestToken('host');
+
+	const send = (method: string, path: string, token: string, body?: object) =>
+		fetch(`${baseUrl}${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+			body: body && JSON.stringify(body)
+		});
+
+	const checkIn = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+	const newCheckOut = new Date(checkIn.getTime() + 3 * 24 * 60 * 60 * 1000);
+	const day = (date: Date) => date.toISOString().split('T')[0];
+
+	const created = await send('POST', '/bookings', customerToken, {
+		listingType: 'homestay',
+		listingId: homestay._id.toString(),
+		checkIn: day(checkIn),
+		checkOut: day(checkOut),
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Access Tester', email: 'access@example.com', phone: '+91-9876543210' }
+	});
+	assert.equal(created.status, 201);
+	const bookingId = (await created.json()).data._id;
+	const newDates = { checkIn: day(checkIn), checkOut: day(newCheckOut) };
+
+	// Other customers and hosts cannot see or change the booking
+	for (const token of [otherCustomerToken, otherHostToken]) {
+		assert.equal((await send('GET', `/bookings/${bookingId}`, token)).status, 403);
+		assert.equal((await send('GET', `/bookings/${bookingId}/invoice`, token)).status, 403);
+		assert.equal((await send('GET', `/bookings/${bookingId}/credit-note`, token)).status, 403);
+		assert.equal((await send('PUT', `/bookings/${bookingId}/dates`, token, newDates)).status, 403);
+		assert.equal((await send('PUT', `/bookings/${bookingId}/cancel`, token, {})).status, 403);
+	}
+
+	// Only the listing owner manages it
+	assert.equal((await send('PUT', `/bookings/${bookingId}/confirm`, otherHostToken)).status, 403);
+	assert.equal((await send('PUT', `/bookings/${bookingId}/reject`, otherHostToken, {})).status, 403);
+	assert.equal((await send('PUT', `/bookings/${bookingId}/complete`, otherHostToken)).status, 403);
+	assert.equal((await BookingModel.findById(bookingId))?.status, 'pending');
+
+	// The booker and the listing owner can
+	assert.equal((await send('GET', `/bookings/${bookingId}`, customerToken)).status, 200);
+	assert.equal((await send('GET', `/bookings/${bookingId}`, hostToken)).status, 200);
+	assert.equal((await send('PUT', `/bookings/${bookingId}/dates`, customerToken, newDates)).status, 200);
+	assert.equal((await send('PUT', `/bookings/${bookingId}/confirm`, hostToken)).status, 200);
+	assert.equal((await send('GET', `/bookings/${bookingId}/invoice`, customerToken)).status, 200);
+	const cancelled = await send('PUT', `/bookings/${bookingId}/cancel`, customerToken, {});
+	assert.equal(cancelled.status, 200);
+	assert.equal((await cancelled.json()).data.cancelledBy, 'guest');
+
+	// A host who booked someone else's listing cancels as a guest; the owner as the host
+	const bookAsOtherHost = async () => {
+		const res = await send('POST', '/bookings', otherHostToken, {
+			listingType: 'homestay',
+			listingId: homestay._id.toString(),
+			checkIn: day(checkIn),
+			checkOut: day(checkOut),
+			guests: { adults: 1, children: 0 },
+			guestDetails: { name: 'Travelling Host', email: 'travelling-host@example.com', phone: '+91-9876543211' }
+		});
+		assert.equal(res.status, 201);
+		return (await res.json()).data._id;
+	};
+
+	const ownStay = await send('PUT', `/bookings/${await bookAsOtherHost()}/cancel`, otherHostToken, {});
+	assert.equal((await ownStay.json()).data.cancelledBy, 'guest');
+	const byOwner = await send('PUT', `/bookings/${await bookAsOtherHost()}/cancel`, hostToken, {});
+	assert.equal((await byOwner.json()).data.cancelledBy, 'host');
+
+	assert.equal((await send('GET', `/bookings/${new mongoose.Types.ObjectId()}`, customerToken)).status, 404);
+});
@@ -0,0 +1,84 @@
+/**
+ * Stay Length Test
+ *
+ * Bookings, quotes and date changes are limited to BOOKING_MAX_NIGHTS
+ * (default 30) nights, so one request cannot make the server store or
+ * price a night for every day of several years. Longer stays are
+ * rejected by validation before anything is loaded.
+ *
+ * Needs no database.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import {
+	bookingQuoteSchema,
+	changeBookingDatesSchema
+} from '../../src/validation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let server: Server | undefined;
+let baseUrl = '';
+
+before(async () => {
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(() => {
+	server?.close();
+});
+
+/**
+ * A stay of the given length starting 30 days from now.
+ */
+function stay(nights: number) {
+	const checkIn = new Date(Date.now() + 30 * DAY_MS);
+	const checkOut = new Date(checkIn.getTime() + nights * DAY_MS);
+
+	return {
+		listingType: 'homestay',
+		listingId: new mongoose.Types.ObjectId().toString(),
+		checkIn: checkIn.toISOString().split('T')[0],
+		checkOut: checkOut.toISOString().split('T')[0],
+		guests: { adults: 2, children: 0 }
+	};
+}
+
+test('stays longer than the maximum are rejected', async () => {
+	assert.equal(bookingQuoteSchema.safeParse(stay(30)).success, true);
+	assert.equal(bookingQuoteSchema.safeParse(stay(31)).success, false);
+	assert.equal(changeBookingDatesSchema.safeParse(stay(31)).success, false);
+
+	const quote = await fetch(`${baseUrl}/bookings/quote`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(stay(5 * 365))
+	});
+	assert.equal(quote.status, 400);
+	const body = await quote.json();
+	assert.ok(body.errors.some((error: { field: string }) => error.field === 'checkOut'));
+
+	const booking = await fetch(`${baseUrl}/bookings`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			...stay(31),
+			guestDetails: { name: 'Long Stay', email: 'long-stay@example.com', phone: '+91-9876543210' }
+		})
+	});
+	assert.equal(booking.status, 400);
+});
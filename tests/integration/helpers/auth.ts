@@ -0,0 +1,65 @@
+/**
+ * Test Access Tokens
+ *
+ * authenticate only accepts tokens of a live session whose user is
+ * active, so a test token needs both. createTestToken makes them (the
+ * user only if the ID has none yet) and removeTestTokens deletes what it
+ * made.
+ */
+
+import mongoose from 'mongoose';
+import { generateToken } from '../../../src/middleware/auth.middleware';
+import { UserModel } from '../../../src/models/users/User.model';
+import { SessionModel } from '../../../src/models/users/Session.model';
+
+const createdUserIds: string[] = [];
+const createdSessionIds: string[] = [];
+
+/**
+ * Signs an access token for a user with a new session.
+ *
+ * @param role - Role the token carries
+ * @param userId - Existing or new user ID (default: a new user)
+ */
+export async function createTestToken(
+	role: string,
+	userId: string = new mongoose.Types.ObjectId().toString()
+): Promise<string> {
+	const user = await UserModel.updateOne(
+		{ _id: userId },
+		{
+			$setOnInsert: {
+				email: `test-${userId}@example.com`,
+				password: 'not-a-password-hash',
+				name: 'Test User',
+				role,
+				isActive: true
+			}
+		},
+		{ upsert: true }
+	);
+
+	if (user.upsertedCount > 0) {
+		createdUserIds.push(userId);
+	}
+
+	const now = new Date();
+	const session = await SessionModel.create({
+		userId,
+		lastUsedAt: now,
+		expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
+	});
+	createdSessionIds.push(session._id.toString());
+
+	return generateToken(userId, role, session._id.toString());
+}
+
+/**
+ * Deletes the users and sessions made by createTestToken.
+ */
+export async function removeTestTokens(): Promise<void> {
+	await Promise.all([
+		UserModel.deleteMany({ _id: { $in: createdUserIds } }),
+		SessionModel.deleteMany({ _id: { $in: createdSessionIds } })
+	]);
+}
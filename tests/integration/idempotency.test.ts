@@ -0,0 +1,192 @@
+/**
+ * Idempotency Test
+ *
+ * Retries a booking POST with the same Idempotency-Key, as a mobile client
+ * on a flaky connection would, and checks that only one booking is made
+ * and the retry gets the original response. Reusing the key for a
+ * different request is rejected with 422. A first request whose client
+ * disconnects still completes, and its retry gets the stored response.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+import { IdempotencyKeyModel } from '../../src/models/idempotency/IdempotencyKey.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([ListingNightModel.init(), BookingModel.init(), IdempotencyKeyModel.init()]);
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+test('a retried booking with the same Idempotency-Key is created once', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const homestay = await HomestayModel.create({
+		title: 'Idempotency Test Cottage',
+		description: 'Created by the idempotency test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+	const key = randomUUID();
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } }),
+			IdempotencyKeyModel.deleteMany({ key })
+		]);
+	});
+
+	const checkIn = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+	const body = {
+		listingType: 'homestay',
+		listingId: homestay._id.toString(),
+		checkIn: checkIn.toISOString().split('T')[0],
+		checkOut: checkOut.toISOString().split('T')[0],
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Retry Tester', email: 'retry@example.com', phone: '+91-9876543210' }
+	};
+
+	const post = (payload: object) =>
+		fetch(`${baseUrl}/bookings`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+			body: JSON.stringify(payload)
+		});
+
+	const first = await post(body);
+	assert.equal(first.status, 201);
+	const created = (await first.json()).data;
+
+	const retry = await post(body);
+	assert.equal(retry.status, 201);
+	assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+	assert.equal((await retry.json()).data.bookingNumber, created.bookingNumber);
+
+	assert.equal(await BookingModel.countDocuments({ listingId: homestay._id }), 1);
+
+	const reused = await post({ ...body, specialRequests: 'Different request' });
+	assert.equal(reused.status, 422);
+});
+
+test('a retry after the client disconnected replays the first booking', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const homestay = await HomestayModel.create({
+		title: 'Idempotency Disconnect Cottage',
+		description: 'Created by the idempotency test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+	const key = randomUUID();
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookings.map((b) => b._id) } }),
+			IdempotencyKeyModel.deleteMany({ key })
+		]);
+	});
+
+	const checkIn = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+	const body = JSON.stringify({
+		listingType: 'homestay',
+		listingId: homestay._id.toString(),
+		checkIn: checkIn.toISOString().split('T')[0],
+		checkOut: checkOut.toISOString().split('T')[0],
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Dropped Tester', email: 'dropped@example.com', phone: '+91-9876543210' }
+	});
+
+	const post = (signal?: AbortSignal) =>
+		fetch(`${baseUrl}/bookings`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+			body,
+			signal
+		});
+
+	const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+	// Drop the connection as soon as the server has claimed the key
+	const controller = new AbortController();
+	const first = post(controller.signal).catch(() => undefined);
+
+	while (!(await IdempotencyKeyModel.exists({ key }))) {
+		await sleep(2);
+	}
+	controller.abort();
+	await first;
+
+	// The first request finishes without its client
+	for (let waited = 0; waited < 5000; waited += 20) {
+		const record = await IdempotencyKeyModel.findOne({ key });
+		assert.ok(record, 'key was released on disconnect');
+		if (record.status === 'completed') {
+			break;
+		}
+		await sleep(20);
+	}
+
+	const retry = await post();
+	assert.equal(retry.status, 201);
+	assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+	assert.equal(await BookingModel.countDocuments({ listingId: homestay._id }), 1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Invoice Numbering Test
+ *
+ * Parallel requests for the same booking's invoice issue one invoice,
+ * and the number drawn by the request that lost is handed out next, so
+ * the GST invoice series has no gaps.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { InvoiceModel } from '../../src/models/invoices/Invoice.model';
+import {
+	CounterModel,
+	getNextInvoiceNumber,
+	releaseInvoiceNumber
+} from '../../src/models/counters/Counter.model';
+import { issueInvoice } from '../../src/services/invoices/invoice.service';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+/** A past financial year no other test issues numbers in */
+const TEST_FINANCIAL_YEAR = '1999-00';
+
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await InvoiceModel.init();
+});
+
+after(async () => {
+	if (connected) {
+		await mongoose.disconnect();
+	}
+});
+
+test('invoice numbers are issued once and without gaps', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const booking = new BookingModel({
+		bookingNumber: 'JY-1999-000001',
+		listingType: 'homestay',
+		listingId: new mongoose.Types.ObjectId(),
+		listingTitle: 'Invoice Numbering Test Cottage',
+		checkIn: new Date('2030-01-10'),
+		checkOut: new Date('2030-01-12'),
+		nights: 2,
+		guests: { adults: 2, children: 0 },
+		guestDetails: { name: 'Numbering Tester', email: 'numbering@example.com', phone: '+91-9876543210' },
+		pricing: { basePrice: 3000, serviceFee: 300, total: 3564 },
+		status: 'confirmed',
+		paymentStatus: 'completed'
+	});
+
+	t.after(async () => {
+		await Promise.all([
+			InvoiceModel.deleteMany({ bookingId: booking._id }),
+			CounterModel.deleteOne({ _id: `invoice:${TEST_FINANCIAL_YEAR}` })
+		]);
+	});
+
+	// Parallel requests get the same invoice
+	const issued = await Promise.all([issueInvoice(booking), issueInvoice(booking), issueInvoice(booking)]);
+	assert.equal(new Set(issued.map((invoice) => invoice.invoiceNumber)).size, 1);
+	assert.equal(await InvoiceModel.countDocuments({ bookingId: booking._id }), 1);
+
+	// A released number is issued again before new ones, lowest first
+	const first = await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR);
+	const second = await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR);
+	const third = await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR);
+
+	await releaseInvoiceNumber('invoice', TEST_FINANCIAL_YEAR, third);
+	await releaseInvoiceNumber('invoice', TEST_FINANCIAL_YEAR, second);
+
+	assert.equal(await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR), second);
+	assert.equal(await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR), third);
+
+	const next = await getNextInvoiceNumber('invoice', TEST_FINANCIAL_YEAR);
+	assert.equal(parseInt(next.slice(-6), 10), parseInt(third.slice(-6), 10) + 1);
+	assert.notEqual(next, first);
+});
@@ -0,0 +1,166 @@
+/**
+ * Job Queue Test
+ *
+ * Runs queue workers in-process against the jobs collection: a due job is
+ * leased by one worker only, a failed run is retried after a backoff, a
+ * job out of attempts is marked failed until retried, and a job whose
+ * worker's lease ran out is taken over. The admin job list shows failed
+ * jobs unless asked for another status.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { JobModel } from '../../src/models/jobs/Job.model';
+import { defineJob, enqueueJob, retryJob, runNextJob } from '../../src/services/jobs/job.queue';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+/** Job names unique to this run, so other data in the database is never claimed */
+const FLAKY_JOB = `test.flaky.${Date.now()}`;
+const BROKEN_JOB = `test.broken.${Date.now()}`;
+const LISTED_JOB = `test.listed.${Date.now()}`;
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await JobModel.init();
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await JobModel.deleteMany({ name: { $in: [FLAKY_JOB, BROKEN_JOB, LISTED_JOB] } });
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+test('a due job runs on one worker at a time and is retried with backoff', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	let runs = 0;
+	defineJob(FLAKY_JOB, async () => {
+		runs++;
+		if (runs === 1) {
+			throw new Error('Temporary outage');
+		}
+	}, { maxAttempts: 2, backoffMs: 60000 });
+
+	const job = await enqueueJob(FLAKY_JOB, { step: 1 });
+
+	// Two workers race for the job; only one gets the lease
+	const claimed = await Promise.all([runNextJob(), runNextJob()]);
+	assert.equal(claimed.filter(Boolean).length, 1);
+	assert.equal(runs, 1);
+
+	const retrying = await JobModel.findById(job._id);
+	assert.equal(retrying?.status, 'queued');
+	assert.equal(retrying?.attempts, 1);
+	assert.equal(retrying?.lastError, 'Temporary outage');
+	assert.ok(retrying!.runAt.getTime() > Date.now() + 30000);
+
+	// Not due yet
+	assert.equal(await runNextJob(), false);
+
+	await JobModel.updateOne({ _id: job._id }, { $set: { runAt: new Date() } });
+	assert.equal(await runNextJob(), true);
+	assert.equal(runs, 2);
+
+	const completed = await JobModel.findById(job._id);
+	assert.equal(completed?.status, 'completed');
+	assert.equal(completed?.lockedBy, undefined);
+});
+
+test('a job out of attempts fails until retried, and an expired lease is taken over', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	defineJob(BROKEN_JOB, async () => {
+		throw new Error('Always broken');
+	}, { maxAttempts: 1 });
+
+	const job = await enqueueJob(BROKEN_JOB);
+	assert.equal(await runNextJob(), true);
+
+	const failed = await JobModel.findById(job._id);
+	assert.equal(failed?.status, 'failed');
+	assert.ok(failed?.failedAt);
+
+	const retried = await retryJob(job._id.toString());
+	assert.equal(retried?.status, 'queued');
+	assert.equal(retried?.attempts, 0);
+	assert.equal(await retryJob(job._id.toString()), null);
+
+	// A worker took the job and died without renewing its lease
+	await JobModel.updateOne(
+		{ _id: job._id },
+		{ $set: { status: 'running', lockedBy: 'crashed-worker', lockedUntil: new Date(Date.now() - 1000) } }
+	);
+	assert.equal(await runNextJob(), true);
+
+	const takenOver = await JobModel.findById(job._id);
+	assert.equal(takenOver?.status, 'failed');
+	assert.equal(takenOver?.attempts, 1);
+	assert.equal(takenOver?.lockedBy, undefined);
+
+	// Unique keys queue a job once
+	const first = await enqueueJob(BROKEN_JOB, {}, { uniqueKey: `${BROKEN_JOB}@slot` });
+	const second = await enqueueJob(BROKEN_JOB, {}, { uniqueKey: `${BROKEN_JOB}@slot` });
+	assert.equal(first._id.toString(), second._id.toString());
+});
+
+test('the job list shows failed jobs by default', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const [failed, completed] = await JobModel.create([
+		{ name: LISTED_JOB, status: 'failed', failedAt: new Date() },
+		{ name: LISTED_JOB, status: 'completed' }
+	]);
+
+	const token = await createTestToken('admin');
+	const response = await fetch(`${baseUrl}/jobs`, { headers: { Authorization: `Bearer ${token}` } });
+	assert.equal(response.status, 200);
+
+	const { jobs } = (await response.json()).data;
+	const ids = jobs.map((job: { _id: string }) => job._id);
+	assert.ok(jobs.every((job: { status: string }) => job.status === 'failed'));
+	assert.ok(ids.includes(failed._id.toString()));
+	assert.ok(!ids.includes(completed._id.toString()));
+});
@@ -0,0 +1,167 @@
+/**
+ * Listing Ownership Test
+ *
+ * A homestay created by a host belongs to that host: it shows up in their
+ * /homestays/mine, and other hosts cannot change it. A guide claims one
+ * unowned guide profile, can then edit it, and cannot claim a second one.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { GuideModel } from '../../src/models/guides/Guide.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await GuideModel.init();
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, token: string, body?: object) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+		body: body && JSON.stringify(body)
+	});
+}
+
+test('hosts only manage their own homestays', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const hostId = new mongoose.Types.ObjectId().toString();
+	const hostToken = await createTestToken('host', hostId);
+	const otherHostToken = await createTestToken('host');
+
+	const created = await send('POST', '/homestays', hostToken, {
+		title: 'Ownership Test Cottage',
+		description: 'Created by the ownership test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 },
+		// Ignored: the owner comes from the token
+		hostId: new mongoose.Types.ObjectId().toString()
+	});
+	assert.equal(created.status, 201);
+	const homestay = (await created.json()).data;
+	assert.equal(homestay.hostId, hostId);
+
+	// An unowned homestay, as created before listings had owners
+	const legacy = await HomestayModel.create({
+		title: 'Ownership Test Legacy Cottage',
+		description: 'Created by the ownership test without a host',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+
+	t.after(async () => {
+		await HomestayModel.deleteMany({ _id: { $in: [homestay._id, legacy._id] } });
+	});
+
+	const mine = await send('GET', '/homestays/mine', hostToken);
+	assert.equal(mine.status, 200);
+	assert.deepEqual((await mine.json()).data.homestays.map((h: { _id: string }) => h._id), [homestay._id]);
+
+	assert.equal((await send('PUT', `/homestays/${homestay._id}`, otherHostToken, { title: 'Taken' })).status, 403);
+	assert.equal((await send('DELETE', `/homestays/${homestay._id}`, otherHostToken)).status, 403);
+	assert.equal((await send('GET', `/homestays/${homestay._id}/blocks`, otherHostToken)).status, 403);
+	assert.equal((await send('PUT', `/homestays/${legacy._id}`, hostToken, { title: 'Taken' })).status, 403);
+
+	const updated = await send('PUT', `/homestays/${homestay._id}`, hostToken, { title: 'Ownership Test Cottage (renamed)' });
+	assert.equal(updated.status, 200);
+
+	const missing = await send('PUT', `/homestays/${new mongoose.Types.ObjectId()}`, hostToken, { title: 'Nothing' });
+	assert.equal(missing.status, 404);
+});
+
+test('a guide claims exactly one unowned guide profile', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const guideUserId = new mongoose.Types.ObjectId().toString();
+	const guideToken = await createTestToken('guide', guideUserId);
+	const otherGuideToken = await createTestToken('guide');
+
+	const profile = {
+		bio: 'Created by the ownership test',
+		specializations: ['Wildlife'],
+		languages: ['Hindi'],
+		experience: '5 years',
+		location: { district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { halfDay: 1000, fullDay: 1800 }
+	};
+	const [first, second] = await GuideModel.create([
+		{ ...profile, name: 'Ownership Test Guide One' },
+		{ ...profile, name: 'Ownership Test Guide Two' }
+	]);
+
+	t.after(async () => {
+		await GuideModel.deleteMany({ _id: { $in: [first._id, second._id] } });
+	});
+
+	assert.equal((await send('PUT', `/guides/${first._id}`, guideToken, { bio: 'Not mine yet' })).status, 403);
+
+	const claimed = await send('POST', `/guides/${first._id}/claim`, guideToken);
+	assert.equal(claimed.status, 200);
+	assert.equal((await claimed.json()).data.userId, guideUserId);
+
+	// Claiming again is harmless; claiming someone else's is not
+	assert.equal((await send('POST', `/guides/${first._id}/claim`, guideToken)).status, 200);
+	assert.equal((await send('POST', `/guides/${first._id}/claim`, otherGuideToken)).status, 409);
+
+	// One profile per account
+	assert.equal((await send('POST', `/guides/${second._id}/claim`, guideToken)).status, 409);
+	assert.equal((await GuideModel.findById(second._id))?.userId, undefined);
+
+	assert.equal((await send('PUT', `/guides/${first._id}`, guideToken, { bio: 'Now mine' })).status, 200);
+	assert.equal((await send('PUT', `/guides/${first._id}`, otherGuideToken, { bio: 'Taken' })).status, 403);
+
+	const customerToken = await createTestToken('customer');
+	assert.equal((await send('POST', `/guides/${second._id}/claim`, customerToken)).status, 403);
+});
@@ -0,0 +1,299 @@
+/**
+ * Payments Test
+ *
+ * Runs the pay flow against the mock gateway: create an order, deliver
+ * a signed webhook, and check the booking's paymentStatus. Also checks
+ * that bad signatures are rejected, redelivered events apply once, and
+ * cancelling a paid booking creates a refund that settles the payment
+ * and is credited against the booking's GST invoice. Paid bookings cannot
+ * change dates. A booking paid on two orders stays paid and the extra
+ * payment is refunded.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { captureRawBody } from '../../src/middleware/rawBody.middleware';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { HomestayModel } from '../../src/models/homestays/Homestay.model';
+import { BookingModel } from '../../src/models/bookings/Booking.model';
+import { ListingNightModel } from '../../src/models/inventory/ListingNight.model';
+import { PaymentModel } from '../../src/models/payments/Payment.model';
+import { RefundModel } from '../../src/models/payments/Refund.model';
+import { InvoiceModel } from '../../src/models/invoices/Invoice.model';
+import { getPaymentGateway, isMockGateway } from '../../src/services/payments';
+import { processRefund } from '../../src/services/payments/refund.service';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+/** Customer who makes, reads and cancels the test bookings */
+const auth = { Authorization: '' };
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([ListingNightModel.init(), BookingModel.init(), PaymentModel.init(), RefundModel.init(), InvoiceModel.init()]);
+	auth.Authorization = `Bearer ${await createTestToken('customer')}`;
+
+	const app = express();
+	app.use(express.json({ verify: captureRawBody }));
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+/**
+ * Creates a test homestay and books it 45 days out (removed after the test).
+ */
+async function createBooking(t: TestContext) {
+	const homestay = await HomestayModel.create({
+		title: 'Payments Test Cottage',
+		description: 'Created by the payments test',
+		propertyType: 'entire',
+		location: { address: 'Test Road', district: 'Ranchi', state: 'Jharkhand' },
+		pricing: { basePrice: 1500 },
+		capacity: { guests: 4, bedrooms: 2, beds: 2, bathrooms: 1 }
+	});
+
+	t.after(async () => {
+		const bookings = await BookingModel.find({ listingId: homestay._id }).select('_id');
+		const bookingIds = bookings.map((b) => b._id);
+		await Promise.all([
+			HomestayModel.deleteOne({ _id: homestay._id }),
+			BookingModel.deleteMany({ listingId: homestay._id }),
+			ListingNightModel.deleteMany({ bookingId: { $in: bookingIds } }),
+			PaymentModel.deleteMany({ bookingId: { $in: bookingIds } }),
+			RefundModel.deleteMany({ bookingId: { $in: bookingIds } }),
+			InvoiceModel.deleteMany({ bookingId: { $in: bookingIds } })
+		]);
+	});
+
+	const checkIn = new Date(Date.now() + 45 * 24 * 60 * 60 * 1000);
+	const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+	const response = await fetch(`${baseUrl}/bookings`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...auth },
+		body: JSON.stringify({
+			listingType: 'homestay',
+			listingId: homestay._id.toString(),
+			checkIn: checkIn.toISOString().split('T')[0],
+			checkOut: checkOut.toISOString().split('T')[0],
+			guests: { adults: 2, children: 0 },
+			guestDetails: { name: 'Pay Tester', email: 'pay@example.com', phone: '+91-9876543210' }
+		})
+	});
+	assert.equal(response.status, 201);
+
+	return (await response.json()).data;
+}
+
+/**
+ * Creates a payment order for a booking.
+ */
+async function createOrder(bookingId: string) {
+	const response = await fetch(`${baseUrl}/payments/orders`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ bookingId })
+	});
+	assert.equal(response.status, 201);
+
+	return (await response.json()).data;
+}
+
+/**
+ * Pays or fails a mock order.
+ */
+async function payOrder(orderId: string, outcome: 'success' | 'failure') {
+	const response = await fetch(`${baseUrl}/payments/mock/orders/${orderId}/pay`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ outcome })
+	});
+	assert.equal(response.status, 200);
+
+	return (await response.json()).data;
+}
+
+test('a signed mock webhook marks the booking paid exactly once', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const gateway = getPaymentGateway();
+	assert.ok(isMockGateway(gateway), 'PAYMENT_GATEWAY must be mock for this test');
+
+	const booking = await createBooking(t);
+	const order = await createOrder(booking._id);
+	assert.equal(order.amount, booking.pricing.total);
+
+	const webhook = gateway.simulatePayment(order.orderId, order.amount, 'success');
+	const deliver = (signature: string) =>
+		fetch(`${baseUrl}/payments/webhook`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Razorpay-Signature': signature,
+				'X-Razorpay-Event-Id': webhook.eventId
+			},
+			body: webhook.rawBody
+		});
+
+	assert.equal((await deliver('0'.repeat(64))).status, 400);
+
+	const first = await deliver(webhook.signature);
+	assert.equal((await first.json()).data.outcome, 'applied');
+
+	const redelivered = await deliver(webhook.signature);
+	assert.equal((await redelivered.json()).data.outcome, 'duplicate');
+
+	const payment = await PaymentModel.findOne({ orderId: order.orderId });
+	assert.equal(payment?.status, 'completed');
+	assert.equal(payment?.events.length, 1);
+
+	const paidBooking = await BookingModel.findById(booking._id);
+	assert.equal(paidBooking?.paymentStatus, 'completed');
+});
+
+test('cancelling a paid booking creates a refund; the booking is refunded and credited only when it succeeds', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const booking = await createBooking(t);
+	const order = await createOrder(booking._id);
+
+	const payResponse = await fetch(`${baseUrl}/payments/mock/orders/${order.orderId}/pay`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ outcome: 'success' })
+	});
+	assert.equal((await payResponse.json()).data.outcome, 'applied');
+
+	const invoiceResponse = await fetch(`${baseUrl}/bookings/${booking._id}/invoice`, { headers: auth });
+	const invoice = (await invoiceResponse.json()).data;
+	assert.match(invoice.invoiceNumber, /^JY\/\d{2}-\d{2}\/\d{6}$/);
+	assert.equal(invoice.totals.total, booking.pricing.total);
+	assert.equal((await fetch(`${baseUrl}/bookings/${booking._id}/credit-note`, { headers: auth })).status, 404);
+
+	// Paid and invoiced bookings keep their price, so their dates are fixed
+	const moveResponse = await fetch(`${baseUrl}/bookings/${booking._id}/dates`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json', ...auth },
+		body: JSON.stringify({ checkIn: booking.checkIn.split('T')[0], checkOut: booking.checkOut.split('T')[0] })
+	});
+	assert.equal(moveResponse.status, 409);
+	assert.equal((await BookingModel.findById(booking._id))?.pricing.total, booking.pricing.total);
+
+	const cancelResponse = await fetch(`${baseUrl}/bookings/${booking._id}/cancel`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json', ...auth },
+		body: JSON.stringify({ reason: 'Refund test' })
+	});
+	const cancelled = (await cancelResponse.json()).data;
+	assert.equal(cancelled.refundStatus, 'requested');
+
+	const refund = await RefundModel.findOne({ bookingId: booking._id });
+	assert.equal(refund?.status, 'requested');
+	assert.equal(refund?.amount, cancelled.refundAmount);
+	assert.equal((await BookingModel.findById(booking._id))?.paymentStatus, 'completed');
+
+	const processed = await processRefund(refund!._id);
+	assert.equal(processed?.status, 'succeeded');
+	assert.ok(processed?.referenceId);
+
+	const refundedBooking = await BookingModel.findById(booking._id);
+	assert.equal(refundedBooking?.paymentStatus, 'refunded');
+	assert.equal(refundedBooking?.cancellation?.refundStatus, 'succeeded');
+	assert.equal((await PaymentModel.findOne({ orderId: order.orderId }))?.status, 'refunded');
+
+	const creditNoteResponse = await fetch(`${baseUrl}/bookings/${booking._id}/credit-note`, { headers: auth });
+	const creditNote = (await creditNoteResponse.json()).data;
+	assert.equal(creditNote.originalInvoiceNumber, invoice.invoiceNumber);
+	assert.equal(creditNote.totals.total, refund?.amount);
+
+	const pdf = await fetch(`${baseUrl}/bookings/${booking._id}/credit-note?format=pdf`, { headers: auth });
+	assert.equal(pdf.headers.get('content-type'), 'application/pdf');
+	assert.equal(Buffer.from(await pdf.arrayBuffer()).subarray(0, 4).toString(), '%PDF');
+
+	// A refund is processed once
+	assert.equal(await processRefund(refund!._id), null);
+});
+
+test('a booking paid on two orders stays paid and the extra payment is refunded', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const booking = await createBooking(t);
+	const older = await createOrder(booking._id);
+	const newer = await createOrder(booking._id);
+
+	assert.equal((await payOrder(newer.orderId, 'success')).outcome, 'applied');
+
+	// A late failure of the older order does not unpay the booking
+	assert.equal((await payOrder(older.orderId, 'failure')).outcome, 'applied');
+	assert.equal((await BookingModel.findById(booking._id))?.paymentStatus, 'completed');
+
+	// Paying the older order too is refunded in full
+	assert.equal((await payOrder(older.orderId, 'success')).outcome, 'applied');
+	const duplicate = await PaymentModel.findOne({ orderId: older.orderId });
+	assert.equal(duplicate?.duplicate, true);
+
+	const refund = await RefundModel.findOne({ paymentId: duplicate?._id });
+	assert.equal(refund?.type, 'duplicate_payment');
+	assert.equal(refund?.amount, older.amount);
+	assert.equal((await processRefund(refund!._id))?.status, 'succeeded');
+	assert.equal((await PaymentModel.findById(duplicate?._id))?.status, 'refunded');
+
+	const stillPaid = await BookingModel.findById(booking._id);
+	assert.equal(stillPaid?.paymentStatus, 'completed');
+	assert.equal(stillPaid?.cancellation, undefined);
+	assert.equal(await InvoiceModel.findOne({ bookingId: booking._id, type: 'credit_note' }), null);
+
+	// Cancelling refunds the order that paid the booking
+	const cancelResponse = await fetch(`${baseUrl}/bookings/${booking._id}/cancel`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json', ...auth },
+		body: JSON.stringify({ reason: 'Duplicate payment test' })
+	});
+	assert.equal(cancelResponse.status, 200);
+	const cancellationRefund = await RefundModel.findOne({ bookingId: booking._id, type: 'cancellation' });
+	assert.equal(
+		cancellationRefund?.paymentId.toString(),
+		(await PaymentModel.findOne({ orderId: newer.orderId }))?._id.toString()
+	);
+});
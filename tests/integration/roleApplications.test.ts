@@ -0,0 +1,169 @@
+/**
+ * Role Application Test
+ *
+ * Registration ignores a requested role. A customer applies to become a
+ * host, an admin approves, and the new role shows up in the next login
+ * token and in the role change log. Rejections need a reason and leave
+ * the role alone. The review queue lists pending applications by default.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { UserModel } from '../../src/models/users/User.model';
+import { RoleApplicationModel } from '../../src/models/users/RoleApplication.model';
+import { RoleChangeModel } from '../../src/models/users/RoleChange.model';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const EMAIL = 'role-applicant@example.com';
+const PASSWORD = 'Applicant123';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	await Promise.all([UserModel.init(), RoleApplicationModel.init()]);
+	await UserModel.deleteOne({ email: EMAIL });
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, token?: string, body?: object) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: {
+			'Content-Type': 'application/json',
+			...(token ? { Authorization: `Bearer ${token}` } : {})
+		},
+		body: body && JSON.stringify(body)
+	});
+}
+
+test('a customer becomes a host through an approved application', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const registered = await send('POST', '/auth/register', undefined, {
+		email: EMAIL,
+		password: PASSWORD,
+		name: 'Role Applicant',
+		role: 'admin'
+	});
+	assert.equal(registered.status, 201);
+	const { user, token } = (await registered.json()).data;
+	assert.equal(user.role, 'customer');
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: user.id }),
+			RoleApplicationModel.deleteMany({ userId: user.id }),
+			RoleChangeModel.deleteMany({ userId: user.id })
+		]);
+	});
+
+	const adminToken = await createTestToken('admin');
+	const application = {
+		requestedRole: 'host',
+		details: {
+			phone: '+91-9876543210',
+			about: 'I run a small homestay near Netarhat and want to list it.'
+		}
+	};
+
+	const applied = await send('POST', '/role-applications', token, application);
+	assert.equal(applied.status, 201);
+	const applicationId = (await applied.json()).data._id;
+
+	assert.equal((await send('POST', '/role-applications', token, application)).status, 409);
+	assert.equal((await send('GET', '/role-applications', token)).status, 403);
+	assert.equal((await send('PUT', `/role-applications/${applicationId}/approve`, token, {})).status, 403);
+
+	const queue = await send('GET', '/role-applications?requestedRole=host', adminToken);
+	assert.equal(queue.status, 200);
+	const queued = (await queue.json()).data.applications
+		.find((a: { _id: string }) => a._id === applicationId);
+	assert.equal(queued.userId.email, EMAIL);
+
+	const approved = await send('PUT', `/role-applications/${applicationId}/approve`, adminToken, {});
+	assert.equal(approved.status, 200);
+	assert.equal((await approved.json()).data.status, 'approved');
+
+	// Reviewed once only
+	assert.equal((await send('PUT', `/role-applications/${applicationId}/reject`, adminToken, { reason: 'Late' })).status, 409);
+
+	const changes = await RoleChangeModel.find({ userId: user.id });
+	assert.equal(changes.length, 1);
+	assert.equal(changes[0].fromRole, 'customer');
+	assert.equal(changes[0].toRole, 'host');
+	assert.equal(changes[0].applicationId?.toString(), applicationId);
+
+	// The old token keeps its role; the next one carries the new role
+	assert.equal((jwt.decode(token) as { role: string }).role, 'customer');
+	const login = await send('POST', '/auth/login', undefined, { email: EMAIL, password: PASSWORD });
+	const { token: hostToken } = (await login.json()).data;
+	assert.equal((jwt.decode(hostToken) as { role: string }).role, 'host');
+
+	// A rejection needs a reason and changes nothing
+	const second = await send('POST', '/role-applications', hostToken, { ...application, requestedRole: 'guide' });
+	assert.equal(second.status, 201);
+	const secondId = (await second.json()).data._id;
+
+	assert.equal((await send('PUT', `/role-applications/${secondId}/reject`, adminToken, {})).status, 400);
+	const rejected = await send('PUT', `/role-applications/${secondId}/reject`, adminToken, { reason: 'No guide licence' });
+	assert.equal(rejected.status, 200);
+	assert.equal((await UserModel.findById(user.id))?.role, 'host');
+	assert.equal(await RoleChangeModel.countDocuments({ userId: user.id }), 1);
+
+	const mine = await send('GET', '/role-applications/mine', hostToken);
+	assert.deepEqual(
+		(await mine.json()).data.map((a: { status: string }) => a.status),
+		['rejected', 'approved']
+	);
+
+	// The review queue shows pending applications only
+	const pending = await send('GET', '/role-applications', adminToken);
+	assert.equal(pending.status, 200);
+	const listed = (await pending.json()).data.applications;
+	assert.ok(listed.every((a: { status: string }) => a.status === 'pending'));
+	assert.ok(!listed.some((a: { _id: string }) => a._id === applicationId || a._id === secondId));
+});
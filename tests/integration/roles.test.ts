@@ -0,0 +1,132 @@
+/**
+ * Role Permissions Test
+ *
+ * Roles are seeded from the defaults, /auth/me lists the caller's
+ * permissions, and an admin edit takes effect on the next request
+ * without a new token. The admin role cannot lose '*'.
+ *
+ * Requires a running MongoDB (TEST_MONGO_URI, default: local test database).
+ * The test is skipped when no database is reachable.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import apiRouter from '../../src/routes';
+import { createTestToken, removeTestTokens } from './helpers/auth';
+import { UserModel } from '../../src/models/users/User.model';
+import { RoleModel } from '../../src/models/roles/Role.model';
+import { DEFAULT_ROLES, invalidatePermissionCache } from '../../src/services/roles/permission.store';
+
+const MONGO_URI =
+	process.env.TEST_MONGO_URI || 'mongodb://localhost:27017/sih-2025-jharkhand-tourism-test';
+
+// Fast hashing for test accounts
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+let server: Server | undefined;
+let baseUrl = '';
+let connected = false;
+
+before(async () => {
+	try {
+		await mongoose.connect(MONGO_URI, { serverSelectionTimeoutMS: 2000 });
+		connected = true;
+	} catch {
+		return;
+	}
+
+	const app = express();
+	app.use(express.json());
+	app.use('/api/v1', apiRouter);
+
+	server = app.listen(0);
+	await new Promise((resolve) => server?.once('listening', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+after(async () => {
+	server?.close();
+	if (connected) {
+		await removeTestTokens();
+		await mongoose.disconnect();
+	}
+});
+
+function send(method: string, path: string, token: string, body?: object) {
+	return fetch(`${baseUrl}${path}`, {
+		method,
+		headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+		body: body && JSON.stringify(body)
+	});
+}
+
+test('admins edit role permissions and they apply without a new token', async (t) => {
+	if (!connected) {
+		t.skip(`MongoDB not reachable at ${MONGO_URI}`);
+		return;
+	}
+
+	const customer = await UserModel.create({
+		email: 'roles-test-customer@example.com',
+		password: 'Customer123',
+		name: 'Roles Test Customer'
+	});
+
+	t.after(async () => {
+		await Promise.all([
+			UserModel.deleteOne({ _id: customer._id }),
+			RoleModel.updateOne({ _id: 'customer' }, { $set: { permissions: DEFAULT_ROLES.customer.permissions } })
+		]);
+		invalidatePermissionCache();
+	});
+
+	const adminToken = await createTestToken('admin');
+	const customerToken = await createTestToken('customer', customer._id.toString());
+
+	const roles = await send('GET', '/roles', adminToken);
+	assert.equal(roles.status, 200);
+	assert.deepEqual(
+		(await roles.json()).data.map((role: { _id: string }) => role._id),
+		['admin', 'customer', 'guide', 'host']
+	);
+	assert.equal((await send('GET', '/roles', customerToken)).status, 403);
+
+	const me = await send('GET', '/auth/me', customerToken);
+	assert.equal(me.status, 200);
+	const profile = (await me.json()).data;
+	assert.equal(profile.email, 'roles-test-customer@example.com');
+	assert.ok(profile.permissions.includes('booking:create'));
+	assert.ok(!profile.permissions.includes('review:moderate'));
+
+	// Take profile:read away and add a new permission
+	const permissions = [
+		...DEFAULT_ROLES.customer.permissions.filter((p) => p !== 'profile:read'),
+		'review:moderate',
+		'review:moderate'
+	];
+	const updated = await send('PUT', '/roles/customer', adminToken, { permissions });
+	assert.equal(updated.status, 200);
+	const role = (await updated.json()).data;
+	assert.equal(role.permissions.filter((p: string) => p === 'review:moderate').length, 1);
+
+	assert.equal((await send('GET', '/auth/me', customerToken)).status, 403);
+
+	const restored = await send('PUT', '/roles/customer', adminToken, {
+		permissions: [...permissions, 'profile:read']
+	});
+	assert.equal(restored.status, 200);
+	const meAgain = await send('GET', '/auth/me', customerToken);
+	assert.equal(meAgain.status, 200);
+	assert.ok((await meAgain.json()).data.permissions.includes('review:moderate'));
+
+	// Bad input and admin lock-out
+	assert.equal((await send('PUT', '/roles/customer', adminToken, { permissions: ['Not A Permission'] })).status, 400);
+	assert.equal((await send('PUT', '/roles/admin', adminToken, { permissions: ['profile:read'] })).status, 400);
+	assert.equal((await send('PUT', '/roles/superuser', adminToken, { permissions: [] })).status, 400);
+});
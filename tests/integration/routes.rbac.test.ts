@@ -0,0 +1,117 @@
+/**
+ * Route Protection Test
+ *
+ * Walks every route registered on the API router and checks that each
+ * route changing data (POST, PUT, PATCH, DELETE) runs `authenticate`
+ * before its controller, except the few that are public on purpose
+ * (login, guest checkout, the signature-verified webhook, ...).
+ *
+ * A new mutating route without authentication fails this test until it
+ * is protected or added to PUBLIC_MUTATIONS. An authenticated one must
+ * also check a permission, role or ownership (requirePermission,
+ * requireRole or requireOwnership) after `authenticate`.
+ *
+ * Needs no database.
+ *
+ * Run with: npm test
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Router } from 'express';
+import apiRouter from '../../src/routes';
+import { authenticate } from '../../src/middleware/auth.middleware';
+import { isAuthorizationGuard } from '../../src/middleware/rbac.middleware';
+
+/** Controllers of mutating routes that are public on purpose */
+const PUBLIC_MUTATIONS = new Set([
+	'register',
+	'login',
+	'refreshToken',
+	'logout',
+	'forgotPassword',
+	'resetPassword',
+	'createBooking',
+	'getBookingQuote',
+	'lookupBooking',
+	'cancelGuestBooking',
+	'createPaymentOrder',
+	'receivePaymentWebhook',
+	'payMockOrder'
+]);
+
+const MUTATING_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+
+interface RegisteredRoute {
+	method: string;
+	path: string;
+	controller: string;
+	handlers: Function[];
+}
+
+/**
+ * Collects the routes of a router and of every router mounted on it.
+ */
+function collectRoutes(router: Router): RegisteredRoute[] {
+	const routes: RegisteredRoute[] = [];
+
+	for (const layer of router.stack) {
+		if (layer.route) {
+			const handlers = layer.route.stack.map((routeLayer) => routeLayer.handle);
+			const methods = new Set(layer.route.stack.map((routeLayer) => routeLayer.method));
+
+			for (const method of methods) {
+				routes.push({
+					method,
+					path: layer.route.path,
+					controller: handlers[handlers.length - 1].name,
+					handlers
+				});
+			}
+		} else if ((layer.handle as unknown as Router).stack) {
+			routes.push(...collectRoutes(layer.handle as unknown as Router));
+		}
+	}
+
+	return routes;
+}
+
+test('every mutating route requires authentication unless it is public on purpose', () => {
+	const routes = collectRoutes(apiRouter);
+	const mutating = routes.filter((route) => MUTATING_METHODS.has(route.method));
+
+	assert.ok(mutating.length > 0, 'No routes found on the API router');
+
+	const unprotected = mutating
+		.filter((route) => !PUBLIC_MUTATIONS.has(route.controller))
+		.filter((route) => {
+			const authIndex = route.handlers.indexOf(authenticate);
+			return authIndex === -1 || authIndex === route.handlers.length - 1;
+		})
+		.map((route) => `${route.method.toUpperCase()} ${route.path} (${route.controller})`);
+
+	assert.deepEqual(unprotected, [], `Routes without authentication:\n${unprotected.join('\n')}`);
+
+	// Keep the allow list honest: every entry must still be a mutating route
+	const controllers = new Set(mutating.map((route) => route.controller));
+	const stale = [...PUBLIC_MUTATIONS].filter((controller) => !controllers.has(controller));
+	assert.deepEqual(stale, [], `PUBLIC_MUTATIONS lists unknown controllers: ${stale.join(', ')}`);
+});
+
+test('every authenticated mutating route checks permission, role or ownership', () => {
+	const routes = collectRoutes(apiRouter);
+	const authenticated = routes.filter((route) =>
+		MUTATING_METHODS.has(route.method) && route.handlers.includes(authenticate)
+	);
+
+	assert.ok(authenticated.length > 0, 'No authenticated routes found on the API router');
+
+	const unguarded = authenticated
+		.filter((route) => {
+			const authIndex = route.handlers.indexOf(authenticate);
+			return !route.handlers.slice(authIndex + 1, -1).some((handler) => isAuthorizationGuard(handler));
+		})
+		.map((route) => `${route.method.toUpperCase()} ${route.path} (${route.controller})`);
+
+	assert.deepEqual(unguarded, [], `Routes without an authorization check:\n${unguarded.join('\n')}`);
+});